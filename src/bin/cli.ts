@@ -1,38 +1,69 @@
-import { Command } from 'commander';
+import { Command, InvalidArgumentError } from 'commander';
 import { search } from '@inquirer/prompts';
-import { executeAddCommandInteractive } from '../orchestrators/add-orchestrator.js';
-import { executeRemoveCommandInteractive } from '../orchestrators/rm-orchestrator.js';
-import { executeCodeCommandInteractive } from '../orchestrators/code-orchestrator.js';
+import {
+  executeAddCommand,
+  executeAddCommandInteractive,
+  shouldOpenEditor,
+} from '../orchestrators/add-orchestrator.js';
+import {
+  executeBulkRemoveCommand,
+  executeRemoveCommandInteractive,
+  isBulkRemoval,
+  type BulkRemoveOptions,
+} from '../orchestrators/rm-orchestrator.js';
+import {
+  executeCodeCommandInteractive,
+  type CodeOptions,
+} from '../orchestrators/code-orchestrator.js';
 import { executeTerminalCommandInteractive } from '../orchestrators/terminal-orchestrator.js';
+import { executeListCommand } from '../orchestrators/list-orchestrator.js';
+import {
+  executeCacheGcCommand,
+  executeCacheListCommand,
+  executeCacheRemoveCommand,
+  executeCacheUpdateCommand,
+  executeCacheVerifyCommand,
+  type CacheGcOptions,
+  type CacheListOptions,
+  type CacheRemoveOptions,
+} from '../orchestrators/cache-orchestrator.js';
+import {
+  executeRestoreCommand,
+  executeTrashEmptyCommand,
+  executeTrashListCommand,
+  type TrashEmptyOptions,
+  type TrashListOptions,
+} from '../orchestrators/trash-orchestrator.js';
+import { executeMoveCommand, type MoveOptions } from '../orchestrators/mv-orchestrator.js';
+import { executePruneCommand, type PruneOptions } from '../orchestrators/prune-orchestrator.js';
+import { executeDoctorCommand, type DoctorOptions } from '../orchestrators/doctor-orchestrator.js';
+import { executeStatusCommand, type StatusOptions } from '../orchestrators/status-orchestrator.js';
+import {
+  DEFAULT_SYNC_CONCURRENCY,
+  executeSyncCommand,
+  type SyncOptions,
+} from '../orchestrators/sync-orchestrator.js';
 import { handleEditorOpening } from '../core/editor.js';
 import { EscapeCancelError } from '../types/index.js';
 import { Logger } from '../utils/logger.js';
 import { terminalManager } from '../utils/terminal.js';
 import { handleError } from '../utils/error-handler.js';
 import { checkGitInstalled } from '../utils/validators.js';
+import { getGcpbVersion } from '../utils/version.js';
 import { findRoot, initializeConfig } from '../core/config.js';
-import fs from 'fs-extra';
-import path, { dirname } from 'path';
-import { fileURLToPath } from 'url';
+import { purgeExpiredTrash } from '../core/trash.js';
 
 const logger = new Logger();
 
 // Register terminal cleanup handlers for all exit scenarios
 terminalManager.registerCleanupHandlers();
 
-// Read version from package.json
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = dirname(__filename);
-const packageJson = JSON.parse(
-  fs.readFileSync(path.join(__dirname, '../../package.json'), 'utf-8')
-) as { version: string };
-
 const program = new Command();
 
 program
   .name('gcpb')
   .description('Clone git repository per branch - alternative to git worktree')
-  .version(packageJson.version);
+  .version(getGcpbVersion());
 
 // Helper function to check if error is a user cancellation
 function isCancellationError(error: unknown): boolean {
@@ -81,20 +112,131 @@ program
 
 // add command
 program
-  .command('add')
+  .command('add [url] [base] [target]')
   .description('Clone a repository branch')
-  .action(async () => {
-    try {
-      // Check git is installed
-      logger.startSpinner('Checking prerequisites...');
-      const gitCheck = checkGitInstalled();
-      if (!gitCheck.valid) {
-        logger.stopSpinner(false, 'Git not found');
-        logger.error(gitCheck.error || 'Git is not installed');
+  .option('--base <branch>', 'Remote branch to clone from (default: repository default branch)')
+  .option('-b, --branch <branch>', 'Local branch to create (default: same as base branch)')
+  .option('-y, --yes', 'Skip confirmation prompts')
+  .option(
+    '--carry-over-from <branch>',
+    'Sibling clone to copy carryOver files from (default: most recently used)'
+  )
+  .option('--pr <number>', 'Clone the head of a GitHub pull request or GitLab merge request')
+  .option('--shared', 'Borrow objects from the repository cache instead of copying them')
+  .option('--depth <n>', 'Shallow clone with this many commits of history', (value: string) => {
+    const parsed = Number(value);
+    if (!Number.isInteger(parsed) || parsed < 1) {
+      throw new InvalidArgumentError('Must be a positive integer.');
+    }
+    return parsed;
+  })
+  .option('--filter <spec>', 'Partial clone filter, e.g. blob:none (blobless) or tree:0 (treeless)')
+  .option(
+    '--sparse <dir>',
+    'Check out only this directory (repeatable)',
+    (value: string, previous: string[] = []) => [...previous, value]
+  )
+  .option('--submodules', 'Check out submodules recursively')
+  .option('--no-submodules', 'Leave submodules empty even if settings.json enables them')
+  .option('--lfs', 'Download Git LFS objects after checkout')
+  .option('--no-lfs', 'Keep LFS pointer files even if settings.json enables LFS')
+  .action(
+    async (
+      url?: string,
+      base?: string,
+      target?: string,
+      options?: {
+        base?: string;
+        branch?: string;
+        yes?: boolean;
+        carryOverFrom?: string;
+        pr?: string;
+        shared?: boolean;
+        depth?: number;
+        filter?: string;
+        sparse?: string[];
+        submodules?: boolean;
+        lfs?: boolean;
+      }
+    ) => {
+      try {
+        // Check git is installed
+        logger.startSpinner('Checking prerequisites...');
+        const gitCheck = checkGitInstalled();
+        if (!gitCheck.valid) {
+          logger.stopSpinner(false, 'Git not found');
+          logger.error(gitCheck.error || 'Git is not installed');
+          process.exit(1);
+        }
+        logger.stopSpinner(true, 'Prerequisites OK');
+
+        // Find root directory
+        const rootDir = await findRoot();
+        if (!rootDir) {
+          logger.error('No .gcpb configuration found');
+          logger.info('Run "gcpb init" to initialize');
+          process.exit(1);
+        }
+
+        logger.info(`Root directory: ${rootDir}`);
+
+        if (options?.pr && !url) {
+          logger.error('--pr requires a repository URL');
+          process.exit(1);
+        }
+
+        // Execute add command with orchestrator
+        // A URL argument switches to direct (non-interactive) mode
+        const result = url
+          ? await executeAddCommand(
+              rootDir,
+              url,
+              base || options?.base,
+              target || options?.branch,
+              options?.yes ?? false,
+              logger,
+              options?.carryOverFrom,
+              options?.pr === undefined ? undefined : Number(options.pr),
+              options?.shared,
+              {
+                depth: options?.depth,
+                filter: options?.filter,
+                sparse: options?.sparse,
+                submodules: options?.submodules,
+                lfs: options?.lfs,
+              }
+            )
+          : await executeAddCommandInteractive(rootDir, process.cwd(), logger);
+
+        if (!result.success) {
+          process.exit(1);
+        }
+
+        // Handle editor opening (skipped with --yes so scripts never block on a prompt)
+        if (shouldOpenEditor(result) && !options?.yes) {
+          await handleEditorOpening(result.targetPath, rootDir, logger);
+        }
+      } catch (error) {
+        if (isCancellationError(error)) {
+          terminalManager.exitWithMessage('ℹ Goodbye!');
+          process.exit(0);
+        }
+        handleError(error, logger);
         process.exit(1);
       }
-      logger.stopSpinner(true, 'Prerequisites OK');
+    }
+  );
 
+// rm command
+program
+  .command('rm [path]')
+  .description('Remove cloned repositories')
+  .option('-f, --force', 'Remove without confirmation')
+  .option('--discard-changes', 'Remove even if there are uncommitted, unpushed or stashed changes')
+  .option('--all', 'Remove every clone of the given repository or organization')
+  .option('--remove-cache', 'Also remove the caches of repositories left without clones')
+  .action(async (targetPath: string | undefined, options: BulkRemoveOptions) => {
+    try {
       // Find root directory
       const rootDir = await findRoot();
       if (!rootDir) {
@@ -103,18 +245,50 @@ program
         process.exit(1);
       }
 
-      logger.info(`Root directory: ${rootDir}`);
-
-      // Execute add command with orchestrator
-      const result = await executeAddCommandInteractive(rootDir, process.cwd(), logger);
+      // Execute remove command with orchestrator
+      const result = isBulkRemoval(targetPath, options)
+        ? await executeBulkRemoveCommand(rootDir, targetPath, options, logger)
+        : await executeRemoveCommandInteractive(
+            rootDir,
+            targetPath,
+            options.force,
+            logger,
+            options.discardChanges
+          );
 
       if (!result.success) {
         process.exit(1);
       }
+    } catch (error) {
+      if (isCancellationError(error)) {
+        terminalManager.exitWithMessage('ℹ Goodbye!');
+        process.exit(0);
+      }
+      handleError(error, logger);
+      process.exit(1);
+    }
+  });
 
-      // Handle editor opening
-      if (result.targetPath) {
-        await handleEditorOpening(result.targetPath, rootDir, logger);
+// mv command
+program
+  .command('mv <source> <target>')
+  .description('Rename the branch of a clone and move its directory')
+  .option('--remote', 'Also rename the branch on origin and track the new name')
+  .action(async (source: string, target: string, options?: MoveOptions) => {
+    try {
+      // Find root directory
+      const rootDir = await findRoot();
+      if (!rootDir) {
+        logger.error('No .gcpb configuration found');
+        logger.info('Run "gcpb init" to initialize');
+        process.exit(1);
+      }
+
+      // Execute mv command with orchestrator
+      const result = await executeMoveCommand(rootDir, source, target, options ?? {}, logger);
+
+      if (!result.success) {
+        process.exit(1);
       }
     } catch (error) {
       if (isCancellationError(error)) {
@@ -126,12 +300,14 @@ program
     }
   });
 
-// rm command
+// prune command
 program
-  .command('rm [path]')
-  .description('Remove cloned repositories')
-  .option('-f, --force', 'Remove without confirmation')
-  .action(async (targetPath?: string, options?: { force?: boolean }) => {
+  .command('prune [path]')
+  .description('Remove clones whose remote branch was deleted or merged upstream')
+  .option('--dry-run', 'Only report stale branches')
+  .option('-y, --yes', 'Remove all stale branches without prompting')
+  .option('--discard-changes', 'Also remove stale branches with uncommitted or unpushed work')
+  .action(async (targetPath?: string, options?: PruneOptions) => {
     try {
       // Find root directory
       const rootDir = await findRoot();
@@ -141,13 +317,8 @@ program
         process.exit(1);
       }
 
-      // Execute remove command with orchestrator
-      const result = await executeRemoveCommandInteractive(
-        rootDir,
-        targetPath,
-        options?.force,
-        logger
-      );
+      // Execute prune command with orchestrator
+      const result = await executePruneCommand(rootDir, targetPath, options ?? {}, logger);
 
       if (!result.success) {
         process.exit(1);
@@ -165,8 +336,14 @@ program
 // code command
 program
   .command('code [path]')
-  .description('Open a cloned repository branch in VSCode')
-  .action(async (targetPath?: string) => {
+  .description('Open a cloned repository branch in your editor')
+  .option(
+    '-e, --editor <name>',
+    'Editor to use (vscode, cursor, zed, idea, ... or a custom editor)'
+  )
+  .option('--devcontainer', 'Open inside the dev container without asking')
+  .option('--no-devcontainer', 'Open on the host even if a dev container exists')
+  .action(async (targetPath?: string, options?: { editor?: string; devcontainer?: boolean }) => {
     try {
       // Find root directory
       const rootDir = await findRoot();
@@ -177,7 +354,11 @@ program
       }
 
       // Execute code command with orchestrator
-      const result = await executeCodeCommandInteractive(rootDir, targetPath, logger);
+      const codeOptions: CodeOptions = {
+        editor: options?.editor,
+        devContainer: options?.devcontainer,
+      };
+      const result = await executeCodeCommandInteractive(rootDir, targetPath, logger, codeOptions);
 
       if (!result.success) {
         process.exit(1);
@@ -222,6 +403,253 @@ program
     }
   });
 
+// list command
+program
+  .command('list [path]')
+  .alias('ls')
+  .description('List cloned repository branches')
+  .option('--table', 'Print as a table')
+  .option('--json', 'Print as JSON')
+  .action(async (targetPath?: string, options?: { table?: boolean; json?: boolean }) => {
+    try {
+      // Find root directory
+      const rootDir = await findRoot();
+      if (!rootDir) {
+        logger.error('No .gcpb configuration found');
+        logger.info('Run "gcpb init" to initialize');
+        process.exit(1);
+      }
+
+      const format = options?.json ? 'json' : options?.table ? 'table' : 'tree';
+
+      // Execute list command with orchestrator
+      const result = await executeListCommand(rootDir, targetPath, format, logger);
+
+      if (!result.success) {
+        process.exit(1);
+      }
+    } catch (error) {
+      handleError(error, logger);
+      process.exit(1);
+    }
+  });
+
+// status command
+program
+  .command('status [path]')
+  .description('Show uncommitted changes, stashes and ahead/behind for each branch clone')
+  .option('--dirty', 'Only show clones with uncommitted changes')
+  .option('--ahead', 'Only show clones with unpushed commits')
+  .option('--behind', 'Only show clones behind their upstream')
+  .option('--fetch', 'Fetch from origin before comparing with upstream')
+  .option('--json', 'Print as JSON')
+  .action(async (targetPath?: string, options?: StatusOptions) => {
+    try {
+      // Find root directory
+      const rootDir = await findRoot();
+      if (!rootDir) {
+        logger.error('No .gcpb configuration found');
+        logger.info('Run "gcpb init" to initialize');
+        process.exit(1);
+      }
+
+      // Execute status command with orchestrator
+      const result = await executeStatusCommand(rootDir, targetPath, options ?? {}, logger);
+
+      if (!result.success) {
+        process.exit(1);
+      }
+    } catch (error) {
+      handleError(error, logger);
+      process.exit(1);
+    }
+  });
+
+// sync command
+program
+  .command('sync [path]')
+  .description('Fetch every branch clone in parallel, optionally fast-forwarding them')
+  .option('--ff-only', 'Fast-forward clones that are behind their upstream')
+  .option(
+    '-j, --concurrency <n>',
+    `Number of clones to sync at once (default: ${DEFAULT_SYNC_CONCURRENCY})`,
+    (value: string) => {
+      const parsed = Number(value);
+      if (!Number.isInteger(parsed) || parsed < 1) {
+        throw new InvalidArgumentError('Must be a positive integer.');
+      }
+      return parsed;
+    }
+  )
+  .action(async (targetPath?: string, options?: SyncOptions) => {
+    try {
+      // Find root directory
+      const rootDir = await findRoot();
+      if (!rootDir) {
+        logger.error('No .gcpb configuration found');
+        logger.info('Run "gcpb init" to initialize');
+        process.exit(1);
+      }
+
+      // Execute sync command with orchestrator
+      const result = await executeSyncCommand(rootDir, targetPath, options ?? {}, logger);
+
+      if (!result.success) {
+        process.exit(1);
+      }
+    } catch (error) {
+      handleError(error, logger);
+      process.exit(1);
+    }
+  });
+
+// doctor command
+program
+  .command('doctor [path]')
+  .description('Check that shared clones can still read the objects they borrow from the cache')
+  .option('--fix', 'Refresh or recreate the caches broken clones borrow from')
+  .action(async (targetPath?: string, options?: DoctorOptions) => {
+    try {
+      // Find root directory
+      const rootDir = await findRoot();
+      if (!rootDir) {
+        logger.error('No .gcpb configuration found');
+        logger.info('Run "gcpb init" to initialize');
+        process.exit(1);
+      }
+
+      // Execute doctor command with orchestrator
+      const result = await executeDoctorCommand(rootDir, targetPath, options ?? {}, logger);
+
+      if (!result.success) {
+        process.exit(1);
+      }
+    } catch (error) {
+      handleError(error, logger);
+      process.exit(1);
+    }
+  });
+
+// cache command
+const cacheCommand = program
+  .command('cache')
+  .description('Inspect and maintain the mirror caches under .gcpb/.cache');
+
+/**
+ * Run a cache or trash subcommand against the workspace root, exiting non-zero on failure
+ */
+async function runRootCommand(
+  execute: (rootDir: string) => Promise<{ success: boolean }>
+): Promise<void> {
+  try {
+    // Find root directory
+    const rootDir = await findRoot();
+    if (!rootDir) {
+      logger.error('No .gcpb configuration found');
+      logger.info('Run "gcpb init" to initialize');
+      process.exit(1);
+    }
+
+    const result = await execute(rootDir);
+
+    if (!result.success) {
+      process.exit(1);
+    }
+  } catch (error) {
+    if (isCancellationError(error)) {
+      terminalManager.exitWithMessage('ℹ Goodbye!');
+      process.exit(0);
+    }
+    handleError(error, logger);
+    process.exit(1);
+  }
+}
+
+cacheCommand
+  .command('list [path]')
+  .alias('ls')
+  .description('Show size, last fetch time and status of each cache')
+  .option('--json', 'Print as JSON')
+  .action(async (targetPath?: string, options?: CacheListOptions) => {
+    await runRootCommand((rootDir) =>
+      executeCacheListCommand(rootDir, targetPath, options ?? {}, logger)
+    );
+  });
+
+cacheCommand
+  .command('update [path]')
+  .description('Fetch the latest refs into every cache')
+  .action(async (targetPath?: string) => {
+    await runRootCommand((rootDir) => executeCacheUpdateCommand(rootDir, targetPath, logger));
+  });
+
+cacheCommand
+  .command('gc [path]')
+  .description('Repack caches and drop unreachable objects')
+  .option('--aggressive', 'Spend more time to pack caches tighter')
+  .action(async (targetPath?: string, options?: CacheGcOptions) => {
+    await runRootCommand((rootDir) =>
+      executeCacheGcCommand(rootDir, targetPath, options ?? {}, logger)
+    );
+  });
+
+cacheCommand
+  .command('remove [path]')
+  .alias('rm')
+  .description('Remove caches of repositories that are no longer cloned')
+  .option('--all', 'Also remove caches of repositories that are still cloned')
+  .option('-y, --yes', 'Remove without prompting')
+  .action(async (targetPath?: string, options?: CacheRemoveOptions) => {
+    await runRootCommand((rootDir) =>
+      executeCacheRemoveCommand(rootDir, targetPath, options ?? {}, logger)
+    );
+  });
+
+cacheCommand
+  .command('verify [path]')
+  .description('Check every object of each cache and recreate broken caches')
+  .action(async (targetPath?: string) => {
+    await runRootCommand((rootDir) => executeCacheVerifyCommand(rootDir, targetPath, logger));
+  });
+
+// trash command
+const trashCommand = program
+  .command('trash')
+  .description('Inspect and empty the clones removed by rm and prune under .gcpb/.trash');
+
+trashCommand
+  .command('list')
+  .alias('ls')
+  .description('Show each removal with its clones, size and purge date')
+  .option('--json', 'Print as JSON')
+  .action(async (options?: TrashListOptions) => {
+    await runRootCommand((rootDir) => executeTrashListCommand(rootDir, options ?? {}, logger));
+  });
+
+trashCommand
+  .command('empty')
+  .description('Permanently delete every removal in the trash')
+  .option('-y, --yes', 'Delete without prompting')
+  .action(async (options?: TrashEmptyOptions) => {
+    await runRootCommand((rootDir) => executeTrashEmptyCommand(rootDir, options ?? {}, logger));
+  });
+
+// restore command
+program
+  .command('restore <id>')
+  .description('Move the clones of a removal back from the trash')
+  .action(async (id: string) => {
+    await runRootCommand((rootDir) => executeRestoreCommand(rootDir, id, logger));
+  });
+
+// Purge expired trash entries before every command
+program.hook('preAction', async () => {
+  const rootDir = await findRoot();
+  if (rootDir) {
+    await purgeExpiredTrash(rootDir);
+  }
+});
+
 /**
  * Interactive mode - runs when gcpb is called without arguments
  */
@@ -264,9 +692,29 @@ async function runInteractiveMode(): Promise<void> {
               description: 'Remove existing branches',
             },
             {
-              name: 'code - Open a branch in VSCode',
+              name: 'prune - Remove merged or deleted branches',
+              value: 'prune',
+              description: 'Remove stale branches',
+            },
+            {
+              name: 'list - List cloned branches',
+              value: 'list',
+              description: 'Show cloned branches',
+            },
+            {
+              name: 'status - Show status of cloned branches',
+              value: 'status',
+              description: 'Show uncommitted and unpushed work',
+            },
+            {
+              name: 'sync - Fetch and update cloned branches',
+              value: 'sync',
+              description: 'Fetch all clones',
+            },
+            {
+              name: 'code - Open a branch in your editor',
               value: 'code',
-              description: 'Open branch in VSCode',
+              description: 'Open branch in editor',
             },
             {
               name: 'terminal - Open a branch in terminal',
@@ -393,7 +841,7 @@ async function runInteractiveMode(): Promise<void> {
           }
 
           // Handle editor opening with preferences
-          if (result.targetPath) {
+          if (shouldOpenEditor(result)) {
             await handleEditorOpening(result.targetPath, addRootDir, logger);
           }
           break;
@@ -413,6 +861,62 @@ async function runInteractiveMode(): Promise<void> {
           break;
         }
 
+        case 'prune': {
+          // Find root directory
+          const pruneRootDir = await findRoot();
+          if (!pruneRootDir) {
+            logger.error('No .gcpb configuration found');
+            logger.info('Run init first');
+            break;
+          }
+
+          // Execute prune command with orchestrator
+          await executePruneCommand(pruneRootDir, undefined, {}, logger);
+          break;
+        }
+
+        case 'list': {
+          // Find root directory
+          const listRootDir = await findRoot();
+          if (!listRootDir) {
+            logger.error('No .gcpb configuration found');
+            logger.info('Run init first');
+            break;
+          }
+
+          // Execute list command with orchestrator
+          await executeListCommand(listRootDir, undefined, 'tree', logger);
+          break;
+        }
+
+        case 'status': {
+          // Find root directory
+          const statusRootDir = await findRoot();
+          if (!statusRootDir) {
+            logger.error('No .gcpb configuration found');
+            logger.info('Run init first');
+            break;
+          }
+
+          // Execute status command with orchestrator
+          await executeStatusCommand(statusRootDir, undefined, {}, logger);
+          break;
+        }
+
+        case 'sync': {
+          // Find root directory
+          const syncRootDir = await findRoot();
+          if (!syncRootDir) {
+            logger.error('No .gcpb configuration found');
+            logger.info('Run init first');
+            break;
+          }
+
+          // Execute sync command with orchestrator
+          await executeSyncCommand(syncRootDir, undefined, {}, logger);
+          break;
+        }
+
         case 'code': {
           // Find root directory
           const codeRootDir = await findRoot();
@@ -0,0 +1,115 @@
+import fs from 'fs-extra';
+import path from 'path';
+import simpleGit from 'simple-git';
+import type { BranchClone, Config, RepositoryInfo } from '../types/index.js';
+import { matchGlob } from '../utils/glob.js';
+import { loadConfig } from './config.js';
+import { filterBranchClones } from './repository-scanner.js';
+
+/**
+ * Check whether clones of a repository share objects with its cache
+ * Every "owner/repo" glob listed in shared opts a repository in
+ */
+export function isSharedRepository(config: Config, owner: string, repo: string): boolean {
+  return (config.shared ?? []).some((pattern) => matchGlob(pattern, `${owner}/${repo}`));
+}
+
+/**
+ * Read the shared setting of a repository, treating unreadable settings as not shared
+ */
+export async function resolveShared(
+  rootDir: string,
+  owner: string,
+  repo: string
+): Promise<boolean> {
+  try {
+    return isSharedRepository(await loadConfig(rootDir), owner, repo);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Object directories a clone borrows from, as absolute paths
+ * Clones made with --reference and without --dissociate list their cache's objects directory
+ */
+export async function getAlternates(clonePath: string): Promise<string[]> {
+  const objectsPath = path.join(clonePath, '.git', 'objects');
+  const alternatesPath = path.join(objectsPath, 'info', 'alternates');
+
+  if (!(await fs.pathExists(alternatesPath))) {
+    return [];
+  }
+
+  // Relative entries are relative to the clone's objects directory
+  return (await fs.readFile(alternatesPath, 'utf8'))
+    .split('\n')
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0 && !line.startsWith('#'))
+    .map((line) => path.resolve(objectsPath, line));
+}
+
+/**
+ * Find the clones that borrow objects from a cache and would break without it
+ */
+export async function findSharedClones(
+  repositories: RepositoryInfo[],
+  cachePath: string
+): Promise<BranchClone[]> {
+  const objectsPath = path.join(cachePath, 'objects');
+  const clones: BranchClone[] = [];
+
+  for (const clone of filterBranchClones(repositories)) {
+    try {
+      if ((await getAlternates(clone.path)).includes(objectsPath)) {
+        clones.push(clone);
+      }
+    } catch {
+      // Unreadable clones cannot be checked, and are reported by doctor instead
+      continue;
+    }
+  }
+
+  return clones;
+}
+
+/**
+ * Copy the objects a clone borrows into the clone itself and stop borrowing them
+ * Does nothing for clones that do not borrow objects
+ */
+export async function dissociateClone(clonePath: string): Promise<void> {
+  if ((await getAlternates(clonePath)).length === 0) {
+    return;
+  }
+
+  // Without --local, repack -a also packs the objects found through the alternates
+  const git = simpleGit(clonePath);
+  await git.raw(['repack', '-a', '-d', '-q']);
+  await fs.remove(path.join(clonePath, '.git', 'objects', 'info', 'alternates'));
+}
+
+/**
+ * Describe what is wrong with a clone's alternates, or return null when its objects are complete
+ * Clones that do not borrow objects are always fine
+ */
+export async function checkAlternates(clonePath: string): Promise<string | null> {
+  const alternates = await getAlternates(clonePath);
+  if (alternates.length === 0) {
+    return null;
+  }
+
+  for (const alternate of alternates) {
+    if (!(await fs.pathExists(alternate))) {
+      return `borrows objects from ${alternate}, which no longer exists`;
+    }
+  }
+
+  try {
+    const git = simpleGit(clonePath);
+    await git.raw(['fsck', '--connectivity-only', '--no-dangling', '--no-progress']);
+  } catch {
+    return `objects borrowed from ${alternates.join(', ')} are missing`;
+  }
+
+  return null;
+}
@@ -0,0 +1,137 @@
+import fs from 'fs-extra';
+import path from 'path';
+import simpleGit from 'simple-git';
+import type { BranchClone } from '../types/index.js';
+import { GCPBError } from '../types/index.js';
+import {
+  validateBranchName,
+  validateRemoteBranchNotExists,
+  validateTargetPath,
+} from '../utils/validators.js';
+import { resolveClonePath } from './branch-naming.js';
+import { removeEmptyParents } from './branch-remover.js';
+import { ensureNotInsideClone } from './clone.js';
+import { getBranchTracking } from './git-status.js';
+import { moveCloneMetadata } from './metadata-store.js';
+
+export interface BranchMoveOptions {
+  rootDir: string;
+  clone: BranchClone; // clone to rename
+  newBranch: string;
+  remote?: boolean; // also rename the branch on origin and track the new name
+}
+
+export interface BranchMoveResult {
+  targetPath: string; // new clone directory, unchanged when the branch directory stays the same
+  upstream: string | null; // upstream of the renamed branch, e.g. "origin/feat/new"
+  ownsUpstream: boolean; // the old upstream was the remote branch of the same name, not a base branch
+}
+
+/**
+ * Rename the branch of a clone and move its directory to match
+ *
+ * The directory is moved first and moved back when git refuses the rename, so a failure leaves
+ * the clone as it was. With remote, the new branch is pushed and tracked before the old remote
+ * branch is deleted. The old remote branch is only deleted when it has the old name: a branch
+ * created from origin/develop tracks develop until it is first pushed, and develop must survive.
+ */
+export async function moveBranchClone(options: BranchMoveOptions): Promise<BranchMoveResult> {
+  const { rootDir, clone, newBranch } = options;
+
+  const branchValidation = validateBranchName(newBranch);
+  if (!branchValidation.valid) {
+    throw new GCPBError(branchValidation.error || 'Invalid branch name');
+  }
+  if (newBranch === clone.branch) {
+    throw new GCPBError(`${clone.owner}/${clone.repo}/${clone.branch} already has that name`);
+  }
+
+  const git = simpleGit(clone.path);
+  const remoteValidation = await validateRemoteBranchNotExists(git, newBranch);
+  if (!remoteValidation.valid) {
+    throw new GCPBError(
+      remoteValidation.error || 'Remote branch validation failed',
+      'Please choose another name, or delete the remote branch first'
+    );
+  }
+
+  const tracking = await getBranchTracking(clone.path, clone.branch);
+  const upstream = tracking ? `${tracking.remote}/${tracking.remoteBranch}` : null;
+  const ownsUpstream = tracking?.remote === 'origin' && tracking.remoteBranch === clone.branch;
+  if (options.remote && tracking?.remote !== 'origin') {
+    throw new GCPBError(
+      `Branch "${clone.branch}" does not track a branch on origin, so there is no remote branch to rename`,
+      'Run without --remote to rename the local branch only'
+    );
+  }
+
+  // The directory follows branchNaming, and may stay the same (feat/x and feat-x with "dash")
+  const targetPath = await resolveClonePath(rootDir, clone.owner, clone.repo, newBranch);
+  const moved = targetPath !== clone.path;
+  if (moved) {
+    if (targetPath.startsWith(clone.path + path.sep)) {
+      throw new GCPBError(
+        `Cannot move ${clone.path} into itself`,
+        'Use a branchNaming other than "nested", or a name that is not below the current one'
+      );
+    }
+    const pathValidation = await validateTargetPath(targetPath);
+    if (!pathValidation.valid) {
+      throw new GCPBError(
+        `Directory ${targetPath} already exists`,
+        'Please use a different branch name or remove the existing directory'
+      );
+    }
+    await ensureNotInsideClone(path.join(rootDir, clone.owner, clone.repo), targetPath);
+
+    await fs.move(clone.path, targetPath);
+  }
+
+  try {
+    await simpleGit(targetPath).raw(['branch', '-m', clone.branch, newBranch]);
+  } catch (error) {
+    if (moved) {
+      await fs.move(targetPath, clone.path);
+    }
+    throw new GCPBError(
+      `Failed to rename branch "${clone.branch}"`,
+      'Please check that the branch exists in the clone',
+      error instanceof Error ? error : undefined
+    );
+  }
+
+  if (moved) {
+    await removeEmptyParents(rootDir, clone);
+  }
+  await moveCloneMetadata(rootDir, clone.path, targetPath, newBranch);
+
+  if (!options.remote || !tracking) {
+    // git branch -m keeps the upstream, so the clone still pulls from the old remote branch
+    return { targetPath, upstream, ownsUpstream };
+  }
+
+  const repoGit = simpleGit(targetPath);
+  try {
+    await repoGit.raw(['push', '--set-upstream', 'origin', `${newBranch}:${newBranch}`]);
+  } catch (error) {
+    throw new GCPBError(
+      `Renamed the clone, but failed to push "${newBranch}" to origin`,
+      `Run "git push -u origin ${newBranch}" in ${targetPath}`,
+      error instanceof Error ? error : undefined
+    );
+  }
+
+  if (ownsUpstream) {
+    try {
+      await repoGit.raw(['push', 'origin', '--delete', clone.branch]);
+    } catch (error) {
+      throw new GCPBError(
+        `Renamed the clone, but failed to delete "${clone.branch}" on origin`,
+        `Run "git push origin --delete ${clone.branch}" in ${targetPath}`,
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  return { targetPath, upstream: `origin/${newBranch}`, ownsUpstream };
+}
@@ -0,0 +1,77 @@
+import { createHash } from 'crypto';
+import path from 'path';
+import type { BranchNaming } from '../types/index.js';
+import { GCPBError } from '../types/index.js';
+import { sanitizeBranchName } from '../utils/validators.js';
+import { loadConfig } from './config.js';
+
+export const DEFAULT_BRANCH_NAMING: BranchNaming = 'dash';
+
+const BRANCH_NAMINGS: BranchNaming[] = ['dash', 'nested', 'escape', 'hash'];
+
+const HASH_LENGTH = 7;
+
+/**
+ * Map a branch name to its clone directory, relative to the repository directory
+ * Nested directories are returned with "/" separators
+ *
+ * @example
+ * toBranchDirectory('feat/login', 'dash') // returns "feat-login"
+ * toBranchDirectory('feat/login', 'escape') // returns "feat%2Flogin"
+ * toBranchDirectory('feat/login', 'hash') // returns "feat-login-" followed by 7 hex characters
+ * toBranchDirectory('main', 'hash') // returns "main"
+ */
+export function toBranchDirectory(branch: string, naming: BranchNaming): string {
+  switch (naming) {
+    case 'dash':
+      return sanitizeBranchName(branch);
+    case 'nested':
+      return branch;
+    case 'escape':
+      return branch.replace(/%/g, '%25').replace(/\//g, '%2F');
+    case 'hash': {
+      if (!branch.includes('/')) {
+        return branch;
+      }
+      const hash = createHash('sha1').update(branch).digest('hex').slice(0, HASH_LENGTH);
+      return `${sanitizeBranchName(branch)}-${hash}`;
+    }
+    default:
+      throw new GCPBError(
+        `Unknown branchNaming "${String(naming)}"`,
+        `Set branchNaming in .gcpb/settings.json to one of: ${BRANCH_NAMINGS.join(', ')}`
+      );
+  }
+}
+
+/**
+ * Best-effort branch name for a clone directory without metadata
+ * Nested and escaped directories decode exactly; dashed and hashed ones are kept as-is
+ */
+export function fromBranchDirectory(directory: string): string {
+  return directory.replace(/%(2F|25)/gi, (_, code: string) => (code === '25' ? '%' : '/'));
+}
+
+/**
+ * Read the configured naming strategy, falling back to the default
+ */
+export async function getBranchNaming(rootDir: string): Promise<BranchNaming> {
+  try {
+    return (await loadConfig(rootDir)).branchNaming ?? DEFAULT_BRANCH_NAMING;
+  } catch {
+    return DEFAULT_BRANCH_NAMING;
+  }
+}
+
+/**
+ * Build the clone path of a branch: ${rootDir}/${owner}/${repo}/${branch directory}
+ */
+export async function resolveClonePath(
+  rootDir: string,
+  owner: string,
+  repo: string,
+  branch: string
+): Promise<string> {
+  const directory = toBranchDirectory(branch, await getBranchNaming(rootDir));
+  return path.join(rootDir, owner, repo, ...directory.split('/'));
+}
@@ -0,0 +1,109 @@
+import fs from 'fs-extra';
+import path from 'path';
+import type { Logger } from '../utils/logger.js';
+import { cleanupEmptyDirectories } from './config.js';
+import { runHooks } from './hooks.js';
+import { removeCloneMetadata } from './metadata-store.js';
+import { moveToTrash } from './trash.js';
+
+export interface BranchRemovalTarget {
+  owner: string;
+  repo: string;
+  branch: string; // branch name
+  path?: string; // clone directory, defaults to ${rootDir}/${owner}/${repo}/${branch}
+}
+
+function getBranchPath(rootDir: string, target: BranchRemovalTarget): string {
+  return target.path ?? path.join(rootDir, target.owner, target.repo, target.branch);
+}
+
+/**
+ * Remove directories left empty between a removed or moved clone and the root, which covers
+ * nested branch directories (feat/login) as well as owners spanning several directories
+ * (github.com/acme)
+ */
+export async function removeEmptyParents(
+  rootDir: string,
+  target: BranchRemovalTarget
+): Promise<void> {
+  let dir = path.dirname(getBranchPath(rootDir, target));
+
+  while (dir.startsWith(rootDir + path.sep) && (await fs.readdir(dir)).length === 0) {
+    await fs.remove(dir);
+    dir = path.dirname(dir);
+  }
+}
+
+/**
+ * Measure the disk space a clone (or any directory) takes, without following symlinks
+ * Entries that can't be read are left out
+ */
+export async function getDirectorySize(dirPath: string): Promise<number> {
+  let size = 0;
+  let entries: string[];
+  try {
+    entries = await fs.readdir(dirPath);
+  } catch {
+    return 0;
+  }
+
+  for (const entry of entries) {
+    try {
+      const entryPath = path.join(dirPath, entry);
+      const stat = await fs.lstat(entryPath);
+      size += stat.isDirectory() ? await getDirectorySize(entryPath) : stat.size;
+    } catch {
+      continue;
+    }
+  }
+  return size;
+}
+
+/**
+ * Run the pre-remove hooks of each target while its directory still exists
+ * Hook failures are reported through the logger but never block removal
+ */
+export async function runPreRemoveHooks(
+  rootDir: string,
+  targets: BranchRemovalTarget[],
+  logger?: Logger
+): Promise<void> {
+  for (const target of targets) {
+    await runHooks(
+      'preRemove',
+      rootDir,
+      { ...target, path: getBranchPath(rootDir, target) },
+      logger
+    );
+  }
+}
+
+/**
+ * Removes branch clone directories and cleans up owner/repo directories left empty
+ * Shared by every command that deletes clones (rm, prune, add replacing a directory)
+ *
+ * Clones are moved to the trash rather than deleted, so "gcpb restore" can bring them back
+ * until the trash retention expires.
+ *
+ * @param onProgress - Called after each removal with the number removed so far
+ */
+export async function removeBranchClones(
+  rootDir: string,
+  targets: BranchRemovalTarget[],
+  onProgress?: (removed: number, total: number) => void
+): Promise<number> {
+  const clonePaths = targets.map((target) => getBranchPath(rootDir, target));
+  const entry = await moveToTrash(
+    rootDir,
+    targets.map((target, i) => ({ ...target, path: clonePaths[i] })),
+    onProgress
+  );
+
+  for (const target of targets) {
+    await removeEmptyParents(rootDir, target);
+  }
+  await removeCloneMetadata(rootDir, clonePaths);
+  await cleanupEmptyDirectories(rootDir);
+
+  return entry?.clones.length ?? 0;
+}
@@ -1,7 +1,8 @@
 import simpleGit from 'simple-git';
 import path from 'path';
 import fs from 'fs-extra';
-import type { CacheInfo, CacheOptions } from '../types/index.js';
+import type { CacheInfo, CacheOptions, CacheStats } from '../types/index.js';
+import { gitProgressOptions, type ProgressReporter } from '../utils/progress.js';
 
 const CONFIG_DIR = '.gcpb';
 const CACHE_DIR = '.cache';
@@ -42,6 +43,54 @@ export async function validateCache(cachePath: string): Promise<boolean> {
   }
 }
 
+/**
+ * Deep check of a cache: a valid bare repository whose objects are all present and reachable
+ * Much slower than validateCache, which only checks the repository structure
+ */
+export async function verifyCache(cachePath: string): Promise<boolean> {
+  if (!(await validateCache(cachePath))) {
+    return false;
+  }
+
+  try {
+    const git = simpleGit({ baseDir: cachePath });
+    await git.raw(['fsck', '--connectivity-only', '--no-progress']);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Measure a cache's size on disk and when it was last fetched
+ * A mirror that was never updated has no FETCH_HEAD, so its creation time is used instead
+ */
+export async function getCacheStats(cachePath: string): Promise<CacheStats> {
+  const git = simpleGit({ baseDir: cachePath });
+
+  // count-objects -v reports sizes in KiB, e.g. "size-pack: 1234"
+  const counts = await git.raw(['count-objects', '-v']);
+  let sizeKiB = 0;
+  for (const line of counts.split('\n')) {
+    const [key, value] = line.split(':').map((part) => part.trim());
+    if (key === 'size' || key === 'size-pack' || key === 'size-garbage') {
+      sizeKiB += Number(value) || 0;
+    }
+  }
+
+  let lastFetchedAt: string | undefined;
+  for (const file of ['FETCH_HEAD', 'HEAD']) {
+    try {
+      lastFetchedAt = (await fs.stat(path.join(cachePath, file))).mtime.toISOString();
+      break;
+    } catch {
+      continue;
+    }
+  }
+
+  return { sizeBytes: sizeKiB * 1024, lastFetchedAt };
+}
+
 /**
  * Get cache information for a repository
  */
@@ -80,15 +129,18 @@ export async function createCache(options: CacheOptions): Promise<void> {
   await fs.ensureDir(path.dirname(cachePath));
 
   // Create mirror clone
-  const git = simpleGit();
+  const git = simpleGit(gitProgressOptions('Mirroring repository', options.onProgress));
   await git.clone(options.url, cachePath, ['--mirror']);
 }
 
 /**
  * Update an existing cache with latest refs
  */
-export async function updateCache(cachePath: string): Promise<void> {
-  const git = simpleGit({ baseDir: cachePath });
+export async function updateCache(cachePath: string, onProgress?: ProgressReporter): Promise<void> {
+  const git = simpleGit({
+    baseDir: cachePath,
+    ...gitProgressOptions('Updating cache', onProgress),
+  });
 
   // Fetch all refs from origin with prune to remove deleted branches and tags
   // --prune: Remove remote-tracking refs that no longer exist on remote
@@ -97,6 +149,74 @@ export async function updateCache(cachePath: string): Promise<void> {
   await git.fetch(['origin', '--prune', '--prune-tags']);
 }
 
+/**
+ * Fetch a single ref into the cache, e.g. refs/pull/12/head
+ * Covers refs the mirror does not pick up by itself
+ */
+export async function fetchCacheRef(cachePath: string, ref: string): Promise<void> {
+  const git = simpleGit({ baseDir: cachePath });
+  await git.fetch(['origin', `+${ref}:${ref}`]);
+}
+
+/**
+ * Repack a cache and drop unreachable objects right away
+ * Caches have no reflogs or work in progress worth keeping, so nothing is held back for a grace
+ * period; keepUnreachable holds on to them for shared clones, whose branches may still need them
+ */
+export async function gcCache(
+  cachePath: string,
+  options: { aggressive?: boolean; keepUnreachable?: boolean } = {}
+): Promise<void> {
+  const git = simpleGit({ baseDir: cachePath });
+  await git.raw([
+    'gc',
+    options.keepUnreachable ? '--prune=never' : '--prune=now',
+    ...(options.aggressive ? ['--aggressive'] : []),
+  ]);
+}
+
+/**
+ * Stop automatic gc in a cache from pruning objects that shared clones borrow
+ * Fetching with --prune leaves the objects of deleted branches unreachable, and gc --auto would
+ * otherwise delete them after two weeks
+ */
+export async function protectCacheObjects(cachePath: string): Promise<void> {
+  const git = simpleGit({ baseDir: cachePath });
+  await git.raw(['config', 'gc.pruneExpire', 'never']);
+}
+
+/**
+ * Let clones with --filter be made from a cache
+ * upload-pack ignores the filter, and sends every object, unless this is enabled
+ */
+export async function allowFilteredClones(cachePath: string): Promise<void> {
+  const git = simpleGit({ baseDir: cachePath });
+  await git.raw(['config', 'uploadpack.allowFilter', 'true']);
+}
+
+/**
+ * Make sure an up-to-date mirror cache exists for a repository
+ * Creates the cache if missing, recreates it if corrupted, otherwise fetches latest refs
+ * Returns the cache path
+ */
+export async function ensureCache(options: CacheOptions): Promise<string> {
+  const cacheInfo = await getCacheInfo(options.owner, options.repo, options.rootDir);
+
+  if (!cacheInfo.exists) {
+    // Cache doesn't exist - create mirror cache
+    await createCache(options);
+  } else if (cacheInfo.isValid) {
+    // Cache exists and is valid - update it
+    await updateCache(cacheInfo.cachePath, options.onProgress);
+  } else {
+    // Cache is corrupted - remove and recreate
+    await removeCache(cacheInfo.cachePath);
+    await createCache(options);
+  }
+
+  return cacheInfo.cachePath;
+}
+
 /**
  * Delete corrupted cache
  */
@@ -105,3 +225,16 @@ export async function removeCache(cachePath: string): Promise<void> {
     await fs.remove(cachePath);
   }
 }
+
+/**
+ * Remove cache owner directories left empty by a removed cache
+ */
+export async function removeEmptyCacheParents(rootDir: string, cachePath: string): Promise<void> {
+  const cacheRoot = path.join(rootDir, CONFIG_DIR, CACHE_DIR);
+  let dir = path.dirname(cachePath);
+
+  while (dir.startsWith(cacheRoot + path.sep) && (await fs.readdir(dir)).length === 0) {
+    await fs.remove(dir);
+    dir = path.dirname(dir);
+  }
+}
@@ -2,6 +2,7 @@ import fs from 'fs-extra';
 import path from 'path';
 import simpleGit from 'simple-git';
 import { validateCache } from './cache-manager.js';
+import { MAX_REPOSITORY_DEPTH } from './repository-layout.js';
 
 const CONFIG_DIR = '.gcpb';
 const CACHE_DIR = '.cache';
@@ -13,64 +14,76 @@ export interface CachedRepository {
   url: string;
 }
 
+export interface CachedBranch {
+  name: string;
+  date: string; // last commit date, YYYY-MM-DD
+  author: string; // last commit author
+  subject: string; // last commit subject
+}
+
+export interface CacheDirectory {
+  owner: string;
+  repo: string;
+  cachePath: string;
+  isValid: boolean;
+}
+
 /**
- * Scan cache directory to find all cached repositories
+ * Find caches at or below a cache directory, given by its "/"-separated path relative to the
+ * cache root
+ * A directory at least owner/repo deep with a HEAD file is a cache; any other directory is part
+ * of an owner path (host, group, subgroup) and is searched further
  */
-export async function scanCachedRepositories(rootDir: string): Promise<CachedRepository[]> {
+async function findCaches(cacheRoot: string, key: string): Promise<CacheDirectory[]> {
+  const dirPath = path.join(cacheRoot, ...key.split('/'));
+  const depth = key.split('/').length;
+
+  if (depth >= 2 && (await fs.pathExists(path.join(dirPath, 'HEAD')))) {
+    return [
+      {
+        owner: path.posix.dirname(key),
+        repo: path.posix.basename(key),
+        cachePath: dirPath,
+        isValid: await validateCache(dirPath),
+      },
+    ];
+  }
+  if (depth >= MAX_REPOSITORY_DEPTH) {
+    return [];
+  }
+
+  const caches: CacheDirectory[] = [];
+  for (const entry of await fs.readdir(dirPath)) {
+    try {
+      const stat = await fs.stat(path.join(dirPath, entry));
+      if (stat.isDirectory()) {
+        caches.push(...(await findCaches(cacheRoot, `${key}/${entry}`)));
+      }
+    } catch {
+      // Skip entries we can't read
+      continue;
+    }
+  }
+  return caches;
+}
+
+/**
+ * Scan cache directory to find every cache, including invalid ones that need repair
+ * Owners may span several directories (github.com/acme, group/subgroup)
+ */
+export async function scanCacheDirectories(rootDir: string): Promise<CacheDirectory[]> {
   const cacheRoot = path.join(rootDir, CONFIG_DIR, CACHE_DIR);
 
   if (!(await fs.pathExists(cacheRoot))) {
     return [];
   }
 
-  const repositories: CachedRepository[] = [];
+  const caches: CacheDirectory[] = [];
 
   try {
-    // Read owner directories
-    const owners = await fs.readdir(cacheRoot);
-
-    for (const owner of owners) {
-      const ownerPath = path.join(cacheRoot, owner);
-
+    for (const owner of await fs.readdir(cacheRoot)) {
       try {
-        const stat = await fs.stat(ownerPath);
-
-        if (!stat.isDirectory()) {
-          continue;
-        }
-
-        // Read repo directories under owner
-        const repos = await fs.readdir(ownerPath);
-
-        for (const repo of repos) {
-          const cachePath = path.join(ownerPath, repo);
-
-          try {
-            const repoStat = await fs.stat(cachePath);
-
-            if (!repoStat.isDirectory()) {
-              continue;
-            }
-
-            // Validate cache
-            const isValid = await validateCache(cachePath);
-            if (!isValid) {
-              continue;
-            }
-
-            // Extract URL from cache
-            try {
-              const url = await getCacheUrl(cachePath);
-              repositories.push({ owner, repo, cachePath, url });
-            } catch {
-              // Skip if we can't get URL
-              continue;
-            }
-          } catch {
-            // Skip if we can't stat repo
-            continue;
-          }
-        }
+        caches.push(...(await findCaches(cacheRoot, owner)));
       } catch {
         // Skip if we can't read owner directory
         continue;
@@ -81,6 +94,31 @@ export async function scanCachedRepositories(rootDir: string): Promise<CachedRep
     return [];
   }
 
+  return caches;
+}
+
+/**
+ * Scan cache directory to find all valid cached repositories
+ * Owners may span several directories (github.com/acme, group/subgroup)
+ */
+export async function scanCachedRepositories(rootDir: string): Promise<CachedRepository[]> {
+  const repositories: CachedRepository[] = [];
+
+  for (const { owner, repo, cachePath, isValid } of await scanCacheDirectories(rootDir)) {
+    if (!isValid) {
+      continue;
+    }
+
+    // Extract URL from cache
+    try {
+      const url = await getCacheUrl(cachePath);
+      repositories.push({ owner, repo, cachePath, url });
+    } catch {
+      // Skip if we can't get URL
+      continue;
+    }
+  }
+
   return repositories;
 }
 
@@ -101,8 +139,46 @@ export async function getCacheUrl(cachePath: string): Promise<string> {
   return origin.refs.fetch;
 }
 
+/**
+ * List the remote branches kept in a cache with their last commit
+ * The default branch comes first, the others by most recent commit. Returns an empty list when
+ * the cache can't be read (not created yet, or not a repository).
+ */
+export async function getCachedBranches(
+  cachePath: string,
+  defaultBranch?: string
+): Promise<CachedBranch[]> {
+  let output: string;
+  try {
+    const git = simpleGit({ baseDir: cachePath });
+    output = await git.raw([
+      'for-each-ref',
+      '--sort=-committerdate',
+      '--format=%(refname)%00%(committerdate:short)%00%(authorname)%00%(subject)',
+      'refs/heads/',
+    ]);
+  } catch {
+    return [];
+  }
+
+  const branches = output
+    .split('\n')
+    .filter((line) => line.trim())
+    .map((line) => {
+      const [ref, date, author, subject] = line.split('\0');
+      return { name: ref.replace(/^refs\/heads\//, ''), date, author, subject };
+    });
+
+  const defaultIndex = branches.findIndex((branch) => branch.name === defaultBranch);
+  if (defaultIndex > 0) {
+    branches.unshift(...branches.splice(defaultIndex, 1));
+  }
+  return branches;
+}
+
 /**
  * Get available owners from cache
+ * Owners spanning several directories are returned as "/"-separated paths
  */
 export async function getCachedOwners(rootDir: string): Promise<string[]> {
   const cacheRoot = path.join(rootDir, CONFIG_DIR, CACHE_DIR);
@@ -117,20 +193,19 @@ export async function getCachedOwners(rootDir: string): Promise<string[]> {
     const entries = await fs.readdir(cacheRoot);
 
     for (const entry of entries) {
-      const entryPath = path.join(cacheRoot, entry);
-
       try {
-        const stat = await fs.stat(entryPath);
+        const stat = await fs.stat(path.join(cacheRoot, entry));
 
         if (stat.isDirectory()) {
-          // Check if owner has any valid cached repos
-          const repos = await getCachedRepos(rootDir, entry);
-          if (repos.length > 0) {
-            owners.push(entry);
+          // Keep owners that have valid cached repos
+          for (const cache of await findCaches(cacheRoot, entry)) {
+            if (cache.isValid && !owners.includes(cache.owner)) {
+              owners.push(cache.owner);
+            }
           }
         }
       } catch {
-        // Skip if we can't stat entry
+        // Skip if we can't read entry
         continue;
       }
     }
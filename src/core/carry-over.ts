@@ -0,0 +1,129 @@
+import fs from 'fs-extra';
+import path from 'path';
+import type { BranchClone, Config } from '../types/index.js';
+import { matchGlob } from '../utils/glob.js';
+import { filterBranchClones, scanRepositories } from './repository-scanner.js';
+
+/**
+ * Directories never searched for carry-over files
+ */
+const SKIPPED_DIRECTORIES = new Set(['.git', 'node_modules']);
+
+export interface SiblingClone {
+  branch: string; // branch name
+  path: string;
+  modifiedAt: Date; // last git activity, used to pick the most recent sibling
+}
+
+export interface CarryOverResult {
+  copied: string[]; // relative paths copied into the new clone
+  skipped: string[]; // relative paths that already existed in the new clone
+}
+
+/**
+ * Collect the file globs configured for a repository, in settings.json order
+ * Every "owner/repo" glob that matches contributes its file globs
+ */
+export function getCarryOverPatterns(config: Config, owner: string, repo: string): string[] {
+  const patterns: string[] = [];
+
+  for (const [repoPattern, filePatterns] of Object.entries(config.carryOver ?? {})) {
+    if (matchGlob(repoPattern, `${owner}/${repo}`)) {
+      patterns.push(...filePatterns);
+    }
+  }
+
+  return [...new Set(patterns)];
+}
+
+/**
+ * List the other branch clones of a repository, most recently used first
+ */
+export async function findSiblingClones(
+  rootDir: string,
+  owner: string,
+  repo: string,
+  excludePath?: string
+): Promise<SiblingClone[]> {
+  let clones: BranchClone[];
+  try {
+    clones = filterBranchClones(await scanRepositories(rootDir), `${owner}/${repo}`);
+  } catch {
+    return [];
+  }
+
+  const siblings: SiblingClone[] = [];
+
+  for (const clone of clones) {
+    if (clone.path === excludePath) {
+      continue;
+    }
+
+    // The index is rewritten by checkout, commit and status, so it tracks recent use
+    let modifiedAt: Date;
+    try {
+      modifiedAt = (await fs.stat(path.join(clone.path, '.git', 'index'))).mtime;
+    } catch {
+      // No index yet, fall back to the directory itself
+      modifiedAt = (await fs.stat(clone.path)).mtime;
+    }
+
+    siblings.push({ branch: clone.branch, path: clone.path, modifiedAt });
+  }
+
+  return siblings.sort((a, b) => b.modifiedAt.getTime() - a.modifiedAt.getTime());
+}
+
+/**
+ * Find files in a clone matching any carry-over glob
+ * Returns paths relative to the clone, using "/" separators
+ */
+export async function findCarryOverFiles(clonePath: string, patterns: string[]): Promise<string[]> {
+  const matches: string[] = [];
+
+  const walk = async (relativeDir: string): Promise<void> => {
+    const entries = await fs.readdir(path.join(clonePath, relativeDir), { withFileTypes: true });
+
+    for (const entry of entries) {
+      const relativePath = relativeDir ? `${relativeDir}/${entry.name}` : entry.name;
+
+      if (entry.isDirectory()) {
+        if (!SKIPPED_DIRECTORIES.has(entry.name)) {
+          await walk(relativePath);
+        }
+      } else if (patterns.some((pattern) => matchGlob(pattern, relativePath))) {
+        matches.push(relativePath);
+      }
+    }
+  };
+
+  await walk('');
+
+  return matches.sort();
+}
+
+/**
+ * Copy carry-over files from a sibling clone into a fresh clone
+ * Files already present in the target (e.g. tracked files) are never overwritten
+ */
+export async function copyCarryOverFiles(
+  sourcePath: string,
+  targetPath: string,
+  patterns: string[]
+): Promise<CarryOverResult> {
+  const result: CarryOverResult = { copied: [], skipped: [] };
+
+  for (const file of await findCarryOverFiles(sourcePath, patterns)) {
+    const destination = path.join(targetPath, file);
+
+    if (await fs.pathExists(destination)) {
+      result.skipped.push(file);
+      continue;
+    }
+
+    await fs.copy(path.join(sourcePath, file), destination);
+    result.copied.push(file);
+  }
+
+  return result;
+}
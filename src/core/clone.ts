@@ -1,15 +1,32 @@
 import simpleGit, { type SimpleGit } from 'simple-git';
 import path from 'path';
+import { pathToFileURL } from 'url';
 import fs from 'fs-extra';
-import type { CloneOptions, CloneResult } from '../types/index.js';
+import type { CloneOptions, CloneResult, CloneTimings } from '../types/index.js';
 import { GCPBError } from '../types/index.js';
-import { parseGitUrl } from './url-parser.js';
+import { getPullRequestRef, getPullRequestTrackingRef, parseGitUrl } from './url-parser.js';
+import { validateTargetPath, validateRemoteBranchNotExists } from '../utils/validators.js';
+import { gitProgressOptions } from '../utils/progress.js';
+import { getGcpbVersion } from '../utils/version.js';
+import { resolveClonePath } from './branch-naming.js';
+import { resolveShared } from './alternates.js';
+import { pullLfsObjects, resolveLfs, skipLfsSmudge, usesLfs } from './lfs.js';
 import {
-  validateTargetPath,
-  sanitizeBranchName,
-  validateRemoteBranchNotExists,
-} from '../utils/validators.js';
-import { getCacheInfo, createCache, updateCache, removeCache } from './cache-manager.js';
+  allowFilteredClones,
+  ensureCache,
+  fetchCacheRef,
+  protectCacheObjects,
+} from './cache-manager.js';
+import { getCloneKey, loadCloneMetadata, saveCloneMetadata } from './metadata-store.js';
+import {
+  applySparseCheckout,
+  getPartialCloneArgs,
+  resolvePartialClone,
+  validatePartialClone,
+} from './partial-clone.js';
+import { resolveRepositoryOwner } from './repository-layout.js';
+import { resolveSubmodules, updateSubmodules } from './submodules.js';
+import { isGitRepository } from './repository-scanner.js';
 
 /**
  * Get the default branch name from the remote repository
@@ -26,6 +43,52 @@ async function getDefaultBranch(git: SimpleGit): Promise<string> {
   }
 }
 
+/**
+ * Explain why the target directory is taken
+ * Points at branchNaming when a different branch maps to the same directory (feat/x vs feat-x)
+ */
+async function describeTargetConflict(
+  rootDir: string,
+  targetPath: string,
+  targetBranch: string,
+  message: string
+): Promise<GCPBError> {
+  let existingBranch: string | undefined;
+  try {
+    existingBranch = (await loadCloneMetadata(rootDir))[getCloneKey(rootDir, targetPath)]?.branch;
+  } catch {
+    existingBranch = undefined;
+  }
+
+  if (existingBranch && existingBranch !== targetBranch) {
+    return new GCPBError(
+      `Directory ${targetPath} already holds branch "${existingBranch}"`,
+      'Set "branchNaming" in .gcpb/settings.json to "nested", "escape" or "hash" so both branches get their own directory'
+    );
+  }
+
+  return new GCPBError(
+    message,
+    'Please use a different branch name or remove the existing directory'
+  );
+}
+
+/**
+ * Refuse to clone inside another clone, which nested naming allows for "feat" and "feat/login"
+ */
+export async function ensureNotInsideClone(repoPath: string, targetPath: string): Promise<void> {
+  let dir = path.dirname(targetPath);
+  while (dir.startsWith(repoPath + path.sep)) {
+    if (await isGitRepository(dir)) {
+      throw new GCPBError(
+        `Cannot clone into ${targetPath}: ${dir} is already a clone`,
+        'Use a different branch name, or a branchNaming other than "nested"'
+      );
+    }
+    dir = path.dirname(dir);
+  }
+}
+
 export async function cloneRepository(options: CloneOptions): Promise<CloneResult> {
   let targetPath = '';
   let shouldCleanupOnError = false;
@@ -34,23 +97,47 @@ export async function cloneRepository(options: CloneOptions): Promise<CloneResul
     // 1. Parse git URL to get owner and repo
     const parsed = parseGitUrl(options.cloneUrl);
 
-    // 2. Construct target path: ${rootDir}/${owner}/${repo}/${targetBranch}
-    // Sanitize branch name to avoid nested directories (feat/xxx -> feat-xxx)
-    targetPath = path.join(
-      options.rootDir,
-      parsed.owner,
-      parsed.repo,
-      sanitizeBranchName(options.targetBranch)
-    );
+    // Pull request mode checks out the forge's head ref (fails early for other forges)
+    const pullRequestRef =
+      options.pullRequest === undefined
+        ? undefined
+        : getPullRequestRef(parsed, options.pullRequest);
+    const pullRequestTrackingRef =
+      options.pullRequest === undefined
+        ? undefined
+        : getPullRequestTrackingRef(parsed, options.pullRequest);
+
+    // 2. Construct target path: ${rootDir}/${owner}/${repo}/${branch directory}
+    // The owner follows layout (github.com/acme with "host"), the directory name follows
+    // branchNaming (feat/xxx -> feat-xxx by default)
+    const owner = await resolveRepositoryOwner(options.rootDir, parsed);
+    targetPath =
+      options.targetPath ??
+      (await resolveClonePath(options.rootDir, owner, parsed.repo, options.targetBranch));
 
     // 3. Check if target directory exists (fail early)
     const pathValidation = await validateTargetPath(targetPath);
     if (!pathValidation.valid) {
+      throw await describeTargetConflict(
+        options.rootDir,
+        targetPath,
+        options.targetBranch,
+        pathValidation.error || 'Target directory validation failed'
+      );
+    }
+    await ensureNotInsideClone(path.join(options.rootDir, owner, parsed.repo), targetPath);
+
+    // Shallow, partial and sparse options fall back to the repository's partialClone settings
+    const partial = await resolvePartialClone(options.rootDir, owner, parsed.repo, options);
+    const partialValidation = validatePartialClone(partial);
+    if (!partialValidation.valid) {
       throw new GCPBError(
-        pathValidation.error || 'Target directory validation failed',
-        'Please use a different branch name or remove the existing directory'
+        partialValidation.error || 'Invalid partial clone settings',
+        'Check the options, or partialClone in .gcpb/settings.json'
       );
     }
+    const partialArgs = getPartialCloneArgs(partial);
+    const lfs = options.lfs ?? (await resolveLfs(options.rootDir, owner, parsed.repo));
 
     // From this point onwards, if an error occurs, we should cleanup the cloned directory
     shouldCleanupOnError = true;
@@ -59,33 +146,23 @@ export async function cloneRepository(options: CloneOptions): Promise<CloneResul
     await fs.ensureDir(path.dirname(targetPath));
 
     // 5. Prepare cache (if possible)
+    const startedAt = Date.now();
+    const timings: CloneTimings = { total: 0 };
+    let phaseStartedAt = startedAt;
     let useCache = true;
     let cachePath: string | undefined;
 
+    options.onProgress?.('Preparing repository cache...');
     try {
-      const cacheInfo = await getCacheInfo(parsed.owner, parsed.repo, options.rootDir);
-      cachePath = cacheInfo.cachePath;
-
-      if (!cacheInfo.exists) {
-        // Cache doesn't exist - create mirror cache
-        await createCache({
-          url: options.cloneUrl,
-          owner: parsed.owner,
-          repo: parsed.repo,
-          rootDir: options.rootDir,
-        });
-      } else if (cacheInfo.isValid) {
-        // Cache exists and is valid - update it
-        await updateCache(cachePath);
-      } else {
-        // Cache is corrupted - remove and recreate
-        await removeCache(cachePath);
-        await createCache({
-          url: options.cloneUrl,
-          owner: parsed.owner,
-          repo: parsed.repo,
-          rootDir: options.rootDir,
-        });
+      cachePath = await ensureCache({
+        url: options.cloneUrl,
+        owner,
+        repo: parsed.repo,
+        rootDir: options.rootDir,
+        onProgress: options.onProgress,
+      });
+      if (pullRequestRef) {
+        await fetchCacheRef(cachePath, pullRequestRef);
       }
     } catch {
       // Cache operation failed - fall back to direct clone
@@ -93,19 +170,56 @@ export async function cloneRepository(options: CloneOptions): Promise<CloneResul
       cachePath = undefined;
       // Log warning but don't fail the operation
     }
+    timings.cache = Date.now() - phaseStartedAt;
 
     // 6. Execute git clone to target directory
-    const git = simpleGit();
-    if (useCache && cachePath) {
+    phaseStartedAt = Date.now();
+    const git = simpleGit(
+      gitProgressOptions(useCache ? 'Cloning from cache' : 'Cloning', options.onProgress)
+    );
+    if (!lfs) {
+      skipLfsSmudge(git);
+    }
+    const shared = options.shared ?? (await resolveShared(options.rootDir, owner, parsed.repo));
+    if (useCache && cachePath && shared) {
+      // Clone with reference and keep borrowing objects from the cache to save disk
+      await protectCacheObjects(cachePath);
+      await git.clone(options.cloneUrl, targetPath, ['--reference', cachePath, ...partialArgs]);
+    } else if (useCache && cachePath && partial.filter !== undefined) {
+      // --dissociate would copy every object the filter leaves out, so clone from the cache
+      // itself (file:// so the filter applies) and point origin back at the repository
+      await allowFilteredClones(cachePath);
+      await git.clone(pathToFileURL(cachePath).href, targetPath, partialArgs);
+      await simpleGit(targetPath).raw(['remote', 'set-url', 'origin', options.cloneUrl]);
+    } else if (useCache && cachePath) {
       // Clone with reference and dissociate for full independence
-      await git.clone(options.cloneUrl, targetPath, ['--reference', cachePath, '--dissociate']);
+      await git.clone(options.cloneUrl, targetPath, [
+        '--reference',
+        cachePath,
+        '--dissociate',
+        ...partialArgs,
+      ]);
+    } else if (partialArgs.length > 0) {
+      // Direct shallow or partial clone (no cache)
+      await git.clone(options.cloneUrl, targetPath, partialArgs);
     } else {
       // Direct clone (no cache)
       await git.clone(options.cloneUrl, targetPath);
     }
 
+    timings.clone = Date.now() - phaseStartedAt;
+
     // 7. Navigate into cloned repo
-    const repoGit = simpleGit(targetPath);
+    phaseStartedAt = Date.now();
+    options.onProgress?.(`Checking out ${options.targetBranch}...`);
+    const repoGit = simpleGit(targetPath, gitProgressOptions('Checking out', options.onProgress));
+    if (!lfs) {
+      skipLfsSmudge(repoGit);
+    }
+    if (partial.sparse && partial.sparse.length > 0) {
+      // Narrow the working tree before checking out the branch
+      await applySparseCheckout(repoGit, partial.sparse);
+    }
 
     // 7a. Validate: If creating a new local branch, ensure it doesn't exist on remote
     if (options.baseBranch !== options.targetBranch) {
@@ -125,7 +239,32 @@ export async function cloneRepository(options: CloneOptions): Promise<CloneResul
     const baseBranch = options.baseBranch.replace(/^origin\//, '');
 
     // 10. Handle branch checkout based on scenario
-    if (baseBranch === options.targetBranch) {
+    if (pullRequestRef && pullRequestTrackingRef) {
+      // Case: pull request (create local branch at its head, from the cache when available)
+      // The head goes into a remote-tracking ref so its commits don't count as unpushed
+      const refspec = `+${pullRequestRef}:${pullRequestTrackingRef}`;
+      try {
+        const remote = useCache && cachePath ? cachePath : 'origin';
+        if (partial.depth === undefined) {
+          await repoGit.fetch(remote, refspec);
+        } else {
+          // Shallow clones only need the pull request head, not its whole history
+          await repoGit.fetch(remote, refspec, ['--depth', String(partial.depth)]);
+        }
+      } catch (error) {
+        throw new GCPBError(
+          `${parsed.forge === 'gitlab' ? 'Merge request !' : 'Pull request #'}${options.pullRequest} not found`,
+          'Please check the number and your access to the repository',
+          error instanceof Error ? error : undefined
+        );
+      }
+      await repoGit.checkoutBranch(options.targetBranch, pullRequestTrackingRef);
+
+      // Keep the head updated by later fetches and pull from it
+      await repoGit.raw(['config', '--add', 'remote.origin.fetch', refspec]);
+      await repoGit.raw(['config', `branch.${options.targetBranch}.remote`, 'origin']);
+      await repoGit.raw(['config', `branch.${options.targetBranch}.merge`, pullRequestRef]);
+    } else if (baseBranch === options.targetBranch) {
       // Case: remote == local (working on existing branch)
 
       if (baseBranch === defaultBranch) {
@@ -150,9 +289,64 @@ export async function cloneRepository(options: CloneOptions): Promise<CloneResul
       await repoGit.checkoutBranch(options.targetBranch, checkoutRef);
     }
 
+    timings.checkout = Date.now() - phaseStartedAt;
+
+    // 10a. Populate submodules, each through its own repository cache
+    const submodules =
+      options.submodules ?? (await resolveSubmodules(options.rootDir, owner, parsed.repo));
+    if (submodules) {
+      options.onProgress?.('Checking out submodules...');
+      phaseStartedAt = Date.now();
+      try {
+        await updateSubmodules(options.rootDir, targetPath, lfs, options.onProgress);
+      } catch (error) {
+        throw new GCPBError(
+          'Failed to check out submodules',
+          'Please check your access to the submodule repositories, or clone with --no-submodules',
+          error instanceof Error ? error : undefined
+        );
+      }
+      timings.submodules = Date.now() - phaseStartedAt;
+    }
+
+    // 10b. Replace LFS pointer files with their content
+    if (lfs && (await usesLfs(targetPath))) {
+      options.onProgress?.('Downloading Git LFS objects...');
+      phaseStartedAt = Date.now();
+      try {
+        await pullLfsObjects(targetPath);
+      } catch (error) {
+        if (error instanceof GCPBError) {
+          throw error;
+        }
+        throw new GCPBError(
+          'Failed to download Git LFS objects',
+          'Please check your access and LFS quota, or clone with --no-lfs',
+          error instanceof Error ? error : undefined
+        );
+      }
+      timings.lfs = Date.now() - phaseStartedAt;
+    }
+
+    // 11. Record where the clone came from, including the real branch name
+    try {
+      await saveCloneMetadata(options.rootDir, targetPath, {
+        branch: options.targetBranch,
+        url: options.cloneUrl,
+        baseBranch: pullRequestRef ?? baseBranch,
+        createdAt: new Date().toISOString(),
+        gcpbVersion: getGcpbVersion(),
+      });
+    } catch {
+      // Without a record the branch is listed under its directory name
+    }
+
+    timings.total = Date.now() - startedAt;
+
     return {
       success: true,
       targetPath,
+      timings,
     };
   } catch (error) {
     // Cleanup: Remove cloned directory if clone succeeded but later steps failed
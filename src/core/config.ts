@@ -150,7 +150,8 @@ export async function updateEditorPreferences(
 ): Promise<void> {
   try {
     const config = await loadConfig(rootDir);
-    config.editor = preferences;
+    // Merge so that remembering autoOpen keeps defaultEditor and customEditors
+    config.editor = { ...config.editor, ...preferences };
     await saveConfig(rootDir, config);
   } catch (error) {
     if (error instanceof GCPBError) {
@@ -1,12 +1,12 @@
-import fs from 'fs-extra';
 import path from 'path';
 import type { ContextInfo } from '../types/index.js';
-
-const CONFIG_DIR = '.gcpb';
+import { scanRepositories } from './repository-scanner.js';
 
 /**
  * Detects the current directory context within the gcpb structure
  * Determines if we're in root, owner, repo, or branch directory
+ * Owners may span several directories (github.com/acme, group/subgroup), so the hierarchy comes
+ * from the scanned repositories; directories without clones fall back to owner/repo/branch depth
  */
 export async function detectContext(rootDir: string, currentDir: string): Promise<ContextInfo> {
   try {
@@ -18,37 +18,15 @@ export async function detectContext(rootDir: string, currentDir: string): Promis
       return { location: 'outside' };
     }
 
+    const repositories = await scanRepositories(rootDir);
+
     // Check if we're at root
     if (relativePath === '' || relativePath === '.') {
-      // Enumerate owners at root level
-      const entries = await fs.readdir(rootDir);
+      // Enumerate owners that have cloned repositories
       const availableOwners: string[] = [];
-
-      for (const entry of entries) {
-        // Skip .gcpb directory
-        if (entry === CONFIG_DIR) {
-          continue;
-        }
-
-        const entryPath = path.join(rootDir, entry);
-
-        try {
-          const stat = await fs.stat(entryPath);
-          if (stat.isDirectory()) {
-            // Check if this owner has any repos
-            const repos = await fs.readdir(entryPath);
-            if (repos.length > 0) {
-              availableOwners.push(entry);
-            }
-          }
-        } catch (error) {
-          // Skip directories we can't access
-          const err = error as NodeJS.ErrnoException;
-          if (err.code === 'EACCES' || err.code === 'EPERM') {
-            continue;
-          }
-          // Re-throw other errors
-          throw error;
+      for (const repository of repositories) {
+        if (!availableOwners.includes(repository.owner)) {
+          availableOwners.push(repository.owner);
         }
       }
 
@@ -58,46 +36,39 @@ export async function detectContext(rootDir: string, currentDir: string): Promis
       };
     }
 
-    // Split path to determine hierarchy level
-    const parts = relativePath.split(path.sep);
-
-    // Owner level (1 level deep)
-    if (parts.length === 1) {
-      const owner = parts[0];
-      const ownerPath = path.join(rootDir, owner);
-
-      // Enumerate repos under this owner
-      const repos = await fs.readdir(ownerPath);
-      const availableRepos: string[] = [];
-
-      for (const repo of repos) {
-        const repoPath = path.join(ownerPath, repo);
+    const key = relativePath.split(path.sep).join('/');
 
-        try {
-          const stat = await fs.stat(repoPath);
-          if (stat.isDirectory()) {
-            // Check if this repo has any branches
-            const branches = await fs.readdir(repoPath);
-            if (branches.length > 0) {
-              availableRepos.push(repo);
-            }
-          }
-        } catch (error) {
-          const err = error as NodeJS.ErrnoException;
-          if (err.code === 'EACCES' || err.code === 'EPERM') {
-            continue;
-          }
-          throw error;
-        }
-      }
+    // Repo level, or branch level anywhere inside one of its clones
+    const repository = repositories.find((r) => {
+      const repoKey = `${r.owner}/${r.repo}`;
+      return key === repoKey || key.startsWith(`${repoKey}/`);
+    });
+    if (repository) {
+      return {
+        location: key === `${repository.owner}/${repository.repo}` ? 'repo' : 'branch',
+        owner: repository.owner,
+        repo: repository.repo,
+      };
+    }
 
+    // Owner level, including the directories of an owner path (github.com in github.com/acme)
+    const availableRepos = repositories.filter((r) => r.owner === key).map((r) => r.repo);
+    if (availableRepos.length > 0 || repositories.some((r) => r.owner.startsWith(`${key}/`))) {
       return {
         location: 'owner',
-        owner,
+        owner: key,
         availableRepos: availableRepos.length > 0 ? availableRepos : undefined,
       };
     }
 
+    // Nothing cloned here yet: split by depth
+    const parts = key.split('/');
+
+    // Owner level (1 level deep)
+    if (parts.length === 1) {
+      return { location: 'owner', owner: parts[0] };
+    }
+
     // Repo level (2 levels deep)
     if (parts.length === 2) {
       return {
@@ -108,15 +79,11 @@ export async function detectContext(rootDir: string, currentDir: string): Promis
     }
 
     // Branch level (3+ levels deep)
-    if (parts.length >= 3) {
-      return {
-        location: 'branch',
-        owner: parts[0],
-        repo: parts[1],
-      };
-    }
-
-    return { location: 'outside' };
+    return {
+      location: 'branch',
+      owner: parts[0],
+      repo: parts[1],
+    };
   } catch {
     // On any error, fall back to outside
     return { location: 'outside' };
@@ -0,0 +1,98 @@
+import path from 'path';
+import fs from 'fs-extra';
+
+const DEFAULT_WORKSPACE_ROOT = '/workspaces';
+
+/**
+ * Locations VSCode checks for a dev container definition, in priority order
+ */
+const DEVCONTAINER_FILES = [path.join('.devcontainer', 'devcontainer.json'), '.devcontainer.json'];
+
+/**
+ * Find the dev container definition of a clone
+ * Returns null when the clone has no dev container
+ */
+export async function findDevContainerConfig(clonePath: string): Promise<string | null> {
+  for (const file of DEVCONTAINER_FILES) {
+    const configPath = path.join(clonePath, file);
+    if (await fs.pathExists(configPath)) {
+      return configPath;
+    }
+  }
+  return null;
+}
+
+/**
+ * Remove comments and trailing commas from JSONC (the devcontainer.json format)
+ * String contents are left untouched, so URLs containing "//" survive
+ */
+function stripJsonc(text: string): string {
+  let result = '';
+  let i = 0;
+
+  while (i < text.length) {
+    const char = text[i];
+
+    if (char === '"') {
+      // Copy the whole string literal, honoring escapes
+      let end = i + 1;
+      while (end < text.length && text[end] !== '"') {
+        end += text[end] === '\\' ? 2 : 1;
+      }
+      result += text.slice(i, end + 1);
+      i = end + 1;
+    } else if (char === '/' && text[i + 1] === '/') {
+      while (i < text.length && text[i] !== '\n') {
+        i++;
+      }
+    } else if (char === '/' && text[i + 1] === '*') {
+      const end = text.indexOf('*/', i + 2);
+      i = end === -1 ? text.length : end + 2;
+    } else {
+      result += char;
+      i++;
+    }
+  }
+
+  return result.replace(/,(\s*[}\]])/g, '$1');
+}
+
+/**
+ * Read the folder the clone is mounted at inside the container
+ * Falls back to VSCode's default of /workspaces/<folder name>
+ */
+export async function getContainerWorkspaceFolder(
+  clonePath: string,
+  configPath: string
+): Promise<string> {
+  const fallback = `${DEFAULT_WORKSPACE_ROOT}/${path.basename(clonePath)}`;
+
+  try {
+    const config = JSON.parse(stripJsonc(await fs.readFile(configPath, 'utf-8'))) as {
+      workspaceFolder?: unknown;
+    };
+    if (typeof config.workspaceFolder !== 'string' || !config.workspaceFolder) {
+      return fallback;
+    }
+    // ${localWorkspaceFolderBasename} is the only variable commonly used here
+    return config.workspaceFolder.replace(
+      /\$\{localWorkspaceFolderBasename\}/g,
+      path.basename(clonePath)
+    );
+  } catch {
+    // Invalid JSON: let VSCode report it when the container starts
+    return fallback;
+  }
+}
+
+/**
+ * Build the folder URI that makes VSCode reopen a clone inside its dev container
+ *
+ * @example
+ * buildDevContainerUri('/work/org/repo/main', '/workspaces/main')
+ * // returns "vscode-remote://dev-container+2f776f726b2f6f72672f7265706f2f6d61696e/workspaces/main"
+ */
+export function buildDevContainerUri(clonePath: string, workspaceFolder: string): string {
+  const hexPath = Buffer.from(clonePath, 'utf-8').toString('hex');
+  return `vscode-remote://dev-container+${hexPath}${workspaceFolder}`;
+}
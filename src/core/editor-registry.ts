@@ -0,0 +1,155 @@
+import path from 'path';
+import fs from 'fs-extra';
+import type { EditorDefinition, EditorPreferences, EditorType } from '../types/index.js';
+import { GCPBError } from '../types/index.js';
+import { loadConfig } from './config.js';
+
+const PATH_PLACEHOLDER = '{path}';
+
+/**
+ * Built-in editors, in auto-detection order
+ */
+export const BUILTIN_EDITORS: Record<EditorType, EditorDefinition> = {
+  vscode: {
+    id: 'vscode',
+    name: 'VSCode',
+    command: 'code',
+    args: [PATH_PLACEHOLDER],
+    supportsDevContainers: true,
+  },
+  cursor: {
+    id: 'cursor',
+    name: 'Cursor',
+    command: 'cursor',
+    args: [PATH_PLACEHOLDER],
+    supportsDevContainers: true,
+  },
+  zed: { id: 'zed', name: 'Zed', command: 'zed', args: [PATH_PLACEHOLDER] },
+  idea: { id: 'idea', name: 'IntelliJ IDEA', command: 'idea', args: [PATH_PLACEHOLDER] },
+  webstorm: { id: 'webstorm', name: 'WebStorm', command: 'webstorm', args: [PATH_PLACEHOLDER] },
+  pycharm: { id: 'pycharm', name: 'PyCharm', command: 'pycharm', args: [PATH_PLACEHOLDER] },
+  goland: { id: 'goland', name: 'GoLand', command: 'goland', args: [PATH_PLACEHOLDER] },
+};
+
+/**
+ * Split a command template into command and arguments, honoring quotes
+ *
+ * @example
+ * parseCommandTemplate('subl -n "{path}"') // returns ["subl", "-n", "{path}"]
+ */
+export function parseCommandTemplate(template: string): string[] {
+  const tokens = template.match(/"[^"]*"|'[^']*'|\S+/g) ?? [];
+  return tokens.map((token) => token.replace(/^(["'])(.*)\1$/, '$2'));
+}
+
+/**
+ * Build an editor definition from a custom command template in settings.json
+ * The target path is appended when the template has no {path} placeholder
+ */
+export function defineCustomEditor(id: string, template: string): EditorDefinition {
+  const [command, ...args] = parseCommandTemplate(template);
+  if (!command) {
+    throw new GCPBError(
+      `Custom editor "${id}" has an empty command`,
+      'Set editor.customEditors in .gcpb/settings.json to a command such as "subl {path}"'
+    );
+  }
+
+  const hasPlaceholder = args.some((arg) => arg.includes(PATH_PLACEHOLDER));
+  return {
+    id,
+    name: id,
+    command,
+    args: hasPlaceholder ? args : [...args, PATH_PLACEHOLDER],
+  };
+}
+
+/**
+ * Substitute the target directory into an editor's arguments
+ */
+export function expandEditorArgs(editor: EditorDefinition, targetPath: string): string[] {
+  return editor.args.map((arg) => arg.split(PATH_PLACEHOLDER).join(targetPath));
+}
+
+/**
+ * List editor ids usable with --editor or defaultEditor
+ */
+export function listEditorIds(preferences?: EditorPreferences): string[] {
+  const ids = [...Object.keys(BUILTIN_EDITORS), ...Object.keys(preferences?.customEditors ?? {})];
+  return [...new Set(ids)];
+}
+
+/**
+ * Look up an editor by id; custom editors take precedence over built-ins of the same name
+ */
+export function getEditorDefinition(id: string, preferences?: EditorPreferences): EditorDefinition {
+  const template = preferences?.customEditors?.[id];
+  if (template !== undefined) {
+    return defineCustomEditor(id, template);
+  }
+
+  if (Object.hasOwn(BUILTIN_EDITORS, id)) {
+    return BUILTIN_EDITORS[id as EditorType];
+  }
+
+  throw new GCPBError(
+    `Unknown editor "${id}"`,
+    `Available editors: ${listEditorIds(preferences).join(', ')}`
+  );
+}
+
+/**
+ * Check whether a command can be found on PATH (or exists, for absolute paths)
+ */
+export async function isCommandAvailable(command: string): Promise<boolean> {
+  if (path.isAbsolute(command)) {
+    return fs.pathExists(command);
+  }
+
+  const dirs = (process.env.PATH ?? '').split(path.delimiter).filter(Boolean);
+  const extensions =
+    process.platform === 'win32' ? (process.env.PATHEXT ?? '.EXE;.CMD;.BAT').split(';') : [''];
+
+  for (const dir of dirs) {
+    for (const ext of extensions) {
+      if (await fs.pathExists(path.join(dir, command + ext))) {
+        return true;
+      }
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Find the first built-in editor whose command is installed
+ */
+export async function detectInstalledEditor(): Promise<EditorDefinition | null> {
+  for (const editor of Object.values(BUILTIN_EDITORS)) {
+    if (await isCommandAvailable(editor.command)) {
+      return editor;
+    }
+  }
+  return null;
+}
+
+/**
+ * Resolve which editor to launch
+ * Priority: explicit override > editor.defaultEditor in settings.json > first installed > VSCode
+ */
+export async function resolveEditor(rootDir: string, override?: string): Promise<EditorDefinition> {
+  let preferences: EditorPreferences | undefined;
+  try {
+    preferences = (await loadConfig(rootDir)).editor;
+  } catch {
+    // Unreadable config only loses custom editors, built-ins still work
+    preferences = undefined;
+  }
+
+  const id = override ?? preferences?.defaultEditor;
+  if (id) {
+    return getEditorDefinition(id, preferences);
+  }
+
+  return (await detectInstalledEditor()) ?? BUILTIN_EDITORS.vscode;
+}
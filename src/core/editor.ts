@@ -1,19 +1,34 @@
+import path from 'path';
 import { spawn } from 'cross-spawn';
-import type { VSCodeOptions } from '../types/index.js';
+import type { Config, EditorDefinition, EditorOptions, VSCodeOptions } from '../types/index.js';
 import { loadConfig, updateEditorPreferences } from './config.js';
-import { promptForEditorOpening } from '../prompts/editor.js';
+import {
+  buildDevContainerUri,
+  findDevContainerConfig,
+  getContainerWorkspaceFolder,
+} from './devcontainer.js';
+import { BUILTIN_EDITORS, expandEditorArgs, resolveEditor } from './editor-registry.js';
+import { filterBranchClones, scanRepositories } from './repository-scanner.js';
+import { promptForDevContainerOpening, promptForEditorOpening } from '../prompts/editor.js';
 import type { Logger } from '../utils/logger.js';
 
-export async function openInVSCode(options: VSCodeOptions): Promise<boolean> {
+/**
+ * Launch an editor on a directory (or folder URI), detached from the gcpb process
+ * Resolves false when the editor command cannot be started
+ */
+export async function openInEditor(options: EditorOptions): Promise<boolean> {
+  const args = options.folderUri
+    ? ['--folder-uri', options.folderUri]
+    : expandEditorArgs(options.editor, options.targetPath);
+
   return new Promise((resolve) => {
-    // Try to open with 'code' command
-    const child = spawn('code', [options.targetPath], {
+    const child = spawn(options.editor.command, args, {
       stdio: 'ignore',
       detached: true,
     });
 
     child.on('error', () => {
-      // 'code' command not found
+      // Editor command not found
       resolve(false);
     });
 
@@ -25,6 +40,83 @@ export async function openInVSCode(options: VSCodeOptions): Promise<boolean> {
   });
 }
 
+export async function openInVSCode(options: VSCodeOptions): Promise<boolean> {
+  return openInEditor({ targetPath: options.targetPath, editor: BUILTIN_EDITORS.vscode });
+}
+
+/**
+ * "owner/repo" of the repository a clone belongs to
+ * Nested branch directories (feature/x) put clones more than one level below their repository,
+ * so the scanned repositories are asked first and the parent directory is only a fallback
+ */
+async function getRepositoryKey(rootDir: string, targetPath: string): Promise<string> {
+  try {
+    const clone = filterBranchClones(await scanRepositories(rootDir)).find(
+      (c) => path.resolve(c.path) === path.resolve(targetPath)
+    );
+    if (clone) {
+      return `${clone.owner}/${clone.repo}`;
+    }
+  } catch {
+    // An unreadable workspace falls back to the clone's parent directory
+  }
+  return path.relative(rootDir, path.dirname(targetPath)).split(path.sep).join('/');
+}
+
+/**
+ * Decide whether to open a clone inside its dev container and build the folder URI
+ * Returns null to open the clone normally
+ *
+ * Priority: explicit request (--devcontainer / --no-devcontainer) >
+ * editor.devContainer["owner/repo"] in settings.json > prompt
+ */
+export async function resolveDevContainerUri(
+  rootDir: string,
+  targetPath: string,
+  editor: EditorDefinition,
+  requested?: boolean
+): Promise<string | null> {
+  if (requested === false || !editor.supportsDevContainers) {
+    return null;
+  }
+
+  const configPath = await findDevContainerConfig(targetPath);
+  if (!configPath) {
+    return null;
+  }
+
+  if (requested === undefined) {
+    let config: Config | undefined;
+    try {
+      config = await loadConfig(rootDir);
+    } catch {
+      config = undefined;
+    }
+
+    // Preferences are stored per repository, shared by all of its branch clones
+    const repoKey = await getRepositoryKey(rootDir, targetPath);
+    let useContainer = config?.editor?.devContainer?.[repoKey];
+
+    if (useContainer === undefined) {
+      const { openInContainer, rememberChoice } = await promptForDevContainerOpening(repoKey);
+      useContainer = openInContainer;
+
+      if (rememberChoice) {
+        await updateEditorPreferences(rootDir, {
+          devContainer: { ...config?.editor?.devContainer, [repoKey]: openInContainer },
+        });
+      }
+    }
+
+    if (!useContainer) {
+      return null;
+    }
+  }
+
+  const workspaceFolder = await getContainerWorkspaceFolder(targetPath, configPath);
+  return buildDevContainerUri(targetPath, workspaceFolder);
+}
+
 /**
  * Handles editor opening with user preferences
  * Checks config for auto-open preference, prompts if needed, and opens editor accordingly
@@ -38,6 +130,7 @@ export async function handleEditorOpening(
     // Load configuration to check for editor preferences
     const config = await loadConfig(rootDir);
     const autoOpen = config.editor?.autoOpen;
+    const editor = await resolveEditor(rootDir);
 
     let shouldOpen: boolean;
 
@@ -49,7 +142,7 @@ export async function handleEditorOpening(
       shouldOpen = false;
     } else {
       // No preference set (null or undefined), prompt the user
-      const { openInEditor, rememberChoice } = await promptForEditorOpening();
+      const { openInEditor, rememberChoice } = await promptForEditorOpening(editor.name);
       shouldOpen = openInEditor;
 
       if (rememberChoice) {
@@ -59,13 +152,14 @@ export async function handleEditorOpening(
     }
 
     if (shouldOpen) {
-      logger.info('Opening in VSCode...');
-      const opened = await openInVSCode({ targetPath });
+      const folderUri = await resolveDevContainerUri(rootDir, targetPath, editor);
+      logger.info(`Opening in ${editor.name}${folderUri ? ' (dev container)' : ''}...`);
+      const opened = await openInEditor({ targetPath, editor, folderUri: folderUri ?? undefined });
 
       if (opened) {
-        logger.success('Successfully opened in VSCode');
+        logger.success(`Successfully opened in ${editor.name}`);
       } else {
-        logger.warn('VSCode not available. Please open manually:');
+        logger.warn(`${editor.name} not available. Please open manually:`);
         logger.info(`  cd ${targetPath}`);
       }
     } else {
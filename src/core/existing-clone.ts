@@ -0,0 +1,157 @@
+import fs from 'fs-extra';
+import simpleGit from 'simple-git';
+import type { ExistingClone } from '../types/index.js';
+import { GCPBError } from '../types/index.js';
+import type { Logger } from '../utils/logger.js';
+import {
+  type BranchRemovalTarget,
+  removeBranchClones,
+  runPreRemoveHooks,
+} from './branch-remover.js';
+import {
+  describeUnsavedWork,
+  fetchClone,
+  getCloneStatus,
+  getUnsavedWork,
+  getUpstreamBranch,
+  pullFastForward,
+} from './git-status.js';
+import { isGitRepository } from './repository-scanner.js';
+import { parseGitUrl } from './url-parser.js';
+
+/**
+ * Compare two clone URLs by host, owner and repository, so that
+ * git@github.com:acme/web.git and https://github.com/acme/web match
+ */
+function isSameRepository(url: string, otherUrl: string): boolean {
+  try {
+    const a = parseGitUrl(url);
+    const b = parseGitUrl(otherUrl);
+    return (
+      a.host.toLowerCase() === b.host.toLowerCase() &&
+      a.owner.toLowerCase() === b.owner.toLowerCase() &&
+      a.repo.toLowerCase() === b.repo.toLowerCase()
+    );
+  } catch {
+    return url === otherUrl;
+  }
+}
+
+/**
+ * Origin URL of a clone as configured, or null when it has none
+ * Read from the config because git remote -v applies url.<base>.insteadOf rewrites
+ */
+async function getOriginUrl(clonePath: string): Promise<string | null> {
+  const config = await simpleGit(clonePath).getConfig('remote.origin.url');
+  return config.value || null;
+}
+
+/**
+ * Inspect the directory a new clone is about to be created in, null when there is none
+ * It matches when it is a clone of url with targetBranch checked out, so it can be reused
+ */
+export async function inspectExistingClone(
+  targetPath: string,
+  url: string,
+  targetBranch: string
+): Promise<ExistingClone | null> {
+  if (!(await fs.pathExists(targetPath))) {
+    return null;
+  }
+  if (!(await isGitRepository(targetPath))) {
+    // An empty directory holds nothing to lose, so it can be replaced
+    let empty = false;
+    try {
+      empty = (await fs.readdir(targetPath)).length === 0;
+    } catch {
+      // Files and unreadable directories are never treated as empty
+    }
+    return {
+      path: targetPath,
+      matches: false,
+      reason: empty ? 'is an empty directory' : 'is not a git repository',
+      unsavedWork: empty ? [] : ['files not under version control'],
+    };
+  }
+
+  let unsavedWork: string[];
+  try {
+    unsavedWork = describeUnsavedWork(await getUnsavedWork(targetPath));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    unsavedWork = [`could not inspect working tree (${message})`];
+  }
+
+  let reason: string | undefined;
+  try {
+    const originUrl = await getOriginUrl(targetPath);
+    const { branch } = await getCloneStatus(targetPath);
+    if (!originUrl || !isSameRepository(url, originUrl)) {
+      reason = originUrl ? `is a clone of ${originUrl}` : 'has no origin remote';
+    } else if (branch !== targetBranch) {
+      reason = branch ? `has branch "${branch}" checked out` : 'has a detached HEAD';
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    reason = `could not be inspected (${message})`;
+  }
+
+  return { path: targetPath, matches: reason === undefined, reason, unsavedWork };
+}
+
+/**
+ * Bring a reused clone up to date: fetch origin, then fast-forward the branch to its upstream
+ * Branches without an upstream (never pushed) or whose upstream was deleted are only fetched
+ *
+ * @returns The upstream fast-forwarded to, or null
+ */
+export async function updateExistingClone(clonePath: string): Promise<string | null> {
+  try {
+    await fetchClone(clonePath);
+    const upstream = await getUpstreamBranch(clonePath);
+    if (!upstream || upstream.gone) {
+      return null;
+    }
+    await pullFastForward(clonePath);
+    return upstream.name;
+  } catch (error) {
+    throw new GCPBError(
+      `Failed to update ${clonePath}`,
+      'The branch may have diverged from its upstream; please merge or rebase it there with git',
+      error instanceof Error ? error : undefined
+    );
+  }
+}
+
+/**
+ * First free sibling directory for a clone whose directory is taken, e.g. feat-x-2
+ */
+export async function findAlternativePath(targetPath: string): Promise<string> {
+  let suffix = 2;
+  while (await fs.pathExists(`${targetPath}-${suffix}`)) {
+    suffix++;
+  }
+  return `${targetPath}-${suffix}`;
+}
+
+/**
+ * Move a directory that is replaced by a new clone to the trash, after its pre-remove hooks
+ * Refuses when it holds unsaved work, like rm without --discard-changes
+ */
+export async function removeExistingClone(
+  rootDir: string,
+  existing: ExistingClone,
+  target: BranchRemovalTarget,
+  logger?: Logger
+): Promise<void> {
+  if (existing.unsavedWork.length > 0) {
+    throw new GCPBError(
+      `Refusing to replace ${existing.path} with unsaved work: ${existing.unsavedWork.join(', ')}`,
+      'Commit and push or drop the work first, or clone into another directory'
+    );
+  }
+
+  const targets = [{ ...target, path: existing.path }];
+  await runPreRemoveHooks(rootDir, targets, logger);
+  await removeBranchClones(rootDir, targets);
+}
@@ -0,0 +1,153 @@
+import simpleGit from 'simple-git';
+import type { BranchTracking, CloneStatus, UnsavedWork, UpstreamBranch } from '../types/index.js';
+
+/**
+ * Inspect the working tree of a branch clone
+ * Reports checked-out branch, local changes, stashes and ahead/behind vs. upstream
+ *
+ * Ahead/behind are computed against the locally known upstream ref,
+ * so fetch first for up-to-date numbers.
+ */
+export async function getCloneStatus(clonePath: string): Promise<CloneStatus> {
+  const git = simpleGit(clonePath);
+
+  const status = await git.status();
+  const stashes = await git.stashList();
+
+  const untrackedFiles = status.not_added.length;
+
+  return {
+    branch: status.detached ? null : status.current,
+    upstream: status.tracking,
+    changedFiles: status.files.length - untrackedFiles,
+    untrackedFiles,
+    stashCount: stashes.total,
+    ahead: status.ahead,
+    behind: status.behind,
+  };
+}
+
+/**
+ * Check whether a clone has uncommitted changes (tracked or untracked)
+ */
+export function isDirty(status: CloneStatus): boolean {
+  return status.changedFiles > 0 || status.untrackedFiles > 0;
+}
+
+/**
+ * Fetch the latest refs for a clone from origin, pruning deleted remote branches
+ */
+export async function fetchClone(clonePath: string): Promise<void> {
+  const git = simpleGit(clonePath);
+  await git.fetch(['origin', '--prune']);
+}
+
+/**
+ * Fast-forward the checked-out branch to its upstream
+ * Fails instead of creating a merge commit when the branches have diverged
+ */
+export async function pullFastForward(clonePath: string): Promise<void> {
+  const git = simpleGit(clonePath);
+  await git.pull(['--ff-only']);
+}
+
+/**
+ * Detect work in a clone that would be lost if its directory were deleted:
+ * uncommitted changes, untracked files, stashes, and local commits not on any remote
+ */
+export async function getUnsavedWork(clonePath: string): Promise<UnsavedWork> {
+  const status = await getCloneStatus(clonePath);
+
+  // Commits reachable from any local branch but from no remote-tracking ref
+  const git = simpleGit(clonePath);
+  const unpushed = await git.raw(['rev-list', '--count', '--branches', '--not', '--remotes']);
+
+  return {
+    changedFiles: status.changedFiles,
+    untrackedFiles: status.untrackedFiles,
+    stashCount: status.stashCount,
+    unpushedCommits: parseInt(unpushed.trim(), 10) || 0,
+  };
+}
+
+/**
+ * Describe unsaved work as human-readable items, empty when nothing would be lost
+ *
+ * @example
+ * describeUnsavedWork({ changedFiles: 2, untrackedFiles: 0, stashCount: 1, unpushedCommits: 0 })
+ * // returns ["2 uncommitted changes", "1 stash"]
+ */
+export function describeUnsavedWork(work: UnsavedWork): string[] {
+  const plural = (count: number, word: string, suffix = 's') =>
+    `${count} ${word}${count === 1 ? '' : suffix}`;
+
+  const items: string[] = [];
+  if (work.changedFiles > 0) {
+    items.push(plural(work.changedFiles, 'uncommitted change'));
+  }
+  if (work.untrackedFiles > 0) {
+    items.push(plural(work.untrackedFiles, 'untracked file'));
+  }
+  if (work.unpushedCommits > 0) {
+    items.push(plural(work.unpushedCommits, 'unpushed commit'));
+  }
+  if (work.stashCount > 0) {
+    items.push(plural(work.stashCount, 'stash', 'es'));
+  }
+  return items;
+}
+
+/**
+ * Get the upstream of the checked-out branch (e.g. "origin/feat/login") from its config
+ * Marked gone when the remote-tracking ref is missing, which is where @{upstream} stops resolving
+ *
+ * Returns null when HEAD is detached or no upstream is configured
+ */
+export async function getUpstreamBranch(clonePath: string): Promise<UpstreamBranch | null> {
+  try {
+    const git = simpleGit(clonePath);
+    const branch = (await git.revparse(['--abbrev-ref', 'HEAD'])).trim();
+    if (!branch || branch === 'HEAD') {
+      return null;
+    }
+
+    const tracking = await getBranchTracking(clonePath, branch);
+    if (!tracking) {
+      return null;
+    }
+
+    // for-each-ref also matches by path prefix, so the output is compared exactly
+    const ref = `refs/remotes/${tracking.remote}/${tracking.remoteBranch}`;
+    const refs = await git.raw(['for-each-ref', '--format=%(refname)', ref]);
+    return {
+      ...tracking,
+      name: `${tracking.remote}/${tracking.remoteBranch}`,
+      gone: !refs.split('\n').some((line) => line.trim() === ref),
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Read the remote branch a local branch tracks from its config
+ * Unlike @{upstream}, this still answers once fetch --prune deleted the remote-tracking ref
+ *
+ * Returns null when the branch tracks nothing, or tracks a local branch (remote ".")
+ */
+export async function getBranchTracking(
+  clonePath: string,
+  branch: string
+): Promise<BranchTracking | null> {
+  try {
+    const git = simpleGit(clonePath);
+    const remote = (await git.getConfig(`branch.${branch}.remote`)).value;
+    const merge = (await git.getConfig(`branch.${branch}.merge`)).value;
+    if (!remote || remote === '.' || !merge?.startsWith('refs/heads/')) {
+      return null;
+    }
+    return { remote, remoteBranch: merge.slice('refs/heads/'.length) };
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,128 @@
+import { spawn } from 'cross-spawn';
+import type { BranchClone, Config, HookEvent, HookResult } from '../types/index.js';
+import { matchGlob } from '../utils/glob.js';
+import type { Logger } from '../utils/logger.js';
+import { loadConfig } from './config.js';
+
+const EVENT_LABELS: Record<HookEvent, string> = {
+  postClone: 'post-clone',
+  preRemove: 'pre-remove',
+};
+
+/**
+ * Collect the commands configured for an event, in settings.json order
+ * Every "owner/repo" glob that matches contributes its commands
+ */
+export function getHookCommands(
+  config: Config,
+  event: HookEvent,
+  owner: string,
+  repo: string
+): string[] {
+  const commands: string[] = [];
+
+  for (const [pattern, hooks] of Object.entries(config.hooks ?? {})) {
+    if (matchGlob(pattern, `${owner}/${repo}`)) {
+      commands.push(...(hooks[event] ?? []));
+    }
+  }
+
+  return commands;
+}
+
+/**
+ * Run one shell command inside the clone, streaming its output line by line
+ * Resolves with the exit code, or throws if the command cannot be started
+ */
+function runHookCommand(
+  command: string,
+  clone: BranchClone,
+  rootDir: string,
+  onLine: (line: string) => void
+): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, [], {
+      cwd: clone.path,
+      shell: true,
+      stdio: ['ignore', 'pipe', 'pipe'],
+      env: {
+        ...process.env,
+        GCPB_ROOT: rootDir,
+        GCPB_OWNER: clone.owner,
+        GCPB_REPO: clone.repo,
+        GCPB_BRANCH: clone.branch,
+        GCPB_PATH: clone.path,
+      },
+    });
+
+    // Buffer partial lines per stream so output is emitted one full line at a time
+    const forward = (stream: NodeJS.ReadableStream | null) => {
+      let pending = '';
+      stream?.setEncoding('utf-8');
+      stream?.on('data', (chunk: string) => {
+        const lines = (pending + chunk).split(/\r?\n/);
+        pending = lines.pop() ?? '';
+        lines.forEach(onLine);
+      });
+      stream?.on('end', () => {
+        if (pending) {
+          onLine(pending);
+        }
+      });
+    };
+    forward(child.stdout);
+    forward(child.stderr);
+
+    child.on('error', reject);
+    child.on('close', (code) => resolve(code ?? 1));
+  });
+}
+
+/**
+ * Run the hooks configured for a clone
+ * Commands run in order and stop at the first failure; failures are reported, never thrown
+ */
+export async function runHooks(
+  event: HookEvent,
+  rootDir: string,
+  clone: BranchClone,
+  logger?: Logger
+): Promise<HookResult> {
+  let commands: string[];
+  try {
+    commands = getHookCommands(await loadConfig(rootDir), event, clone.owner, clone.repo);
+  } catch {
+    // No readable config means no hooks
+    return { success: true, ran: 0 };
+  }
+
+  const label = EVENT_LABELS[event];
+  let ran = 0;
+
+  for (const command of commands) {
+    logger?.info(`Running ${label} hook: ${command}`);
+
+    let error: string;
+    try {
+      const exitCode = await runHookCommand(command, clone, rootDir, (line) =>
+        logger?.output(line)
+      );
+      if (exitCode === 0) {
+        ran++;
+        continue;
+      }
+      error = `exited with code ${exitCode}`;
+    } catch (spawnError) {
+      error = spawnError instanceof Error ? spawnError.message : 'Unknown error';
+    }
+
+    logger?.warn(`${label} hook failed (${error}): ${command}`);
+    const skipped = commands.length - ran - 1;
+    if (skipped > 0) {
+      logger?.warn(`Skipped ${skipped} remaining ${label} hook${skipped === 1 ? '' : 's'}`);
+    }
+    return { success: false, ran, failedCommand: command, error };
+  }
+
+  return { success: true, ran };
+}
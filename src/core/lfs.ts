@@ -0,0 +1,67 @@
+import fs from 'fs-extra';
+import path from 'path';
+import simpleGit, { type SimpleGit } from 'simple-git';
+import type { Config } from '../types/index.js';
+import { GCPBError } from '../types/index.js';
+import { matchGlob } from '../utils/glob.js';
+import { loadConfig } from './config.js';
+
+/**
+ * Check whether clones of a repository download their Git LFS objects
+ * Every "owner/repo" glob listed in lfs opts a repository in
+ */
+export function isLfsRepository(config: Config, owner: string, repo: string): boolean {
+  return (config.lfs ?? []).some((pattern) => matchGlob(pattern, `${owner}/${repo}`));
+}
+
+/**
+ * Read the lfs setting of a repository, treating unreadable settings as off
+ */
+export async function resolveLfs(rootDir: string, owner: string, repo: string): Promise<boolean> {
+  try {
+    return isLfsRepository(await loadConfig(rootDir), owner, repo);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Keep the LFS pointer files in checkouts run through git
+ * A globally installed git-lfs smudge filter would otherwise download every object on checkout
+ */
+export function skipLfsSmudge(git: SimpleGit): SimpleGit {
+  return git.env({ ...process.env, GIT_LFS_SKIP_SMUDGE: '1' });
+}
+
+/**
+ * Check whether a checkout tracks any file with Git LFS, per its top-level .gitattributes
+ */
+export async function usesLfs(clonePath: string): Promise<boolean> {
+  const attributesPath = path.join(clonePath, '.gitattributes');
+  if (!(await fs.pathExists(attributesPath))) {
+    return false;
+  }
+
+  return /\bfilter=lfs\b/.test(await fs.readFile(attributesPath, 'utf8'));
+}
+
+/**
+ * Download and check out the LFS objects of a clone
+ * The LFS filters are installed into the clone so later checkouts fetch their objects too
+ */
+export async function pullLfsObjects(clonePath: string): Promise<void> {
+  const git = simpleGit(clonePath);
+
+  try {
+    await git.raw(['lfs', 'version']);
+  } catch (error) {
+    throw new GCPBError(
+      'Git LFS is not installed',
+      'Install it from https://git-lfs.com and clone again',
+      error instanceof Error ? error : undefined
+    );
+  }
+
+  await git.raw(['lfs', 'install', '--local']);
+  await git.raw(['lfs', 'pull']);
+}
@@ -0,0 +1,138 @@
+import fs from 'fs-extra';
+import path from 'path';
+import type { CloneMetadata } from '../types/index.js';
+import { GCPBError } from '../types/index.js';
+
+const CONFIG_DIR = '.gcpb';
+const STATE_FILE = 'state.json';
+
+interface StateFile {
+  clones: Record<string, CloneMetadata>; // clone path relative to root, "/"-separated
+}
+
+function getStatePath(rootDir: string): string {
+  return path.join(rootDir, CONFIG_DIR, STATE_FILE);
+}
+
+/**
+ * Key a clone by its path relative to the root, e.g. "owner/repo/feat-login"
+ */
+export function getCloneKey(rootDir: string, clonePath: string): string {
+  return path.relative(rootDir, clonePath).split(path.sep).join('/');
+}
+
+async function readState(rootDir: string): Promise<StateFile> {
+  const statePath = getStatePath(rootDir);
+
+  if (!(await fs.pathExists(statePath))) {
+    return { clones: {} };
+  }
+
+  try {
+    const state = (await fs.readJson(statePath)) as Partial<StateFile> | undefined;
+    return { clones: state?.clones ?? {} };
+  } catch (error) {
+    throw new GCPBError(
+      'Failed to read clone metadata',
+      `Fix or delete ${statePath}; branch names then fall back to directory names`,
+      error instanceof Error ? error : undefined
+    );
+  }
+}
+
+async function writeState(rootDir: string, state: StateFile): Promise<void> {
+  try {
+    await fs.writeJson(getStatePath(rootDir), state, { spaces: 2 });
+  } catch (error) {
+    throw new GCPBError(
+      'Failed to save clone metadata',
+      'Please check write permissions for the .gcpb directory',
+      error instanceof Error ? error : undefined
+    );
+  }
+}
+
+/**
+ * Load the metadata of every recorded clone, keyed by getCloneKey
+ */
+export async function loadCloneMetadata(rootDir: string): Promise<Record<string, CloneMetadata>> {
+  return (await readState(rootDir)).clones;
+}
+
+/**
+ * Look up the metadata of one clone
+ * Returns null for clones gcpb did not create
+ */
+export async function getCloneMetadata(
+  rootDir: string,
+  clonePath: string
+): Promise<CloneMetadata | null> {
+  return (await readState(rootDir)).clones[getCloneKey(rootDir, clonePath)] ?? null;
+}
+
+/**
+ * Record metadata for a clone, replacing any previous record at the same path
+ */
+export async function saveCloneMetadata(
+  rootDir: string,
+  clonePath: string,
+  metadata: CloneMetadata
+): Promise<void> {
+  const state = await readState(rootDir);
+  state.clones[getCloneKey(rootDir, clonePath)] = metadata;
+  await writeState(rootDir, state);
+}
+
+/**
+ * Stamp lastOpenedAt on a clone, creating a record for clones gcpb did not create
+ */
+export async function markCloneOpened(
+  rootDir: string,
+  clonePath: string,
+  branch: string
+): Promise<void> {
+  const state = await readState(rootDir);
+  const key = getCloneKey(rootDir, clonePath);
+  state.clones[key] = {
+    ...(state.clones[key] ?? { branch }),
+    lastOpenedAt: new Date().toISOString(),
+  };
+  await writeState(rootDir, state);
+}
+
+/**
+ * Re-key the metadata of a moved clone under its new path and branch name
+ * Clones gcpb did not create get a record, so a directory name that differs from the branch
+ * still resolves to it
+ */
+export async function moveCloneMetadata(
+  rootDir: string,
+  fromPath: string,
+  toPath: string,
+  branch: string
+): Promise<void> {
+  const state = await readState(rootDir);
+  const fromKey = getCloneKey(rootDir, fromPath);
+
+  const metadata = { ...(state.clones[fromKey] ?? {}), branch };
+  delete state.clones[fromKey];
+  state.clones[getCloneKey(rootDir, toPath)] = metadata;
+  await writeState(rootDir, state);
+}
+
+/**
+ * Forget the metadata of removed clones
+ */
+export async function removeCloneMetadata(rootDir: string, clonePaths: string[]): Promise<void> {
+  const state = await readState(rootDir);
+  const keys = clonePaths.map((clonePath) => getCloneKey(rootDir, clonePath));
+
+  if (!keys.some((key) => Object.hasOwn(state.clones, key))) {
+    return;
+  }
+
+  for (const key of keys) {
+    delete state.clones[key];
+  }
+  await writeState(rootDir, state);
+}
@@ -0,0 +1,112 @@
+import type { SimpleGit } from 'simple-git';
+import type { Config, PartialCloneSettings, ValidationResult } from '../types/index.js';
+import { matchGlob } from '../utils/glob.js';
+import { loadConfig } from './config.js';
+
+/**
+ * Filters accepted by git clone --filter that keep a usable working tree
+ */
+const FILTER_PATTERN = /^(?:blob:none|blob:limit=\d+[kmg]?|tree:\d+)$/;
+
+/**
+ * Collect the partial clone settings of a repository
+ * Every matching "owner/repo" glob contributes, keys later in settings.json win
+ */
+export function getPartialCloneSettings(
+  config: Config,
+  owner: string,
+  repo: string
+): PartialCloneSettings {
+  let settings: PartialCloneSettings = {};
+
+  for (const [repoPattern, patternSettings] of Object.entries(config.partialClone ?? {})) {
+    if (matchGlob(repoPattern, `${owner}/${repo}`)) {
+      settings = { ...settings, ...patternSettings };
+    }
+  }
+
+  return settings;
+}
+
+/**
+ * Combine command line options with the repository's settings
+ * Options given explicitly take precedence; unreadable settings contribute nothing
+ */
+export async function resolvePartialClone(
+  rootDir: string,
+  owner: string,
+  repo: string,
+  options: PartialCloneSettings
+): Promise<PartialCloneSettings> {
+  let settings: PartialCloneSettings;
+  try {
+    settings = getPartialCloneSettings(await loadConfig(rootDir), owner, repo);
+  } catch {
+    settings = {};
+  }
+
+  return {
+    depth: options.depth ?? settings.depth,
+    filter: options.filter ?? settings.filter,
+    sparse: options.sparse ?? settings.sparse,
+  };
+}
+
+/**
+ * Check partial clone settings before anything is cloned
+ */
+export function validatePartialClone(settings: PartialCloneSettings): ValidationResult {
+  if (settings.depth !== undefined && (!Number.isInteger(settings.depth) || settings.depth < 1)) {
+    return {
+      valid: false,
+      error: `Invalid depth "${settings.depth}", expected a positive integer`,
+    };
+  }
+
+  if (settings.filter !== undefined && !FILTER_PATTERN.test(settings.filter)) {
+    return {
+      valid: false,
+      error: `Invalid filter "${settings.filter}", expected "blob:none", "tree:0" or "blob:limit=<size>"`,
+    };
+  }
+
+  const invalidDirectory = settings.sparse?.find(
+    (dir) => dir.trim() === '' || dir.startsWith('/') || dir.split('/').includes('..')
+  );
+  if (invalidDirectory !== undefined) {
+    return {
+      valid: false,
+      error: `Invalid sparse directory "${invalidDirectory}", expected a path inside the repository`,
+    };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Extra git clone arguments for the settings
+ * Shallow clones fetch every branch tip so base branches and remote checks keep working
+ */
+export function getPartialCloneArgs(settings: PartialCloneSettings): string[] {
+  const args: string[] = [];
+
+  if (settings.depth !== undefined) {
+    args.push('--depth', String(settings.depth), '--no-single-branch');
+  }
+  if (settings.filter !== undefined) {
+    args.push(`--filter=${settings.filter}`);
+  }
+  if (settings.sparse && settings.sparse.length > 0) {
+    // Start with the top-level files only, applySparseCheckout adds the directories
+    args.push('--sparse');
+  }
+
+  return args;
+}
+
+/**
+ * Restrict the working tree of a clone made with --sparse to the given directories
+ */
+export async function applySparseCheckout(git: SimpleGit, directories: string[]): Promise<void> {
+  await git.raw(['sparse-checkout', 'set', '--cone', ...directories]);
+}
@@ -0,0 +1,44 @@
+import simpleGit from 'simple-git';
+
+/**
+ * Check whether a branch exists in the mirror cache
+ * for-each-ref also matches by path prefix, so the output is compared exactly
+ */
+async function cacheHasBranch(cachePath: string, ref: string): Promise<boolean> {
+  try {
+    const git = simpleGit({ baseDir: cachePath });
+    const output = await git.raw(['for-each-ref', '--format=%(refname)', ref]);
+    return output.split('\n').some((line) => line.trim() === ref);
+  } catch {
+    // No cache yet
+    return false;
+  }
+}
+
+/**
+ * Check whether a branch exists on the remote, before cloning
+ *
+ * The mirror cache answers without network access when it has the branch. Otherwise git
+ * ls-remote asks the remote, as the cache may predate the branch. Returns false when neither can
+ * tell, leaving the final check to cloneRepository.
+ */
+export async function remoteBranchExists(
+  url: string,
+  cachePath: string,
+  branch: string
+): Promise<boolean> {
+  const ref = `refs/heads/${branch}`;
+
+  if (await cacheHasBranch(cachePath, ref)) {
+    return true;
+  }
+
+  try {
+    const git = simpleGit();
+    const output = await git.listRemote(['--heads', url, ref]);
+    return output.split('\n').some((line) => line.split('\t')[1]?.trim() === ref);
+  } catch {
+    // Network error, invalid URL, or other issues
+    return false;
+  }
+}
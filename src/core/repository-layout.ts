@@ -0,0 +1,56 @@
+import type { ParsedGitUrl, RepositoryLayout } from '../types/index.js';
+import { GCPBError } from '../types/index.js';
+import { loadConfig } from './config.js';
+
+export const DEFAULT_REPOSITORY_LAYOUT: RepositoryLayout = 'owner';
+
+const REPOSITORY_LAYOUTS: RepositoryLayout[] = ['owner', 'host'];
+
+/**
+ * Deepest repository directory searched below the root, counted in path segments
+ * Leaves room for a host and nested GitLab subgroups (host/group/subgroup/.../repo)
+ */
+export const MAX_REPOSITORY_DEPTH = 10;
+
+/**
+ * Map a parsed URL to the owner path of its repository, "/"-separated
+ * The owner keeps GitLab subgroups, so it may span several directories
+ *
+ * @example
+ * getRepositoryOwner(parseGitUrl('https://github.com/acme/web.git'), 'host') // returns "github.com/acme"
+ * getRepositoryOwner(parseGitUrl('git@gitlab.com:group/sub/app.git'), 'owner') // returns "group/sub"
+ */
+export function getRepositoryOwner(parsed: ParsedGitUrl, layout: RepositoryLayout): string {
+  switch (layout) {
+    case 'owner':
+      return parsed.owner;
+    case 'host':
+      return `${parsed.host}/${parsed.owner}`;
+    default:
+      throw new GCPBError(
+        `Unknown layout "${String(layout)}"`,
+        `Set layout in .gcpb/settings.json to one of: ${REPOSITORY_LAYOUTS.join(', ')}`
+      );
+  }
+}
+
+/**
+ * Read the configured layout, falling back to the default
+ */
+export async function getRepositoryLayout(rootDir: string): Promise<RepositoryLayout> {
+  try {
+    return (await loadConfig(rootDir)).layout ?? DEFAULT_REPOSITORY_LAYOUT;
+  } catch {
+    return DEFAULT_REPOSITORY_LAYOUT;
+  }
+}
+
+/**
+ * Owner path of a repository with the configured layout
+ */
+export async function resolveRepositoryOwner(
+  rootDir: string,
+  parsed: ParsedGitUrl
+): Promise<string> {
+  return getRepositoryOwner(parsed, await getRepositoryLayout(rootDir));
+}
@@ -1,7 +1,11 @@
 import fs from 'fs-extra';
 import path from 'path';
-import type { RepositoryInfo } from '../types/index.js';
+import type { BranchClone, CloneMetadata, RepositoryInfo } from '../types/index.js';
 import { GCPBError } from '../types/index.js';
+import { parsePathArg } from '../utils/arg-parser.js';
+import { fromBranchDirectory } from './branch-naming.js';
+import { loadCloneMetadata } from './metadata-store.js';
+import { MAX_REPOSITORY_DEPTH } from './repository-layout.js';
 
 const CONFIG_DIR = '.gcpb';
 
@@ -27,94 +31,176 @@ export async function isGitRepository(dirPath: string): Promise<boolean> {
 }
 
 /**
- * Scans the root directory for cloned repositories
- * Returns array of RepositoryInfo with owner/repo/branches structure
+ * Names of the subdirectories of a directory, skipping .gcpb and entries we cannot access
  */
-export async function scanRepositories(rootDir: string): Promise<RepositoryInfo[]> {
-  try {
-    const repositories: RepositoryInfo[] = [];
+async function readSubdirectories(dirPath: string): Promise<string[]> {
+  const subdirectories: string[] = [];
 
-    // 1. Scan owner directories (${root}/*)
-    const entries = await fs.readdir(rootDir);
+  for (const entry of await fs.readdir(dirPath)) {
+    if (entry === CONFIG_DIR) {
+      continue;
+    }
 
-    for (const owner of entries) {
-      // Skip .gcpb directory
-      if (owner === CONFIG_DIR) {
+    let entryStat;
+    try {
+      entryStat = await fs.stat(path.join(dirPath, entry));
+    } catch (error) {
+      const err = error as NodeJS.ErrnoException;
+      if (err.code === 'EACCES' || err.code === 'EPERM') {
         continue;
       }
+      throw error;
+    }
 
-      const ownerPath = path.join(rootDir, owner);
-
-      let ownerStat;
-      try {
-        ownerStat = await fs.stat(ownerPath);
-      } catch (error) {
-        const err = error as NodeJS.ErrnoException;
-        if (err.code === 'EACCES' || err.code === 'EPERM') {
-          // Skip directories we can't access
-          continue;
-        }
-        throw error;
-      }
+    if (entryStat.isDirectory()) {
+      subdirectories.push(entry);
+    }
+  }
 
-      if (!ownerStat.isDirectory()) {
-        continue;
-      }
+  return subdirectories;
+}
 
-      // 2. Scan repo directories (${root}/${owner}/*)
-      const repoDirs = await fs.readdir(ownerPath);
-
-      for (const repo of repoDirs) {
-        const repoPath = path.join(ownerPath, repo);
-
-        let repoStat;
-        try {
-          repoStat = await fs.stat(repoPath);
-        } catch (error) {
-          const err = error as NodeJS.ErrnoException;
-          if (err.code === 'EACCES' || err.code === 'EPERM') {
-            continue;
-          }
-          throw error;
-        }
-
-        if (!repoStat.isDirectory()) {
-          continue;
-        }
-
-        // 3. Scan branch directories (${root}/${owner}/${repo}/*)
-        const branchDirs = await fs.readdir(repoPath);
-        const branches: string[] = [];
-
-        for (const branch of branchDirs) {
-          const branchPath = path.join(repoPath, branch);
-
-          let branchStat;
-          try {
-            branchStat = await fs.stat(branchPath);
-          } catch (error) {
-            const err = error as NodeJS.ErrnoException;
-            if (err.code === 'EACCES' || err.code === 'EPERM') {
-              continue;
-            }
-            throw error;
-          }
-
-          // Check if it's a directory and contains .git
-          if (branchStat.isDirectory() && (await isGitRepository(branchPath))) {
-            branches.push(branch);
-          }
-        }
-
-        if (branches.length > 0) {
-          repositories.push({
-            owner,
-            repo,
-            branches,
-            fullPath: repoPath,
-          });
-        }
-      }
+/**
+ * Repository directory of a recorded clone, e.g. "owner/repo" for "owner/repo/feat/login"
+ * Only nested naming spreads a branch over several directories, and then it matches the branch name
+ */
+function getRecordedRepositoryKey(cloneKey: string, record: CloneMetadata): string {
+  return cloneKey.endsWith(`/${record.branch}`)
+    ? cloneKey.slice(0, -(record.branch.length + 1))
+    : path.posix.dirname(cloneKey);
+}
+
+/**
+ * Find clone directories among the subdirectories of a repository directory,
+ * relative and "/"-separated
+ * Non-clone directories are only searched when recorded clones of this repository live beneath
+ * them, which is how nested branch directories (feat/login) are found
+ */
+async function findCloneDirectories(
+  repoPath: string,
+  repoKey: string,
+  metadata: Record<string, CloneMetadata>,
+  subdirectories: string[],
+  relativeDir = ''
+): Promise<string[]> {
+  const directories: string[] = [];
+
+  for (const entry of subdirectories) {
+    const directory = relativeDir ? `${relativeDir}/${entry}` : entry;
+    const entryPath = path.join(repoPath, directory);
+
+    // Check if it contains .git, otherwise look for recorded clones nested inside
+    if (await isGitRepository(entryPath)) {
+      directories.push(directory);
+      continue;
+    }
+
+    const prefix = `${repoKey}/${directory}/`;
+    const hasNestedClones = Object.entries(metadata).some(
+      ([key, record]) => key.startsWith(prefix) && getRecordedRepositoryKey(key, record) === repoKey
+    );
+    if (hasNestedClones) {
+      directories.push(
+        ...(await findCloneDirectories(
+          repoPath,
+          repoKey,
+          metadata,
+          await readSubdirectories(entryPath),
+          directory
+        ))
+      );
+    }
+  }
+
+  return directories;
+}
+
+/**
+ * Build the repository found at a directory from its clone directories
+ */
+function toRepositoryInfo(
+  repoKey: string,
+  repoPath: string,
+  directories: string[],
+  metadata: Record<string, CloneMetadata>
+): RepositoryInfo {
+  const branches: string[] = [];
+  const branchDirs: Record<string, string> = {};
+  const branchMetadata: Record<string, CloneMetadata> = {};
+
+  for (const directory of directories) {
+    const record = metadata[`${repoKey}/${directory}`];
+    const branch = record?.branch ?? fromBranchDirectory(directory);
+    branches.push(branch);
+    if (branch !== directory) {
+      branchDirs[branch] = directory;
+    }
+    if (record) {
+      branchMetadata[branch] = record;
+    }
+  }
+
+  const repository: RepositoryInfo = {
+    owner: path.posix.dirname(repoKey),
+    repo: path.posix.basename(repoKey),
+    branches,
+    fullPath: repoPath,
+  };
+  if (Object.keys(branchDirs).length > 0) {
+    repository.branchDirs = branchDirs;
+  }
+  if (Object.keys(branchMetadata).length > 0) {
+    repository.metadata = branchMetadata;
+  }
+  return repository;
+}
+
+/**
+ * Find repositories at or below a directory, given by its "/"-separated path relative to the root
+ * A directory at least owner/repo deep that holds clones is a repository; any other directory is
+ * part of an owner path (host, group, subgroup) and is searched further
+ */
+async function scanDirectory(
+  rootDir: string,
+  key: string,
+  metadata: Record<string, CloneMetadata>
+): Promise<RepositoryInfo[]> {
+  const dirPath = path.join(rootDir, ...key.split('/'));
+  const subdirectories = await readSubdirectories(dirPath);
+  const depth = key.split('/').length;
+
+  if (depth >= 2) {
+    const directories = await findCloneDirectories(dirPath, key, metadata, subdirectories);
+    if (directories.length > 0) {
+      return [toRepositoryInfo(key, dirPath, directories, metadata)];
+    }
+    if (depth >= MAX_REPOSITORY_DEPTH) {
+      return [];
+    }
+  }
+
+  const repositories: RepositoryInfo[] = [];
+  for (const entry of subdirectories) {
+    repositories.push(...(await scanDirectory(rootDir, `${key}/${entry}`, metadata)));
+  }
+  return repositories;
+}
+
+/**
+ * Scans the root directory for cloned repositories
+ * Returns array of RepositoryInfo with owner/repo/branches structure, where the owner may span
+ * several directories (github.com/acme with the host layout, group/subgroup on GitLab)
+ * Branch names come from clone metadata, falling back to the directory name
+ */
+export async function scanRepositories(rootDir: string): Promise<RepositoryInfo[]> {
+  // Outside the try so a corrupt state file reports its own fix
+  const metadata = await loadCloneMetadata(rootDir);
+
+  try {
+    const repositories: RepositoryInfo[] = [];
+
+    for (const owner of await readSubdirectories(rootDir)) {
+      repositories.push(...(await scanDirectory(rootDir, owner, metadata)));
     }
 
     return repositories;
@@ -126,3 +212,88 @@ export async function scanRepositories(rootDir: string): Promise<RepositoryInfo[
     );
   }
 }
+
+/**
+ * Directory of a branch clone, relative to its repository directory
+ */
+export function getBranchDirectory(repository: RepositoryInfo, branch: string): string {
+  return repository.branchDirs?.[branch] ?? branch;
+}
+
+/**
+ * Absolute path of a branch clone
+ */
+export function getBranchClonePath(repository: RepositoryInfo, branch: string): string {
+  return path.join(repository.fullPath, ...getBranchDirectory(repository, branch).split('/'));
+}
+
+/**
+ * Resolve a branch argument to a cloned branch name
+ * Accepts the branch name or its directory name (e.g. "feat-login" for "feat/login")
+ */
+export function resolveBranchName(repository: RepositoryInfo, name: string): string | undefined {
+  if (repository.branches.includes(name)) {
+    return name;
+  }
+  return repository.branches.find((branch) => getBranchDirectory(repository, branch) === name);
+}
+
+/**
+ * "owner/repo" paths of scanned repositories, for parsePathArg
+ */
+export function getRepositoryKeys(repositories: RepositoryInfo[]): string[] {
+  return repositories.map((repository) => `${repository.owner}/${repository.repo}`);
+}
+
+/**
+ * Flattens scanned repositories into individual branch clones
+ * Optionally scoped by an "org", "org/repo" or "org/repo/branch" path argument
+ * An owner argument also selects owners nested below it (a host or a GitLab group)
+ * Results are sorted by owner, repo and branch for stable output
+ */
+export function filterBranchClones(
+  repositories: RepositoryInfo[],
+  pathArg?: string
+): BranchClone[] {
+  const parsed = parsePathArg(pathArg, getRepositoryKeys(repositories));
+  const clones: BranchClone[] = [];
+
+  for (const repository of repositories) {
+    const org = parsed.org;
+    if (
+      org &&
+      repository.owner !== org &&
+      !(!parsed.repo && repository.owner.startsWith(`${org}/`))
+    ) {
+      continue;
+    }
+    if (parsed.repo && repository.repo !== parsed.repo) {
+      continue;
+    }
+
+    const selectedBranch = parsed.branch && resolveBranchName(repository, parsed.branch);
+
+    for (const branch of repository.branches) {
+      if (parsed.branch && branch !== selectedBranch) {
+        continue;
+      }
+      const clone: BranchClone = {
+        owner: repository.owner,
+        repo: repository.repo,
+        branch,
+        path: getBranchClonePath(repository, branch),
+      };
+      if (repository.metadata?.[branch]) {
+        clone.metadata = repository.metadata[branch];
+      }
+      clones.push(clone);
+    }
+  }
+
+  return clones.sort(
+    (a, b) =>
+      a.owner.localeCompare(b.owner) ||
+      a.repo.localeCompare(b.repo) ||
+      a.branch.localeCompare(b.branch)
+  );
+}
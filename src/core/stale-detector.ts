@@ -0,0 +1,59 @@
+import simpleGit from 'simple-git';
+import type { StaleBranchCheck } from '../types/index.js';
+import { getUpstreamBranch } from './git-status.js';
+
+/**
+ * Check whether a ref exists in a repository
+ * for-each-ref also matches by path prefix, so the output is compared exactly
+ */
+async function refExists(repoPath: string, ref: string, mergedInto?: string): Promise<boolean> {
+  const git = simpleGit({ baseDir: repoPath });
+  const args = ['for-each-ref', '--format=%(refname)'];
+  if (mergedInto) {
+    args.push(`--merged=${mergedInto}`);
+  }
+  args.push(ref);
+
+  const output = await git.raw(args);
+  return output.split('\n').some((line) => line.trim() === ref);
+}
+
+/**
+ * Determine whether a branch clone tracks a remote branch that was deleted upstream
+ * or fully merged into the default branch, according to the (freshly updated) mirror cache
+ *
+ * Returns null when the clone is not stale, has no upstream, or tracks the default branch
+ * (clones created as a new local branch track their base branch until first push).
+ */
+export async function detectStaleBranch(
+  cachePath: string,
+  clonePath: string,
+  defaultBranch: string
+): Promise<StaleBranchCheck | null> {
+  const upstream = await getUpstreamBranch(clonePath);
+  if (!upstream || upstream.remote !== 'origin') {
+    return null;
+  }
+
+  const { remoteBranch } = upstream;
+  if (remoteBranch === defaultBranch) {
+    return null;
+  }
+
+  // The clone's own fetch --prune already dropped the remote-tracking ref
+  if (upstream.gone) {
+    return { remoteBranch, reason: 'deleted' };
+  }
+
+  const ref = `refs/heads/${remoteBranch}`;
+
+  if (!(await refExists(cachePath, ref))) {
+    return { remoteBranch, reason: 'deleted' };
+  }
+
+  if (await refExists(cachePath, ref, `refs/heads/${defaultBranch}`)) {
+    return { remoteBranch, reason: 'merged' };
+  }
+
+  return null;
+}
@@ -0,0 +1,135 @@
+import fs from 'fs-extra';
+import path from 'path';
+import simpleGit from 'simple-git';
+import type { Config } from '../types/index.js';
+import { matchGlob } from '../utils/glob.js';
+import { ensureCache } from './cache-manager.js';
+import { loadConfig } from './config.js';
+import { skipLfsSmudge } from './lfs.js';
+import { resolveRepositoryOwner } from './repository-layout.js';
+import { parseGitUrl } from './url-parser.js';
+
+export interface Submodule {
+  name: string; // name in .gitmodules, usually the path
+  path: string; // relative to the superproject
+  url: string; // resolved by git submodule init, relative URLs included
+}
+
+/**
+ * Check whether clones of a repository initialize their submodules
+ * Every "owner/repo" glob listed in submodules opts a repository in
+ */
+export function isSubmoduleRepository(config: Config, owner: string, repo: string): boolean {
+  return (config.submodules ?? []).some((pattern) => matchGlob(pattern, `${owner}/${repo}`));
+}
+
+/**
+ * Read the submodules setting of a repository, treating unreadable settings as off
+ */
+export async function resolveSubmodules(
+  rootDir: string,
+  owner: string,
+  repo: string
+): Promise<boolean> {
+  try {
+    return isSubmoduleRepository(await loadConfig(rootDir), owner, repo);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Register the submodules of a checkout and list them with their resolved URLs
+ */
+export async function initSubmodules(clonePath: string): Promise<Submodule[]> {
+  if (!(await fs.pathExists(path.join(clonePath, '.gitmodules')))) {
+    return [];
+  }
+
+  const git = simpleGit(clonePath);
+  await git.raw(['submodule', 'init']);
+
+  let output: string;
+  try {
+    output = await git.raw([
+      'config',
+      '--file',
+      '.gitmodules',
+      '--get-regexp',
+      '^submodule\\..*\\.path$',
+    ]);
+  } catch {
+    // .gitmodules without any submodule
+    return [];
+  }
+
+  const submodules: Submodule[] = [];
+  for (const line of output.split('\n')) {
+    const match = line.match(/^submodule\.(.+)\.path (.+)$/);
+    if (!match) {
+      continue;
+    }
+    const [, name, submodulePath] = match;
+    const url = (await git.raw(['config', '--get', `submodule.${name}.url`])).trim();
+    submodules.push({ name, path: submodulePath, url });
+  }
+
+  return submodules;
+}
+
+/**
+ * Prepare the repository cache of a submodule URL, or return undefined to clone it directly
+ */
+async function prepareSubmoduleCache(rootDir: string, url: string): Promise<string | undefined> {
+  try {
+    const parsed = parseGitUrl(url);
+    const owner = await resolveRepositoryOwner(rootDir, parsed);
+    return await ensureCache({ url, owner, repo: parsed.repo, rootDir });
+  } catch {
+    // Unparseable URLs and cache failures fall back to a direct clone
+    return undefined;
+  }
+}
+
+/**
+ * Check out every submodule of a clone, recursively
+ * Each submodule is cloned through its own repository cache, like the clone itself
+ * With lfs off, LFS files in submodules stay pointer files as they do in the clone
+ * Returns the number of submodules checked out
+ */
+export async function updateSubmodules(
+  rootDir: string,
+  clonePath: string,
+  lfs: boolean,
+  onProgress?: (message: string) => void,
+  parentPath = ''
+): Promise<number> {
+  const git = lfs ? simpleGit(clonePath) : skipLfsSmudge(simpleGit(clonePath));
+  let count = 0;
+
+  for (const submodule of await initSubmodules(clonePath)) {
+    const displayPath = path.posix.join(parentPath, submodule.path);
+    onProgress?.(`Checking out submodule ${displayPath}...`);
+
+    const cachePath = await prepareSubmoduleCache(rootDir, submodule.url);
+    await git.raw([
+      'submodule',
+      'update',
+      '--init',
+      ...(cachePath ? ['--reference', cachePath, '--dissociate'] : []),
+      '--',
+      submodule.path,
+    ]);
+    count++;
+
+    count += await updateSubmodules(
+      rootDir,
+      path.join(clonePath, submodule.path),
+      lfs,
+      onProgress,
+      displayPath
+    );
+  }
+
+  return count;
+}
@@ -0,0 +1,216 @@
+import fs from 'fs-extra';
+import path from 'path';
+import type { TrashedClone, TrashEntry } from '../types/index.js';
+import { GCPBError } from '../types/index.js';
+import { dissociateClone } from './alternates.js';
+import { loadConfig } from './config.js';
+import { getCloneKey, loadCloneMetadata, saveCloneMetadata } from './metadata-store.js';
+
+const CONFIG_DIR = '.gcpb';
+const TRASH_DIR = '.trash';
+const MANIFEST_FILE = 'manifest.json';
+
+export const DEFAULT_TRASH_RETENTION_DAYS = 7;
+
+export interface TrashTarget {
+  owner: string;
+  repo: string;
+  branch: string;
+  path: string; // clone directory
+}
+
+export function getTrashPath(rootDir: string): string {
+  return path.join(rootDir, CONFIG_DIR, TRASH_DIR);
+}
+
+/**
+ * Directory holding the clones of one trash entry, laid out like the root (owner/repo/branch)
+ */
+export function getTrashEntryPath(rootDir: string, id: string): string {
+  return path.join(getTrashPath(rootDir), id);
+}
+
+/**
+ * Read the configured retention, falling back to the default
+ */
+export async function getTrashRetentionDays(rootDir: string): Promise<number> {
+  try {
+    const days = (await loadConfig(rootDir)).trashRetentionDays;
+    return typeof days === 'number' && days >= 0 ? days : DEFAULT_TRASH_RETENTION_DAYS;
+  } catch {
+    return DEFAULT_TRASH_RETENTION_DAYS;
+  }
+}
+
+/**
+ * Name a new entry after the current time, e.g. "20261019T101500Z"
+ * Removals within the same second get a suffix ("20261019T101500Z-2")
+ */
+async function createTrashEntryId(rootDir: string, now: Date): Promise<string> {
+  const timestamp = now
+    .toISOString()
+    .replace(/[-:]/g, '')
+    .replace(/\.\d+Z$/, 'Z');
+  let id = timestamp;
+  let suffix = 2;
+  while (await fs.pathExists(getTrashEntryPath(rootDir, id))) {
+    id = `${timestamp}-${suffix}`;
+    suffix++;
+  }
+  return id;
+}
+
+/**
+ * Move clones into a new trash entry instead of deleting them, keeping their metadata
+ * Shared clones get their own copy of the objects they borrow from the cache first
+ * The manifest lists every clone moved so far, even when a later move fails
+ *
+ * @param onProgress - Called after each move with the number moved so far
+ * @returns The entry, or null when there was nothing to move
+ */
+export async function moveToTrash(
+  rootDir: string,
+  targets: TrashTarget[],
+  onProgress?: (moved: number, total: number) => void
+): Promise<TrashEntry | null> {
+  if (targets.length === 0) {
+    return null;
+  }
+
+  const now = new Date();
+  const metadata = await loadCloneMetadata(rootDir);
+  const entry: TrashEntry = {
+    id: await createTrashEntryId(rootDir, now),
+    removedAt: now.toISOString(),
+    clones: [],
+  };
+  const entryPath = getTrashEntryPath(rootDir, entry.id);
+
+  try {
+    for (const target of targets) {
+      // findSharedClones only sees live clones, so removing or pruning the cache later must
+      // not break a trashed clone that still borrows from it
+      try {
+        await dissociateClone(target.path);
+      } catch {
+        // Clones whose borrowed objects are already missing cannot be made whole again
+      }
+
+      const key = getCloneKey(rootDir, target.path);
+      await fs.move(target.path, path.join(entryPath, key));
+
+      const clone: TrashedClone = {
+        path: key,
+        owner: target.owner,
+        repo: target.repo,
+        branch: target.branch,
+      };
+      if (metadata[key]) {
+        clone.metadata = metadata[key];
+      }
+      entry.clones.push(clone);
+      onProgress?.(entry.clones.length, targets.length);
+    }
+  } finally {
+    if (entry.clones.length > 0) {
+      await fs.outputJson(path.join(entryPath, MANIFEST_FILE), entry, { spaces: 2 });
+    }
+  }
+
+  return entry;
+}
+
+/**
+ * List trash entries, newest first
+ * Directories without a readable manifest are left out
+ */
+export async function listTrash(rootDir: string): Promise<TrashEntry[]> {
+  const trashPath = getTrashPath(rootDir);
+  if (!(await fs.pathExists(trashPath))) {
+    return [];
+  }
+
+  const entries: TrashEntry[] = [];
+  for (const id of await fs.readdir(trashPath)) {
+    try {
+      const manifest = (await fs.readJson(
+        path.join(trashPath, id, MANIFEST_FILE)
+      )) as Partial<TrashEntry>;
+      entries.push({ id, removedAt: manifest.removedAt ?? '', clones: manifest.clones ?? [] });
+    } catch {
+      continue;
+    }
+  }
+
+  return entries.sort((a, b) => b.removedAt.localeCompare(a.removedAt) || b.id.localeCompare(a.id));
+}
+
+/**
+ * Move the clones of a trash entry back to their original paths and restore their metadata
+ * Nothing is moved when any original path is taken again
+ */
+export async function restoreTrashEntry(rootDir: string, id: string): Promise<TrashEntry> {
+  const entry = (await listTrash(rootDir)).find((e) => e.id === id);
+  if (!entry) {
+    throw new GCPBError(
+      `Trash entry "${id}" not found`,
+      'Run "gcpb trash list" to see the removals that can be restored'
+    );
+  }
+
+  const taken: string[] = [];
+  for (const clone of entry.clones) {
+    if (await fs.pathExists(path.join(rootDir, clone.path))) {
+      taken.push(clone.path);
+    }
+  }
+  if (taken.length > 0) {
+    throw new GCPBError(
+      `Cannot restore ${id}: ${taken.join(', ')} already exist${taken.length === 1 ? 's' : ''}`,
+      'Move or remove the existing clones first, e.g. with "gcpb mv" or "gcpb rm"'
+    );
+  }
+
+  const entryPath = getTrashEntryPath(rootDir, id);
+  for (const clone of entry.clones) {
+    const clonePath = path.join(rootDir, clone.path);
+    await fs.move(path.join(entryPath, clone.path), clonePath);
+    if (clone.metadata) {
+      await saveCloneMetadata(rootDir, clonePath, clone.metadata);
+    }
+  }
+  await fs.remove(entryPath);
+
+  return entry;
+}
+
+/**
+ * Permanently delete trash entries
+ */
+export async function deleteTrashEntries(rootDir: string, entries: TrashEntry[]): Promise<void> {
+  for (const entry of entries) {
+    await fs.remove(getTrashEntryPath(rootDir, entry.id));
+  }
+}
+
+/**
+ * Permanently delete entries older than the configured retention
+ * Run by every command, so failures are ignored and only delay the purge
+ *
+ * @returns The purged entries
+ */
+export async function purgeExpiredTrash(
+  rootDir: string,
+  now: Date = new Date()
+): Promise<TrashEntry[]> {
+  try {
+    const retentionMs = (await getTrashRetentionDays(rootDir)) * 24 * 60 * 60 * 1000;
+    const expired = (await listTrash(rootDir)).filter(
+      (entry) => now.getTime() - new Date(entry.removedAt).getTime() >= retentionMs
+    );
+    await deleteTrashEntries(rootDir, expired);
+    return expired;
+  } catch {
+    return [];
+  }
+}
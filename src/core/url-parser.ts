@@ -1,7 +1,21 @@
 import gitUrlParse from 'git-url-parse';
-import type { ParsedGitUrl } from '../types/index.js';
+import type { Forge, ParsedGitUrl } from '../types/index.js';
 import { GCPBError } from '../types/index.js';
 
+/**
+ * Detect the forge from the host name, including self-hosted instances like gitlab.example.com
+ */
+function detectForge(host: string): Forge | undefined {
+  const name = host.toLowerCase();
+  if (name.includes('github')) {
+    return 'github';
+  }
+  if (name.includes('gitlab')) {
+    return 'gitlab';
+  }
+  return undefined;
+}
+
 export function parseGitUrl(url: string): ParsedGitUrl {
   try {
     const parsed = gitUrlParse(url);
@@ -21,6 +35,8 @@ export function parseGitUrl(url: string): ParsedGitUrl {
       repo,
       protocol: parsed.protocol === 'ssh' ? 'ssh' : 'https',
       fullUrl: url,
+      host: parsed.resource,
+      forge: detectForge(parsed.resource),
     };
   } catch (error) {
     if (error instanceof GCPBError) {
@@ -33,3 +49,31 @@ export function parseGitUrl(url: string): ParsedGitUrl {
     );
   }
 }
+
+/**
+ * Get the ref holding the head of a pull request (GitHub) or merge request (GitLab)
+ */
+export function getPullRequestRef(parsed: ParsedGitUrl, number: number): string {
+  switch (parsed.forge) {
+    case 'github':
+      return `refs/pull/${number}/head`;
+    case 'gitlab':
+      return `refs/merge-requests/${number}/head`;
+    default:
+      throw new GCPBError(
+        `Cannot fetch pull requests from ${parsed.host}`,
+        'Pull requests can only be cloned from GitHub and GitLab repositories'
+      );
+  }
+}
+
+/**
+ * Get the remote-tracking ref a pull request head is fetched into, so it counts as pushed
+ *
+ * @example
+ * getPullRequestTrackingRef(parseGitUrl('https://github.com/user/repo.git'), 12)
+ * // returns "refs/remotes/origin/pr/12"
+ */
+export function getPullRequestTrackingRef(parsed: ParsedGitUrl, number: number): string {
+  return `refs/remotes/origin/${parsed.forge === 'gitlab' ? 'mr' : 'pr'}/${number}`;
+}
@@ -1,5 +1,15 @@
 // Export programmatic API for use as a library
 export { cloneRepository } from './core/clone.js';
 export { parseGitUrl } from './core/url-parser.js';
-export { openInVSCode, handleEditorOpening } from './core/editor.js';
-export type { CloneOptions, CloneResult, ParsedGitUrl, VSCodeOptions } from './types/index.js';
+export { openInEditor, openInVSCode, handleEditorOpening } from './core/editor.js';
+export { BUILTIN_EDITORS, resolveEditor } from './core/editor-registry.js';
+export { getCloneMetadata, loadCloneMetadata } from './core/metadata-store.js';
+export type {
+  CloneMetadata,
+  CloneOptions,
+  CloneResult,
+  EditorDefinition,
+  EditorOptions,
+  ParsedGitUrl,
+  VSCodeOptions,
+} from './types/index.js';
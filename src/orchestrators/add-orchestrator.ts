@@ -5,61 +5,416 @@
 
 import path from 'path';
 import chalk from 'chalk';
+import { getCachePath } from '../core/cache-manager.js';
 import { getCachedOwners, getCachedRepos } from '../core/cache-scanner.js';
+import { resolveClonePath } from '../core/branch-naming.js';
+import {
+  type CarryOverResult,
+  copyCarryOverFiles,
+  findSiblingClones,
+  getCarryOverPatterns,
+  type SiblingClone,
+} from '../core/carry-over.js';
+import type { BranchRemovalTarget } from '../core/branch-remover.js';
 import { cloneRepository } from '../core/clone.js';
+import { loadConfig } from '../core/config.js';
 import { detectContext } from '../core/context-detector.js';
-import { parseGitUrl } from '../core/url-parser.js';
+import { detectDefaultBranch } from '../core/default-branch-detector.js';
+import { openInEditor, resolveDevContainerUri } from '../core/editor.js';
+import { resolveEditor } from '../core/editor-registry.js';
+import {
+  findAlternativePath,
+  inspectExistingClone,
+  removeExistingClone,
+  updateExistingClone,
+} from '../core/existing-clone.js';
+import { runHooks } from '../core/hooks.js';
+import { markCloneOpened } from '../core/metadata-store.js';
+import { remoteBranchExists } from '../core/remote-branches.js';
+import { resolveRepositoryOwner } from '../core/repository-layout.js';
+import { getPullRequestRef, parseGitUrl } from '../core/url-parser.js';
 import {
   addConfigureBranches,
   addConfirmClone,
   addConfirmUrl,
   addEnterUrl,
   addResolveCacheUrl,
+  addResolveExistingBranch,
+  addResolveExistingClone,
   addResolveUrl,
   addSelectCacheOwner,
   addSelectCacheRepo,
+  addSelectCarryOverSource,
   addSelectMode,
   addSelectOwner,
   addSelectRepo,
 } from '../state/add-states.js';
-import { type CloneResult, EscapeCancelError } from '../types/index.js';
+import {
+  type CloneOptions,
+  type CloneResult,
+  EscapeCancelError,
+  type ExistingClone,
+  GCPBError,
+  type HookResult,
+} from '../types/index.js';
 import type { Logger } from '../utils/logger.js';
-import { sanitizeBranchName } from '../utils/validators.js';
+import { formatCloneTimings } from '../utils/progress.js';
+import { validateBranchName, validateGitUrl } from '../utils/validators.js';
 
 export interface AddResult {
   success: boolean;
   targetPath?: string;
   error?: string;
   cloneResult?: CloneResult;
+  hookResult?: HookResult; // post-clone hooks; a failure keeps the clone
+  carryOver?: CarryOverResult; // local files copied from a sibling clone
+  reused?: 'updated' | 'opened'; // the branch was already cloned at targetPath
+}
+
+/**
+ * Whether the CLI should offer to open a new clone in the editor
+ * Reused clones were already updated or opened as the user chose, so they are left alone
+ */
+export function shouldOpenEditor(result: AddResult): result is AddResult & { targetPath: string } {
+  return result.success && !!result.targetPath && result.reused === undefined;
+}
+
+type ExistingTargetOutcome =
+  | { action: 'clone'; targetPath: string; replace?: ExistingClone } // trashed once confirmed
+  | { action: 'done'; result: AddResult };
+
+/**
+ * Copy the repository's carryOver files (e.g. .env) from a sibling clone into a fresh clone
+ * Uses the requested branch, asks when interactive, otherwise the most recently used sibling
+ * Problems are reported but never fail the add
+ */
+async function carryOverFromSibling(
+  rootDir: string,
+  owner: string,
+  repo: string,
+  targetPath: string,
+  options: { from?: string; interactive: boolean },
+  logger?: Logger
+): Promise<CarryOverResult | undefined> {
+  let patterns: string[];
+  try {
+    patterns = getCarryOverPatterns(await loadConfig(rootDir), owner, repo);
+  } catch {
+    return undefined;
+  }
+  if (patterns.length === 0) {
+    return undefined;
+  }
+
+  const siblings = await findSiblingClones(rootDir, owner, repo, targetPath);
+  if (siblings.length === 0) {
+    return undefined;
+  }
+
+  let source: SiblingClone | undefined;
+  if (options.from) {
+    // Accept the branch name or its directory name
+    const from = options.from;
+    source = siblings.find((s) => s.branch === from || path.basename(s.path) === from);
+    if (!source) {
+      logger?.warn(`Not copying local files: no clone of "${options.from}" in ${owner}/${repo}`);
+      return undefined;
+    }
+  } else if (options.interactive) {
+    const sourceResult = await addSelectCarryOverSource({
+      siblings: siblings.map((s) => s.branch),
+    });
+    source = siblings.find((s) => s.branch === sourceResult.value.source);
+  } else {
+    source = siblings[0];
+  }
+  if (!source) {
+    return undefined;
+  }
+
+  try {
+    const result = await copyCarryOverFiles(source.path, targetPath, patterns);
+    if (result.copied.length > 0) {
+      logger?.success(
+        `Copied ${result.copied.length} local file${result.copied.length === 1 ? '' : 's'} from ${source.branch}: ${result.copied.join(', ')}`
+      );
+    }
+    return result;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    logger?.warn(`Failed to copy local files from ${source.branch}: ${message}`);
+    return undefined;
+  }
+}
+
+/**
+ * Make sure a new local branch doesn't clash with a branch on the remote, before cloning
+ * (cloneRepository refuses the clash only after cloning, and discards the clone)
+ * Offers to check out the remote branch instead or to pick another name; with skipConfirmation
+ * nobody can answer, so it fails early. Returns null when the user cancels.
+ */
+async function resolveExistingRemoteBranch(
+  rootDir: string,
+  url: string,
+  owner: string,
+  repo: string,
+  branches: { baseBranch: string; targetBranch: string },
+  skipConfirmation: boolean
+): Promise<{ baseBranch: string; targetBranch: string } | null> {
+  const cachePath = getCachePath(rootDir, owner, repo);
+  const baseBranch = branches.baseBranch.replace(/^origin\//, '');
+  let targetBranch = branches.targetBranch;
+
+  while (targetBranch !== baseBranch && (await remoteBranchExists(url, cachePath, targetBranch))) {
+    if (skipConfirmation) {
+      throw new GCPBError(
+        `Remote branch "${targetBranch}" already exists. Cannot create a new local branch with the same name.`,
+        `Run "gcpb add ${url} ${targetBranch}" to check it out, or use a different local branch name`
+      );
+    }
+
+    const existingResult = await addResolveExistingBranch({ branch: targetBranch });
+    if (existingResult.value.action === 'cancel') {
+      return null;
+    }
+    if (existingResult.value.action === 'track') {
+      return { baseBranch: targetBranch, targetBranch };
+    }
+    targetBranch = existingResult.value.branch;
+  }
+
+  return { baseBranch: branches.baseBranch, targetBranch };
+}
+
+/**
+ * Open a reused clone in the configured editor
+ */
+async function openExistingClone(
+  rootDir: string,
+  targetPath: string,
+  targetBranch: string,
+  logger?: Logger
+): Promise<void> {
+  const editor = await resolveEditor(rootDir);
+  const folderUri = await resolveDevContainerUri(rootDir, targetPath, editor);
+  logger?.info(`Opening in ${editor.name}${folderUri ? ' (dev container)' : ''}...`);
+
+  if (await openInEditor({ targetPath, editor, folderUri: folderUri ?? undefined })) {
+    try {
+      await markCloneOpened(rootDir, targetPath, targetBranch);
+    } catch {
+      // Recording the visit is best effort and must not fail the command
+    }
+    logger?.success(`Successfully opened in ${editor.name}`);
+  } else {
+    logger?.warn(`${editor.name} not available. Please open manually:`);
+    logger?.info(`  cd ${targetPath}`);
+  }
+}
+
+/**
+ * Handle a target directory that already exists, before cloning
+ *
+ * A clone of the same repository and branch is reused: updated (the only choice with
+ * skipConfirmation) or opened. Anything else is replaced (moved to the trash once the clone is
+ * confirmed, unless it holds unsaved work) or left alone by cloning into a suffixed directory; with
+ * skipConfirmation the clone goes ahead and cloneRepository explains the conflict.
+ */
+async function resolveExistingTarget(
+  rootDir: string,
+  url: string,
+  targetBranch: string,
+  targetPath: string,
+  skipConfirmation: boolean,
+  logger?: Logger
+): Promise<ExistingTargetOutcome> {
+  const existing = await inspectExistingClone(targetPath, url, targetBranch);
+  if (!existing || (skipConfirmation && !existing.matches)) {
+    return { action: 'clone', targetPath };
+  }
+
+  const alternativePath = existing.matches ? targetPath : await findAlternativePath(targetPath);
+  const action = skipConfirmation
+    ? 'update'
+    : (await addResolveExistingClone({ existing, alternativePath })).value.action;
+
+  switch (action) {
+    case 'update': {
+      logger?.startSpinner(`Updating ${targetPath}...`);
+      const upstream = await updateExistingClone(targetPath);
+      logger?.stopSpinner(true, upstream ? `Fast-forwarded to ${upstream}` : 'Fetched origin');
+      logger?.box(
+        `Already cloned at:
+${targetPath}
+
+Branch: ${targetBranch}`,
+        'success'
+      );
+      return { action: 'done', result: { success: true, targetPath, reused: 'updated' } };
+    }
+    case 'open':
+      await openExistingClone(rootDir, targetPath, targetBranch, logger);
+      return { action: 'done', result: { success: true, targetPath, reused: 'opened' } };
+    case 'replace':
+      return { action: 'clone', targetPath, replace: existing };
+    case 'alternative':
+      return { action: 'clone', targetPath: alternativePath };
+    default:
+      logger?.info('Operation cancelled');
+      return { action: 'done', result: { success: false, error: 'Operation cancelled by user' } };
+  }
+}
+
+/**
+ * Move the directory a confirmed clone replaces to the trash, right before cloning
+ */
+async function replaceExistingTarget(
+  rootDir: string,
+  existing: ExistingClone,
+  target: BranchRemovalTarget,
+  logger?: Logger
+): Promise<void> {
+  await removeExistingClone(rootDir, existing, target, logger);
+  logger?.info(`Moved ${existing.path} to the trash`);
+}
+
+/**
+ * Timing line for the success box, empty when the clone reported no timings
+ */
+function formatTimings(cloneResult: CloneResult): string {
+  return cloneResult.timings ? `\nTook ${formatCloneTimings(cloneResult.timings)}` : '';
+}
+
+/**
+ * Run post-clone hooks in a fresh clone
+ * A failing hook is reported but the clone is kept so the user can fix it and retry
+ */
+async function runPostCloneHooks(
+  rootDir: string,
+  owner: string,
+  repo: string,
+  targetBranch: string,
+  targetPath: string,
+  logger?: Logger
+): Promise<HookResult> {
+  const hookResult = await runHooks(
+    'postClone',
+    rootDir,
+    { owner, repo, branch: targetBranch, path: targetPath },
+    logger
+  );
+  if (!hookResult.success) {
+    logger?.warn(`The clone was kept at ${targetPath}; fix the hook and run it there manually`);
+  }
+  return hookResult;
 }
 
 /**
  * Execute add command with direct arguments (non-interactive)
- * Used when user provides complete args: gcpb add <url> <baseBranch> <targetBranch> [--yes]
+ * Used when user provides complete args:
+ * gcpb add <url> [baseBranch] [targetBranch] [--yes] [--carry-over-from <branch>]
+ * gcpb add <url> --pr <number> [--branch <branch>]
+ * gcpb add <url> ... --shared
+ * gcpb add <url> ... [--depth <n>] [--filter <spec>] [--sparse <dir>]...
+ * gcpb add <url> ... [--[no-]submodules] [--[no-]lfs]
+ *
+ * When baseBranch is omitted, the repository's default branch is detected.
+ * When targetBranch is omitted, the base branch is checked out as-is.
+ * With pullRequest, targetBranch (default "pr-<number>") is created at the pull request head.
  */
 export async function executeAddCommand(
   rootDir: string,
   url: string,
-  baseBranch: string,
-  targetBranch: string,
+  baseBranch: string | undefined,
+  targetBranch: string | undefined,
   skipConfirmation: boolean,
-  logger: Logger
+  logger: Logger,
+  carryOverFrom?: string,
+  pullRequest?: number,
+  shared?: boolean,
+  cloneOptions: Pick<CloneOptions, 'depth' | 'filter' | 'sparse' | 'submodules' | 'lfs'> = {}
 ): Promise<AddResult> {
   try {
+    // Validate URL before doing any network work
+    const urlValidation = validateGitUrl(url);
+    if (!urlValidation.valid) {
+      throw new Error(urlValidation.error || 'Invalid Git URL');
+    }
+
     // Parse URL to get owner and repo
     const parsed = parseGitUrl(url);
-    const targetPath = path.join(
+    // Owner directory per the configured layout, e.g. github.com/acme or group/subgroup
+    const owner = await resolveRepositoryOwner(rootDir, parsed);
+
+    if (pullRequest !== undefined) {
+      if (!Number.isInteger(pullRequest) || pullRequest <= 0) {
+        throw new Error(`Invalid pull request number "${pullRequest}"`);
+      }
+      if (baseBranch) {
+        throw new Error('A base branch cannot be combined with a pull request');
+      }
+    }
+
+    // Resolve base branch (the pull request head, or the repository's default branch)
+    let resolvedBaseBranch =
+      pullRequest === undefined ? baseBranch : getPullRequestRef(parsed, pullRequest);
+    if (!resolvedBaseBranch) {
+      logger.startSpinner('Detecting default branch...');
+      resolvedBaseBranch = await detectDefaultBranch(url, rootDir, owner, parsed.repo);
+      logger.stopSpinner(true, `Default branch: ${resolvedBaseBranch}`);
+    }
+
+    // Resolve target branch (fall back to pr-<number> or the base branch)
+    let resolvedTargetBranch =
+      targetBranch ||
+      (pullRequest === undefined
+        ? resolvedBaseBranch.replace(/^origin\//, '')
+        : `pr-${pullRequest}`);
+
+    // Validate branch names
+    for (const branch of [resolvedBaseBranch.replace(/^origin\//, ''), resolvedTargetBranch]) {
+      const branchValidation = validateBranchName(branch);
+      if (!branchValidation.valid) {
+        throw new Error(branchValidation.error || 'Invalid branch name');
+      }
+    }
+
+    // A new local branch must not exist on the remote yet (pull requests keep their pr-<number>)
+    if (pullRequest === undefined) {
+      const resolved = await resolveExistingRemoteBranch(
+        rootDir,
+        url,
+        owner,
+        parsed.repo,
+        { baseBranch: resolvedBaseBranch, targetBranch: resolvedTargetBranch },
+        skipConfirmation
+      );
+      if (!resolved) {
+        logger.info('Operation cancelled');
+        return { success: false, error: 'Operation cancelled by user' };
+      }
+      resolvedBaseBranch = resolved.baseBranch;
+      resolvedTargetBranch = resolved.targetBranch;
+    }
+
+    const existingTarget = await resolveExistingTarget(
       rootDir,
-      parsed.owner,
-      parsed.repo,
-      sanitizeBranchName(targetBranch)
+      url,
+      resolvedTargetBranch,
+      await resolveClonePath(rootDir, owner, parsed.repo, resolvedTargetBranch),
+      skipConfirmation,
+      logger
     );
+    if (existingTarget.action === 'done') {
+      return existingTarget.result;
+    }
+    const targetPath = existingTarget.targetPath;
 
     // State: Confirm clone (skip if --yes flag set)
     const confirmResult = await addConfirmClone({
       url,
-      baseBranch,
-      targetBranch,
+      baseBranch: resolvedBaseBranch,
+      targetBranch: resolvedTargetBranch,
       targetPath,
       skipConfirmation,
     });
@@ -69,19 +424,57 @@ export async function executeAddCommand(
       return { success: false, error: 'Operation cancelled by user' };
     }
 
+    if (existingTarget.replace) {
+      await replaceExistingTarget(
+        rootDir,
+        existingTarget.replace,
+        { owner, repo: parsed.repo, branch: resolvedTargetBranch },
+        logger
+      );
+    }
+
     // Clone repository
     logger.startSpinner('Cloning repository...');
     const cloneResult = await cloneRepository({
       cloneUrl: url,
-      baseBranch,
-      targetBranch,
+      baseBranch: resolvedBaseBranch,
+      targetBranch: resolvedTargetBranch,
       rootDir,
+      pullRequest,
+      shared,
+      ...cloneOptions,
+      targetPath,
+      onProgress: (message) => logger.updateSpinner(message),
     });
+
+    if (!cloneResult.success) {
+      logger.stopSpinner(false, 'Clone failed');
+      throw cloneResult.error || new Error('Failed to clone repository');
+    }
     logger.stopSpinner(true, 'Clone complete');
 
+    // Copy local files first so post-clone hooks (e.g. npm ci) can rely on them
+    const carryOver = await carryOverFromSibling(
+      rootDir,
+      owner,
+      parsed.repo,
+      cloneResult.targetPath,
+      { from: carryOverFrom, interactive: false },
+      logger
+    );
+
+    const hookResult = await runPostCloneHooks(
+      rootDir,
+      owner,
+      parsed.repo,
+      resolvedTargetBranch,
+      cloneResult.targetPath,
+      logger
+    );
+
     logger.success('Successfully cloned repository');
     logger.box(
-      `Repository cloned to:\n${cloneResult.targetPath}\n\nBranch: ${targetBranch}`,
+      `Repository cloned to:\n${cloneResult.targetPath}\n\nBranch: ${resolvedTargetBranch}${formatTimings(cloneResult)}`,
       'success'
     );
 
@@ -89,6 +482,8 @@ export async function executeAddCommand(
       success: true,
       targetPath: cloneResult.targetPath,
       cloneResult,
+      hookResult,
+      carryOver,
     };
   } catch (error) {
     // EscapeCancelError should propagate to CLI for menu navigation
@@ -103,6 +498,9 @@ export async function executeAddCommand(
 
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
     logger.error(`Failed to clone: ${errorMessage}`);
+    if (error instanceof GCPBError && error.suggestion) {
+      logger.info(`Suggestion: ${error.suggestion}`);
+    }
     return { success: false, error: errorMessage };
   }
 }
@@ -272,25 +670,47 @@ export async function executeAddCommandInteractive(
 
     // Parse URL to get owner and repo
     const parsed = parseGitUrl(url);
+    // Owner directory per the configured layout, e.g. github.com/acme or group/subgroup
+    const repositoryOwner = await resolveRepositoryOwner(rootDir, parsed);
 
     // State 7: Configure branches
     const branchesResult = await addConfigureBranches({
       url,
       rootDir,
-      owner: parsed.owner,
+      owner: repositoryOwner,
       repo: parsed.repo,
     });
 
-    const baseBranch = branchesResult.value.baseBranch;
-    const targetBranch = branchesResult.value.targetBranch;
-
-    // Construct target path
-    const targetPath = path.join(
+    // A new local branch must not exist on the remote yet
+    const resolved = await resolveExistingRemoteBranch(
       rootDir,
-      parsed.owner,
+      url,
+      repositoryOwner,
       parsed.repo,
-      sanitizeBranchName(targetBranch)
+      branchesResult.value,
+      false
+    );
+    if (!resolved) {
+      if (logger) {
+        logger.info('Operation cancelled');
+      }
+      return { success: false, error: 'Operation cancelled by user' };
+    }
+    const { baseBranch, targetBranch } = resolved;
+
+    // Construct target path, reusing or replacing an existing directory
+    const existingTarget = await resolveExistingTarget(
+      rootDir,
+      url,
+      targetBranch,
+      await resolveClonePath(rootDir, repositoryOwner, parsed.repo, targetBranch),
+      false,
+      logger
     );
+    if (existingTarget.action === 'done') {
+      return existingTarget.result;
+    }
+    const targetPath = existingTarget.targetPath;
 
     // Display summary before confirmation
     console.log('');
@@ -315,6 +735,15 @@ export async function executeAddCommandInteractive(
       return { success: false, error: 'Operation cancelled by user' };
     }
 
+    if (existingTarget.replace) {
+      await replaceExistingTarget(
+        rootDir,
+        existingTarget.replace,
+        { owner: repositoryOwner, repo: parsed.repo, branch: targetBranch },
+        logger
+      );
+    }
+
     // Clone repository
     if (logger) {
       logger.startSpinner('Cloning repository...');
@@ -324,12 +753,42 @@ export async function executeAddCommandInteractive(
       baseBranch,
       targetBranch,
       rootDir,
+      targetPath,
+      onProgress: logger ? (message) => logger.updateSpinner(message) : undefined,
     });
+    if (!cloneResult.success) {
+      if (logger) {
+        logger.stopSpinner(false, 'Clone failed');
+      }
+      throw cloneResult.error || new Error('Failed to clone repository');
+    }
     if (logger) {
       logger.stopSpinner(true, 'Clone complete');
+    }
+
+    // Copy local files first so post-clone hooks (e.g. npm ci) can rely on them
+    const carryOver = await carryOverFromSibling(
+      rootDir,
+      repositoryOwner,
+      parsed.repo,
+      cloneResult.targetPath,
+      { interactive: true },
+      logger
+    );
+
+    const hookResult = await runPostCloneHooks(
+      rootDir,
+      repositoryOwner,
+      parsed.repo,
+      targetBranch,
+      cloneResult.targetPath,
+      logger
+    );
+
+    if (logger) {
       logger.success('Successfully cloned repository');
       logger.box(
-        `Repository cloned to:\n${cloneResult.targetPath}\n\nBranch: ${targetBranch}`,
+        `Repository cloned to:\n${cloneResult.targetPath}\n\nBranch: ${targetBranch}${formatTimings(cloneResult)}`,
         'success'
       );
     }
@@ -338,6 +797,8 @@ export async function executeAddCommandInteractive(
       success: true,
       targetPath: cloneResult.targetPath,
       cloneResult,
+      hookResult,
+      carryOver,
     };
   } catch (error) {
     // EscapeCancelError should propagate to CLI for menu navigation
@@ -353,6 +814,9 @@ export async function executeAddCommandInteractive(
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
     if (logger) {
       logger.error(`Failed to clone: ${errorMessage}`);
+      if (error instanceof GCPBError && error.suggestion) {
+        logger.info(`Suggestion: ${error.suggestion}`);
+      }
     }
     return { success: false, error: errorMessage };
   }
@@ -0,0 +1,470 @@
+/**
+ * Orchestrator for the 'cache' command family
+ * Inspects and maintains the mirror caches under .gcpb/.cache that add clones from
+ */
+
+import chalk from 'chalk';
+import { findSharedClones } from '../core/alternates.js';
+import {
+  createCache,
+  gcCache,
+  getCacheStats,
+  removeCache,
+  protectCacheObjects,
+  removeEmptyCacheParents,
+  updateCache,
+  verifyCache,
+} from '../core/cache-manager.js';
+import { type CacheDirectory, getCacheUrl, scanCacheDirectories } from '../core/cache-scanner.js';
+import { resolveRemoteUrl } from '../core/remote-resolver.js';
+import { getRepositoryKeys, scanRepositories } from '../core/repository-scanner.js';
+import { cacheConfirmRemoval } from '../state/cache-states.js';
+import { EscapeCancelError } from '../types/index.js';
+import { formatBytes } from '../utils/format.js';
+import type { Logger } from '../utils/logger.js';
+
+export { formatBytes };
+
+export interface CacheEntry extends CacheDirectory {
+  cloned: boolean; // the workspace still holds a clone of the repository
+  sizeBytes?: number;
+  lastFetchedAt?: string;
+}
+
+export type CacheOutcome = 'done' | 'ok' | 'skipped' | 'failed';
+
+export interface CacheReport {
+  owner: string;
+  repo: string;
+  cachePath: string;
+  outcome: CacheOutcome;
+  message: string;
+}
+
+export interface CacheListOptions {
+  json?: boolean;
+}
+
+export interface CacheGcOptions {
+  aggressive?: boolean; // pass --aggressive to git gc
+}
+
+export interface CacheRemoveOptions {
+  all?: boolean; // also remove caches of repositories that are still cloned
+  yes?: boolean; // skip the confirmation prompt
+}
+
+export interface CacheListResult {
+  success: boolean;
+  entries?: CacheEntry[];
+  error?: string;
+}
+
+export interface CacheActionResult {
+  success: boolean;
+  reports?: CacheReport[];
+  error?: string;
+}
+
+function plural(count: number, word: string): string {
+  return `${count} ${word}${count === 1 ? '' : 's'}`;
+}
+
+/**
+ * Scan caches, keeping those at or below an owner or owner/repo path
+ */
+async function loadCaches(rootDir: string, pathArg: string | undefined): Promise<CacheDirectory[]> {
+  const caches = await scanCacheDirectories(rootDir);
+  const prefix = pathArg
+    ?.split('/')
+    .filter((part) => part.length > 0)
+    .join('/');
+
+  if (!prefix) {
+    return caches;
+  }
+
+  return caches.filter((cache) => {
+    const key = `${cache.owner}/${cache.repo}`;
+    return key === prefix || key.startsWith(`${prefix}/`);
+  });
+}
+
+/**
+ * Render caches as an aligned REPOSITORY / SIZE / LAST FETCH / STATUS table
+ */
+export function formatCacheTable(entries: CacheEntry[]): string {
+  const headers = ['REPOSITORY', 'SIZE', 'LAST FETCH', 'STATUS'];
+  const rows = entries.map((e) => [
+    `${e.owner}/${e.repo}`,
+    e.sizeBytes === undefined ? '-' : formatBytes(e.sizeBytes),
+    e.lastFetchedAt ? e.lastFetchedAt.slice(0, 16).replace('T', ' ') : '-',
+    !e.isValid ? chalk.red('invalid') : e.cloned ? chalk.green('ok') : chalk.yellow('not cloned'),
+  ]);
+
+  const widths = headers.map((header, i) =>
+    Math.max(header.length, ...rows.map((row) => row[i].length))
+  );
+
+  // STATUS is colored, so it stays last and unpadded
+  const formatRow = (row: string[]) =>
+    row
+      .map((cell, i) => (i === row.length - 1 ? cell : cell.padEnd(widths[i])))
+      .join('  ')
+      .trimEnd();
+
+  return [chalk.bold(formatRow(headers)), ...rows.map(formatRow)].join('\n');
+}
+
+/**
+ * Render cache reports one per line with an outcome marker
+ */
+export function formatCacheReport(reports: CacheReport[]): string {
+  const markers: Record<CacheOutcome, string> = {
+    done: chalk.green('✔'),
+    ok: chalk.gray('•'),
+    skipped: chalk.yellow('⚠'),
+    failed: chalk.red('✖'),
+  };
+
+  const width = Math.max(...reports.map((r) => `${r.owner}/${r.repo}`.length));
+
+  return reports
+    .map((r) => {
+      const cache = `${r.owner}/${r.repo}`.padEnd(width);
+      const message = r.outcome === 'failed' ? chalk.red(r.message) : chalk.gray(r.message);
+      return `${markers[r.outcome]} ${cache}  ${message}`;
+    })
+    .join('\n');
+}
+
+/**
+ * Run an action over every cache with a spinner, never letting one cache abort the run,
+ * then print the report and a summary naming successful actions with doneLabel
+ */
+async function runCacheAction(
+  caches: CacheDirectory[],
+  progressLabel: string,
+  doneLabel: string,
+  logger: Logger,
+  action: (cache: CacheDirectory) => Promise<Pick<CacheReport, 'outcome' | 'message'>>
+): Promise<CacheActionResult> {
+  const reports: CacheReport[] = [];
+
+  logger.startSpinner(`${progressLabel} ${plural(caches.length, 'cache')}...`);
+  for (const cache of caches) {
+    const { owner, repo, cachePath } = cache;
+    logger.updateSpinner(`${progressLabel} ${owner}/${repo}...`);
+
+    try {
+      reports.push({ owner, repo, cachePath, ...(await action(cache)) });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      reports.push({ owner, repo, cachePath, outcome: 'failed', message });
+    }
+  }
+
+  const failed = reports.filter((r) => r.outcome === 'failed');
+  logger.stopSpinner(
+    failed.length === 0,
+    `${progressLabel} ${plural(caches.length, 'cache')} finished`
+  );
+
+  console.log('');
+  console.log(formatCacheReport(reports));
+  console.log('');
+
+  const counts: [string, number][] = [
+    [doneLabel, reports.filter((r) => r.outcome === 'done').length],
+    ['ok', reports.filter((r) => r.outcome === 'ok').length],
+    ['skipped', reports.filter((r) => r.outcome === 'skipped').length],
+    ['failed', failed.length],
+  ];
+  const summary = counts
+    .filter(([label, count]) => count > 0 || label === 'failed')
+    .map(([label, count]) => `${count} ${label}`)
+    .join(', ');
+
+  if (failed.length > 0) {
+    logger.warn(summary);
+    return { success: false, reports, error: `${plural(failed.length, 'cache')} failed` };
+  }
+
+  logger.success(summary);
+  return { success: true, reports };
+}
+
+/**
+ * Report a failed cache command
+ * Prompt cancellations propagate to the CLI
+ */
+function handleCacheError(error: unknown, action: string, logger: Logger): CacheActionResult {
+  logger.stopSpinner(false, `Cache ${action} failed`);
+
+  // EscapeCancelError should propagate to CLI for menu navigation
+  if (error instanceof EscapeCancelError) {
+    throw error;
+  }
+
+  // ExitPromptError should propagate to CLI for immediate exit
+  if (error instanceof Error && error.name === 'ExitPromptError') {
+    throw error;
+  }
+
+  const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+  logger.error(`Failed to ${action} caches: ${errorMessage}`);
+  return { success: false, error: errorMessage };
+}
+
+/**
+ * Execute cache list command
+ * Used as: gcpb cache list [org[/repo]] [--json]
+ */
+export async function executeCacheListCommand(
+  rootDir: string,
+  pathArg: string | undefined,
+  options: CacheListOptions,
+  logger: Logger
+): Promise<CacheListResult> {
+  try {
+    const caches = await loadCaches(rootDir, pathArg);
+    const clonedKeys = getRepositoryKeys(await scanRepositories(rootDir));
+
+    const entries: CacheEntry[] = [];
+    for (const cache of caches) {
+      const entry: CacheEntry = {
+        ...cache,
+        cloned: clonedKeys.includes(`${cache.owner}/${cache.repo}`),
+      };
+      try {
+        Object.assign(entry, await getCacheStats(cache.cachePath));
+      } catch {
+        // Broken caches have no stats; they are reported as invalid
+      }
+      entries.push(entry);
+    }
+
+    if (options.json) {
+      // Always emit valid JSON so tooling can consume the output, even when empty
+      console.log(JSON.stringify(entries, null, 2));
+      return { success: true, entries };
+    }
+
+    if (entries.length === 0) {
+      logger.info(pathArg ? `No caches found matching "${pathArg}"` : 'No caches found');
+      return { success: true, entries };
+    }
+
+    const total = entries.reduce((sum, e) => sum + (e.sizeBytes ?? 0), 0);
+    console.log(formatCacheTable(entries));
+    console.log('');
+    console.log(chalk.gray(`${plural(entries.length, 'cache')}, ${formatBytes(total)} in total`));
+
+    return { success: true, entries };
+  } catch (error) {
+    return handleCacheError(error, 'list', logger);
+  }
+}
+
+/**
+ * Execute cache update command
+ * Used as: gcpb cache update [org[/repo]]
+ */
+export async function executeCacheUpdateCommand(
+  rootDir: string,
+  pathArg: string | undefined,
+  logger: Logger
+): Promise<CacheActionResult> {
+  try {
+    const caches = await loadCaches(rootDir, pathArg);
+    if (caches.length === 0) {
+      logger.info('No caches to update');
+      return { success: true, reports: [] };
+    }
+
+    return await runCacheAction(caches, 'Updating', 'updated', logger, async (cache) => {
+      if (!cache.isValid) {
+        return { outcome: 'skipped', message: 'invalid, run "gcpb cache verify" to repair it' };
+      }
+      await updateCache(cache.cachePath);
+      return { outcome: 'done', message: 'fetched' };
+    });
+  } catch (error) {
+    return handleCacheError(error, 'update', logger);
+  }
+}
+
+/**
+ * Execute cache gc command
+ * Used as: gcpb cache gc [org[/repo]] [--aggressive]
+ */
+export async function executeCacheGcCommand(
+  rootDir: string,
+  pathArg: string | undefined,
+  options: CacheGcOptions,
+  logger: Logger
+): Promise<CacheActionResult> {
+  try {
+    const caches = await loadCaches(rootDir, pathArg);
+    if (caches.length === 0) {
+      logger.info('No caches to collect');
+      return { success: true, reports: [] };
+    }
+    const repositories = await scanRepositories(rootDir);
+
+    return await runCacheAction(caches, 'Collecting', 'collected', logger, async (cache) => {
+      if (!cache.isValid) {
+        return { outcome: 'skipped', message: 'invalid, run "gcpb cache verify" to repair it' };
+      }
+      const shared = await findSharedClones(repositories, cache.cachePath);
+      const before = await getCacheStats(cache.cachePath);
+      await gcCache(cache.cachePath, {
+        aggressive: options.aggressive,
+        keepUnreachable: shared.length > 0,
+      });
+      const after = await getCacheStats(cache.cachePath);
+      const sizes = `${formatBytes(before.sizeBytes)} → ${formatBytes(after.sizeBytes)}`;
+      return {
+        outcome: 'done',
+        message:
+          shared.length > 0
+            ? `${sizes} (unreachable objects kept for ${plural(shared.length, 'shared clone')})`
+            : sizes,
+      };
+    });
+  } catch (error) {
+    return handleCacheError(error, 'collect', logger);
+  }
+}
+
+/**
+ * Execute cache remove command
+ * Removes caches of repositories that are no longer cloned, or every matching cache with --all
+ * Caches that shared clones borrow objects from are always kept
+ * Used as: gcpb cache remove [org[/repo]] [--all] [--yes]
+ */
+export async function executeCacheRemoveCommand(
+  rootDir: string,
+  pathArg: string | undefined,
+  options: CacheRemoveOptions,
+  logger: Logger
+): Promise<CacheActionResult> {
+  try {
+    const caches = await loadCaches(rootDir, pathArg);
+    const repositories = await scanRepositories(rootDir);
+    const clonedKeys = getRepositoryKeys(repositories);
+    const candidates = options.all
+      ? caches
+      : caches.filter((cache) => !clonedKeys.includes(`${cache.owner}/${cache.repo}`));
+
+    // Shared clones read objects straight from their cache, so it must outlive them
+    const targets: CacheDirectory[] = [];
+    for (const cache of candidates) {
+      const shared = await findSharedClones(repositories, cache.cachePath);
+      if (shared.length > 0) {
+        logger.warn(
+          `Keeping ${cache.owner}/${cache.repo}: used by ${plural(shared.length, 'shared clone')} (${shared.map((c) => c.branch).join(', ')})`
+        );
+        continue;
+      }
+      targets.push(cache);
+    }
+
+    if (targets.length === 0) {
+      logger.info(
+        caches.length > candidates.length
+          ? 'Every cache belongs to a cloned repository (use --all to remove them anyway)'
+          : 'No caches to remove'
+      );
+      return { success: true, reports: [] };
+    }
+
+    console.log('');
+    console.log('The following caches will be removed:');
+    for (const cache of targets) {
+      console.log(`  - ${cache.owner}/${cache.repo} ${chalk.gray(`(${cache.cachePath})`)}`);
+    }
+    console.log('');
+
+    // State 1: Confirm removal (skip prompt with --yes)
+    const confirmResult = await cacheConfirmRemoval({
+      caches: targets.map((cache) => `${cache.owner}/${cache.repo}`),
+      skipConfirmation: options.yes,
+    });
+    if (!confirmResult.value.confirmed) {
+      logger.info('Removal cancelled');
+      return { success: true, reports: [] };
+    }
+
+    return await runCacheAction(targets, 'Removing', 'removed', logger, async (cache) => {
+      await removeCache(cache.cachePath);
+      await removeEmptyCacheParents(rootDir, cache.cachePath);
+      return { outcome: 'done', message: 'removed' };
+    });
+  } catch (error) {
+    return handleCacheError(error, 'remove', logger);
+  }
+}
+
+/**
+ * Execute cache verify command
+ * Checks every object of each cache and recreates broken caches from their remote
+ * Caches that shared clones borrow objects from are refetched in place instead
+ * Used as: gcpb cache verify [org[/repo]]
+ */
+export async function executeCacheVerifyCommand(
+  rootDir: string,
+  pathArg: string | undefined,
+  logger: Logger
+): Promise<CacheActionResult> {
+  try {
+    const caches = await loadCaches(rootDir, pathArg);
+    if (caches.length === 0) {
+      logger.info('No caches to verify');
+      return { success: true, reports: [] };
+    }
+
+    const repositories = await scanRepositories(rootDir);
+
+    return await runCacheAction(caches, 'Verifying', 'repaired', logger, async (cache) => {
+      const { owner, repo, cachePath } = cache;
+      if (await verifyCache(cachePath)) {
+        return { outcome: 'ok', message: 'valid' };
+      }
+
+      // Recreating the cache would drop objects that shared clones still borrow
+      const shared = await findSharedClones(repositories, cachePath);
+      if (shared.length > 0) {
+        await updateCache(cachePath);
+        await protectCacheObjects(cachePath);
+        const used = `${plural(shared.length, 'shared clone')} (${shared.map((c) => c.branch).join(', ')})`;
+        return (await verifyCache(cachePath))
+          ? { outcome: 'done', message: `invalid, refetched in place for ${used}` }
+          : {
+              outcome: 'failed',
+              message: `invalid, kept for ${used}, re-clone to repair it`,
+            };
+      }
+
+      // The cache's own remote is the best source, then any clone of the repository
+      let url: string | undefined;
+      try {
+        url = await getCacheUrl(cachePath);
+      } catch {
+        url = (await resolveRemoteUrl(rootDir, owner, repo)).url;
+      }
+      if (!url) {
+        return {
+          outcome: 'failed',
+          message: 'invalid, and no repository URL found to recreate it (run "gcpb cache remove")',
+        };
+      }
+
+      await removeCache(cachePath);
+      await createCache({ url, owner, repo, rootDir });
+      return { outcome: 'done', message: `invalid, recreated from ${url}` };
+    });
+  } catch (error) {
+    return handleCacheError(error, 'verify', logger);
+  }
+}
@@ -3,25 +3,44 @@
  * Handles both direct execution (all args provided) and interactive mode
  */
 
-import path from 'path';
-import { openInVSCode } from '../core/editor.js';
-import { scanRepositories } from '../core/repository-scanner.js';
+import { openInEditor, resolveDevContainerUri } from '../core/editor.js';
+import { resolveEditor } from '../core/editor-registry.js';
+import { markCloneOpened } from '../core/metadata-store.js';
+import {
+  getBranchClonePath,
+  getRepositoryKeys,
+  resolveBranchName,
+  scanRepositories,
+} from '../core/repository-scanner.js';
 import { openSelectBranch, openSelectOrg, openSelectRepo } from '../state/open-states.js';
-import { EscapeCancelError, type CodeResult } from '../types/index.js';
+import { EscapeCancelError, type CodeResult, type RepositoryInfo } from '../types/index.js';
 import { parsePathArg } from '../utils/arg-parser.js';
 import type { Logger } from '../utils/logger.js';
 
+export interface CodeOptions {
+  editor?: string; // editor id overriding editor.defaultEditor
+  devContainer?: boolean; // true/false skips the dev container prompt
+}
+
 /**
  * Execute code command with direct path (non-interactive)
- * Used when user provides complete path: gcpb code org/repo/branch
+ * Used when user provides complete path: gcpb code org/repo/branch [--editor <name>] [--devcontainer]
  */
 export async function executeCodeCommand(
   rootDir: string,
   pathArg: string,
-  logger: Logger
+  logger: Logger,
+  options: CodeOptions = {}
 ): Promise<CodeResult> {
   try {
-    const parsed = parsePathArg(pathArg);
+    // Anything shorter than org/repo/branch is rejected before scanning
+    let parsed = parsePathArg(pathArg);
+    let repositories: RepositoryInfo[] = [];
+    if (parsed.isComplete) {
+      repositories = await scanRepositories(rootDir);
+      // Owners spanning several segments (github.com/acme) are only known after scanning
+      parsed = parsePathArg(pathArg, getRepositoryKeys(repositories));
+    }
 
     if (!parsed.isComplete) {
       const got = [parsed.org, parsed.repo, parsed.branch].filter(Boolean).join('/') || '(empty)';
@@ -35,10 +54,6 @@ export async function executeCodeCommand(
     // At this point, isComplete guarantees org, repo, and branch are all defined
     const org = parsed.org as string;
     const repo = parsed.repo as string;
-    const branch = parsed.branch as string;
-
-    // Scan repositories to verify the branch exists
-    const repositories = await scanRepositories(rootDir);
 
     // Find the specified repository
     const targetRepo = repositories.find((r) => r.owner === org && r.repo === repo);
@@ -47,30 +62,44 @@ export async function executeCodeCommand(
       throw new Error(`Repository ${org}/${repo} not found`);
     }
 
-    // Verify the branch exists
-    if (!targetRepo.branches.includes(branch)) {
+    // Verify the branch exists, accepting its directory name as well
+    const branch = resolveBranchName(targetRepo, parsed.branch as string);
+    if (!branch) {
       throw new Error(
-        `Branch '${branch}' not found in ${org}/${repo}. Available branches: ${targetRepo.branches.join(', ')}`
+        `Branch '${parsed.branch}' not found in ${org}/${repo}. Available branches: ${targetRepo.branches.join(', ')}`
       );
     }
 
     // Construct target path
-    const targetPath = path.join(rootDir, org, repo, branch);
-
-    // Open in VSCode
-    logger.info(`Opening ${org}/${repo}/${branch} in VSCode...`);
-    const opened = await openInVSCode({ targetPath });
+    const targetPath = getBranchClonePath(targetRepo, branch);
+
+    // Open in the configured editor
+    const editor = await resolveEditor(rootDir, options.editor);
+    const folderUri = await resolveDevContainerUri(
+      rootDir,
+      targetPath,
+      editor,
+      options.devContainer
+    );
+    const where = folderUri ? `${editor.name} (dev container)` : editor.name;
+    logger.info(`Opening ${org}/${repo}/${branch} in ${where}...`);
+    const opened = await openInEditor({ targetPath, editor, folderUri: folderUri ?? undefined });
 
     if (opened) {
-      logger.success('Successfully opened in VSCode');
-      return { success: true, targetPath, vscodeOpened: true };
+      try {
+        await markCloneOpened(rootDir, targetPath, branch);
+      } catch {
+        // Recording the visit is best effort and must not fail the command
+      }
+      logger.success(`Successfully opened in ${editor.name}`);
+      return { success: true, targetPath, editorOpened: true };
     } else {
-      logger.warn('VSCode not available. Please open manually:');
+      logger.warn(`${editor.name} not available. Please open manually:`);
       logger.info(`  cd ${targetPath}`);
       return {
         success: true,
         targetPath,
-        vscodeOpened: false,
+        editorOpened: false,
       };
     }
   } catch (error) {
@@ -97,15 +126,16 @@ export async function executeCodeCommand(
 export async function executeCodeCommandInteractive(
   rootDir: string,
   pathArg?: string,
-  logger?: Logger
+  logger?: Logger,
+  options: CodeOptions = {}
 ): Promise<CodeResult> {
   try {
-    // Parse partial path if provided
-    const parsed = parsePathArg(pathArg);
-
     // Scan repositories
     const repositories = await scanRepositories(rootDir);
 
+    // Parse partial path if provided
+    const parsed = parsePathArg(pathArg, getRepositoryKeys(repositories));
+
     if (repositories.length === 0) {
       throw new Error('No repositories found. Please clone a repository first using "gcpb add"');
     }
@@ -134,33 +164,46 @@ export async function executeCodeCommandInteractive(
     // State 3: Select branch (skip if provided and valid)
     const branchResult = await openSelectBranch({
       branches: targetRepo.branches,
-      preselectedBranch: parsed.branch,
+      preselectedBranch: parsed.branch ? resolveBranchName(targetRepo, parsed.branch) : undefined,
     });
     const branch = branchResult.value.branch;
 
     // Construct target path
-    const targetPath = path.join(rootDir, org, repo, branch);
-
-    // Open in VSCode
+    const targetPath = getBranchClonePath(targetRepo, branch);
+
+    // Open in the configured editor
+    const editor = await resolveEditor(rootDir, options.editor);
+    const folderUri = await resolveDevContainerUri(
+      rootDir,
+      targetPath,
+      editor,
+      options.devContainer
+    );
     if (logger) {
-      logger.info(`Opening ${org}/${repo}/${branch} in VSCode...`);
+      const where = folderUri ? `${editor.name} (dev container)` : editor.name;
+      logger.info(`Opening ${org}/${repo}/${branch} in ${where}...`);
     }
-    const opened = await openInVSCode({ targetPath });
+    const opened = await openInEditor({ targetPath, editor, folderUri: folderUri ?? undefined });
 
     if (opened) {
+      try {
+        await markCloneOpened(rootDir, targetPath, branch);
+      } catch {
+        // Recording the visit is best effort and must not fail the command
+      }
       if (logger) {
-        logger.success('Successfully opened in VSCode');
+        logger.success(`Successfully opened in ${editor.name}`);
       }
-      return { success: true, targetPath, vscodeOpened: true };
+      return { success: true, targetPath, editorOpened: true };
     } else {
       if (logger) {
-        logger.warn('VSCode not available. Please open manually:');
+        logger.warn(`${editor.name} not available. Please open manually:`);
         logger.info(`  cd ${targetPath}`);
       }
       return {
         success: true,
         targetPath,
-        vscodeOpened: false,
+        editorOpened: false,
       };
     }
   } catch (error) {
@@ -0,0 +1,182 @@
+/**
+ * Orchestrator for the 'doctor' command
+ * Checks that shared clones can still read the objects they borrow from their cache
+ */
+
+import chalk from 'chalk';
+import path from 'path';
+import { checkAlternates, getAlternates } from '../core/alternates.js';
+import { ensureCache, getCachePath, protectCacheObjects } from '../core/cache-manager.js';
+import { resolveRemoteUrl } from '../core/remote-resolver.js';
+import { filterBranchClones, scanRepositories } from '../core/repository-scanner.js';
+import { type BranchClone, EscapeCancelError } from '../types/index.js';
+import type { Logger } from '../utils/logger.js';
+
+export interface DoctorOptions {
+  fix?: boolean; // refresh or recreate the caches broken clones borrow from
+}
+
+export type DoctorOutcome = 'ok' | 'fixed' | 'broken';
+
+export interface DoctorEntry extends BranchClone {
+  outcome: DoctorOutcome;
+  message: string;
+}
+
+export interface DoctorResult {
+  success: boolean;
+  entries?: DoctorEntry[]; // shared clones only, independent clones have nothing to check
+  error?: string;
+}
+
+function plural(count: number, word: string): string {
+  return `${count} ${word}${count === 1 ? '' : 's'}`;
+}
+
+/**
+ * Refetch the repository cache a broken clone borrows from, then check the clone again
+ * Only the clone's own repository cache can be rebuilt; other alternates are left alone
+ */
+async function repairClone(rootDir: string, clone: BranchClone): Promise<string | null> {
+  const cachePath = getCachePath(rootDir, clone.owner, clone.repo);
+  const alternates = await getAlternates(clone.path);
+  if (!alternates.includes(path.join(cachePath, 'objects'))) {
+    return 'borrows objects from outside the gcpb cache, re-clone the branch to repair it';
+  }
+
+  const remote = await resolveRemoteUrl(rootDir, clone.owner, clone.repo);
+  if (!remote.found || !remote.url) {
+    return 'could not detect the repository URL to rebuild the cache';
+  }
+
+  await ensureCache({ url: remote.url, owner: clone.owner, repo: clone.repo, rootDir });
+  await protectCacheObjects(cachePath);
+  const problem = await checkAlternates(clone.path);
+  return problem
+    ? `${problem} even after refreshing the cache, re-clone the branch to repair it`
+    : null;
+}
+
+/**
+ * Render doctor entries one per line with an outcome marker
+ */
+export function formatDoctorReport(entries: DoctorEntry[]): string {
+  const markers: Record<DoctorOutcome, string> = {
+    ok: chalk.gray('•'),
+    fixed: chalk.green('✔'),
+    broken: chalk.red('✖'),
+  };
+
+  const width = Math.max(...entries.map((e) => `${e.owner}/${e.repo}/${e.branch}`.length));
+
+  return entries
+    .map((e) => {
+      const clone = `${e.owner}/${e.repo}/${e.branch}`.padEnd(width);
+      const message = e.outcome === 'broken' ? chalk.red(e.message) : chalk.gray(e.message);
+      return `${markers[e.outcome]} ${clone}  ${message}`;
+    })
+    .join('\n');
+}
+
+/**
+ * Execute doctor command
+ * Used as: gcpb doctor [org[/repo[/branch]]] [--fix]
+ */
+export async function executeDoctorCommand(
+  rootDir: string,
+  pathArg: string | undefined,
+  options: DoctorOptions,
+  logger: Logger
+): Promise<DoctorResult> {
+  try {
+    const repositories = await scanRepositories(rootDir);
+    const clones = filterBranchClones(repositories, pathArg);
+
+    if (clones.length === 0) {
+      logger.info('No repositories found. Please clone a repository first using "gcpb add"');
+      return { success: true, entries: [] };
+    }
+
+    const entries: DoctorEntry[] = [];
+
+    logger.startSpinner(`Checking ${plural(clones.length, 'clone')}...`);
+    for (const clone of clones) {
+      logger.updateSpinner(`Checking ${clone.owner}/${clone.repo}/${clone.branch}...`);
+
+      let problem: string | null;
+      try {
+        if ((await getAlternates(clone.path)).length === 0) {
+          // Independent clone, nothing borrowed
+          continue;
+        }
+        problem = await checkAlternates(clone.path);
+      } catch (error) {
+        problem = `could not be checked (${error instanceof Error ? error.message : 'Unknown error'})`;
+      }
+
+      if (!problem) {
+        entries.push({ ...clone, outcome: 'ok', message: 'shared objects complete' });
+        continue;
+      }
+      if (!options.fix) {
+        entries.push({ ...clone, outcome: 'broken', message: problem });
+        continue;
+      }
+
+      logger.updateSpinner(`Repairing ${clone.owner}/${clone.repo}/${clone.branch}...`);
+      let remaining: string | null;
+      try {
+        remaining = await repairClone(rootDir, clone);
+      } catch (error) {
+        remaining = `repair failed (${error instanceof Error ? error.message : 'Unknown error'})`;
+      }
+      entries.push(
+        remaining
+          ? { ...clone, outcome: 'broken', message: remaining }
+          : { ...clone, outcome: 'fixed', message: `${problem}; refreshed the cache` }
+      );
+    }
+
+    const broken = entries.filter((e) => e.outcome === 'broken');
+    logger.stopSpinner(broken.length === 0, `Checked ${plural(clones.length, 'clone')}`);
+
+    if (entries.length === 0) {
+      logger.info('No shared clones found, every clone has its own objects');
+      return { success: true, entries };
+    }
+
+    console.log('');
+    console.log(formatDoctorReport(entries));
+    console.log('');
+
+    if (broken.length > 0) {
+      logger.warn(
+        `${plural(broken.length, 'shared clone')} cannot read borrowed objects${options.fix ? '' : ' (run "gcpb doctor --fix" to refresh their caches)'}`
+      );
+      return {
+        success: false,
+        entries,
+        error: `${plural(broken.length, 'clone')} with broken alternates`,
+      };
+    }
+
+    logger.success(`${plural(entries.length, 'shared clone')} healthy`);
+    return { success: true, entries };
+  } catch (error) {
+    logger.stopSpinner(false, 'Doctor failed');
+
+    // EscapeCancelError should propagate to CLI for menu navigation
+    if (error instanceof EscapeCancelError) {
+      throw error;
+    }
+
+    // ExitPromptError should propagate to CLI for immediate exit
+    if (error instanceof Error && error.name === 'ExitPromptError') {
+      throw error;
+    }
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    logger.error(`Failed to check clones: ${errorMessage}`);
+    return { success: false, error: errorMessage };
+  }
+}
@@ -0,0 +1,126 @@
+/**
+ * Orchestrator for the 'list' command
+ * Prints the cloned owner/repo/branch inventory as a tree, a table, or JSON
+ */
+
+import chalk from 'chalk';
+import { filterBranchClones, scanRepositories } from '../core/repository-scanner.js';
+import { type BranchClone, EscapeCancelError } from '../types/index.js';
+import type { Logger } from '../utils/logger.js';
+
+export type ListFormat = 'tree' | 'table' | 'json';
+
+export interface ListResult {
+  success: boolean;
+  entries?: BranchClone[];
+  error?: string;
+}
+
+/**
+ * Render entries as an owner → repo → branch tree
+ * Branches cut from another branch show their base
+ */
+export function formatTree(entries: BranchClone[]): string {
+  const lines: string[] = [];
+  const owners = [...new Set(entries.map((e) => e.owner))];
+
+  for (const owner of owners) {
+    lines.push(chalk.bold(owner));
+
+    const ownerEntries = entries.filter((e) => e.owner === owner);
+    const repos = [...new Set(ownerEntries.map((e) => e.repo))];
+
+    repos.forEach((repo, repoIndex) => {
+      const isLastRepo = repoIndex === repos.length - 1;
+      lines.push(`${isLastRepo ? '└── ' : '├── '}${chalk.cyan(repo)}`);
+
+      const branches = ownerEntries.filter((e) => e.repo === repo);
+      branches.forEach((entry, branchIndex) => {
+        const isLastBranch = branchIndex === branches.length - 1;
+        const indent = isLastRepo ? '    ' : '│   ';
+        const base = entry.metadata?.baseBranch;
+        const origin = base && base !== entry.branch ? chalk.gray(` (from ${base})`) : '';
+        lines.push(`${indent}${isLastBranch ? '└── ' : '├── '}${entry.branch}${origin}`);
+      });
+    });
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Render entries as an aligned OWNER / REPO / BRANCH / BASE / CREATED / PATH table
+ * BASE and CREATED come from clone metadata and show "-" for clones gcpb did not create
+ */
+export function formatTable(entries: BranchClone[]): string {
+  const headers = ['OWNER', 'REPO', 'BRANCH', 'BASE', 'CREATED', 'PATH'];
+  const rows = entries.map((e) => [
+    e.owner,
+    e.repo,
+    e.branch,
+    e.metadata?.baseBranch ?? '-',
+    e.metadata?.createdAt?.slice(0, 10) ?? '-',
+    e.path,
+  ]);
+
+  const widths = headers.map((header, i) =>
+    Math.max(header.length, ...rows.map((row) => row[i].length))
+  );
+
+  const formatRow = (row: string[]) =>
+    row
+      .map((cell, i) => (i === row.length - 1 ? cell : cell.padEnd(widths[i])))
+      .join('  ')
+      .trimEnd();
+
+  return [chalk.bold(formatRow(headers)), ...rows.map(formatRow)].join('\n');
+}
+
+/**
+ * Execute list command
+ * Used as: gcpb list [org[/repo[/branch]]] [--table | --json]
+ */
+export async function executeListCommand(
+  rootDir: string,
+  pathArg: string | undefined,
+  format: ListFormat,
+  logger: Logger
+): Promise<ListResult> {
+  try {
+    const repositories = await scanRepositories(rootDir);
+    const entries = filterBranchClones(repositories, pathArg);
+
+    if (format === 'json') {
+      // Always emit valid JSON so tooling can consume the output, even when empty
+      console.log(JSON.stringify(entries, null, 2));
+      return { success: true, entries };
+    }
+
+    if (entries.length === 0) {
+      logger.info(
+        pathArg
+          ? `No cloned branches found matching "${pathArg}"`
+          : 'No repositories found. Please clone a repository first using "gcpb add"'
+      );
+      return { success: true, entries };
+    }
+
+    console.log(format === 'table' ? formatTable(entries) : formatTree(entries));
+
+    return { success: true, entries };
+  } catch (error) {
+    // EscapeCancelError should propagate to CLI for menu navigation
+    if (error instanceof EscapeCancelError) {
+      throw error;
+    }
+
+    // ExitPromptError should propagate to CLI for immediate exit
+    if (error instanceof Error && error.name === 'ExitPromptError') {
+      throw error;
+    }
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    logger.error(`Failed to list: ${errorMessage}`);
+    return { success: false, error: errorMessage };
+  }
+}
@@ -0,0 +1,123 @@
+/**
+ * Orchestrator for the 'mv' command
+ * Renames the branch of a clone and moves its directory to match
+ */
+
+import { moveBranchClone } from '../core/branch-mover.js';
+import {
+  filterBranchClones,
+  getRepositoryKeys,
+  scanRepositories,
+} from '../core/repository-scanner.js';
+import { EscapeCancelError, GCPBError } from '../types/index.js';
+import { parsePathArg } from '../utils/arg-parser.js';
+import type { Logger } from '../utils/logger.js';
+
+export interface MoveOptions {
+  remote?: boolean; // also rename the branch on origin
+}
+
+export interface MoveResult {
+  success: boolean;
+  sourcePath?: string;
+  targetPath?: string;
+  branch?: string; // new branch name
+  error?: string;
+}
+
+/**
+ * Execute mv command
+ * Used as: gcpb mv org/repo/old org/repo/new [--remote]
+ *
+ * The new name may also be given without its org/repo prefix (gcpb mv org/repo/old new).
+ */
+export async function executeMoveCommand(
+  rootDir: string,
+  sourceArg: string,
+  targetArg: string,
+  options: MoveOptions,
+  logger: Logger
+): Promise<MoveResult> {
+  try {
+    const repositories = await scanRepositories(rootDir);
+    const repositoryKeys = getRepositoryKeys(repositories);
+
+    const source = parsePathArg(sourceArg, repositoryKeys);
+    if (!source.isComplete) {
+      throw new Error(`Incomplete path provided: "${sourceArg}"\nExpected format: org/repo/branch`);
+    }
+
+    const clone = filterBranchClones(repositories, sourceArg)[0];
+    if (!clone) {
+      throw new Error(`Branch '${source.branch}' not found in ${source.org}/${source.repo}`);
+    }
+
+    // Strip the repository prefix from the new name, refusing moves to another repository
+    const prefix = `${clone.owner}/${clone.repo}/`;
+    let newBranch = targetArg;
+    if (targetArg.startsWith(prefix)) {
+      newBranch = targetArg.slice(prefix.length);
+    } else {
+      const target = parsePathArg(targetArg, repositoryKeys);
+      if (target.repo && repositoryKeys.includes(`${target.org}/${target.repo}`)) {
+        throw new Error(
+          `Cannot move ${clone.owner}/${clone.repo}/${clone.branch} to another repository`
+        );
+      }
+    }
+
+    logger.startSpinner(`Renaming ${clone.branch} to ${newBranch}...`);
+    const moveResult = await moveBranchClone({
+      rootDir,
+      clone,
+      newBranch,
+      remote: options.remote,
+    });
+    logger.stopSpinner(true, 'Rename complete');
+
+    if (!options.remote && moveResult.upstream) {
+      logger.info(
+        moveResult.ownsUpstream
+          ? `The branch still tracks ${moveResult.upstream}; use --remote to rename the remote branch too`
+          : `The branch still tracks ${moveResult.upstream}, the branch it was created from; use --remote to push it as origin/${newBranch}`
+      );
+    } else if (options.remote && !moveResult.ownsUpstream) {
+      logger.info(
+        `Pushed as ${moveResult.upstream}; the branch it was created from was left as is`
+      );
+    }
+
+    logger.success(`Renamed ${clone.owner}/${clone.repo}/${clone.branch} to ${newBranch}`);
+    logger.box(
+      `Branch renamed\n\nRepository: ${clone.owner}/${clone.repo}\nBranch: ${clone.branch} → ${newBranch}\nPath: ${moveResult.targetPath}` +
+        (moveResult.upstream ? `\nUpstream: ${moveResult.upstream}` : ''),
+      'success'
+    );
+
+    return {
+      success: true,
+      sourcePath: clone.path,
+      targetPath: moveResult.targetPath,
+      branch: newBranch,
+    };
+  } catch (error) {
+    logger.stopSpinner(false, 'Rename failed');
+
+    // EscapeCancelError should propagate to CLI for menu navigation
+    if (error instanceof EscapeCancelError) {
+      throw error;
+    }
+
+    // ExitPromptError should propagate to CLI for immediate exit
+    if (error instanceof Error && error.name === 'ExitPromptError') {
+      throw error;
+    }
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    logger.error(`Failed to rename: ${errorMessage}`);
+    if (error instanceof GCPBError && error.suggestion) {
+      logger.info(`Suggestion: ${error.suggestion}`);
+    }
+    return { success: false, error: errorMessage };
+  }
+}
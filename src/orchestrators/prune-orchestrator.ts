@@ -0,0 +1,231 @@
+/**
+ * Orchestrator for the 'prune' command
+ * Finds branch clones whose remote branch was deleted or merged upstream and removes them
+ */
+
+import chalk from 'chalk';
+import { removeBranchClones, runPreRemoveHooks } from '../core/branch-remover.js';
+import { ensureCache } from '../core/cache-manager.js';
+import { detectDefaultBranch } from '../core/default-branch-detector.js';
+import { describeUnsavedWork, getUnsavedWork } from '../core/git-status.js';
+import { resolveRemoteUrl } from '../core/remote-resolver.js';
+import { filterBranchClones, scanRepositories } from '../core/repository-scanner.js';
+import { detectStaleBranch } from '../core/stale-detector.js';
+import { pruneSelectBranches } from '../state/prune-states.js';
+import type { PruneCandidate } from '../state/types.js';
+import { type BranchClone, EscapeCancelError } from '../types/index.js';
+import type { Logger } from '../utils/logger.js';
+
+export interface PruneOptions {
+  dryRun?: boolean; // only report stale branches
+  yes?: boolean; // remove every removable stale branch without prompting
+  discardChanges?: boolean; // also remove stale branches with unsaved work
+}
+
+export interface PruneResult {
+  success: boolean;
+  candidates?: PruneCandidate[];
+  removedCount?: number;
+  error?: string;
+}
+
+/**
+ * Find stale branch clones, refreshing each repository's mirror cache first
+ * Repositories that cannot be checked are reported through onWarning and skipped
+ */
+export async function findPruneCandidates(
+  rootDir: string,
+  pathArg: string | undefined,
+  onProgress?: (message: string) => void,
+  onWarning?: (message: string) => void
+): Promise<PruneCandidate[]> {
+  const repositories = await scanRepositories(rootDir);
+  const clones = filterBranchClones(repositories, pathArg);
+
+  // Group clones by owner/repo so each cache is updated once
+  const groups = new Map<string, BranchClone[]>();
+  for (const clone of clones) {
+    const key = `${clone.owner}/${clone.repo}`;
+    groups.set(key, [...(groups.get(key) ?? []), clone]);
+  }
+
+  const candidates: PruneCandidate[] = [];
+
+  for (const [key, repoClones] of groups) {
+    const { owner, repo } = repoClones[0];
+    onProgress?.(`Updating cache for ${key}...`);
+
+    const remote = await resolveRemoteUrl(rootDir, owner, repo);
+    if (!remote.found || !remote.url) {
+      onWarning?.(`Skipping ${key}: could not detect repository URL`);
+      continue;
+    }
+
+    let cachePath: string;
+    try {
+      cachePath = await ensureCache({ url: remote.url, owner, repo, rootDir });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      onWarning?.(`Skipping ${key}: failed to update cache (${message})`);
+      continue;
+    }
+
+    const defaultBranch = await detectDefaultBranch(remote.url, rootDir, owner, repo);
+
+    for (const clone of repoClones) {
+      onProgress?.(`Checking ${key}/${clone.branch}...`);
+
+      let check;
+      try {
+        check = await detectStaleBranch(cachePath, clone.path, defaultBranch);
+      } catch {
+        // Can't determine state, never treat as stale
+        continue;
+      }
+      if (!check) {
+        continue;
+      }
+
+      let unsavedWork: string[];
+      try {
+        unsavedWork = describeUnsavedWork(await getUnsavedWork(clone.path));
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        unsavedWork = [`could not inspect working tree (${message})`];
+      }
+
+      candidates.push({
+        owner,
+        repo,
+        branch: clone.branch,
+        path: clone.path,
+        remoteBranch: check.remoteBranch,
+        reason: check.reason,
+        unsavedWork,
+      });
+    }
+  }
+
+  return candidates;
+}
+
+/**
+ * Render stale branches as a report, one line per clone plus unsaved work warnings
+ */
+export function formatPruneReport(candidates: PruneCandidate[]): string {
+  const lines: string[] = [];
+
+  for (const c of candidates) {
+    const reason =
+      c.reason === 'deleted'
+        ? `origin/${c.remoteBranch} deleted upstream`
+        : `origin/${c.remoteBranch} merged into default branch`;
+    lines.push(`  - ${c.owner}/${c.repo}/${c.branch} ${chalk.gray(`(${reason})`)}`);
+    if (c.unsavedWork.length > 0) {
+      lines.push(chalk.yellow(`    ⚠ ${c.unsavedWork.join(', ')}`));
+    }
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Execute prune command
+ * Used as: gcpb prune [org[/repo]] [--dry-run] [--yes] [--discard-changes]
+ */
+export async function executePruneCommand(
+  rootDir: string,
+  pathArg: string | undefined,
+  options: PruneOptions,
+  logger: Logger
+): Promise<PruneResult> {
+  try {
+    const warnings: string[] = [];
+
+    logger.startSpinner('Checking for stale branches...');
+    const candidates = await findPruneCandidates(
+      rootDir,
+      pathArg,
+      (message) => logger.updateSpinner(message),
+      (message) => warnings.push(message)
+    );
+    logger.stopSpinner(
+      true,
+      `Found ${candidates.length} stale branch${candidates.length === 1 ? '' : 'es'}`
+    );
+
+    for (const warning of warnings) {
+      logger.warn(warning);
+    }
+
+    if (candidates.length === 0) {
+      logger.info('Nothing to prune');
+      return { success: true, candidates, removedCount: 0 };
+    }
+
+    console.log('');
+    console.log(formatPruneReport(candidates));
+    console.log('');
+
+    if (options.dryRun) {
+      logger.info('Dry run: no branches were removed');
+      return { success: true, candidates, removedCount: 0 };
+    }
+
+    const blocked = candidates.filter((c) => c.unsavedWork.length > 0);
+    if (blocked.length > 0 && !options.discardChanges) {
+      logger.warn(
+        `${blocked.length} branch${blocked.length === 1 ? ' has' : 'es have'} unsaved work and will be kept (use --discard-changes to remove anyway)`
+      );
+    }
+
+    // State 1: Select branches to remove (skip prompt with --yes)
+    const selectResult = await pruneSelectBranches({
+      candidates,
+      discardChanges: options.discardChanges,
+      skipSelection: options.yes,
+    });
+    const selected = selectResult.value.selected;
+
+    if (selected.length === 0) {
+      logger.info('No branches removed');
+      return { success: true, candidates, removedCount: 0 };
+    }
+
+    // Remove through the same hooks and cleanup path as rm
+    await runPreRemoveHooks(rootDir, selected, logger);
+    const total = selected.length;
+    logger.startSpinner(`Removing ${total} branch${total === 1 ? '' : 'es'}...`);
+    const removed = await removeBranchClones(rootDir, selected, (count) => {
+      if (total > 1) {
+        logger.updateSpinner(`Removed ${count}/${total} branches...`);
+      }
+    });
+    logger.stopSpinner(true, `Successfully removed ${removed} branch${removed === 1 ? '' : 'es'}`);
+
+    logger.box(
+      `Pruned ${removed} stale branch${removed === 1 ? '' : 'es'}\n\n` +
+        selected.map((c) => `${c.owner}/${c.repo}/${c.branch}`).join('\n'),
+      'success'
+    );
+    logger.info('Removed clones stay in the trash; run "gcpb trash list" to restore them');
+
+    return { success: true, candidates, removedCount: removed };
+  } catch (error) {
+    logger.stopSpinner(false, 'Prune failed');
+
+    // EscapeCancelError should propagate to CLI for menu navigation
+    if (error instanceof EscapeCancelError) {
+      throw error;
+    }
+
+    // ExitPromptError should propagate to CLI for immediate exit
+    if (error instanceof Error && error.name === 'ExitPromptError') {
+      throw error;
+    }
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    logger.error(`Failed to prune: ${errorMessage}`);
+    return { success: false, error: errorMessage };
+  }
+}
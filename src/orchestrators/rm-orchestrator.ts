@@ -3,18 +3,35 @@
  * Handles both direct execution (all args provided) and interactive mode
  */
 
-import fs from 'fs-extra';
 import path from 'path';
-import { cleanupEmptyDirectories } from '../core/config.js';
-import { scanRepositories } from '../core/repository-scanner.js';
+import fs from 'fs-extra';
+import { getDirectorySize, removeBranchClones, runPreRemoveHooks } from '../core/branch-remover.js';
+import {
+  getCachePath,
+  getCacheStats,
+  removeCache,
+  removeEmptyCacheParents,
+} from '../core/cache-manager.js';
+import {
+  filterBranchClones,
+  getBranchClonePath,
+  getRepositoryKeys,
+  resolveBranchName,
+  scanRepositories,
+} from '../core/repository-scanner.js';
 import {
+  rmConfirmBulkRemoval,
   rmConfirmRemoval,
+  rmInspectBranches,
   rmSelectBranches,
   rmSelectOrg,
   rmSelectRepo,
 } from '../state/rm-states.js';
-import { EscapeCancelError } from '../types/index.js';
+import type { RmBulkRemovalItem } from '../state/types.js';
+import { type BranchClone, EscapeCancelError, type RepositoryInfo } from '../types/index.js';
 import { parsePathArg } from '../utils/arg-parser.js';
+import { formatBytes } from '../utils/format.js';
+import { isGlobPattern, matchGlob } from '../utils/glob.js';
 import type { Logger } from '../utils/logger.js';
 
 export interface RemoveResult {
@@ -24,20 +41,55 @@ export interface RemoveResult {
   org?: string;
   repo?: string;
   branches?: string[];
+  clones?: string[]; // org/repo/branch of each removed clone (bulk removal)
+  removedCaches?: string[]; // org/repo of each removed mirror cache
+}
+
+export interface BulkRemoveOptions {
+  all?: boolean; // every clone at or below an org or org/repo path
+  force?: boolean; // skip the confirmation
+  discardChanges?: boolean; // remove clones with unsaved work too
+  removeCache?: boolean; // also remove the caches of repositories left without clones
+}
+
+/**
+ * Build the error shown when branches selected for removal contain unsaved work
+ * unsavedWork is keyed by branch, or by org/repo/branch without a prefix
+ */
+function formatUnsavedWorkError(unsavedWork: Record<string, string[]>, prefix = ''): string {
+  const lines = Object.entries(unsavedWork).map(
+    ([branch, items]) => `  - ${prefix}${branch}: ${items.join(', ')}`
+  );
+  return (
+    `Refusing to remove branches with unsaved work:\n` +
+    `${lines.join('\n')}\n` +
+    `Tip: Commit and push or drop the work first, or re-run with --discard-changes`
+  );
 }
 
 /**
  * Execute remove command with direct path and force flag (non-interactive)
  * Used when user provides complete path: gcpb rm org/repo/branch --force
+ *
+ * Branches with uncommitted, untracked, unpushed or stashed work are only
+ * removed when discardChanges is set; --force alone skips just the confirmation.
  */
 export async function executeRemoveCommand(
   rootDir: string,
   pathArg: string,
   force: boolean,
-  logger: Logger
+  logger: Logger,
+  discardChanges = false
 ): Promise<RemoveResult> {
   try {
-    const parsed = parsePathArg(pathArg);
+    // Anything shorter than org/repo/branch is rejected before scanning
+    let parsed = parsePathArg(pathArg);
+    let repositories: RepositoryInfo[] = [];
+    if (parsed.isComplete) {
+      repositories = await scanRepositories(rootDir);
+      // Owners spanning several segments (github.com/acme) are only known after scanning
+      parsed = parsePathArg(pathArg, getRepositoryKeys(repositories));
+    }
 
     if (!parsed.isComplete) {
       const got = [parsed.org, parsed.repo, parsed.branch].filter(Boolean).join('/') || '(empty)';
@@ -51,10 +103,6 @@ export async function executeRemoveCommand(
     // At this point, isComplete guarantees org, repo, and branch are all defined
     const org = parsed.org as string;
     const repo = parsed.repo as string;
-    const branch = parsed.branch as string;
-
-    // Scan repositories to verify the branch exists
-    const repositories = await scanRepositories(rootDir);
 
     // Find the specified repository
     const targetRepo = repositories.find((r) => r.owner === org && r.repo === repo);
@@ -63,20 +111,40 @@ export async function executeRemoveCommand(
       throw new Error(`Repository ${org}/${repo} not found`);
     }
 
-    // Verify the branch exists
-    if (!targetRepo.branches.includes(branch)) {
+    // Verify the branch exists, accepting its directory name as well
+    const branch = resolveBranchName(targetRepo, parsed.branch as string);
+    if (!branch) {
       throw new Error(
-        `Branch '${branch}' not found in ${org}/${repo}. Available branches: ${targetRepo.branches.join(', ')}`
+        `Branch '${parsed.branch}' not found in ${org}/${repo}. Available branches: ${targetRepo.branches.join(', ')}`
       );
     }
 
+    // Check for work that would be lost
+    const inspectResult = await rmInspectBranches({
+      rootDir,
+      org,
+      repo,
+      branches: [branch],
+      branchDirs: targetRepo.branchDirs,
+    });
+    const unsavedWork = inspectResult.value.unsavedWork;
+
+    if (Object.keys(unsavedWork).length > 0) {
+      if (!discardChanges) {
+        throw new Error(formatUnsavedWorkError(unsavedWork, `${org}/${repo}/`));
+      }
+      logger.warn(`Discarding unsaved work in ${org}/${repo}/${branch}`);
+    }
+
     // Confirm removal (skip if force flag is set)
     const confirmResult = await rmConfirmRemoval({
       rootDir,
       org,
       repo,
       branches: [branch],
+      branchDirs: targetRepo.branchDirs,
       force,
+      unsavedWork,
     });
 
     if (!confirmResult.value.confirmed) {
@@ -84,20 +152,19 @@ export async function executeRemoveCommand(
       return { success: false, error: 'Operation cancelled by user' };
     }
 
-    // Remove branch
+    // Run pre-remove hooks, then remove branch (also cleans up empty directories)
+    const targets = [{ owner: org, repo, branch, path: getBranchClonePath(targetRepo, branch) }];
+    await runPreRemoveHooks(rootDir, targets, logger);
     logger.startSpinner('Removing branch...');
-    const branchPath = path.join(rootDir, org, repo, branch);
-    await fs.remove(branchPath);
+    await removeBranchClones(rootDir, targets);
     logger.stopSpinner(true, 'Removal complete');
 
-    // Cleanup empty directories
-    await cleanupEmptyDirectories(rootDir);
-
     logger.success('Successfully removed branch');
     logger.box(
       `Removed branch\n\nOrganization: ${org}\nRepository: ${repo}\nBranch: ${branch}`,
       'success'
     );
+    logger.info('Removed clones stay in the trash; run "gcpb trash list" to restore them');
 
     return {
       success: true,
@@ -123,6 +190,206 @@ export async function executeRemoveCommand(
   }
 }
 
+/**
+ * Check whether rm removes several clones at once: with --all or --remove-cache, or for a glob
+ */
+export function isBulkRemoval(pathArg: string | undefined, options: BulkRemoveOptions): boolean {
+  return !!options.all || !!options.removeCache || (!!pathArg && isGlobPattern(pathArg));
+}
+
+/**
+ * Select the clones a bulk removal applies to
+ * Globs match org/repo/branch as well as the clone directory (org/repo/feat-*), and with all also
+ * whole repositories or organizations (gcpb rm 'acme/*' --all)
+ */
+function selectClones(
+  repositories: RepositoryInfo[],
+  pattern: string,
+  all?: boolean
+): BranchClone[] {
+  if (!isGlobPattern(pattern)) {
+    if (!all && !parsePathArg(pattern, getRepositoryKeys(repositories)).isComplete) {
+      throw new Error(
+        `"${pattern}" is not a single clone\nTip: Add --all to remove every clone below it`
+      );
+    }
+    return filterBranchClones(repositories, pattern);
+  }
+
+  return repositories.flatMap((repository) =>
+    filterBranchClones([repository]).filter((clone) => {
+      const repoKey = `${clone.owner}/${clone.repo}`;
+      const directory = path.relative(repository.fullPath, clone.path).split(path.sep).join('/');
+      return (
+        matchGlob(pattern, `${repoKey}/${clone.branch}`) ||
+        matchGlob(pattern, `${repoKey}/${directory}`) ||
+        (!!all && (matchGlob(pattern, repoKey) || matchGlob(pattern, clone.owner)))
+      );
+    })
+  );
+}
+
+/**
+ * Execute remove command for several clones at once
+ * Used as: gcpb rm org --all, gcpb rm org/repo --all, gcpb rm 'org/repo/feat-*'
+ * [--force] [--discard-changes] [--remove-cache]
+ *
+ * Every matching clone is listed with its size before confirmation. With removeCache, the mirror
+ * caches of repositories left without clones are removed as well.
+ */
+export async function executeBulkRemoveCommand(
+  rootDir: string,
+  pattern: string | undefined,
+  options: BulkRemoveOptions,
+  logger: Logger
+): Promise<RemoveResult> {
+  try {
+    if (!pattern) {
+      throw new Error(
+        `Specify the clones to remove, e.g. "gcpb rm org/repo --all" or "gcpb rm 'org/repo/feat-*'"`
+      );
+    }
+
+    const repositories = await scanRepositories(rootDir);
+    const clones = selectClones(repositories, pattern, options.all);
+    if (clones.length === 0) {
+      throw new Error(`No clones match "${pattern}"`);
+    }
+    const isSelected = (owner: string, repo: string, branch: string) =>
+      clones.some((c) => c.owner === owner && c.repo === repo && c.branch === branch);
+
+    // Check for work that would be lost, one repository at a time
+    const unsavedWork: Record<string, string[]> = {};
+    for (const repository of repositories) {
+      const { owner, repo } = repository;
+      const branches = repository.branches.filter((branch) => isSelected(owner, repo, branch));
+      if (branches.length === 0) {
+        continue;
+      }
+      const inspectResult = await rmInspectBranches({
+        rootDir,
+        org: owner,
+        repo,
+        branches,
+        branchDirs: repository.branchDirs,
+      });
+      for (const [branch, items] of Object.entries(inspectResult.value.unsavedWork)) {
+        unsavedWork[`${owner}/${repo}/${branch}`] = items;
+      }
+    }
+
+    if (Object.keys(unsavedWork).length > 0) {
+      if (!options.discardChanges) {
+        throw new Error(formatUnsavedWorkError(unsavedWork));
+      }
+      for (const clone of Object.keys(unsavedWork)) {
+        logger.warn(`Discarding unsaved work in ${clone}`);
+      }
+    }
+
+    logger.startSpinner(`Measuring ${clones.length} clone${clones.length === 1 ? '' : 's'}...`);
+    const cloneItems: RmBulkRemovalItem[] = [];
+    for (const clone of clones) {
+      const name = `${clone.owner}/${clone.repo}/${clone.branch}`;
+      cloneItems.push({
+        name,
+        path: clone.path,
+        sizeBytes: await getDirectorySize(clone.path),
+        unsavedWork: unsavedWork[name],
+      });
+    }
+
+    // Caches are only unused once every clone of their repository is gone
+    const cacheItems: RmBulkRemovalItem[] = [];
+    if (options.removeCache) {
+      for (const repository of repositories) {
+        const { owner, repo } = repository;
+        if (!repository.branches.every((branch) => isSelected(owner, repo, branch))) {
+          continue;
+        }
+        const cachePath = getCachePath(rootDir, owner, repo);
+        if (!(await fs.pathExists(cachePath))) {
+          continue;
+        }
+        let sizeBytes: number | undefined;
+        try {
+          sizeBytes = (await getCacheStats(cachePath)).sizeBytes;
+        } catch {
+          sizeBytes = undefined;
+        }
+        cacheItems.push({ name: `${owner}/${repo}`, path: cachePath, sizeBytes });
+      }
+    }
+    logger.stopSpinner(true, `Found ${clones.length} clone${clones.length === 1 ? '' : 's'}`);
+
+    const confirmResult = await rmConfirmBulkRemoval({
+      clones: cloneItems,
+      caches: cacheItems,
+      force: options.force,
+    });
+
+    if (!confirmResult.value.confirmed) {
+      logger.info('Operation cancelled');
+      return { success: false, error: 'Operation cancelled by user' };
+    }
+
+    // Run pre-remove hooks, then remove clones (also cleans up empty directories)
+    const targets = clones.map((clone) => ({
+      owner: clone.owner,
+      repo: clone.repo,
+      branch: clone.branch,
+      path: clone.path,
+    }));
+    await runPreRemoveHooks(rootDir, targets, logger);
+    const total = targets.length;
+    logger.startSpinner(`Removing ${total} clone${total === 1 ? '' : 's'}...`);
+    const removed = await removeBranchClones(rootDir, targets, (count) => {
+      logger.updateSpinner(`Removed ${count}/${total} clones...`);
+    });
+    for (const cache of cacheItems) {
+      await removeCache(cache.path);
+      await removeEmptyCacheParents(rootDir, cache.path);
+    }
+    logger.stopSpinner(true, 'Removal complete');
+
+    // Clones only move to the trash, so just the deleted caches free space
+    const freed = cacheItems.reduce((sum, item) => sum + (item.sizeBytes ?? 0), 0);
+    const repositoryNames = [...new Set(clones.map((clone) => `${clone.owner}/${clone.repo}`))];
+    logger.success(`Successfully removed ${removed} clone${removed === 1 ? '' : 's'}`);
+    logger.box(
+      `Moved ${removed} clone${removed === 1 ? '' : 's'} to the trash\n\nRepositories: ${repositoryNames.join(', ')}` +
+        (cacheItems.length > 0
+          ? `\nCaches removed: ${cacheItems.map((cache) => cache.name).join(', ')} (${formatBytes(freed)} freed)`
+          : ''),
+      'success'
+    );
+    logger.info('Removed clones stay in the trash; run "gcpb trash list" to restore them');
+
+    return {
+      success: true,
+      removedCount: removed,
+      clones: cloneItems.map((item) => item.name),
+      removedCaches: cacheItems.map((item) => item.name),
+    };
+  } catch (error) {
+    logger.stopSpinner(false, 'Removal failed');
+
+    // EscapeCancelError should propagate to CLI for menu navigation
+    if (error instanceof EscapeCancelError) {
+      throw error;
+    }
+
+    // ExitPromptError should propagate to CLI for immediate exit
+    if (error instanceof Error && error.name === 'ExitPromptError') {
+      throw error;
+    }
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    logger.error(`Failed to remove: ${errorMessage}`);
+    return { success: false, error: errorMessage };
+  }
+}
+
 /**
  * Execute remove command interactively (prompts for missing information)
  * Used when user provides no args or partial args
@@ -131,15 +398,16 @@ export async function executeRemoveCommandInteractive(
   rootDir: string,
   pathArg?: string,
   force?: boolean,
-  logger?: Logger
+  logger?: Logger,
+  discardChanges?: boolean
 ): Promise<RemoveResult> {
   try {
-    // Parse partial path if provided
-    const parsed = parsePathArg(pathArg);
-
     // Scan repositories
     const repositories = await scanRepositories(rootDir);
 
+    // Parse partial path if provided
+    const parsed = parsePathArg(pathArg, getRepositoryKeys(repositories));
+
     if (repositories.length === 0) {
       throw new Error('No repositories found. Please clone a repository first using "gcpb add"');
     }
@@ -168,17 +436,41 @@ export async function executeRemoveCommandInteractive(
     // State 3: Select branches (skip if provided and valid)
     const branchesResult = await rmSelectBranches({
       branches: targetRepo.branches,
-      preselectedBranch: parsed.branch,
+      metadata: targetRepo.metadata,
+      preselectedBranch: parsed.branch ? resolveBranchName(targetRepo, parsed.branch) : undefined,
     });
     const selectedBranches = branchesResult.value.selectedBranches;
 
-    // State 4: Confirm removal (skip if force flag is set)
+    // State 4: Check for work that would be lost
+    const inspectResult = await rmInspectBranches({
+      rootDir,
+      org,
+      repo,
+      branches: selectedBranches,
+      branchDirs: targetRepo.branchDirs,
+    });
+    const unsavedWork = inspectResult.value.unsavedWork;
+
+    if (Object.keys(unsavedWork).length > 0) {
+      if (!discardChanges) {
+        throw new Error(formatUnsavedWorkError(unsavedWork, `${org}/${repo}/`));
+      }
+      if (logger) {
+        for (const branch of Object.keys(unsavedWork)) {
+          logger.warn(`Discarding unsaved work in ${org}/${repo}/${branch}`);
+        }
+      }
+    }
+
+    // State 5: Confirm removal (skip if force flag is set)
     const confirmResult = await rmConfirmRemoval({
       rootDir,
       org,
       repo,
       branches: selectedBranches,
+      branchDirs: targetRepo.branchDirs,
       force,
+      unsavedWork,
     });
 
     if (!confirmResult.value.confirmed) {
@@ -188,39 +480,37 @@ export async function executeRemoveCommandInteractive(
       return { success: false, error: 'Operation cancelled by user' };
     }
 
-    // Remove branches
+    // Run pre-remove hooks, then remove branches (also cleans up empty directories)
+    const total = selectedBranches.length;
+    const targets = selectedBranches.map((branch) => ({
+      owner: org,
+      repo,
+      branch,
+      path: getBranchClonePath(targetRepo, branch),
+    }));
+    await runPreRemoveHooks(rootDir, targets, logger);
     if (logger) {
-      const total = selectedBranches.length;
       logger.startSpinner(`Removing ${total} branch${total === 1 ? '' : 'es'}...`);
-      let removed = 0;
-      for (const branch of selectedBranches) {
-        const branchPath = path.join(rootDir, org, repo, branch);
-        await fs.remove(branchPath);
-        removed++;
+      const removed = await removeBranchClones(rootDir, targets, (count) => {
         if (total > 1) {
-          logger.updateSpinner(`Removed ${removed}/${total} branches...`);
+          logger.updateSpinner(`Removed ${count}/${total} branches...`);
         }
-      }
+      });
       logger.stopSpinner(
         true,
         `Successfully removed ${removed} branch${removed === 1 ? '' : 'es'}`
       );
     } else {
-      for (const branch of selectedBranches) {
-        const branchPath = path.join(rootDir, org, repo, branch);
-        await fs.remove(branchPath);
-      }
+      await removeBranchClones(rootDir, targets);
     }
 
-    // Cleanup empty directories
-    await cleanupEmptyDirectories(rootDir);
-
     if (logger) {
       logger.success('Successfully removed branches');
       logger.box(
         `Removed ${selectedBranches.length} branch${selectedBranches.length === 1 ? '' : 'es'}\n\nOrganization: ${org}\nRepository: ${repo}`,
         'success'
       );
+      logger.info('Removed clones stay in the trash; run "gcpb trash list" to restore them');
     }
 
     return {
@@ -0,0 +1,219 @@
+/**
+ * Orchestrator for the 'status' command
+ * Reports checked-out branch, local changes, stashes and ahead/behind for every branch clone
+ */
+
+import chalk from 'chalk';
+import { fetchClone, getCloneStatus, isDirty } from '../core/git-status.js';
+import { filterBranchClones, scanRepositories } from '../core/repository-scanner.js';
+import { type BranchClone, type CloneStatus, EscapeCancelError } from '../types/index.js';
+import type { Logger } from '../utils/logger.js';
+
+export interface StatusOptions {
+  dirty?: boolean; // only clones with uncommitted changes
+  ahead?: boolean; // only clones with unpushed commits
+  behind?: boolean; // only clones behind their upstream
+  fetch?: boolean; // fetch from origin before computing ahead/behind
+  json?: boolean;
+}
+
+export interface StatusEntry extends BranchClone {
+  status?: CloneStatus;
+  error?: string;
+}
+
+export interface StatusResult {
+  success: boolean;
+  entries?: StatusEntry[];
+  error?: string;
+}
+
+/**
+ * Check whether an entry passes all requested filters
+ * Entries whose status could not be read are only shown when no filter is active
+ */
+function matchesFilters(entry: StatusEntry, options: StatusOptions): boolean {
+  const hasFilter = options.dirty || options.ahead || options.behind;
+  if (!hasFilter) {
+    return true;
+  }
+  if (!entry.status) {
+    return false;
+  }
+  if (options.dirty && !isDirty(entry.status)) {
+    return false;
+  }
+  if (options.ahead && entry.status.ahead === 0) {
+    return false;
+  }
+  if (options.behind && entry.status.behind === 0) {
+    return false;
+  }
+  return true;
+}
+
+function describeChanges(status: CloneStatus): string {
+  if (!isDirty(status)) {
+    return 'clean';
+  }
+  const parts: string[] = [];
+  if (status.changedFiles > 0) {
+    parts.push(`${status.changedFiles} changed`);
+  }
+  if (status.untrackedFiles > 0) {
+    parts.push(`${status.untrackedFiles} untracked`);
+  }
+  return parts.join(', ');
+}
+
+function describeSync(status: CloneStatus): string {
+  if (!status.upstream) {
+    return 'no upstream';
+  }
+  if (status.ahead === 0 && status.behind === 0) {
+    return 'up to date';
+  }
+  const parts: string[] = [];
+  if (status.ahead > 0) {
+    parts.push(`↑${status.ahead}`);
+  }
+  if (status.behind > 0) {
+    parts.push(`↓${status.behind}`);
+  }
+  return parts.join(' ');
+}
+
+/**
+ * Render status entries as an aligned table
+ * Padding is computed on plain text before colors are applied
+ */
+export function formatStatusTable(entries: StatusEntry[]): string {
+  const headers = ['CLONE', 'HEAD', 'CHANGES', 'STASH', 'UPSTREAM'];
+
+  const rows = entries.map((entry) => {
+    const clone = `${entry.owner}/${entry.repo}/${entry.branch}`;
+    if (!entry.status) {
+      return [clone, '-', `error: ${entry.error ?? 'unknown'}`, '-', '-'];
+    }
+    return [
+      clone,
+      entry.status.branch ?? '(detached)',
+      describeChanges(entry.status),
+      String(entry.status.stashCount),
+      describeSync(entry.status),
+    ];
+  });
+
+  const widths = headers.map((header, i) =>
+    Math.max(header.length, ...rows.map((row) => row[i].length))
+  );
+  const pad = (cell: string, i: number) =>
+    i === headers.length - 1 ? cell : cell.padEnd(widths[i]);
+
+  const lines = [chalk.bold(headers.map(pad).join('  ').trimEnd())];
+
+  rows.forEach((row, rowIndex) => {
+    const status = entries[rowIndex].status;
+    const cells = row.map((cell, i) => {
+      const padded = pad(cell, i);
+      if (!status) {
+        return i === 2 ? chalk.red(padded) : padded;
+      }
+      if (i === 2) {
+        return isDirty(status) ? chalk.yellow(padded) : chalk.green(padded);
+      }
+      if (i === 3 && status.stashCount > 0) {
+        return chalk.yellow(padded);
+      }
+      if (i === 4 && (status.ahead > 0 || status.behind > 0)) {
+        return chalk.cyan(padded);
+      }
+      return padded;
+    });
+    lines.push(cells.join('  ').trimEnd());
+  });
+
+  return lines.join('\n');
+}
+
+/**
+ * Execute status command
+ * Used as: gcpb status [org[/repo[/branch]]] [--dirty] [--ahead] [--behind] [--fetch] [--json]
+ */
+export async function executeStatusCommand(
+  rootDir: string,
+  pathArg: string | undefined,
+  options: StatusOptions,
+  logger: Logger
+): Promise<StatusResult> {
+  try {
+    const repositories = await scanRepositories(rootDir);
+    const clones = filterBranchClones(repositories, pathArg);
+
+    const showProgress = !options.json && clones.length > 0;
+    if (showProgress) {
+      logger.startSpinner(`Checking ${clones.length} clone${clones.length === 1 ? '' : 's'}...`);
+    }
+
+    const entries: StatusEntry[] = [];
+    for (const [index, clone] of clones.entries()) {
+      if (showProgress) {
+        logger.updateSpinner(
+          `Checking ${clone.owner}/${clone.repo}/${clone.branch} (${index + 1}/${clones.length})...`
+        );
+      }
+
+      try {
+        if (options.fetch) {
+          await fetchClone(clone.path);
+        }
+        const status = await getCloneStatus(clone.path);
+        entries.push({ ...clone, status });
+      } catch (error) {
+        // Report per-clone failures instead of aborting the whole dashboard
+        entries.push({
+          ...clone,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+
+    if (showProgress) {
+      logger.stopSpinner(true, `Checked ${clones.length} clone${clones.length === 1 ? '' : 's'}`);
+    }
+
+    const filtered = entries.filter((entry) => matchesFilters(entry, options));
+
+    if (options.json) {
+      console.log(JSON.stringify(filtered, null, 2));
+      return { success: true, entries: filtered };
+    }
+
+    if (filtered.length === 0) {
+      logger.info(
+        clones.length === 0
+          ? 'No repositories found. Please clone a repository first using "gcpb add"'
+          : 'No clones match the given filters'
+      );
+      return { success: true, entries: filtered };
+    }
+
+    console.log(formatStatusTable(filtered));
+
+    return { success: true, entries: filtered };
+  } catch (error) {
+    // EscapeCancelError should propagate to CLI for menu navigation
+    if (error instanceof EscapeCancelError) {
+      throw error;
+    }
+
+    // ExitPromptError should propagate to CLI for immediate exit
+    if (error instanceof Error && error.name === 'ExitPromptError') {
+      throw error;
+    }
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    logger.error(`Failed to get status: ${errorMessage}`);
+    return { success: false, error: errorMessage };
+  }
+}
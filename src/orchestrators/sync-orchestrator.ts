@@ -0,0 +1,229 @@
+/**
+ * Orchestrator for the 'sync' command
+ * Refreshes mirror caches, then fetches (and optionally fast-forwards) every matching branch clone
+ */
+
+import chalk from 'chalk';
+import { getCacheInfo, updateCache } from '../core/cache-manager.js';
+import {
+  fetchClone,
+  getCloneStatus,
+  getUpstreamBranch,
+  isDirty,
+  pullFastForward,
+} from '../core/git-status.js';
+import { filterBranchClones, scanRepositories } from '../core/repository-scanner.js';
+import { type BranchClone, EscapeCancelError } from '../types/index.js';
+import { mapWithConcurrency } from '../utils/concurrency.js';
+import type { Logger } from '../utils/logger.js';
+
+export const DEFAULT_SYNC_CONCURRENCY = 4;
+
+export interface SyncOptions {
+  ffOnly?: boolean; // fast-forward the checked-out branch after fetching
+  concurrency?: number; // maximum number of clones synced at once
+}
+
+export type SyncOutcome = 'updated' | 'fetched' | 'skipped' | 'failed';
+
+export interface SyncEntry extends BranchClone {
+  outcome: SyncOutcome;
+  message: string;
+}
+
+export interface SyncResult {
+  success: boolean;
+  entries?: SyncEntry[];
+  error?: string;
+}
+
+function plural(count: number, word: string): string {
+  return `${count} ${word}${count === 1 ? '' : 's'}`;
+}
+
+/**
+ * Sync a single clone, never throwing so one bad clone cannot abort the run
+ * Dirty working trees are skipped before touching the network
+ */
+async function syncClone(clone: BranchClone, options: SyncOptions): Promise<SyncEntry> {
+  try {
+    const before = await getCloneStatus(clone.path);
+    if (isDirty(before)) {
+      return { ...clone, outcome: 'skipped', message: 'dirty working tree' };
+    }
+
+    await fetchClone(clone.path);
+    const status = await getCloneStatus(clone.path);
+
+    if (!status.upstream) {
+      return { ...clone, outcome: 'fetched', message: 'no upstream' };
+    }
+    // git status reports a pruned upstream as neither ahead nor behind
+    const upstream = await getUpstreamBranch(clone.path);
+    if (upstream?.gone) {
+      return { ...clone, outcome: 'fetched', message: `${upstream.name} was deleted` };
+    }
+    if (status.behind === 0) {
+      return { ...clone, outcome: 'fetched', message: 'up to date' };
+    }
+    if (!options.ffOnly) {
+      return { ...clone, outcome: 'fetched', message: `${plural(status.behind, 'commit')} behind` };
+    }
+    if (status.ahead > 0) {
+      return {
+        ...clone,
+        outcome: 'skipped',
+        message: `diverged from ${status.upstream} (↑${status.ahead} ↓${status.behind})`,
+      };
+    }
+
+    await pullFastForward(clone.path);
+    return {
+      ...clone,
+      outcome: 'updated',
+      message: `fast-forwarded ${plural(status.behind, 'commit')}`,
+    };
+  } catch (error) {
+    return {
+      ...clone,
+      outcome: 'failed',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+/**
+ * Render sync entries one per line with an outcome marker
+ */
+export function formatSyncReport(entries: SyncEntry[]): string {
+  const markers: Record<SyncOutcome, string> = {
+    updated: chalk.green('✔'),
+    fetched: chalk.gray('•'),
+    skipped: chalk.yellow('⚠'),
+    failed: chalk.red('✖'),
+  };
+
+  const width = Math.max(...entries.map((e) => `${e.owner}/${e.repo}/${e.branch}`.length));
+
+  return entries
+    .map((e) => {
+      const clone = `${e.owner}/${e.repo}/${e.branch}`.padEnd(width);
+      const message = e.outcome === 'failed' ? chalk.red(e.message) : chalk.gray(e.message);
+      return `${markers[e.outcome]} ${clone}  ${message}`;
+    })
+    .join('\n');
+}
+
+/**
+ * Execute sync command
+ * Used as: gcpb sync [org[/repo[/branch]]] [--ff-only] [--concurrency <n>]
+ */
+export async function executeSyncCommand(
+  rootDir: string,
+  pathArg: string | undefined,
+  options: SyncOptions,
+  logger: Logger
+): Promise<SyncResult> {
+  try {
+    const repositories = await scanRepositories(rootDir);
+    const clones = filterBranchClones(repositories, pathArg);
+
+    if (clones.length === 0) {
+      logger.info('No repositories found. Please clone a repository first using "gcpb add"');
+      return { success: true, entries: [] };
+    }
+
+    // Refresh each repository's mirror cache once, so later adds start from fresh refs
+    const warnings: string[] = [];
+    // Owners can span several segments (github.com/acme with the host layout), so keep the
+    // first clone of each repository rather than splitting its key
+    const repoClones = new Map<string, BranchClone>();
+    for (const clone of clones) {
+      const key = `${clone.owner}/${clone.repo}`;
+      if (!repoClones.has(key)) {
+        repoClones.set(key, clone);
+      }
+    }
+
+    logger.startSpinner('Updating caches...');
+    for (const [key, { owner, repo }] of repoClones) {
+      logger.updateSpinner(`Updating cache for ${key}...`);
+
+      const cacheInfo = await getCacheInfo(owner, repo, rootDir);
+      if (!cacheInfo.isValid) {
+        // No usable cache - clones fetch from origin directly
+        continue;
+      }
+      try {
+        await updateCache(cacheInfo.cachePath);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        warnings.push(`Failed to update cache for ${key}: ${message}`);
+      }
+    }
+
+    let done = 0;
+    logger.updateSpinner(`Syncing ${plural(clones.length, 'clone')}...`);
+    const entries = await mapWithConcurrency(
+      clones,
+      options.concurrency ?? DEFAULT_SYNC_CONCURRENCY,
+      async (clone) => {
+        const entry = await syncClone(clone, options);
+        done++;
+        logger.updateSpinner(`Synced ${done}/${clones.length} clones...`);
+        return entry;
+      }
+    );
+
+    const failed = entries.filter((e) => e.outcome === 'failed');
+    logger.stopSpinner(
+      failed.length === 0,
+      `Synced ${plural(clones.length - failed.length, 'clone')}`
+    );
+
+    for (const warning of warnings) {
+      logger.warn(warning);
+    }
+
+    console.log('');
+    console.log(formatSyncReport(entries));
+    console.log('');
+
+    const updated = entries.filter((e) => e.outcome === 'updated').length;
+    const skipped = entries.filter((e) => e.outcome === 'skipped').length;
+    const summary = [
+      `${updated} updated`,
+      `${entries.length - updated - skipped - failed.length} fetched`,
+      `${skipped} skipped`,
+      `${failed.length} failed`,
+    ].join(', ');
+
+    if (failed.length > 0) {
+      logger.warn(summary);
+      return {
+        success: false,
+        entries,
+        error: `${plural(failed.length, 'clone')} failed to sync`,
+      };
+    }
+
+    logger.success(summary);
+    return { success: true, entries };
+  } catch (error) {
+    logger.stopSpinner(false, 'Sync failed');
+
+    // EscapeCancelError should propagate to CLI for menu navigation
+    if (error instanceof EscapeCancelError) {
+      throw error;
+    }
+
+    // ExitPromptError should propagate to CLI for immediate exit
+    if (error instanceof Error && error.name === 'ExitPromptError') {
+      throw error;
+    }
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    logger.error(`Failed to sync: ${errorMessage}`);
+    return { success: false, error: errorMessage };
+  }
+}
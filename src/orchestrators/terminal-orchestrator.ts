@@ -3,11 +3,16 @@
  * Handles both direct execution (all args provided) and interactive mode
  */
 
-import path from 'path';
 import { openInTerminal } from '../core/terminal-launcher.js';
-import { scanRepositories } from '../core/repository-scanner.js';
+import { markCloneOpened } from '../core/metadata-store.js';
+import {
+  getBranchClonePath,
+  getRepositoryKeys,
+  resolveBranchName,
+  scanRepositories,
+} from '../core/repository-scanner.js';
 import { openSelectBranch, openSelectOrg, openSelectRepo } from '../state/open-states.js';
-import { EscapeCancelError, type TerminalResult } from '../types/index.js';
+import { EscapeCancelError, type TerminalResult, type RepositoryInfo } from '../types/index.js';
 import { parsePathArg } from '../utils/arg-parser.js';
 import type { Logger } from '../utils/logger.js';
 
@@ -21,7 +26,14 @@ export async function executeTerminalCommand(
   logger: Logger
 ): Promise<TerminalResult> {
   try {
-    const parsed = parsePathArg(pathArg);
+    // Anything shorter than org/repo/branch is rejected before scanning
+    let parsed = parsePathArg(pathArg);
+    let repositories: RepositoryInfo[] = [];
+    if (parsed.isComplete) {
+      repositories = await scanRepositories(rootDir);
+      // Owners spanning several segments (github.com/acme) are only known after scanning
+      parsed = parsePathArg(pathArg, getRepositoryKeys(repositories));
+    }
 
     if (!parsed.isComplete) {
       const got = [parsed.org, parsed.repo, parsed.branch].filter(Boolean).join('/') || '(empty)';
@@ -35,10 +47,6 @@ export async function executeTerminalCommand(
     // At this point, isComplete guarantees org, repo, and branch are all defined
     const org = parsed.org as string;
     const repo = parsed.repo as string;
-    const branch = parsed.branch as string;
-
-    // Scan repositories to verify the branch exists
-    const repositories = await scanRepositories(rootDir);
 
     // Find the specified repository
     const targetRepo = repositories.find((r) => r.owner === org && r.repo === repo);
@@ -47,21 +55,27 @@ export async function executeTerminalCommand(
       throw new Error(`Repository ${org}/${repo} not found`);
     }
 
-    // Verify the branch exists
-    if (!targetRepo.branches.includes(branch)) {
+    // Verify the branch exists, accepting its directory name as well
+    const branch = resolveBranchName(targetRepo, parsed.branch as string);
+    if (!branch) {
       throw new Error(
-        `Branch '${branch}' not found in ${org}/${repo}. Available branches: ${targetRepo.branches.join(', ')}`
+        `Branch '${parsed.branch}' not found in ${org}/${repo}. Available branches: ${targetRepo.branches.join(', ')}`
       );
     }
 
     // Construct target path
-    const targetPath = path.join(rootDir, org, repo, branch);
+    const targetPath = getBranchClonePath(targetRepo, branch);
 
     // Open in terminal
     logger.info(`Opening ${org}/${repo}/${branch} in terminal...`);
     const opened = await openInTerminal({ targetPath });
 
     if (opened) {
+      try {
+        await markCloneOpened(rootDir, targetPath, branch);
+      } catch {
+        // Recording the visit is best effort and must not fail the command
+      }
       logger.success('Successfully opened in terminal');
       return { success: true, targetPath, terminalOpened: true };
     } else {
@@ -100,12 +114,12 @@ export async function executeTerminalCommandInteractive(
   logger?: Logger
 ): Promise<TerminalResult> {
   try {
-    // Parse partial path if provided
-    const parsed = parsePathArg(pathArg);
-
     // Scan repositories
     const repositories = await scanRepositories(rootDir);
 
+    // Parse partial path if provided
+    const parsed = parsePathArg(pathArg, getRepositoryKeys(repositories));
+
     if (repositories.length === 0) {
       throw new Error('No repositories found. Please clone a repository first using "gcpb add"');
     }
@@ -134,12 +148,12 @@ export async function executeTerminalCommandInteractive(
     // State 3: Select branch (skip if provided and valid)
     const branchResult = await openSelectBranch({
       branches: targetRepo.branches,
-      preselectedBranch: parsed.branch,
+      preselectedBranch: parsed.branch ? resolveBranchName(targetRepo, parsed.branch) : undefined,
     });
     const branch = branchResult.value.branch;
 
     // Construct target path
-    const targetPath = path.join(rootDir, org, repo, branch);
+    const targetPath = getBranchClonePath(targetRepo, branch);
 
     // Open in terminal
     if (logger) {
@@ -148,6 +162,11 @@ export async function executeTerminalCommandInteractive(
     const opened = await openInTerminal({ targetPath });
 
     if (opened) {
+      try {
+        await markCloneOpened(rootDir, targetPath, branch);
+      } catch {
+        // Recording the visit is best effort and must not fail the command
+      }
       if (logger) {
         logger.success('Successfully opened in terminal');
       }
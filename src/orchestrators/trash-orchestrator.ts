@@ -0,0 +1,227 @@
+/**
+ * Orchestrator for the 'trash' and 'restore' commands
+ * rm and prune move clones to .gcpb/.trash; these commands list, restore and empty it
+ */
+
+import chalk from 'chalk';
+import { getDirectorySize } from '../core/branch-remover.js';
+import {
+  deleteTrashEntries,
+  getTrashEntryPath,
+  getTrashRetentionDays,
+  listTrash,
+  restoreTrashEntry,
+} from '../core/trash.js';
+import { trashConfirmEmpty } from '../state/trash-states.js';
+import { EscapeCancelError, GCPBError, type TrashEntry } from '../types/index.js';
+import { formatBytes } from '../utils/format.js';
+import type { Logger } from '../utils/logger.js';
+
+export interface TrashListEntry extends TrashEntry {
+  sizeBytes: number;
+  expiresAt: string; // ISO timestamp of the automatic purge
+}
+
+export interface TrashListOptions {
+  json?: boolean;
+}
+
+export interface TrashEmptyOptions {
+  yes?: boolean; // skip the confirmation prompt
+}
+
+export interface TrashListResult {
+  success: boolean;
+  entries?: TrashListEntry[];
+  error?: string;
+}
+
+export interface TrashActionResult {
+  success: boolean;
+  entries?: TrashEntry[]; // restored or deleted entries
+  error?: string;
+}
+
+function plural(count: number, word: string): string {
+  return `${count} ${word}${count === 1 ? '' : 's'}`;
+}
+
+/**
+ * Add sizes and purge dates to trash entries
+ */
+async function loadTrashEntries(rootDir: string): Promise<TrashListEntry[]> {
+  const retentionMs = (await getTrashRetentionDays(rootDir)) * 24 * 60 * 60 * 1000;
+  const entries: TrashListEntry[] = [];
+
+  for (const entry of await listTrash(rootDir)) {
+    const removedAt = new Date(entry.removedAt).getTime();
+    entries.push({
+      ...entry,
+      sizeBytes: await getDirectorySize(getTrashEntryPath(rootDir, entry.id)),
+      expiresAt: Number.isNaN(removedAt) ? '' : new Date(removedAt + retentionMs).toISOString(),
+    });
+  }
+  return entries;
+}
+
+/**
+ * Render trash entries as an aligned ID / REMOVED / EXPIRES / SIZE / CLONES table
+ */
+export function formatTrashTable(entries: TrashListEntry[]): string {
+  const formatTime = (iso: string) => (iso ? iso.slice(0, 16).replace('T', ' ') : '-');
+  const headers = ['ID', 'REMOVED', 'EXPIRES', 'SIZE', 'CLONES'];
+  const rows = entries.map((e) => [
+    e.id,
+    formatTime(e.removedAt),
+    formatTime(e.expiresAt),
+    formatBytes(e.sizeBytes),
+    e.clones.map((c) => `${c.owner}/${c.repo}/${c.branch}`).join(', '),
+  ]);
+
+  const widths = headers.map((header, i) =>
+    Math.max(header.length, ...rows.map((row) => row[i].length))
+  );
+
+  // CLONES can be long, so it stays last and unpadded
+  const formatRow = (row: string[]) =>
+    row
+      .map((cell, i) => (i === row.length - 1 ? cell : cell.padEnd(widths[i])))
+      .join('  ')
+      .trimEnd();
+
+  return [chalk.bold(formatRow(headers)), ...rows.map(formatRow)].join('\n');
+}
+
+/**
+ * Report a failed trash command
+ * Prompt cancellations propagate to the CLI
+ */
+function handleTrashError(
+  error: unknown,
+  action: string,
+  logger: Logger
+): { success: false; error: string } {
+  logger.stopSpinner(false, `Failed to ${action}`);
+
+  // EscapeCancelError should propagate to CLI for menu navigation
+  if (error instanceof EscapeCancelError) {
+    throw error;
+  }
+
+  // ExitPromptError should propagate to CLI for immediate exit
+  if (error instanceof Error && error.name === 'ExitPromptError') {
+    throw error;
+  }
+
+  const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+  logger.error(`Failed to ${action}: ${errorMessage}`);
+  if (error instanceof GCPBError && error.suggestion) {
+    logger.info(`Suggestion: ${error.suggestion}`);
+  }
+  return { success: false, error: errorMessage };
+}
+
+/**
+ * Execute trash list command
+ * Used as: gcpb trash list [--json]
+ */
+export async function executeTrashListCommand(
+  rootDir: string,
+  options: TrashListOptions,
+  logger: Logger
+): Promise<TrashListResult> {
+  try {
+    const entries = await loadTrashEntries(rootDir);
+
+    if (options.json) {
+      // Always emit valid JSON so tooling can consume the output, even when empty
+      console.log(JSON.stringify(entries, null, 2));
+      return { success: true, entries };
+    }
+
+    if (entries.length === 0) {
+      logger.info('The trash is empty');
+      return { success: true, entries };
+    }
+
+    const total = entries.reduce((sum, e) => sum + e.sizeBytes, 0);
+    console.log(formatTrashTable(entries));
+    console.log('');
+    console.log(chalk.gray(`${plural(entries.length, 'removal')}, ${formatBytes(total)} in total`));
+    console.log(chalk.gray('Run "gcpb restore <id>" to bring the clones of a removal back'));
+
+    return { success: true, entries };
+  } catch (error) {
+    return handleTrashError(error, 'list the trash', logger);
+  }
+}
+
+/**
+ * Execute restore command
+ * Moves the clones of a removal back to their original paths, refusing when any is taken again
+ * Used as: gcpb restore <id>
+ */
+export async function executeRestoreCommand(
+  rootDir: string,
+  id: string,
+  logger: Logger
+): Promise<TrashActionResult> {
+  try {
+    logger.startSpinner(`Restoring ${id}...`);
+    const entry = await restoreTrashEntry(rootDir, id);
+    logger.stopSpinner(true, 'Restore complete');
+
+    logger.box(
+      `Restored ${plural(entry.clones.length, 'clone')}\n\n` +
+        entry.clones.map((c) => `${c.owner}/${c.repo}/${c.branch}`).join('\n'),
+      'success'
+    );
+
+    return { success: true, entries: [entry] };
+  } catch (error) {
+    return handleTrashError(error, 'restore', logger);
+  }
+}
+
+/**
+ * Execute trash empty command
+ * Permanently deletes every removal in the trash
+ * Used as: gcpb trash empty [--yes]
+ */
+export async function executeTrashEmptyCommand(
+  rootDir: string,
+  options: TrashEmptyOptions,
+  logger: Logger
+): Promise<TrashActionResult> {
+  try {
+    const entries = await loadTrashEntries(rootDir);
+    if (entries.length === 0) {
+      logger.info('The trash is empty');
+      return { success: true, entries: [] };
+    }
+
+    const total = entries.reduce((sum, e) => sum + e.sizeBytes, 0);
+
+    // State 1: Confirm deletion (skip prompt with --yes)
+    const confirmResult = await trashConfirmEmpty({
+      entries: entries.length,
+      sizeBytes: total,
+      skipConfirmation: options.yes,
+    });
+    if (!confirmResult.value.confirmed) {
+      logger.info('Operation cancelled');
+      return { success: true, entries: [] };
+    }
+
+    logger.startSpinner('Emptying the trash...');
+    await deleteTrashEntries(rootDir, entries);
+    logger.stopSpinner(
+      true,
+      `Permanently deleted ${plural(entries.length, 'removal')} (${formatBytes(total)})`
+    );
+
+    return { success: true, entries };
+  } catch (error) {
+    return handleTrashError(error, 'empty the trash', logger);
+  }
+}
@@ -3,16 +3,16 @@ import inquirer from 'inquirer';
 /**
  * Prompts user for editor opening decision and whether to remember the choice
  */
-export async function promptForEditorOpening(): Promise<{
+export async function promptForEditorOpening(editorName = 'VSCode'): Promise<{
   openInEditor: boolean;
   rememberChoice: boolean;
 }> {
-  // First prompt: Ask if user wants to open in VSCode
+  // First prompt: Ask if user wants to open in the configured editor
   const { openInEditor } = await inquirer.prompt<{ openInEditor: boolean }>([
     {
       type: 'confirm',
       name: 'openInEditor',
-      message: 'Open in VSCode?',
+      message: `Open in ${editorName}?`,
       default: true,
     },
   ]);
@@ -32,3 +32,34 @@ export async function promptForEditorOpening(): Promise<{
     rememberChoice,
   };
 }
+
+/**
+ * Prompts user whether to open a clone inside its dev container and whether to remember the choice
+ */
+export async function promptForDevContainerOpening(repoKey: string): Promise<{
+  openInContainer: boolean;
+  rememberChoice: boolean;
+}> {
+  const { openInContainer } = await inquirer.prompt<{ openInContainer: boolean }>([
+    {
+      type: 'confirm',
+      name: 'openInContainer',
+      message: 'Dev container found. Open in container?',
+      default: true,
+    },
+  ]);
+
+  const { rememberChoice } = await inquirer.prompt<{ rememberChoice: boolean }>([
+    {
+      type: 'confirm',
+      name: 'rememberChoice',
+      message: `Remember this choice for ${repoKey}?`,
+      default: false,
+    },
+  ]);
+
+  return {
+    openInContainer,
+    rememberChoice,
+  };
+}
@@ -4,7 +4,7 @@
  */
 
 import { getCachePath } from '../core/cache-manager.js';
-import { getCacheUrl } from '../core/cache-scanner.js';
+import { type CachedBranch, getCacheUrl, getCachedBranches } from '../core/cache-scanner.js';
 import { detectDefaultBranch } from '../core/default-branch-detector.js';
 import { resolveRemoteUrl } from '../core/remote-resolver.js';
 import { parseGitUrl } from '../core/url-parser.js';
@@ -15,6 +15,7 @@ import {
   selectWithEsc,
   withProcessing,
 } from '../utils/inquirer-helpers.js';
+import { fuzzyFilter } from '../utils/fuzzy.js';
 import { validateBranchName, validateGitUrl } from '../utils/validators.js';
 import chalk from 'chalk';
 import type {
@@ -28,12 +29,18 @@ import type {
   AddEnterUrlOutput,
   AddResolveCacheUrlInput,
   AddResolveCacheUrlOutput,
+  AddResolveExistingBranchInput,
+  AddResolveExistingBranchOutput,
+  AddResolveExistingCloneInput,
+  AddResolveExistingCloneOutput,
   AddResolveUrlInput,
   AddResolveUrlOutput,
   AddSelectCacheOwnerInput,
   AddSelectCacheOwnerOutput,
   AddSelectCacheRepoInput,
   AddSelectCacheRepoOutput,
+  AddSelectCarryOverSourceInput,
+  AddSelectCarryOverSourceOutput,
   AddSelectModeInput,
   AddSelectModeOutput,
   AddSelectOwnerInput,
@@ -226,6 +233,46 @@ export async function addEnterUrl(
   };
 }
 
+interface BranchChoice {
+  name: string;
+  value: string;
+  description: string;
+  disabled?: boolean | string;
+}
+
+/**
+ * Search choices for the remote branch: cached branches matching the term, then the term itself
+ * when it names no cached branch (the cache is updated before cloning, so newer branches are
+ * still found)
+ */
+function getBaseBranchChoices(
+  branches: CachedBranch[],
+  defaultBranch: string,
+  term: string
+): BranchChoice[] {
+  const query = term.trim().replace(/^origin\//, '');
+
+  const choices: BranchChoice[] = fuzzyFilter(branches, query, (branch) => branch.name).map(
+    (branch) => ({
+      name: branch.name === defaultBranch ? `${branch.name} (default)` : branch.name,
+      value: branch.name,
+      description: `${branch.subject} (${branch.author}, ${branch.date})`,
+    })
+  );
+
+  if (query && !branches.some((branch) => branch.name === query)) {
+    const validation = validateBranchName(query);
+    choices.push({
+      name: `Use "${query}"`,
+      value: query,
+      description: 'Not in the cache yet',
+      disabled: validation.valid ? false : validation.error || 'Invalid branch name',
+    });
+  }
+
+  return choices;
+}
+
 /**
  * State 7: Configure base and target branch names
  */
@@ -239,15 +286,27 @@ export async function addConfigureBranches(
     detectDefaultBranch(url, rootDir, owner, repo)
   );
 
-  const baseBranch = await inputWithEsc({
-    message: 'Enter the remote branch name:',
-    default: defaultBranch,
-    validate: (branchInput: string) => {
-      const branchName = branchInput.replace(/^origin\//, '');
-      const validation = validateBranchName(branchName);
-      return validation.valid || validation.error || 'Invalid branch name';
-    },
-  });
+  // Offer the branches of the mirror cache when the repository was cloned before
+  const cachedBranches = await withProcessing('Reading remote branches...', () =>
+    getCachedBranches(getCachePath(rootDir, owner, repo), defaultBranch)
+  );
+
+  const baseBranch =
+    cachedBranches.length > 0
+      ? await searchWithEsc<string>({
+          message: 'Select the remote branch:',
+          source: async (term: string | undefined) =>
+            Promise.resolve(getBaseBranchChoices(cachedBranches, defaultBranch, term || '')),
+        })
+      : await inputWithEsc({
+          message: 'Enter the remote branch name:',
+          default: defaultBranch,
+          validate: (branchInput: string) => {
+            const branchName = branchInput.replace(/^origin\//, '');
+            const validation = validateBranchName(branchName);
+            return validation.valid || validation.error || 'Invalid branch name';
+          },
+        });
 
   console.log(chalk.green('✓') + ' Remote branch: ' + chalk.cyan(baseBranch));
 
@@ -300,6 +359,145 @@ export async function addConfirmClone(
   };
 }
 
+/**
+ * State: Select the sibling clone to copy carry-over files from
+ * Skipped when there is only one sibling; the most recently used one is the default
+ */
+export async function addSelectCarryOverSource(
+  input: AddSelectCarryOverSourceInput
+): Promise<StateResult<AddSelectCarryOverSourceOutput>> {
+  const { siblings } = input;
+
+  if (siblings.length <= 1) {
+    return {
+      value: { source: siblings[0] ?? null },
+    };
+  }
+
+  const source = await selectWithEsc<string | null>({
+    message: 'Copy local files (e.g. .env) from which branch?',
+    choices: [
+      ...siblings.map((branch, index) => ({
+        name: index === 0 ? `${branch} (most recent)` : branch,
+        value: branch,
+      })),
+      { name: "Don't copy files", value: null },
+    ],
+    default: siblings[0],
+  });
+
+  return {
+    value: { source },
+  };
+}
+
+/**
+ * State: The local branch already exists on the remote
+ * Offer to track the existing remote branch instead, or to pick another local branch name
+ */
+export async function addResolveExistingBranch(
+  input: AddResolveExistingBranchInput
+): Promise<StateResult<AddResolveExistingBranchOutput>> {
+  const { branch } = input;
+
+  console.log(chalk.yellow('⚠') + ' Remote branch ' + chalk.cyan(branch) + ' already exists');
+
+  const action = await selectWithEsc<AddResolveExistingBranchOutput['action']>({
+    message: 'What would you like to do?',
+    choices: [
+      { name: `Check out the existing remote branch ${branch}`, value: 'track' },
+      { name: 'Use a different local branch name', value: 'rename' },
+      { name: 'Cancel', value: 'cancel' },
+    ],
+  });
+
+  if (action !== 'rename') {
+    return {
+      value: { action, branch },
+    };
+  }
+
+  const newBranch = await inputWithEsc({
+    message: 'Enter the local branch name:',
+    validate: (branchInput: string) => {
+      if (branchInput === branch) {
+        return `Branch "${branch}" already exists on the remote`;
+      }
+      const validation = validateBranchName(branchInput);
+      return validation.valid || validation.error || 'Invalid branch name';
+    },
+  });
+
+  console.log(chalk.green('✓') + ' Local branch: ' + chalk.cyan(newBranch));
+
+  return {
+    value: { action, branch: newBranch },
+  };
+}
+
+/**
+ * State: The target directory already exists
+ * A clone of the same branch can be updated or opened; anything else can be replaced (after
+ * confirming any work it holds would be lost) or left alone by cloning into another directory
+ */
+export async function addResolveExistingClone(
+  input: AddResolveExistingCloneInput
+): Promise<StateResult<AddResolveExistingCloneOutput>> {
+  const { existing, alternativePath } = input;
+
+  console.log(
+    chalk.yellow('⚠') +
+      ' ' +
+      chalk.cyan(existing.path) +
+      (existing.matches ? ' already holds this branch' : ` already exists and ${existing.reason}`)
+  );
+  if (existing.unsavedWork.length > 0) {
+    console.log(chalk.yellow(`  ⚠ ${existing.unsavedWork.join(', ')}`));
+  }
+
+  // Like rm without --discard-changes, unsaved work is never replaced
+  const choices: {
+    name: string;
+    value: AddResolveExistingCloneOutput['action'];
+    disabled?: string;
+  }[] = existing.matches
+    ? [
+        { name: 'Fetch and fast-forward it', value: 'update' },
+        { name: 'Open it in the editor', value: 'open' },
+      ]
+    : [
+        existing.unsavedWork.length > 0
+          ? {
+              name: 'Replace it with a new clone',
+              value: 'replace',
+              disabled: `unsaved work: ${existing.unsavedWork.join(', ')}`,
+            }
+          : { name: 'Replace it with a new clone', value: 'replace' },
+        { name: `Clone into ${alternativePath} instead`, value: 'alternative' },
+      ];
+
+  const action = await selectWithEsc<AddResolveExistingCloneOutput['action']>({
+    message: 'What would you like to do?',
+    choices: [...choices, { name: 'Cancel', value: 'cancel' }],
+  });
+
+  if (action === 'replace') {
+    const confirm = await confirmWithEsc({
+      message: `Move ${existing.path} to the trash?`,
+      default: false,
+    });
+    if (!confirm) {
+      return {
+        value: { action: 'cancel' },
+      };
+    }
+  }
+
+  return {
+    value: { action },
+  };
+}
+
 /**
  * State: Select organization from cache
  */
@@ -0,0 +1,32 @@
+/**
+ * State functions for the 'cache' command
+ * Each state is an independent function with explicit parameters
+ */
+
+import { confirmWithEsc } from '../utils/inquirer-helpers.js';
+import type { CacheConfirmRemovalInput, CacheConfirmRemovalOutput, StateResult } from './types.js';
+
+/**
+ * State 1: Confirm removal of the listed caches
+ * Skip confirmation if skipConfirmation is true
+ */
+export async function cacheConfirmRemoval(
+  input: CacheConfirmRemovalInput
+): Promise<StateResult<CacheConfirmRemovalOutput>> {
+  const { caches, skipConfirmation } = input;
+
+  if (skipConfirmation) {
+    return {
+      value: { confirmed: true },
+    };
+  }
+
+  const confirmed = await confirmWithEsc({
+    message: `Remove ${caches.length} cache${caches.length === 1 ? '' : 's'}? They are recreated by the next "gcpb add"`,
+    default: false,
+  });
+
+  return {
+    value: { confirmed },
+  };
+}
@@ -0,0 +1,56 @@
+/**
+ * State functions for the 'prune' command
+ * Each state is an independent function with explicit parameters
+ */
+
+import { checkboxWithEsc } from '../utils/inquirer-helpers.js';
+import type {
+  PruneCandidate,
+  PruneSelectBranchesInput,
+  PruneSelectBranchesOutput,
+  StateResult,
+} from './types.js';
+
+/**
+ * Check whether a candidate may be removed
+ * Candidates with unsaved work are only removable with discardChanges
+ */
+function isRemovable(candidate: PruneCandidate, discardChanges?: boolean): boolean {
+  return candidate.unsavedWork.length === 0 || !!discardChanges;
+}
+
+/**
+ * State 1: Select stale branches to remove (multi-select)
+ * All removable candidates are preselected; skipSelection accepts them without prompting
+ */
+export async function pruneSelectBranches(
+  input: PruneSelectBranchesInput
+): Promise<StateResult<PruneSelectBranchesOutput>> {
+  const { candidates, discardChanges, skipSelection } = input;
+
+  const removable = candidates.filter((c) => isRemovable(c, discardChanges));
+
+  if (skipSelection || removable.length === 0) {
+    return {
+      value: { selected: removable },
+    };
+  }
+
+  const selected = await checkboxWithEsc<PruneCandidate>({
+    message: 'Select stale branches to remove:',
+    choices: candidates.map((c) => {
+      const reason = c.reason === 'deleted' ? 'deleted upstream' : 'merged into default branch';
+      const removableChoice = isRemovable(c, discardChanges);
+      return {
+        name: `${c.owner}/${c.repo}/${c.branch} (${reason})`,
+        value: c,
+        checked: removableChoice,
+        disabled: removableChoice ? false : `unsaved work: ${c.unsavedWork.join(', ')}`,
+      };
+    }),
+  });
+
+  return {
+    value: { selected },
+  };
+}
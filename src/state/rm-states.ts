@@ -4,10 +4,19 @@
  */
 
 import path from 'path';
+import chalk from 'chalk';
+import { describeUnsavedWork, getUnsavedWork } from '../core/git-status.js';
+import type { CloneMetadata } from '../types/index.js';
+import { formatBytes } from '../utils/format.js';
 import { selectWithEsc, checkboxWithEsc, confirmWithEsc } from '../utils/inquirer-helpers.js';
 import type {
+  RmBulkRemovalItem,
+  RmConfirmBulkRemovalInput,
+  RmConfirmBulkRemovalOutput,
   RmConfirmRemovalInput,
   RmConfirmRemovalOutput,
+  RmInspectBranchesInput,
+  RmInspectBranchesOutput,
   RmSelectBranchesInput,
   RmSelectBranchesOutput,
   RmSelectOrgInput,
@@ -91,6 +100,20 @@ export async function rmSelectRepo(
   };
 }
 
+/**
+ * Label a branch with where and when it was cut, e.g. "feat/login (from main, created 2024-05-01)"
+ */
+function describeBranch(branch: string, metadata?: CloneMetadata): string {
+  const details: string[] = [];
+  if (metadata?.baseBranch && metadata.baseBranch !== branch) {
+    details.push(`from ${metadata.baseBranch}`);
+  }
+  if (metadata?.createdAt) {
+    details.push(`created ${metadata.createdAt.slice(0, 10)}`);
+  }
+  return details.length > 0 ? `${branch} ${chalk.gray(`(${details.join(', ')})`)}` : branch;
+}
+
 /**
  * State 3: Select branches to remove (multi-select)
  * Validates that at least one branch is selected
@@ -98,7 +121,7 @@ export async function rmSelectRepo(
 export async function rmSelectBranches(
   input: RmSelectBranchesInput
 ): Promise<StateResult<RmSelectBranchesOutput>> {
-  const { branches, preselectedBranch } = input;
+  const { branches, preselectedBranch, metadata } = input;
 
   // If preselected branch is provided and valid, use it (single selection)
   if (preselectedBranch && branches.includes(preselectedBranch)) {
@@ -113,7 +136,7 @@ export async function rmSelectBranches(
 
   const selectedBranches = await checkboxWithEsc<string>({
     message: 'Select branches to remove:',
-    choices: branches.map((b) => ({ name: b, value: b })),
+    choices: branches.map((b) => ({ name: describeBranch(b, metadata?.[b]), value: b })),
     validate: (choices) => {
       if (choices.length === 0) {
         return 'Please select at least one branch';
@@ -128,13 +151,49 @@ export async function rmSelectBranches(
 }
 
 /**
- * State 4: Confirm removal
+ * State 4: Inspect branches for uncommitted, untracked, unpushed or stashed work
+ * Branches that cannot be inspected are reported as well, since their state is unknown
+ */
+export async function rmInspectBranches(
+  input: RmInspectBranchesInput
+): Promise<StateResult<RmInspectBranchesOutput>> {
+  const { rootDir, org, repo, branches, branchDirs } = input;
+
+  const unsavedWork: Record<string, string[]> = {};
+
+  for (const branch of branches) {
+    const branchPath = path.join(
+      rootDir,
+      org,
+      repo,
+      ...(branchDirs?.[branch] ?? branch).split('/')
+    );
+
+    try {
+      const work = await getUnsavedWork(branchPath);
+      const items = describeUnsavedWork(work);
+      if (items.length > 0) {
+        unsavedWork[branch] = items;
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      unsavedWork[branch] = [`could not inspect working tree (${message})`];
+    }
+  }
+
+  return {
+    value: { unsavedWork },
+  };
+}
+
+/**
+ * State 5: Confirm removal
  * Skip confirmation if force flag is true
  */
 export async function rmConfirmRemoval(
   input: RmConfirmRemovalInput
 ): Promise<StateResult<RmConfirmRemovalOutput>> {
-  const { rootDir, org, repo, branches, force } = input;
+  const { rootDir, org, repo, branches, branchDirs, force, unsavedWork } = input;
 
   // Skip confirmation if force flag is set
   if (force) {
@@ -147,9 +206,17 @@ export async function rmConfirmRemoval(
   console.log('');
   console.log('The following branches will be removed:');
   for (const branch of branches) {
-    const branchPath = path.join(rootDir, org, repo, branch);
+    const branchPath = path.join(
+      rootDir,
+      org,
+      repo,
+      ...(branchDirs?.[branch] ?? branch).split('/')
+    );
     console.log(`  - ${org}/${repo}/${branch}`);
     console.log(`    (${branchPath})`);
+    if (unsavedWork?.[branch]) {
+      console.log(chalk.yellow(`    ⚠ ${unsavedWork[branch].join(', ')}`));
+    }
   }
   console.log('');
 
@@ -162,3 +229,57 @@ export async function rmConfirmRemoval(
     value: { confirmed: confirm },
   };
 }
+
+/**
+ * Print removal items as an aligned list with their sizes
+ */
+function printRemovalItems(items: RmBulkRemovalItem[]): void {
+  const width = Math.max(...items.map((item) => item.name.length));
+  for (const item of items) {
+    const size = item.sizeBytes === undefined ? '-' : formatBytes(item.sizeBytes);
+    console.log(`  - ${item.name.padEnd(width)}  ${chalk.gray(size)}`);
+    if (item.unsavedWork?.length) {
+      console.log(chalk.yellow(`    ⚠ ${item.unsavedWork.join(', ')}`));
+    }
+  }
+}
+
+/**
+ * State: Confirm removing several clones at once (gcpb rm org --all, gcpb rm 'org/repo/feat-*')
+ * The full list with sizes is shown even with force, so the log records what was removed
+ */
+export async function rmConfirmBulkRemoval(
+  input: RmConfirmBulkRemovalInput
+): Promise<StateResult<RmConfirmBulkRemovalOutput>> {
+  const { clones, caches, force } = input;
+  const total = [...clones, ...caches].reduce((sum, item) => sum + (item.sizeBytes ?? 0), 0);
+
+  console.log('');
+  console.log(
+    `The following ${clones.length === 1 ? 'clone' : `${clones.length} clones`} will be removed:`
+  );
+  printRemovalItems(clones);
+  if (caches.length > 0) {
+    console.log('');
+    console.log('Along with their repository caches:');
+    printRemovalItems(caches);
+  }
+  console.log('');
+  console.log(chalk.gray(`${formatBytes(total)} in total`));
+  console.log('');
+
+  if (force) {
+    return {
+      value: { confirmed: true },
+    };
+  }
+
+  const confirm = await confirmWithEsc({
+    message: `Are you sure you want to remove ${clones.length === 1 ? 'this clone' : `these ${clones.length} clones`}?`,
+    default: false,
+  });
+
+  return {
+    value: { confirmed: confirm },
+  };
+}
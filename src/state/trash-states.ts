@@ -0,0 +1,33 @@
+/**
+ * State functions for the 'trash' command
+ * Each state is an independent function with explicit parameters
+ */
+
+import { formatBytes } from '../utils/format.js';
+import { confirmWithEsc } from '../utils/inquirer-helpers.js';
+import type { StateResult, TrashConfirmEmptyInput, TrashConfirmEmptyOutput } from './types.js';
+
+/**
+ * State 1: Confirm permanently deleting everything in the trash
+ * Skip confirmation if skipConfirmation is true
+ */
+export async function trashConfirmEmpty(
+  input: TrashConfirmEmptyInput
+): Promise<StateResult<TrashConfirmEmptyOutput>> {
+  const { entries, sizeBytes, skipConfirmation } = input;
+
+  if (skipConfirmation) {
+    return {
+      value: { confirmed: true },
+    };
+  }
+
+  const confirmed = await confirmWithEsc({
+    message: `Permanently delete ${entries} removal${entries === 1 ? '' : 's'} (${formatBytes(sizeBytes)})? They can no longer be restored`,
+    default: false,
+  });
+
+  return {
+    value: { confirmed },
+  };
+}
@@ -4,6 +4,8 @@
  * and an optional cancellation flag for future ESC key support
  */
 
+import type { CloneMetadata, ExistingClone, StaleReason } from '../types/index.js';
+
 /**
  * Generic result type for all state functions
  */
@@ -158,8 +160,44 @@ export interface AddConfirmCloneOutput {
   confirmed: boolean;
 }
 
+/**
+ * addSelectCarryOverSource: Choose the sibling clone to copy carry-over files from
+ */
+export interface AddSelectCarryOverSourceInput {
+  siblings: string[]; // branch names, most recently used first
+}
+
+export interface AddSelectCarryOverSourceOutput {
+  source: string | null; // null = don't copy any files
+}
+
+/**
+ * addResolveExistingBranch: Decide what to do when the local branch already exists on the remote
+ */
+export interface AddResolveExistingBranchInput {
+  branch: string; // local branch name taken on the remote
+}
+
+export interface AddResolveExistingBranchOutput {
+  action: 'track' | 'rename' | 'cancel';
+  branch: string; // branch to track, or the new local branch name
+}
+
+/**
+ * addResolveExistingClone: Decide what to do when the target directory already exists
+ */
+export interface AddResolveExistingCloneInput {
+  existing: ExistingClone;
+  alternativePath: string; // free directory to clone into instead
+}
+
+export interface AddResolveExistingCloneOutput {
+  // update/open reuse a matching clone, replace/alternative clone anew
+  action: 'update' | 'open' | 'replace' | 'alternative' | 'cancel';
+}
+
 // ============================================================================
-// Remove Command State Types (4 states)
+// Remove Command State Types (5 states)
 // ============================================================================
 
 /**
@@ -193,12 +231,28 @@ export interface RmSelectRepoOutput {
 export interface RmSelectBranchesInput {
   branches: string[];
   preselectedBranch?: string;
+  metadata?: Record<string, CloneMetadata>; // branch name -> recorded metadata, shown in choices
 }
 
 export interface RmSelectBranchesOutput {
   selectedBranches: string[];
 }
 
+/**
+ * rmInspectBranches: Detect unsaved work in branches selected for removal
+ */
+export interface RmInspectBranchesInput {
+  rootDir: string;
+  org: string;
+  repo: string;
+  branches: string[];
+  branchDirs?: Record<string, string>; // branch name -> directory, when they differ
+}
+
+export interface RmInspectBranchesOutput {
+  unsavedWork: Record<string, string[]>; // branch → descriptions, only branches with unsaved work
+}
+
 /**
  * rmConfirmRemoval: Confirm removal
  */
@@ -207,13 +261,35 @@ export interface RmConfirmRemovalInput {
   org: string;
   repo: string;
   branches: string[];
+  branchDirs?: Record<string, string>; // branch name -> directory, when they differ
   force?: boolean;
+  unsavedWork?: Record<string, string[]>;
 }
 
 export interface RmConfirmRemovalOutput {
   confirmed: boolean;
 }
 
+/**
+ * rmConfirmBulkRemoval: Confirm removing clones across branches, repositories or organizations
+ */
+export interface RmBulkRemovalItem {
+  name: string; // org/repo/branch of a clone, org/repo of a cache
+  path: string;
+  sizeBytes?: number; // undefined when it could not be measured
+  unsavedWork?: string[];
+}
+
+export interface RmConfirmBulkRemovalInput {
+  clones: RmBulkRemovalItem[];
+  caches: RmBulkRemovalItem[]; // mirror caches removed along with the last clone of a repository
+  force?: boolean;
+}
+
+export interface RmConfirmBulkRemovalOutput {
+  confirmed: boolean;
+}
+
 // ============================================================================
 // Open Command State Types (3 states)
 // ============================================================================
@@ -254,3 +330,63 @@ export interface OpenSelectBranchInput {
 export interface OpenSelectBranchOutput {
   branch: string;
 }
+
+// ============================================================================
+// Prune Command State Types (1 state)
+// ============================================================================
+
+/**
+ * pruneSelectBranches: Select stale branch clones to remove (multi-select)
+ */
+export interface PruneCandidate {
+  owner: string;
+  repo: string;
+  branch: string;
+  path: string; // clone directory
+  remoteBranch: string;
+  reason: StaleReason;
+  unsavedWork: string[]; // empty when nothing would be lost
+}
+
+export interface PruneSelectBranchesInput {
+  candidates: PruneCandidate[];
+  discardChanges?: boolean; // allow selecting candidates with unsaved work
+  skipSelection?: boolean; // select every removable candidate without prompting
+}
+
+export interface PruneSelectBranchesOutput {
+  selected: PruneCandidate[];
+}
+
+// ============================================================================
+// Cache Command State Types (1 state)
+// ============================================================================
+
+/**
+ * cacheConfirmRemoval: Confirm removing mirror caches
+ */
+export interface CacheConfirmRemovalInput {
+  caches: string[]; // "owner/repo" of each cache to remove
+  skipConfirmation?: boolean;
+}
+
+export interface CacheConfirmRemovalOutput {
+  confirmed: boolean;
+}
+
+// ============================================================================
+// Trash Command State Types (1 state)
+// ============================================================================
+
+/**
+ * trashConfirmEmpty: Confirm permanently deleting trash entries
+ */
+export interface TrashConfirmEmptyInput {
+  entries: number; // number of removals in the trash
+  sizeBytes: number;
+  skipConfirmation?: boolean;
+}
+
+export interface TrashConfirmEmptyOutput {
+  confirmed: boolean;
+}
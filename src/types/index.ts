@@ -1,8 +1,12 @@
+export type Forge = 'github' | 'gitlab';
+
 export interface ParsedGitUrl {
   owner: string; // user or organization name
   repo: string; // repository name
   protocol: string; // ssh or https
   fullUrl: string; // original URL
+  host: string; // e.g. github.com
+  forge?: Forge; // detected from the host, undefined for other servers
 }
 
 export interface ValidationResult {
@@ -21,18 +25,44 @@ export interface CloneOptions {
   baseBranch: string;
   targetBranch: string;
   rootDir: string; // changed from cwd
+  pullRequest?: number; // create targetBranch at this pull/merge request head instead of baseBranch
+  shared?: boolean; // keep borrowing objects from the cache (default: the shared setting)
+  depth?: number; // shallow clone with this many commits (default: the partialClone setting)
+  filter?: string; // partial clone filter such as "blob:none" (default: the partialClone setting)
+  sparse?: string[]; // sparse-checkout cone directories (default: the partialClone setting)
+  submodules?: boolean; // check out submodules recursively (default: the submodules setting)
+  lfs?: boolean; // download Git LFS objects after checkout (default: the lfs setting)
+  targetPath?: string; // clone into this directory instead of the branchNaming one
+  onProgress?: (message: string) => void; // reports the current step, e.g. to a spinner
 }
 
 export interface CloneResult {
   success: boolean;
   targetPath: string;
   error?: Error;
+  timings?: CloneTimings; // set for successful clones
+}
+
+// Milliseconds spent in each phase of a clone, phases that did not run are left out
+export interface CloneTimings {
+  total: number;
+  cache?: number; // creating or updating the repository cache
+  clone?: number; // git clone into the target directory
+  checkout?: number; // fetching and checking out the branch
+  submodules?: number;
+  lfs?: number;
 }
 
 export interface VSCodeOptions {
   targetPath: string;
 }
 
+export interface EditorOptions {
+  targetPath: string;
+  editor: EditorDefinition;
+  folderUri?: string; // open this URI (e.g. a dev container) instead of targetPath
+}
+
 export interface TerminalOptions {
   targetPath: string;
 }
@@ -40,7 +70,7 @@ export interface TerminalOptions {
 export interface CodeResult {
   success: boolean;
   targetPath?: string;
-  vscodeOpened?: boolean;
+  editorOpened?: boolean;
   error?: string;
 }
 
@@ -74,21 +104,155 @@ export interface Config {
   version: string;
   createdAt?: string;
   editor?: EditorPreferences;
+  hooks?: Record<string, RepositoryHooks>; // "owner/repo" glob -> hooks, applied in key order
+  carryOver?: Record<string, string[]>; // "owner/repo" glob -> file globs copied from a sibling clone
+  branchNaming?: BranchNaming; // how branch names map to clone directories (default: "dash")
+  layout?: RepositoryLayout; // where repositories live below the root (default: "owner")
+  shared?: string[]; // "owner/repo" globs whose clones borrow objects from the cache instead of copying them
+  partialClone?: Record<string, PartialCloneSettings>; // "owner/repo" glob -> shallow/partial defaults, later keys win
+  submodules?: string[]; // "owner/repo" globs whose clones check out submodules recursively
+  lfs?: string[]; // "owner/repo" globs whose clones download Git LFS objects
+  trashRetentionDays?: number; // days removed clones stay restorable in .gcpb/.trash (default: 7)
+}
+
+// Shallow, partial and sparse clone settings, all optional
+export interface PartialCloneSettings {
+  depth?: number; // keep only this many commits of history
+  filter?: string; // "blob:none" (blobless), "tree:0" (treeless) or "blob:limit=<size>"
+  sparse?: string[]; // check out only these directories (cone mode), e.g. ["apps/web", "packages"]
+}
+
+/**
+ * Where a repository is cloned below the root
+ * - owner: ${owner}/${repo}, e.g. "acme/web" or "group/subgroup/app"
+ * - host: ${host}/${owner}/${repo}, e.g. "github.com/acme/web", so hosts never collide
+ */
+export type RepositoryLayout = 'owner' | 'host';
+
+/**
+ * How a branch name becomes a clone directory
+ * - dash: "feat/login" -> "feat-login" (collides with a "feat-login" branch)
+ * - nested: "feat/login" -> "feat/login" (one directory per path segment)
+ * - escape: "feat/login" -> "feat%2Flogin" (reversible)
+ * - hash: "feat/login" -> "feat-login-<short hash>", names without "/" are kept as-is
+ */
+export type BranchNaming = 'dash' | 'nested' | 'escape' | 'hash';
+
+// Per-clone metadata, stored in .gcpb/state.json
+export interface CloneMetadata {
+  branch: string; // real branch name, which the directory name may not preserve
+  url?: string; // URL the clone was created from
+  baseBranch?: string; // remote branch the clone was cut from
+  createdAt?: string; // ISO timestamp
+  lastOpenedAt?: string; // ISO timestamp of the last gcpb code or terminal
+  gcpbVersion?: string; // gcpb version that created the clone
+}
+
+// A clone moved to the trash by rm or prune
+export interface TrashedClone {
+  path: string; // clone path relative to root, "/"-separated; also its path within the entry
+  owner: string;
+  repo: string;
+  branch: string;
+  metadata?: CloneMetadata; // state.json record, restored along with the clone
+}
+
+// One removal, stored in .gcpb/.trash/<id> with a manifest.json
+export interface TrashEntry {
+  id: string; // UTC timestamp of the removal, e.g. "20261019T101500Z"
+  removedAt: string; // ISO timestamp
+  clones: TrashedClone[];
+}
+
+export type HookEvent = 'postClone' | 'preRemove';
+
+export type RepositoryHooks = Partial<Record<HookEvent, string[]>>; // shell commands, run in order
+
+export interface HookResult {
+  success: boolean;
+  ran: number; // commands that exited successfully
+  failedCommand?: string;
+  error?: string;
 }
 
 export interface EditorPreferences {
   autoOpen?: boolean | null; // null = ask every time, true = always open, false = never open
-  defaultEditor?: EditorType; // For future extensibility
+  defaultEditor?: string; // built-in EditorType or a key of customEditors
+  customEditors?: Record<string, string>; // name -> command template, e.g. "subl -n {path}"
+  devContainer?: Record<string, boolean>; // "owner/repo" -> open in its dev container without asking
 }
 
-export type EditorType = 'vscode' | 'cursor' | 'zed';
+export type EditorType = 'vscode' | 'cursor' | 'zed' | 'idea' | 'webstorm' | 'pycharm' | 'goland';
+
+export interface EditorDefinition {
+  id: string;
+  name: string; // display name, e.g. "VSCode"
+  command: string;
+  args: string[]; // "{path}" is replaced with the target directory
+  supportsDevContainers?: boolean; // accepts --folder-uri vscode-remote://dev-container+...
+}
 
 // Repository scanner interfaces
 export interface RepositoryInfo {
   owner: string;
   repo: string;
-  branches: string[];
+  branches: string[]; // branch names
   fullPath: string;
+  branchDirs?: Record<string, string>; // branch name -> directory relative to fullPath, when they differ
+  metadata?: Record<string, CloneMetadata>; // branch name -> recorded metadata
+}
+
+export interface BranchClone {
+  owner: string;
+  repo: string;
+  branch: string; // branch name (the directory name for clones without metadata)
+  path: string;
+  metadata?: CloneMetadata; // absent for clones gcpb did not create
+}
+
+// Remote branch a local branch tracks, read from branch.<name>.remote and branch.<name>.merge
+export interface BranchTracking {
+  remote: string; // e.g. "origin"
+  remoteBranch: string; // branch name on the remote, e.g. "feat/login"
+}
+
+export interface UpstreamBranch extends BranchTracking {
+  name: string; // e.g. "origin/feat/login"
+  gone: boolean; // the remote-tracking ref was pruned, i.e. the remote branch was deleted
+}
+
+// Clone status interfaces
+export interface CloneStatus {
+  branch: string | null; // checked-out branch, null when HEAD is detached
+  upstream: string | null; // e.g. "origin/main", null when no upstream is configured
+  changedFiles: number; // staged or unstaged changes to tracked files
+  untrackedFiles: number;
+  stashCount: number;
+  ahead: number; // local commits not on upstream
+  behind: number; // upstream commits not merged locally
+}
+
+export interface UnsavedWork {
+  changedFiles: number;
+  untrackedFiles: number;
+  stashCount: number;
+  unpushedCommits: number; // commits on local branches not on any remote
+}
+
+// A directory found where a clone is about to be created
+export interface ExistingClone {
+  path: string;
+  matches: boolean; // a clone of the same repository with the requested branch checked out
+  reason?: string; // why it does not match, e.g. 'has branch "feat/y" checked out'
+  unsavedWork: string[]; // work that keeps it from being replaced, see describeUnsavedWork
+}
+
+// Prune interfaces
+export type StaleReason = 'deleted' | 'merged';
+
+export interface StaleBranchCheck {
+  remoteBranch: string; // tracked remote branch name without "origin/"
+  reason: StaleReason;
 }
 
 export interface RemovalSelection {
@@ -118,11 +282,17 @@ export interface CacheInfo {
   isValid: boolean;
 }
 
+export interface CacheStats {
+  sizeBytes: number; // objects on disk, packed and loose
+  lastFetchedAt?: string; // ISO timestamp of the last fetch, or of the mirror's creation
+}
+
 export interface CacheOptions {
   url: string;
   owner: string;
   repo: string;
   rootDir: string;
+  onProgress?: (message: string) => void; // reports mirror and fetch progress
 }
 
 export interface CacheResult {
@@ -20,21 +20,50 @@ export interface ParsedPathArgs {
  * - "org" → { org: "org" }
  * - "org/repo" → { org: "org", repo: "repo" }
  * - "org/repo/branch" → { org: "org", repo: "repo", branch: "branch" }
+ * - "org/repo/feat/login" → { org: "org", repo: "repo", branch: "feat/login" }
+ *
+ * Owners spanning several segments (github.com/acme, group/subgroup) are recognized through
+ * the known repositories, e.g. with "group/subgroup/app" known:
+ * - "group/subgroup/app/main" → { org: "group/subgroup", repo: "app", branch: "main" }
+ * - "group/subgroup" → { org: "group/subgroup" }
  *
  * @param path - Path string in format "org" or "org/repo" or "org/repo/branch"
+ * @param repositoryKeys - Known repositories as "owner/repo" paths
  * @returns Parsed path components
  */
-export function parsePathArg(path?: string): ParsedPathArgs {
+export function parsePathArg(path?: string, repositoryKeys: string[] = []): ParsedPathArgs {
   if (!path) {
     return { isComplete: false };
   }
 
   // Split by forward slash
   const parts = path.split('/').filter((p) => p.length > 0);
+  const startsWith = (segments: string[], prefix: string[]) =>
+    prefix.length <= segments.length && prefix.every((segment, i) => segment === segments[i]);
+
+  let org: string | undefined;
+  let repo: string | undefined;
+  let branch: string | undefined;
 
-  const org = parts[0];
-  const repo = parts[1];
-  const branch = parts[2];
+  // The longest known repository the path starts with separates the owner from the branch
+  const repositoryParts = repositoryKeys
+    .map((key) => key.split('/'))
+    .filter((keyParts) => startsWith(parts, keyParts))
+    .sort((a, b) => b.length - a.length)[0];
+
+  if (repositoryParts) {
+    org = repositoryParts.slice(0, -1).join('/');
+    repo = repositoryParts[repositoryParts.length - 1];
+    branch = parts.slice(repositoryParts.length).join('/') || undefined;
+  } else if (repositoryKeys.some((key) => startsWith(key.split('/'), parts))) {
+    // Part of a known owner path
+    org = parts.join('/');
+  } else {
+    org = parts[0];
+    repo = parts[1];
+    // Everything after org/repo is the branch, which may itself contain slashes
+    branch = parts.slice(2).join('/') || undefined;
+  }
 
   // Path is complete if all three components are present
   const isComplete = !!(org && repo && branch);
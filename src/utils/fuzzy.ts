@@ -0,0 +1,44 @@
+/**
+ * Fuzzy matching for search prompts
+ *
+ * A query matches when its characters appear in order in the text, ignoring case
+ * ("fl" matches "feat/login"). Closer matches rank first: a match at the start of the text beats
+ * one further in, and consecutive characters beat scattered ones.
+ */
+
+/**
+ * Score a fuzzy match, lower is better, or null when the query does not match
+ */
+export function fuzzyScore(query: string, text: string): number | null {
+  const needle = query.toLowerCase();
+  const haystack = text.toLowerCase();
+
+  let score = 0;
+  let position = -1;
+  for (const char of needle) {
+    const index = haystack.indexOf(char, position + 1);
+    if (index === -1) {
+      return null;
+    }
+    // The first character costs its offset, later ones the gap since the previous match
+    score += position === -1 ? index : index - position - 1;
+    position = index;
+  }
+  return score;
+}
+
+/**
+ * Keep the items matching a query, best matches first
+ * Items that score the same keep their order, and an empty query keeps every item
+ */
+export function fuzzyFilter<T>(items: T[], query: string, getText: (item: T) => string): T[] {
+  if (!query) {
+    return items;
+  }
+
+  return items
+    .map((item) => ({ item, score: fuzzyScore(query, getText(item)) }))
+    .filter((match): match is { item: T; score: number } => match.score !== null)
+    .sort((a, b) => a.score - b.score)
+    .map((match) => match.item);
+}
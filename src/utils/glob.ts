@@ -0,0 +1,53 @@
+/**
+ * Minimal glob matching for slash-separated names such as "owner/repo"
+ *
+ * Supported syntax:
+ * - "*" matches any characters except "/"
+ * - "**" matches any characters including "/", and "**" followed by "/" may also match nothing
+ * - "?" matches a single character except "/"
+ */
+
+/**
+ * Convert a glob pattern into an anchored regular expression
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let source = '';
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '*' && pattern[i + 1] === '*' && pattern[i + 2] === '/') {
+      // "**/.env" matches ".env" as well as "apps/web/.env"
+      source += '(?:.*/)?';
+      i += 2;
+    } else if (char === '*' && pattern[i + 1] === '*') {
+      source += '.*';
+      i++;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Check whether a value matches a glob pattern
+ *
+ * @example
+ * matchGlob('facebook/*', 'facebook/react') // true
+ * matchGlob('*', 'facebook/react') // false, "*" does not cross "/"
+ */
+export function matchGlob(pattern: string, value: string): boolean {
+  return globToRegExp(pattern).test(value);
+}
+
+/**
+ * Check whether a pattern contains glob syntax
+ */
+export function isGlobPattern(pattern: string): boolean {
+  return /[*?]/.test(pattern);
+}
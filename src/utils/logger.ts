@@ -21,6 +21,13 @@ export class Logger {
     console.warn(chalk.yellow('⚠'), message);
   }
 
+  /**
+   * Print a line of output from an external command, indented under the current step
+   */
+  output(line: string): void {
+    console.log(chalk.gray(`  │ ${line}`));
+  }
+
   startSpinner(message: string): void {
     this.spinner = ora(message).start();
   }
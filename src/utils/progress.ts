@@ -0,0 +1,60 @@
+import type { SimpleGitOptions, SimpleGitProgressEvent } from 'simple-git';
+import type { CloneTimings } from '../types/index.js';
+
+/**
+ * Receives a short description of the current step, e.g. to show in a spinner
+ */
+export type ProgressReporter = (message: string) => void;
+
+/**
+ * Describe a git progress event within a phase
+ * e.g. "Cloning from cache: receiving 45% (1234/2740)"
+ */
+export function formatGitProgress(phase: string, event: SimpleGitProgressEvent): string {
+  return `${phase}: ${event.stage} ${event.progress}% (${event.processed}/${event.total})`;
+}
+
+/**
+ * simple-git options that forward progress events of a phase to a reporter
+ * Without a reporter no --progress flag is added and git runs as before
+ */
+export function gitProgressOptions(
+  phase: string,
+  onProgress?: ProgressReporter
+): Partial<SimpleGitOptions> {
+  if (!onProgress) {
+    return {};
+  }
+
+  return {
+    progress: (event) => onProgress(formatGitProgress(phase, event)),
+  };
+}
+
+/**
+ * Format milliseconds for humans, e.g. "850ms", "12.3s" or "2m 05s"
+ */
+export function formatDuration(ms: number): string {
+  if (ms < 1000) {
+    return `${Math.round(ms)}ms`;
+  }
+  if (ms < 60_000) {
+    return `${(ms / 1000).toFixed(1)}s`;
+  }
+
+  const seconds = Math.round(ms / 1000);
+  return `${Math.floor(seconds / 60)}m ${String(seconds % 60).padStart(2, '0')}s`;
+}
+
+/**
+ * Summarize where a clone spent its time, e.g. "12.3s (cache 8.1s, clone 3.0s, checkout 1.2s)"
+ */
+export function formatCloneTimings(timings: CloneTimings): string {
+  const phases = (['cache', 'clone', 'checkout', 'submodules', 'lfs'] as const)
+    .filter((phase) => timings[phase] !== undefined)
+    .map((phase) => `${phase} ${formatDuration(timings[phase] ?? 0)}`);
+
+  return phases.length > 0
+    ? `${formatDuration(timings.total)} (${phases.join(', ')})`
+    : formatDuration(timings.total);
+}
@@ -0,0 +1,40 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const PACKAGE_NAME = '@minimalcorp/gcpb';
+
+let cachedVersion: string | undefined;
+
+/**
+ * Read the gcpb version from its package.json
+ * Searches upward from this module, so it works from src/ as well as the bundled dist/ files
+ */
+export function getGcpbVersion(): string {
+  if (cachedVersion) {
+    return cachedVersion;
+  }
+
+  let dir = path.dirname(fileURLToPath(import.meta.url));
+
+  while (true) {
+    try {
+      const packageJson = fs.readJsonSync(path.join(dir, 'package.json')) as {
+        name?: string;
+        version?: string;
+      };
+      if (packageJson.name === PACKAGE_NAME && packageJson.version) {
+        cachedVersion = packageJson.version;
+        return cachedVersion;
+      }
+    } catch {
+      // No package.json here, keep searching upward
+    }
+
+    const parentDir = path.dirname(dir);
+    if (parentDir === dir) {
+      return 'unknown';
+    }
+    dir = parentDir;
+  }
+}
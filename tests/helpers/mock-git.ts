@@ -16,6 +16,7 @@ export function createMockGit(overrides?: Partial<SimpleGit>): SimpleGit {
     getRemotes: vi.fn().mockResolvedValue(mockRemotes),
     listRemote: vi.fn().mockResolvedValue(''),
     revparse: vi.fn().mockResolvedValue('main'),
+    env: vi.fn().mockReturnThis(),
     ...overrides,
   } as unknown as SimpleGit;
 }
@@ -0,0 +1,849 @@
+import { describe, test, expect, vi, beforeEach } from 'vitest';
+import { executeAddCommand, shouldOpenEditor } from '../../src/orchestrators/add-orchestrator.js';
+import { GCPBError } from '../../src/types/index.js';
+import type { Logger } from '../../src/utils/logger.js';
+
+// Mock all dependencies
+vi.mock('../../src/core/clone.js');
+vi.mock('../../src/core/default-branch-detector.js');
+vi.mock('../../src/state/add-states.js');
+vi.mock('../../src/core/hooks.js');
+vi.mock('../../src/core/config.js');
+vi.mock('../../src/core/carry-over.js');
+vi.mock('../../src/core/remote-branches.js');
+vi.mock('../../src/core/existing-clone.js');
+vi.mock('../../src/core/editor.js');
+vi.mock('../../src/core/editor-registry.js');
+vi.mock('../../src/core/metadata-store.js');
+
+import { cloneRepository } from '../../src/core/clone.js';
+import { detectDefaultBranch } from '../../src/core/default-branch-detector.js';
+import { remoteBranchExists } from '../../src/core/remote-branches.js';
+import {
+  findAlternativePath,
+  inspectExistingClone,
+  removeExistingClone,
+  updateExistingClone,
+} from '../../src/core/existing-clone.js';
+import { openInEditor } from '../../src/core/editor.js';
+import { resolveEditor } from '../../src/core/editor-registry.js';
+import {
+  addConfirmClone,
+  addResolveExistingBranch,
+  addResolveExistingClone,
+} from '../../src/state/add-states.js';
+import { runHooks } from '../../src/core/hooks.js';
+import {
+  copyCarryOverFiles,
+  findSiblingClones,
+  getCarryOverPatterns,
+} from '../../src/core/carry-over.js';
+
+describe('add-orchestrator', () => {
+  const mockLogger: Logger = {
+    info: vi.fn(),
+    success: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    startSpinner: vi.fn(),
+    updateSpinner: vi.fn(),
+    stopSpinner: vi.fn(),
+    box: vi.fn(),
+  } as unknown as Logger;
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+    vi.mocked(runHooks).mockResolvedValue({ success: true, ran: 0 });
+    vi.mocked(getCarryOverPatterns).mockReturnValue([]);
+    vi.mocked(remoteBranchExists).mockResolvedValue(false);
+  });
+
+  describe('executeAddCommand (direct mode)', () => {
+    test('should clone with explicit base and target branches', async () => {
+      vi.mocked(addConfirmClone).mockResolvedValue({ value: { confirmed: true } });
+      vi.mocked(cloneRepository).mockResolvedValue({
+        success: true,
+        targetPath: '/root/user/repo/feat-login',
+      });
+
+      const result = await executeAddCommand(
+        '/root',
+        'https://github.com/user/repo.git',
+        'develop',
+        'feat/login',
+        true,
+        mockLogger
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.targetPath).toBe('/root/user/repo/feat-login');
+      expect(detectDefaultBranch).not.toHaveBeenCalled();
+      expect(addConfirmClone).toHaveBeenCalledWith({
+        url: 'https://github.com/user/repo.git',
+        baseBranch: 'develop',
+        targetBranch: 'feat/login',
+        targetPath: '/root/user/repo/feat-login',
+        skipConfirmation: true,
+      });
+      expect(cloneRepository).toHaveBeenCalledWith({
+        cloneUrl: 'https://github.com/user/repo.git',
+        baseBranch: 'develop',
+        targetBranch: 'feat/login',
+        rootDir: '/root',
+        targetPath: '/root/user/repo/feat-login',
+        onProgress: expect.any(Function),
+      });
+    });
+
+    test('should detect default branch when base is omitted', async () => {
+      vi.mocked(detectDefaultBranch).mockResolvedValue('trunk');
+      vi.mocked(addConfirmClone).mockResolvedValue({ value: { confirmed: true } });
+      vi.mocked(cloneRepository).mockResolvedValue({
+        success: true,
+        targetPath: '/root/user/repo/feat-x',
+      });
+
+      const result = await executeAddCommand(
+        '/root',
+        'https://github.com/user/repo.git',
+        undefined,
+        'feat/x',
+        true,
+        mockLogger
+      );
+
+      expect(result.success).toBe(true);
+      expect(detectDefaultBranch).toHaveBeenCalledWith(
+        'https://github.com/user/repo.git',
+        '/root',
+        'user',
+        'repo'
+      );
+      expect(cloneRepository).toHaveBeenCalledWith(
+        expect.objectContaining({ baseBranch: 'trunk', targetBranch: 'feat/x' })
+      );
+    });
+
+    test('should use base branch as target when target is omitted', async () => {
+      vi.mocked(detectDefaultBranch).mockResolvedValue('main');
+      vi.mocked(addConfirmClone).mockResolvedValue({ value: { confirmed: true } });
+      vi.mocked(cloneRepository).mockResolvedValue({
+        success: true,
+        targetPath: '/root/user/repo/main',
+      });
+
+      await executeAddCommand(
+        '/root',
+        'git@github.com:user/repo.git',
+        undefined,
+        undefined,
+        true,
+        mockLogger
+      );
+
+      expect(cloneRepository).toHaveBeenCalledWith(
+        expect.objectContaining({ baseBranch: 'main', targetBranch: 'main' })
+      );
+    });
+
+    test('should strip origin/ prefix when deriving target from base', async () => {
+      vi.mocked(addConfirmClone).mockResolvedValue({ value: { confirmed: true } });
+      vi.mocked(cloneRepository).mockResolvedValue({
+        success: true,
+        targetPath: '/root/user/repo/develop',
+      });
+
+      await executeAddCommand(
+        '/root',
+        'https://github.com/user/repo.git',
+        'origin/develop',
+        undefined,
+        true,
+        mockLogger
+      );
+
+      expect(cloneRepository).toHaveBeenCalledWith(
+        expect.objectContaining({ baseBranch: 'origin/develop', targetBranch: 'develop' })
+      );
+    });
+
+    test('should return error for invalid URL without cloning', async () => {
+      const result = await executeAddCommand(
+        '/root',
+        'not-a-url',
+        'main',
+        'main',
+        true,
+        mockLogger
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('Invalid Git URL');
+      expect(cloneRepository).not.toHaveBeenCalled();
+    });
+
+    test('should return error for invalid branch name without cloning', async () => {
+      const result = await executeAddCommand(
+        '/root',
+        'https://github.com/user/repo.git',
+        'main',
+        'feat..bad',
+        true,
+        mockLogger
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('Invalid branch name');
+      expect(cloneRepository).not.toHaveBeenCalled();
+    });
+
+    test('should cancel when user declines confirmation', async () => {
+      vi.mocked(addConfirmClone).mockResolvedValue({ value: { confirmed: false } });
+
+      const result = await executeAddCommand(
+        '/root',
+        'https://github.com/user/repo.git',
+        'main',
+        'feat/x',
+        false,
+        mockLogger
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Operation cancelled by user');
+      expect(cloneRepository).not.toHaveBeenCalled();
+    });
+
+    test('should report failure when clone fails', async () => {
+      vi.mocked(addConfirmClone).mockResolvedValue({ value: { confirmed: true } });
+      vi.mocked(cloneRepository).mockResolvedValue({
+        success: false,
+        targetPath: '',
+        error: new GCPBError('Repository not found', 'Please check the repository URL'),
+      });
+
+      const result = await executeAddCommand(
+        '/root',
+        'https://github.com/user/repo.git',
+        'main',
+        'feat/x',
+        true,
+        mockLogger
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Repository not found');
+      expect(mockLogger.stopSpinner).toHaveBeenCalledWith(false, 'Clone failed');
+      expect(mockLogger.info).toHaveBeenCalledWith('Suggestion: Please check the repository URL');
+      expect(mockLogger.box).not.toHaveBeenCalled();
+    });
+
+    test('should run post-clone hooks in the new clone', async () => {
+      vi.mocked(addConfirmClone).mockResolvedValue({ value: { confirmed: true } });
+      vi.mocked(cloneRepository).mockResolvedValue({
+        success: true,
+        targetPath: '/root/user/repo/feat-login',
+      });
+      vi.mocked(runHooks).mockResolvedValue({ success: true, ran: 2 });
+
+      const result = await executeAddCommand(
+        '/root',
+        'https://github.com/user/repo.git',
+        'main',
+        'feat/login',
+        true,
+        mockLogger
+      );
+
+      expect(result.hookResult).toEqual({ success: true, ran: 2 });
+      expect(runHooks).toHaveBeenCalledWith(
+        'postClone',
+        '/root',
+        {
+          owner: 'user',
+          repo: 'repo',
+          branch: 'feat/login',
+          path: '/root/user/repo/feat-login',
+        },
+        mockLogger
+      );
+    });
+
+    test('should keep the clone and succeed when a post-clone hook fails', async () => {
+      vi.mocked(addConfirmClone).mockResolvedValue({ value: { confirmed: true } });
+      vi.mocked(cloneRepository).mockResolvedValue({
+        success: true,
+        targetPath: '/root/user/repo/feat-login',
+      });
+      vi.mocked(runHooks).mockResolvedValue({
+        success: false,
+        ran: 0,
+        failedCommand: 'npm ci',
+        error: 'exited with code 1',
+      });
+
+      const result = await executeAddCommand(
+        '/root',
+        'https://github.com/user/repo.git',
+        'main',
+        'feat/login',
+        true,
+        mockLogger
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.targetPath).toBe('/root/user/repo/feat-login');
+      expect(result.hookResult?.success).toBe(false);
+      expect(mockLogger.warn).toHaveBeenCalledWith(
+        'The clone was kept at /root/user/repo/feat-login; fix the hook and run it there manually'
+      );
+    });
+
+    test('should pass clone options through and report progress', async () => {
+      vi.mocked(addConfirmClone).mockResolvedValue({ value: { confirmed: true } });
+      vi.mocked(cloneRepository).mockResolvedValue({
+        success: true,
+        targetPath: '/root/user/repo/main',
+      });
+
+      const result = await executeAddCommand(
+        '/root',
+        'https://github.com/user/repo.git',
+        'main',
+        undefined,
+        true,
+        mockLogger,
+        undefined,
+        undefined,
+        undefined,
+        { depth: 1, filter: 'blob:none', sparse: ['apps/web'], submodules: true, lfs: false }
+      );
+
+      expect(result.success).toBe(true);
+      expect(cloneRepository).toHaveBeenCalledWith({
+        cloneUrl: 'https://github.com/user/repo.git',
+        baseBranch: 'main',
+        targetBranch: 'main',
+        rootDir: '/root',
+        depth: 1,
+        filter: 'blob:none',
+        sparse: ['apps/web'],
+        submodules: true,
+        lfs: false,
+        targetPath: '/root/user/repo/main',
+        onProgress: expect.any(Function),
+      });
+
+      vi.mocked(cloneRepository).mock.calls[0][0].onProgress?.('Checking out submodules...');
+      expect(mockLogger.updateSpinner).toHaveBeenCalledWith('Checking out submodules...');
+    });
+
+    describe('existing remote branches', () => {
+      beforeEach(() => {
+        vi.mocked(addConfirmClone).mockResolvedValue({ value: { confirmed: true } });
+        vi.mocked(cloneRepository).mockResolvedValue({
+          success: true,
+          targetPath: '/root/user/repo/feat-x',
+        });
+        vi.mocked(remoteBranchExists).mockImplementation(
+          async (_url, _cachePath, branch) => branch === 'feat/x'
+        );
+      });
+
+      test('should check out the remote branch when the user chooses to track it', async () => {
+        vi.mocked(addResolveExistingBranch).mockResolvedValue({
+          value: { action: 'track', branch: 'feat/x' },
+        });
+
+        const result = await executeAddCommand(
+          '/root',
+          'https://github.com/user/repo.git',
+          'main',
+          'feat/x',
+          false,
+          mockLogger
+        );
+
+        expect(result.success).toBe(true);
+        expect(remoteBranchExists).toHaveBeenCalledWith(
+          'https://github.com/user/repo.git',
+          '/root/.gcpb/.cache/user/repo',
+          'feat/x'
+        );
+        expect(addResolveExistingBranch).toHaveBeenCalledWith({ branch: 'feat/x' });
+        expect(cloneRepository).toHaveBeenCalledWith(
+          expect.objectContaining({ baseBranch: 'feat/x', targetBranch: 'feat/x' })
+        );
+      });
+
+      test('should clone into the new name when the user picks another one', async () => {
+        vi.mocked(addResolveExistingBranch).mockResolvedValue({
+          value: { action: 'rename', branch: 'feat/x-2' },
+        });
+
+        await executeAddCommand(
+          '/root',
+          'https://github.com/user/repo.git',
+          'main',
+          'feat/x',
+          false,
+          mockLogger
+        );
+
+        expect(remoteBranchExists).toHaveBeenCalledTimes(2);
+        expect(addConfirmClone).toHaveBeenCalledWith(
+          expect.objectContaining({
+            baseBranch: 'main',
+            targetBranch: 'feat/x-2',
+            targetPath: '/root/user/repo/feat-x-2',
+          })
+        );
+      });
+
+      test('should cancel without cloning', async () => {
+        vi.mocked(addResolveExistingBranch).mockResolvedValue({
+          value: { action: 'cancel', branch: 'feat/x' },
+        });
+
+        const result = await executeAddCommand(
+          '/root',
+          'https://github.com/user/repo.git',
+          'main',
+          'feat/x',
+          false,
+          mockLogger
+        );
+
+        expect(result).toEqual({ success: false, error: 'Operation cancelled by user' });
+        expect(cloneRepository).not.toHaveBeenCalled();
+      });
+
+      test('should fail before cloning with --yes', async () => {
+        const result = await executeAddCommand(
+          '/root',
+          'https://github.com/user/repo.git',
+          'main',
+          'feat/x',
+          true,
+          mockLogger
+        );
+
+        expect(result.success).toBe(false);
+        expect(result.error).toContain('Remote branch "feat/x" already exists');
+        expect(mockLogger.info).toHaveBeenCalledWith(
+          'Suggestion: Run "gcpb add https://github.com/user/repo.git feat/x" to check it out, or use a different local branch name'
+        );
+        expect(addResolveExistingBranch).not.toHaveBeenCalled();
+        expect(cloneRepository).not.toHaveBeenCalled();
+      });
+
+      test('should not check branches checked out as-is', async () => {
+        await executeAddCommand(
+          '/root',
+          'https://github.com/user/repo.git',
+          'origin/feat/x',
+          undefined,
+          true,
+          mockLogger
+        );
+
+        expect(remoteBranchExists).not.toHaveBeenCalled();
+        expect(cloneRepository).toHaveBeenCalled();
+      });
+    });
+
+    describe('existing target directories', () => {
+      const existing = {
+        path: '/root/user/repo/feat-x',
+        matches: true,
+        unsavedWork: [],
+      };
+
+      beforeEach(() => {
+        vi.mocked(addConfirmClone).mockResolvedValue({ value: { confirmed: true } });
+        vi.mocked(inspectExistingClone).mockResolvedValue(existing);
+        vi.mocked(findAlternativePath).mockResolvedValue('/root/user/repo/feat-x-2');
+        vi.mocked(cloneRepository).mockImplementation(async (options) => ({
+          success: true,
+          targetPath: options.targetPath as string,
+        }));
+      });
+
+      const addFeatX = (skipConfirmation: boolean) =>
+        executeAddCommand(
+          '/root',
+          'https://github.com/user/repo.git',
+          'main',
+          'feat/x',
+          skipConfirmation,
+          mockLogger
+        );
+
+      test('should update a clone of the same branch instead of cloning', async () => {
+        vi.mocked(addResolveExistingClone).mockResolvedValue({ value: { action: 'update' } });
+        vi.mocked(updateExistingClone).mockResolvedValue('origin/feat/x');
+
+        const result = await addFeatX(false);
+
+        expect(result).toEqual({
+          success: true,
+          targetPath: '/root/user/repo/feat-x',
+          reused: 'updated',
+        });
+        expect(inspectExistingClone).toHaveBeenCalledWith(
+          '/root/user/repo/feat-x',
+          'https://github.com/user/repo.git',
+          'feat/x'
+        );
+        expect(mockLogger.stopSpinner).toHaveBeenCalledWith(
+          true,
+          'Fast-forwarded to origin/feat/x'
+        );
+        expect(cloneRepository).not.toHaveBeenCalled();
+      });
+
+      test('should update without asking with --yes', async () => {
+        vi.mocked(updateExistingClone).mockResolvedValue(null);
+
+        const result = await addFeatX(true);
+
+        expect(result.reused).toBe('updated');
+        expect(addResolveExistingClone).not.toHaveBeenCalled();
+        expect(mockLogger.stopSpinner).toHaveBeenCalledWith(true, 'Fetched origin');
+      });
+
+      test('should only offer the editor for new clones', async () => {
+        vi.mocked(addResolveExistingClone)
+          .mockResolvedValueOnce({ value: { action: 'update' } })
+          .mockResolvedValueOnce({ value: { action: 'open' } });
+        vi.mocked(resolveEditor).mockResolvedValue({ id: 'vscode', name: 'VS Code' } as any);
+        vi.mocked(openInEditor).mockResolvedValue(true);
+
+        const updated = await addFeatX(false);
+        const opened = await addFeatX(false);
+        vi.mocked(inspectExistingClone).mockResolvedValue(null);
+        const cloned = await addFeatX(false);
+
+        // The CLI would otherwise prompt for (or open) the editor a second time
+        expect(shouldOpenEditor(updated)).toBe(false);
+        expect(shouldOpenEditor(opened)).toBe(false);
+        expect(shouldOpenEditor(cloned)).toBe(true);
+        expect(shouldOpenEditor({ success: false, error: 'Operation cancelled by user' })).toBe(
+          false
+        );
+      });
+
+      test('should open a clone of the same branch', async () => {
+        const editor = { id: 'vscode', name: 'VS Code' } as any;
+        vi.mocked(addResolveExistingClone).mockResolvedValue({ value: { action: 'open' } });
+        vi.mocked(resolveEditor).mockResolvedValue(editor);
+        vi.mocked(openInEditor).mockResolvedValue(true);
+
+        const result = await addFeatX(false);
+
+        expect(result.reused).toBe('opened');
+        expect(openInEditor).toHaveBeenCalledWith({
+          targetPath: '/root/user/repo/feat-x',
+          editor,
+          folderUri: undefined,
+        });
+        expect(cloneRepository).not.toHaveBeenCalled();
+      });
+
+      test('should replace or clone beside other contents', async () => {
+        vi.mocked(inspectExistingClone).mockResolvedValue({
+          ...existing,
+          matches: false,
+          reason: 'has branch "feat-x" checked out',
+        });
+        vi.mocked(addResolveExistingClone)
+          .mockResolvedValueOnce({ value: { action: 'replace' } })
+          .mockResolvedValueOnce({ value: { action: 'alternative' } });
+
+        const replaced = await addFeatX(false);
+        const beside = await addFeatX(false);
+
+        expect(removeExistingClone).toHaveBeenCalledTimes(1);
+        expect(removeExistingClone).toHaveBeenCalledWith(
+          '/root',
+          expect.objectContaining({ path: '/root/user/repo/feat-x' }),
+          { owner: 'user', repo: 'repo', branch: 'feat/x' },
+          mockLogger
+        );
+        expect(mockLogger.info).toHaveBeenCalledWith('Moved /root/user/repo/feat-x to the trash');
+        expect(replaced.targetPath).toBe('/root/user/repo/feat-x');
+        expect(beside.targetPath).toBe('/root/user/repo/feat-x-2');
+        expect(addResolveExistingClone).toHaveBeenCalledWith({
+          existing: expect.objectContaining({ matches: false }),
+          alternativePath: '/root/user/repo/feat-x-2',
+        });
+      });
+
+      test('should keep the replaced directory when the clone is not confirmed', async () => {
+        vi.mocked(inspectExistingClone).mockResolvedValue({
+          ...existing,
+          matches: false,
+          reason: 'has branch "feat-x" checked out',
+        });
+        vi.mocked(addResolveExistingClone).mockResolvedValue({ value: { action: 'replace' } });
+        vi.mocked(addConfirmClone).mockResolvedValue({ value: { confirmed: false } });
+
+        const result = await addFeatX(false);
+
+        expect(result.success).toBe(false);
+        expect(removeExistingClone).not.toHaveBeenCalled();
+        expect(cloneRepository).not.toHaveBeenCalled();
+      });
+
+      test('should leave other contents to cloneRepository with --yes', async () => {
+        vi.mocked(inspectExistingClone).mockResolvedValue({
+          ...existing,
+          matches: false,
+          reason: 'is not a git repository',
+        });
+
+        await addFeatX(true);
+
+        expect(addResolveExistingClone).not.toHaveBeenCalled();
+        expect(removeExistingClone).not.toHaveBeenCalled();
+        expect(cloneRepository).toHaveBeenCalledWith(
+          expect.objectContaining({ targetPath: '/root/user/repo/feat-x' })
+        );
+      });
+
+      test('should cancel without touching the directory', async () => {
+        vi.mocked(addResolveExistingClone).mockResolvedValue({ value: { action: 'cancel' } });
+
+        const result = await addFeatX(false);
+
+        expect(result).toEqual({ success: false, error: 'Operation cancelled by user' });
+        expect(updateExistingClone).not.toHaveBeenCalled();
+        expect(cloneRepository).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('pull requests', () => {
+      test('should clone the pull request head into pr-<number>', async () => {
+        vi.mocked(addConfirmClone).mockResolvedValue({ value: { confirmed: true } });
+        vi.mocked(cloneRepository).mockResolvedValue({
+          success: true,
+          targetPath: '/root/user/repo/pr-12',
+        });
+
+        const result = await executeAddCommand(
+          '/root',
+          'https://github.com/user/repo.git',
+          undefined,
+          undefined,
+          true,
+          mockLogger,
+          undefined,
+          12
+        );
+
+        expect(result.success).toBe(true);
+        expect(detectDefaultBranch).not.toHaveBeenCalled();
+        expect(cloneRepository).toHaveBeenCalledWith({
+          cloneUrl: 'https://github.com/user/repo.git',
+          baseBranch: 'refs/pull/12/head',
+          targetBranch: 'pr-12',
+          rootDir: '/root',
+          pullRequest: 12,
+          targetPath: '/root/user/repo/pr-12',
+          onProgress: expect.any(Function),
+        });
+      });
+
+      test('should use the merge request ref and a custom branch name on GitLab', async () => {
+        vi.mocked(addConfirmClone).mockResolvedValue({ value: { confirmed: true } });
+        vi.mocked(cloneRepository).mockResolvedValue({
+          success: true,
+          targetPath: '/root/group/repo/review-7',
+        });
+
+        await executeAddCommand(
+          '/root',
+          'git@gitlab.com:group/repo.git',
+          undefined,
+          'review-7',
+          true,
+          mockLogger,
+          undefined,
+          7
+        );
+
+        expect(cloneRepository).toHaveBeenCalledWith(
+          expect.objectContaining({
+            baseBranch: 'refs/merge-requests/7/head',
+            targetBranch: 'review-7',
+            pullRequest: 7,
+          })
+        );
+      });
+
+      test('should reject invalid numbers and base branches without cloning', async () => {
+        const invalid = await executeAddCommand(
+          '/root',
+          'https://github.com/user/repo.git',
+          undefined,
+          undefined,
+          true,
+          mockLogger,
+          undefined,
+          Number('abc')
+        );
+        const withBase = await executeAddCommand(
+          '/root',
+          'https://github.com/user/repo.git',
+          'main',
+          undefined,
+          true,
+          mockLogger,
+          undefined,
+          12
+        );
+
+        expect(invalid).toEqual({ success: false, error: 'Invalid pull request number "NaN"' });
+        expect(withBase).toEqual({
+          success: false,
+          error: 'A base branch cannot be combined with a pull request',
+        });
+        expect(cloneRepository).not.toHaveBeenCalled();
+      });
+
+      test('should fail for repositories outside GitHub and GitLab', async () => {
+        const result = await executeAddCommand(
+          '/root',
+          'https://bitbucket.org/user/repo.git',
+          undefined,
+          undefined,
+          true,
+          mockLogger,
+          undefined,
+          3
+        );
+
+        expect(result.success).toBe(false);
+        expect(mockLogger.info).toHaveBeenCalledWith(
+          'Suggestion: Pull requests can only be cloned from GitHub and GitLab repositories'
+        );
+        expect(cloneRepository).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('carry-over files', () => {
+      const siblings = [
+        { branch: 'main', path: '/root/user/repo/main', modifiedAt: new Date(2000) },
+        { branch: 'feat/old', path: '/root/user/repo/feat-old', modifiedAt: new Date(1000) },
+      ];
+
+      beforeEach(() => {
+        vi.mocked(addConfirmClone).mockResolvedValue({ value: { confirmed: true } });
+        vi.mocked(cloneRepository).mockResolvedValue({
+          success: true,
+          targetPath: '/root/user/repo/feat-login',
+        });
+        vi.mocked(getCarryOverPatterns).mockReturnValue(['.env']);
+        vi.mocked(findSiblingClones).mockResolvedValue(siblings);
+        vi.mocked(copyCarryOverFiles).mockResolvedValue({ copied: ['.env'], skipped: [] });
+      });
+
+      test('should copy from the most recent sibling by default', async () => {
+        const result = await executeAddCommand(
+          '/root',
+          'https://github.com/user/repo.git',
+          'main',
+          'feat/login',
+          true,
+          mockLogger
+        );
+
+        expect(findSiblingClones).toHaveBeenCalledWith(
+          '/root',
+          'user',
+          'repo',
+          '/root/user/repo/feat-login'
+        );
+        expect(copyCarryOverFiles).toHaveBeenCalledWith(
+          '/root/user/repo/main',
+          '/root/user/repo/feat-login',
+          ['.env']
+        );
+        expect(result.carryOver).toEqual({ copied: ['.env'], skipped: [] });
+        expect(mockLogger.success).toHaveBeenCalledWith('Copied 1 local file from main: .env');
+      });
+
+      test('should copy from the requested sibling', async () => {
+        await executeAddCommand(
+          '/root',
+          'https://github.com/user/repo.git',
+          'main',
+          'feat/login',
+          true,
+          mockLogger,
+          'feat/old'
+        );
+
+        expect(copyCarryOverFiles).toHaveBeenCalledWith(
+          '/root/user/repo/feat-old',
+          '/root/user/repo/feat-login',
+          ['.env']
+        );
+      });
+
+      test('should warn and skip when the requested sibling does not exist', async () => {
+        const result = await executeAddCommand(
+          '/root',
+          'https://github.com/user/repo.git',
+          'main',
+          'feat/login',
+          true,
+          mockLogger,
+          'release'
+        );
+
+        expect(result.success).toBe(true);
+        expect(result.carryOver).toBeUndefined();
+        expect(copyCarryOverFiles).not.toHaveBeenCalled();
+        expect(mockLogger.warn).toHaveBeenCalledWith(
+          'Not copying local files: no clone of "release" in user/repo'
+        );
+      });
+
+      test('should keep the clone when copying fails', async () => {
+        vi.mocked(copyCarryOverFiles).mockRejectedValue(new Error('EACCES'));
+
+        const result = await executeAddCommand(
+          '/root',
+          'https://github.com/user/repo.git',
+          'main',
+          'feat/login',
+          true,
+          mockLogger
+        );
+
+        expect(result.success).toBe(true);
+        expect(mockLogger.warn).toHaveBeenCalledWith(
+          'Failed to copy local files from main: EACCES'
+        );
+        expect(runHooks).toHaveBeenCalled();
+      });
+
+      test('should not look for siblings when no carryOver patterns match', async () => {
+        vi.mocked(getCarryOverPatterns).mockReturnValue([]);
+
+        await executeAddCommand(
+          '/root',
+          'https://github.com/user/repo.git',
+          'main',
+          'feat/login',
+          true,
+          mockLogger
+        );
+
+        expect(findSiblingClones).not.toHaveBeenCalled();
+        expect(copyCarryOverFiles).not.toHaveBeenCalled();
+      });
+    });
+  });
+});
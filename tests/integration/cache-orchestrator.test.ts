@@ -0,0 +1,370 @@
+import { describe, test, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  executeCacheGcCommand,
+  executeCacheListCommand,
+  executeCacheRemoveCommand,
+  executeCacheUpdateCommand,
+  executeCacheVerifyCommand,
+  formatBytes,
+} from '../../src/orchestrators/cache-orchestrator.js';
+import type { Logger } from '../../src/utils/logger.js';
+
+// Mock filesystem scanning, caches and prompts, keep pure helpers
+vi.mock('fs-extra');
+vi.mock('../../src/core/cache-manager.js');
+vi.mock('../../src/core/cache-scanner.js');
+vi.mock('../../src/core/remote-resolver.js');
+vi.mock('../../src/core/repository-scanner.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../src/core/repository-scanner.js')>()),
+  scanRepositories: vi.fn(),
+}));
+vi.mock('../../src/state/cache-states.js');
+vi.mock('../../src/core/alternates.js');
+
+import fs from 'fs-extra';
+import { findSharedClones } from '../../src/core/alternates.js';
+import {
+  createCache,
+  gcCache,
+  getCacheStats,
+  protectCacheObjects,
+  removeCache,
+  removeEmptyCacheParents,
+  updateCache,
+  verifyCache,
+} from '../../src/core/cache-manager.js';
+import { getCacheUrl, scanCacheDirectories } from '../../src/core/cache-scanner.js';
+import { resolveRemoteUrl } from '../../src/core/remote-resolver.js';
+import { scanRepositories } from '../../src/core/repository-scanner.js';
+import { cacheConfirmRemoval } from '../../src/state/cache-states.js';
+
+describe('cache-orchestrator', () => {
+  const mockLogger: Logger = {
+    info: vi.fn(),
+    success: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    startSpinner: vi.fn(),
+    updateSpinner: vi.fn(),
+    stopSpinner: vi.fn(),
+  } as unknown as Logger;
+
+  const caches = [
+    {
+      owner: 'org1',
+      repo: 'repo1',
+      cachePath: '/root/.gcpb/.cache/org1/repo1',
+      isValid: true,
+    },
+    {
+      owner: 'org1',
+      repo: 'old',
+      cachePath: '/root/.gcpb/.cache/org1/old',
+      isValid: true,
+    },
+    {
+      owner: 'org2',
+      repo: 'broken',
+      cachePath: '/root/.gcpb/.cache/org2/broken',
+      isValid: false,
+    },
+  ];
+
+  let consoleLogSpy: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+    vi.mocked(scanCacheDirectories).mockResolvedValue(caches);
+    vi.mocked(scanRepositories).mockResolvedValue([
+      { owner: 'org1', repo: 'repo1', branches: ['main'], fullPath: '/root/org1/repo1' },
+      { owner: 'org2', repo: 'broken', branches: ['main'], fullPath: '/root/org2/broken' },
+    ]);
+    vi.mocked(fs.readdir).mockResolvedValue(['other'] as any);
+    vi.mocked(findSharedClones).mockResolvedValue([]);
+    consoleLogSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    consoleLogSpy.mockRestore();
+  });
+
+  describe('formatBytes', () => {
+    test('should pick a binary unit', () => {
+      expect(formatBytes(512)).toBe('512 B');
+      expect(formatBytes(1536)).toBe('1.5 KB');
+      expect(formatBytes(5 * 1024 * 1024)).toBe('5.0 MB');
+    });
+  });
+
+  describe('executeCacheListCommand', () => {
+    test('should list caches with stats and whether they are still cloned', async () => {
+      vi.mocked(getCacheStats).mockImplementation(async (cachePath: string) => {
+        if (cachePath.endsWith('broken')) {
+          throw new Error('not a git repository');
+        }
+        return { sizeBytes: 2048, lastFetchedAt: '2024-05-01T10:00:00.000Z' };
+      });
+
+      const result = await executeCacheListCommand('/root', undefined, {}, mockLogger);
+
+      expect(result.success).toBe(true);
+      expect(result.entries).toEqual([
+        { ...caches[0], cloned: true, sizeBytes: 2048, lastFetchedAt: '2024-05-01T10:00:00.000Z' },
+        { ...caches[1], cloned: false, sizeBytes: 2048, lastFetchedAt: '2024-05-01T10:00:00.000Z' },
+        { ...caches[2], cloned: true },
+      ]);
+      const output = consoleLogSpy.mock.calls.map((call) => String(call[0])).join('\n');
+      expect(output).toContain('org1/old');
+      expect(output).toContain('2024-05-01 10:00');
+      expect(output).toContain('not cloned');
+      expect(output).toContain('invalid');
+    });
+
+    test('should scope by owner path', async () => {
+      vi.mocked(getCacheStats).mockResolvedValue({ sizeBytes: 0 });
+
+      const result = await executeCacheListCommand('/root', 'org1/', {}, mockLogger);
+
+      expect(result.entries?.map((e) => e.repo)).toEqual(['repo1', 'old']);
+    });
+
+    test('should print JSON', async () => {
+      vi.mocked(scanCacheDirectories).mockResolvedValue([]);
+
+      const result = await executeCacheListCommand('/root', undefined, { json: true }, mockLogger);
+
+      expect(result.success).toBe(true);
+      expect(consoleLogSpy).toHaveBeenCalledWith('[]');
+    });
+  });
+
+  describe('executeCacheUpdateCommand', () => {
+    test('should update valid caches and skip invalid ones', async () => {
+      const result = await executeCacheUpdateCommand('/root', undefined, mockLogger);
+
+      expect(result.success).toBe(true);
+      expect(updateCache).toHaveBeenCalledTimes(2);
+      expect(updateCache).toHaveBeenCalledWith('/root/.gcpb/.cache/org1/repo1');
+      expect(result.reports?.map((r) => r.outcome)).toEqual(['done', 'done', 'skipped']);
+      expect(mockLogger.success).toHaveBeenCalledWith('2 updated, 1 skipped, 0 failed');
+    });
+
+    test('should report failed updates without stopping', async () => {
+      vi.mocked(updateCache).mockRejectedValueOnce(new Error('network down'));
+
+      const result = await executeCacheUpdateCommand('/root', 'org1', mockLogger);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('1 cache failed');
+      expect(result.reports?.map((r) => r.outcome)).toEqual(['failed', 'done']);
+      expect(result.reports?.[0].message).toBe('network down');
+    });
+  });
+
+  describe('executeCacheGcCommand', () => {
+    test('should collect valid caches and report the size change', async () => {
+      vi.mocked(getCacheStats)
+        .mockResolvedValueOnce({ sizeBytes: 4 * 1024 * 1024 })
+        .mockResolvedValueOnce({ sizeBytes: 1024 * 1024 });
+
+      const result = await executeCacheGcCommand(
+        '/root',
+        'org1/repo1',
+        { aggressive: true },
+        mockLogger
+      );
+
+      expect(result.success).toBe(true);
+      expect(gcCache).toHaveBeenCalledWith('/root/.gcpb/.cache/org1/repo1', {
+        aggressive: true,
+        keepUnreachable: false,
+      });
+      expect(result.reports?.[0].message).toBe('4.0 MB → 1.0 MB');
+    });
+
+    test('should keep unreachable objects of caches used by shared clones', async () => {
+      vi.mocked(getCacheStats).mockResolvedValue({ sizeBytes: 1024 });
+      vi.mocked(findSharedClones).mockResolvedValue([
+        { owner: 'org1', repo: 'repo1', branch: 'main', path: '/root/org1/repo1/main' },
+      ]);
+
+      const result = await executeCacheGcCommand('/root', 'org1/repo1', {}, mockLogger);
+
+      expect(gcCache).toHaveBeenCalledWith('/root/.gcpb/.cache/org1/repo1', {
+        aggressive: undefined,
+        keepUnreachable: true,
+      });
+      expect(result.reports?.[0].message).toBe(
+        '1.0 KB → 1.0 KB (unreachable objects kept for 1 shared clone)'
+      );
+    });
+  });
+
+  describe('executeCacheRemoveCommand', () => {
+    test('should remove caches of repositories that are no longer cloned', async () => {
+      vi.mocked(cacheConfirmRemoval).mockResolvedValue({ value: { confirmed: true } });
+
+      const result = await executeCacheRemoveCommand('/root', undefined, {}, mockLogger);
+
+      expect(result.success).toBe(true);
+      expect(cacheConfirmRemoval).toHaveBeenCalledWith({
+        caches: ['org1/old'],
+        skipConfirmation: undefined,
+      });
+      expect(removeCache).toHaveBeenCalledTimes(1);
+      expect(removeCache).toHaveBeenCalledWith('/root/.gcpb/.cache/org1/old');
+    });
+
+    test('should remove every matching cache with --all', async () => {
+      vi.mocked(cacheConfirmRemoval).mockResolvedValue({ value: { confirmed: true } });
+
+      await executeCacheRemoveCommand('/root', 'org1', { all: true, yes: true }, mockLogger);
+
+      expect(cacheConfirmRemoval).toHaveBeenCalledWith({
+        caches: ['org1/repo1', 'org1/old'],
+        skipConfirmation: true,
+      });
+      expect(removeCache).toHaveBeenCalledTimes(2);
+    });
+
+    test('should remove owner directories left empty', async () => {
+      vi.mocked(cacheConfirmRemoval).mockResolvedValue({ value: { confirmed: true } });
+      vi.mocked(scanCacheDirectories).mockResolvedValue([
+        {
+          owner: 'gitlab.com/group',
+          repo: 'app',
+          cachePath: '/root/.gcpb/.cache/gitlab.com/group/app',
+          isValid: true,
+        },
+      ]);
+
+      await executeCacheRemoveCommand('/root', undefined, { yes: true }, mockLogger);
+
+      expect(removeEmptyCacheParents).toHaveBeenCalledWith(
+        '/root',
+        '/root/.gcpb/.cache/gitlab.com/group/app'
+      );
+    });
+
+    test('should keep caches that shared clones borrow objects from', async () => {
+      vi.mocked(cacheConfirmRemoval).mockResolvedValue({ value: { confirmed: true } });
+      vi.mocked(findSharedClones).mockImplementation(async (_repositories, cachePath) =>
+        cachePath.endsWith('repo1')
+          ? [{ owner: 'org1', repo: 'repo1', branch: 'main', path: '/root/org1/repo1/main' }]
+          : []
+      );
+
+      await executeCacheRemoveCommand('/root', 'org1', { all: true, yes: true }, mockLogger);
+
+      expect(mockLogger.warn).toHaveBeenCalledWith(
+        'Keeping org1/repo1: used by 1 shared clone (main)'
+      );
+      expect(removeCache).toHaveBeenCalledTimes(1);
+      expect(removeCache).toHaveBeenCalledWith('/root/.gcpb/.cache/org1/old');
+    });
+
+    test('should keep caches when removal is not confirmed', async () => {
+      vi.mocked(cacheConfirmRemoval).mockResolvedValue({ value: { confirmed: false } });
+
+      const result = await executeCacheRemoveCommand('/root', undefined, {}, mockLogger);
+
+      expect(result.success).toBe(true);
+      expect(removeCache).not.toHaveBeenCalled();
+    });
+
+    test('should not prompt when every cache is still cloned', async () => {
+      const result = await executeCacheRemoveCommand('/root', 'org1/repo1', {}, mockLogger);
+
+      expect(result.success).toBe(true);
+      expect(cacheConfirmRemoval).not.toHaveBeenCalled();
+      expect(mockLogger.info).toHaveBeenCalledWith(
+        'Every cache belongs to a cloned repository (use --all to remove them anyway)'
+      );
+    });
+  });
+
+  describe('executeCacheVerifyCommand', () => {
+    test('should recreate broken caches from their own remote', async () => {
+      vi.mocked(verifyCache).mockImplementation(
+        async (cachePath: string) => !cachePath.endsWith('broken')
+      );
+      vi.mocked(getCacheUrl).mockResolvedValue('https://github.com/org2/broken.git');
+
+      const result = await executeCacheVerifyCommand('/root', undefined, mockLogger);
+
+      expect(result.success).toBe(true);
+      expect(result.reports?.map((r) => r.outcome)).toEqual(['ok', 'ok', 'done']);
+      expect(removeCache).toHaveBeenCalledWith('/root/.gcpb/.cache/org2/broken');
+      expect(createCache).toHaveBeenCalledWith({
+        url: 'https://github.com/org2/broken.git',
+        owner: 'org2',
+        repo: 'broken',
+        rootDir: '/root',
+      });
+      expect(mockLogger.success).toHaveBeenCalledWith('1 repaired, 2 ok, 0 failed');
+    });
+
+    test('should refetch caches used by shared clones in place', async () => {
+      vi.mocked(verifyCache).mockResolvedValueOnce(false).mockResolvedValueOnce(true);
+      vi.mocked(findSharedClones).mockResolvedValue([
+        { owner: 'org1', repo: 'repo1', branch: 'main', path: '/root/org1/repo1/main' },
+      ]);
+
+      const result = await executeCacheVerifyCommand('/root', 'org1/repo1', mockLogger);
+
+      expect(result.success).toBe(true);
+      expect(removeCache).not.toHaveBeenCalled();
+      expect(createCache).not.toHaveBeenCalled();
+      expect(updateCache).toHaveBeenCalledWith('/root/.gcpb/.cache/org1/repo1');
+      expect(protectCacheObjects).toHaveBeenCalledWith('/root/.gcpb/.cache/org1/repo1');
+      expect(result.reports?.[0]).toMatchObject({
+        outcome: 'done',
+        message: 'invalid, refetched in place for 1 shared clone (main)',
+      });
+    });
+
+    test('should keep caches used by shared clones when refetching does not repair them', async () => {
+      vi.mocked(verifyCache).mockResolvedValue(false);
+      vi.mocked(findSharedClones).mockResolvedValue([
+        { owner: 'org1', repo: 'repo1', branch: 'main', path: '/root/org1/repo1/main' },
+      ]);
+
+      const result = await executeCacheVerifyCommand('/root', 'org1/repo1', mockLogger);
+
+      expect(result.success).toBe(false);
+      expect(removeCache).not.toHaveBeenCalled();
+      expect(result.reports?.[0].message).toBe(
+        'invalid, kept for 1 shared clone (main), re-clone to repair it'
+      );
+    });
+
+    test('should fall back to the URL of a clone', async () => {
+      vi.mocked(verifyCache).mockResolvedValue(false);
+      vi.mocked(getCacheUrl).mockRejectedValue(new Error('No origin remote found in cache'));
+      vi.mocked(resolveRemoteUrl).mockResolvedValue({
+        found: true,
+        url: 'https://github.com/org2/broken.git',
+      });
+
+      const result = await executeCacheVerifyCommand('/root', 'org2', mockLogger);
+
+      expect(result.success).toBe(true);
+      expect(resolveRemoteUrl).toHaveBeenCalledWith('/root', 'org2', 'broken');
+      expect(createCache).toHaveBeenCalledWith(
+        expect.objectContaining({ url: 'https://github.com/org2/broken.git' })
+      );
+    });
+
+    test('should fail for broken caches without a known URL', async () => {
+      vi.mocked(verifyCache).mockResolvedValue(false);
+      vi.mocked(getCacheUrl).mockRejectedValue(new Error('No origin remote found in cache'));
+      vi.mocked(resolveRemoteUrl).mockResolvedValue({ found: false });
+
+      const result = await executeCacheVerifyCommand('/root', 'org2', mockLogger);
+
+      expect(result.success).toBe(false);
+      expect(removeCache).not.toHaveBeenCalled();
+      expect(createCache).not.toHaveBeenCalled();
+    });
+  });
+});
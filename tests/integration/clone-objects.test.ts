@@ -0,0 +1,157 @@
+import { describe, test, expect, beforeEach, afterEach } from 'vitest';
+import { cloneRepository } from '../../src/core/clone.js';
+import { rmInspectBranches } from '../../src/state/rm-states.js';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import simpleGit from 'simple-git';
+
+// Note: This test runs real git against a local repository standing in for GitHub
+// (url.<path>.insteadOf), to check which objects and files end up in the clone
+
+describe('clone objects (integration)', () => {
+  const cloneUrl = 'https://github.com/acme/web.git';
+  let tmpDir: string;
+  let rootDir: string;
+  let remotePath: string;
+  let gitConfigPath: string;
+  let originalGlobalConfig: string | undefined;
+
+  // Count the objects of each type stored in a repository
+  const countObjects = async (repoPath: string): Promise<Record<string, number>> => {
+    const output = await simpleGit(repoPath).raw([
+      'cat-file',
+      '--batch-all-objects',
+      '--batch-check=%(objecttype)',
+    ]);
+    const counts: Record<string, number> = {};
+    for (const type of output.split('\n').filter(Boolean)) {
+      counts[type] = (counts[type] ?? 0) + 1;
+    }
+    return counts;
+  };
+
+  beforeEach(async () => {
+    tmpDir = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'gcpb-objects-')));
+    rootDir = path.join(tmpDir, 'root');
+    await fs.ensureDir(rootDir);
+
+    // Isolate git from the user's config and map the GitHub URL to the local repository
+    remotePath = path.join(tmpDir, 'web');
+    gitConfigPath = path.join(tmpDir, 'gitconfig');
+    await fs.writeFile(
+      gitConfigPath,
+      `[user]\n\tname = gcpb\n\temail = gcpb@example.com\n` +
+        `[init]\n\tdefaultBranch = main\n` +
+        `[url "${remotePath}"]\n\tinsteadOf = ${cloneUrl}\n`
+    );
+    originalGlobalConfig = process.env.GIT_CONFIG_GLOBAL;
+    process.env.GIT_CONFIG_GLOBAL = gitConfigPath;
+
+    // Five versions of one file: five blobs in history, one at the tip
+    await fs.ensureDir(remotePath);
+    const git = simpleGit(remotePath);
+    await git.init();
+    for (let version = 1; version <= 5; version++) {
+      await fs.writeFile(path.join(remotePath, 'app.txt'), `version ${version}\n`);
+      await git.add('app.txt');
+      await git.commit(`Version ${version}`);
+    }
+  });
+
+  afterEach(async () => {
+    if (originalGlobalConfig === undefined) {
+      delete process.env.GIT_CONFIG_GLOBAL;
+    } else {
+      process.env.GIT_CONFIG_GLOBAL = originalGlobalConfig;
+    }
+    await fs.remove(tmpDir);
+  });
+
+  test('should copy every object into a full clone', async () => {
+    const result = await cloneRepository({
+      cloneUrl,
+      baseBranch: 'main',
+      targetBranch: 'main',
+      rootDir,
+    });
+
+    expect(result.success).toBe(true);
+    expect(await countObjects(result.targetPath!)).toEqual({ commit: 5, tree: 5, blob: 5 });
+  });
+
+  test('should leave out the blobs a filtered clone does not check out', async () => {
+    const result = await cloneRepository({
+      cloneUrl,
+      baseBranch: 'main',
+      targetBranch: 'main',
+      rootDir,
+      filter: 'blob:none',
+    });
+
+    expect(result.success).toBe(true);
+    expect(await countObjects(result.targetPath!)).toEqual({ commit: 5, tree: 5, blob: 1 });
+    const clone = simpleGit(result.targetPath!);
+    expect((await clone.getConfig('remote.origin.url')).value).toBe(cloneUrl);
+    expect(await fs.readFile(path.join(result.targetPath!, 'app.txt'), 'utf8')).toBe('version 5\n');
+  });
+
+  test('should keep LFS pointer files despite a global LFS filter when LFS is off', async () => {
+    // Stand-in for "git lfs install": a global smudge filter that honours GIT_LFS_SKIP_SMUDGE
+    const smudgePath = path.join(tmpDir, 'smudge.sh');
+    await fs.writeFile(
+      smudgePath,
+      'if [ -n "$GIT_LFS_SKIP_SMUDGE" ]; then cat; else cat >/dev/null; echo downloaded; fi\n'
+    );
+    await fs.appendFile(
+      gitConfigPath,
+      `[filter "lfs"]\n\tsmudge = sh ${smudgePath}\n\tclean = cat\n\trequired = true\n`
+    );
+    const pointer = 'version https://git-lfs.github.com/spec/v1\noid sha256:0\nsize 1\n';
+    await fs.writeFile(path.join(remotePath, '.gitattributes'), '*.bin filter=lfs -text\n');
+    await fs.writeFile(path.join(remotePath, 'model.bin'), pointer);
+    await simpleGit(remotePath).add(['.gitattributes', 'model.bin']).commit('Add model');
+
+    const result = await cloneRepository({
+      cloneUrl,
+      baseBranch: 'main',
+      targetBranch: 'feat/x',
+      rootDir,
+      lfs: false,
+    });
+
+    expect(result.success).toBe(true);
+    expect(await fs.readFile(path.join(result.targetPath!, 'model.bin'), 'utf8')).toBe(pointer);
+  });
+
+  test('should let rm remove a fresh pull request clone without reporting unpushed commits', async () => {
+    // A fork commit only reachable from the pull request head
+    const remote = simpleGit(remotePath);
+    await remote.checkoutLocalBranch('fork');
+    await fs.writeFile(path.join(remotePath, 'app.txt'), 'fork\n');
+    await remote.add('app.txt').commit('Fork change');
+    await remote.raw(['update-ref', 'refs/pull/1/head', 'HEAD']);
+    await remote.checkout('main');
+    await remote.deleteLocalBranch('fork', true);
+
+    const result = await cloneRepository({
+      cloneUrl,
+      baseBranch: 'refs/pull/1/head',
+      targetBranch: 'pr-1',
+      rootDir,
+      pullRequest: 1,
+    });
+
+    expect(result.success).toBe(true);
+    const clone = simpleGit(result.targetPath!);
+    expect((await clone.revparse(['--abbrev-ref', '@{u}'])).trim()).toBe('origin/pr/1');
+
+    const inspected = await rmInspectBranches({
+      rootDir,
+      org: 'acme',
+      repo: 'web',
+      branches: ['pr-1'],
+    });
+    expect(inspected.value.unsavedWork).toEqual({});
+  });
+});
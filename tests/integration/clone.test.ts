@@ -239,6 +239,199 @@ describe('clone (integration)', () => {
     });
   });
 
+  describe('pull requests', () => {
+    test('should fetch the pull request head and create the local branch at it', async () => {
+      vi.mocked(fs.pathExists).mockResolvedValue(false);
+      vi.mocked(fs.ensureDir).mockResolvedValue(undefined);
+
+      const mockGit = createMockGit({
+        clone: vi.fn().mockResolvedValue(undefined),
+        revparse: vi.fn().mockResolvedValue('origin/main'),
+        checkoutBranch: vi.fn().mockResolvedValue(undefined),
+        raw: vi.fn().mockResolvedValue(''),
+      });
+      vi.mocked(simpleGit).mockReturnValue(mockGit as any);
+
+      const result = await cloneRepository({
+        cloneUrl: 'https://github.com/user/repo.git',
+        baseBranch: 'refs/pull/12/head',
+        targetBranch: 'pr-12',
+        rootDir: '/test/root',
+        pullRequest: 12,
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.targetPath).toBe('/test/root/user/repo/pr-12');
+      // Fetched into the cache first, then into the clone from the cache
+      expect(mockGit.fetch).toHaveBeenCalledWith([
+        'origin',
+        '+refs/pull/12/head:refs/pull/12/head',
+      ]);
+      expect(mockGit.fetch).toHaveBeenCalledWith(
+        '/test/root/.gcpb/.cache/user/repo',
+        '+refs/pull/12/head:refs/remotes/origin/pr/12'
+      );
+      expect(mockGit.checkoutBranch).toHaveBeenCalledWith('pr-12', 'refs/remotes/origin/pr/12');
+      // The branch tracks the pull request head, so its commits aren't reported as unpushed
+      expect(mockGit.raw).toHaveBeenCalledWith([
+        'config',
+        '--add',
+        'remote.origin.fetch',
+        '+refs/pull/12/head:refs/remotes/origin/pr/12',
+      ]);
+      expect(mockGit.raw).toHaveBeenCalledWith(['config', 'branch.pr-12.remote', 'origin']);
+      expect(mockGit.raw).toHaveBeenCalledWith([
+        'config',
+        'branch.pr-12.merge',
+        'refs/pull/12/head',
+      ]);
+    });
+
+    test('should use the merge request ref on GitLab', async () => {
+      vi.mocked(fs.pathExists).mockResolvedValue(false);
+      vi.mocked(fs.ensureDir).mockResolvedValue(undefined);
+
+      const mockGit = createMockGit({
+        clone: vi.fn().mockResolvedValue(undefined),
+        revparse: vi.fn().mockResolvedValue('origin/main'),
+        raw: vi.fn().mockResolvedValue(''),
+      });
+      vi.mocked(simpleGit).mockReturnValue(mockGit as any);
+
+      const result = await cloneRepository({
+        cloneUrl: 'https://gitlab.com/group/repo.git',
+        baseBranch: 'refs/merge-requests/7/head',
+        targetBranch: 'pr-7',
+        rootDir: '/test/root',
+        pullRequest: 7,
+      });
+
+      expect(result.success).toBe(true);
+      expect(mockGit.fetch).toHaveBeenCalledWith(
+        '/test/root/.gcpb/.cache/group/repo',
+        '+refs/merge-requests/7/head:refs/remotes/origin/mr/7'
+      );
+    });
+
+    test('should report a missing pull request and clean up', async () => {
+      // Only the clone itself exists once it has been created
+      let cloned = false;
+      vi.mocked(fs.pathExists).mockImplementation(
+        async (p: any) => cloned && p.toString().endsWith('pr-99')
+      );
+      vi.mocked(fs.ensureDir).mockResolvedValue(undefined);
+
+      const mockGit = createMockGit({
+        clone: vi.fn().mockImplementation(async () => {
+          cloned = true;
+        }),
+        revparse: vi.fn().mockResolvedValue('origin/main'),
+        fetch: vi.fn().mockRejectedValue(new Error("couldn't find remote ref refs/pull/99/head")),
+      });
+      vi.mocked(simpleGit).mockReturnValue(mockGit as any);
+
+      const result = await cloneRepository({
+        cloneUrl: 'https://github.com/user/repo.git',
+        baseBranch: 'refs/pull/99/head',
+        targetBranch: 'pr-99',
+        rootDir: '/test/root',
+        pullRequest: 99,
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBeInstanceOf(GCPBError);
+      expect(result.error?.message).toBe('Pull request #99 not found');
+      // The cache fetch failed too, so the clone fell back to origin
+      expect(mockGit.fetch).toHaveBeenCalledWith(
+        'origin',
+        '+refs/pull/99/head:refs/remotes/origin/pr/99'
+      );
+      expect(fs.remove).toHaveBeenCalledWith('/test/root/user/repo/pr-99');
+    });
+
+    test('should refuse pull requests from unsupported forges', async () => {
+      const result = await cloneRepository({
+        cloneUrl: 'https://bitbucket.org/user/repo.git',
+        baseBranch: 'main',
+        targetBranch: 'pr-1',
+        rootDir: '/test/root',
+        pullRequest: 1,
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error?.message).toBe('Cannot fetch pull requests from bitbucket.org');
+      expect(simpleGit).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('branch naming', () => {
+    test('should follow branchNaming and record the real branch name', async () => {
+      vi.mocked(fs.pathExists).mockResolvedValue(false);
+      vi.mocked(fs.ensureDir).mockResolvedValue(undefined);
+      vi.mocked(fs.readJson).mockResolvedValue({ version: '1.0.0', branchNaming: 'escape' });
+
+      const mockGit = createMockGit({
+        clone: vi.fn().mockResolvedValue(undefined),
+        revparse: vi.fn().mockResolvedValue('origin/main'),
+        branch: vi.fn().mockResolvedValue({
+          all: ['main'],
+          branches: {},
+          current: 'main',
+          detached: false,
+        }),
+        checkoutBranch: vi.fn().mockResolvedValue(undefined),
+      });
+      vi.mocked(simpleGit).mockReturnValue(mockGit as any);
+
+      const result = await cloneRepository({
+        cloneUrl: 'https://github.com/user/repo.git',
+        baseBranch: 'main',
+        targetBranch: 'feature/login',
+        rootDir: '/test/root',
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.targetPath).toBe('/test/root/user/repo/feature%2Flogin');
+      expect(fs.writeJson).toHaveBeenCalledWith(
+        '/test/root/.gcpb/state.json',
+        {
+          clones: {
+            'user/repo/feature%2Flogin': {
+              branch: 'feature/login',
+              url: 'https://github.com/user/repo.git',
+              baseBranch: 'main',
+              createdAt: expect.any(String),
+              gcpbVersion: expect.any(String),
+            },
+          },
+        },
+        { spaces: 2 }
+      );
+    });
+
+    test('should explain when another branch already uses the directory', async () => {
+      vi.mocked(fs.pathExists).mockResolvedValue(true);
+      vi.mocked(fs.readJson).mockImplementation((async (file: string) =>
+        file.endsWith('state.json')
+          ? { clones: { 'user/repo/feat-login': { branch: 'feat-login' } } }
+          : { version: '1.0.0' }) as any);
+
+      const result = await cloneRepository({
+        cloneUrl: 'https://github.com/user/repo.git',
+        baseBranch: 'main',
+        targetBranch: 'feat/login',
+        rootDir: '/test/root',
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error?.message).toBe(
+        'Directory /test/root/user/repo/feat-login already holds branch "feat-login"'
+      );
+      expect((result.error as GCPBError).suggestion).toContain('branchNaming');
+      expect(fs.remove).not.toHaveBeenCalled();
+    });
+  });
+
   describe('cache functionality', () => {
     test('should create cache on first clone and use it', async () => {
       // First call: cache doesn't exist
@@ -287,6 +480,177 @@ describe('clone (integration)', () => {
       );
     });
 
+    test('should keep the link to the cache for shared clones', async () => {
+      vi.mocked(fs.pathExists).mockResolvedValue(false);
+      vi.mocked(fs.ensureDir).mockResolvedValue(undefined);
+
+      const mockGit = createMockGit({
+        clone: vi.fn().mockResolvedValue(undefined),
+        revparse: vi.fn().mockResolvedValue('origin/main'),
+        raw: vi.fn().mockResolvedValue(''),
+      });
+      vi.mocked(simpleGit).mockReturnValue(mockGit as any);
+
+      const result = await cloneRepository({
+        cloneUrl: 'https://github.com/user/repo.git',
+        baseBranch: 'main',
+        targetBranch: 'main',
+        rootDir: '/test/root',
+        shared: true,
+      });
+
+      expect(result.success).toBe(true);
+      expect(mockGit.clone).toHaveBeenCalledWith(
+        'https://github.com/user/repo.git',
+        '/test/root/user/repo/main',
+        ['--reference', '/test/root/.gcpb/.cache/user/repo']
+      );
+      // Automatic gc in the cache must not prune objects the clone borrows
+      expect(mockGit.raw).toHaveBeenCalledWith(['config', 'gc.pruneExpire', 'never']);
+    });
+
+    test('should pass shallow, partial and sparse options to the clone', async () => {
+      vi.mocked(fs.pathExists).mockResolvedValue(false);
+      vi.mocked(fs.ensureDir).mockResolvedValue(undefined);
+
+      const mockGit = createMockGit({
+        clone: vi.fn().mockResolvedValue(undefined),
+        revparse: vi.fn().mockResolvedValue('origin/main'),
+        raw: vi.fn().mockResolvedValue(''),
+      });
+      vi.mocked(simpleGit).mockReturnValue(mockGit as any);
+
+      const result = await cloneRepository({
+        cloneUrl: 'https://github.com/user/repo.git',
+        baseBranch: 'main',
+        targetBranch: 'main',
+        rootDir: '/test/root',
+        depth: 1,
+        filter: 'blob:none',
+        sparse: ['apps/web', 'packages'],
+      });
+
+      expect(result.success).toBe(true);
+      // Filtered clones come from the cache itself, then origin points back at the repository
+      expect(mockGit.raw).toHaveBeenCalledWith(['config', 'uploadpack.allowFilter', 'true']);
+      expect(mockGit.clone).toHaveBeenCalledWith(
+        'file:///test/root/.gcpb/.cache/user/repo',
+        '/test/root/user/repo/main',
+        ['--depth', '1', '--no-single-branch', '--filter=blob:none', '--sparse']
+      );
+      expect(mockGit.raw).toHaveBeenCalledWith([
+        'remote',
+        'set-url',
+        'origin',
+        'https://github.com/user/repo.git',
+      ]);
+      expect(mockGit.raw).toHaveBeenCalledWith([
+        'sparse-checkout',
+        'set',
+        '--cone',
+        'apps/web',
+        'packages',
+      ]);
+    });
+
+    test('should check out submodules when requested', async () => {
+      vi.mocked(fs.pathExists).mockImplementation(async (p: any) =>
+        String(p).endsWith('.gitmodules')
+      );
+      vi.mocked(fs.ensureDir).mockResolvedValue(undefined);
+
+      const mockGit = createMockGit({
+        clone: vi.fn().mockResolvedValue(undefined),
+        revparse: vi.fn().mockResolvedValue('origin/main'),
+        raw: vi.fn().mockResolvedValue(''),
+      });
+      vi.mocked(simpleGit).mockReturnValue(mockGit as any);
+      const onProgress = vi.fn();
+
+      const result = await cloneRepository({
+        cloneUrl: 'https://github.com/user/repo.git',
+        baseBranch: 'main',
+        targetBranch: 'main',
+        rootDir: '/test/root',
+        submodules: true,
+        onProgress,
+      });
+
+      expect(result.success).toBe(true);
+      expect(mockGit.raw).toHaveBeenCalledWith(['submodule', 'init']);
+      expect(onProgress).toHaveBeenCalledWith('Checking out submodules...');
+      expect(result.timings).toEqual({
+        total: expect.any(Number),
+        cache: expect.any(Number),
+        clone: expect.any(Number),
+        checkout: expect.any(Number),
+        submodules: expect.any(Number),
+      });
+    });
+
+    test('should report each phase and forward git progress', async () => {
+      vi.mocked(fs.pathExists).mockResolvedValue(false);
+      vi.mocked(fs.ensureDir).mockResolvedValue(undefined);
+
+      const mockGit = createMockGit({
+        clone: vi.fn().mockResolvedValue(undefined),
+        revparse: vi.fn().mockResolvedValue('origin/main'),
+      });
+      vi.mocked(simpleGit).mockReturnValue(mockGit as any);
+      const onProgress = vi.fn();
+
+      const result = await cloneRepository({
+        cloneUrl: 'https://github.com/user/repo.git',
+        baseBranch: 'main',
+        targetBranch: 'main',
+        rootDir: '/test/root',
+        onProgress,
+      });
+
+      expect(result.success).toBe(true);
+      expect(onProgress.mock.calls.map(([message]) => message)).toEqual([
+        'Preparing repository cache...',
+        'Checking out main...',
+      ]);
+
+      // Creating the mirror cache reports git's progress
+      const cloneGitOptions = vi
+        .mocked(simpleGit)
+        .mock.calls.map(([options]) => options)
+        .find((options: any) => options?.progress && !options.baseDir) as any;
+      cloneGitOptions.progress({
+        method: 'clone',
+        stage: 'receiving',
+        progress: 50,
+        processed: 5,
+        total: 10,
+      });
+      expect(onProgress).toHaveBeenCalledWith('Mirroring repository: receiving 50% (5/10)');
+    });
+
+    test('should reject invalid partial clone options before cloning', async () => {
+      vi.mocked(fs.pathExists).mockResolvedValue(false);
+
+      const mockGit = createMockGit({
+        clone: vi.fn().mockResolvedValue(undefined),
+      });
+      vi.mocked(simpleGit).mockReturnValue(mockGit as any);
+
+      const result = await cloneRepository({
+        cloneUrl: 'https://github.com/user/repo.git',
+        baseBranch: 'main',
+        targetBranch: 'main',
+        rootDir: '/test/root',
+        filter: 'sparse:oid=HEAD',
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error?.message).toBe(
+        'Invalid filter "sparse:oid=HEAD", expected "blob:none", "tree:0" or "blob:limit=<size>"'
+      );
+      expect(mockGit.clone).not.toHaveBeenCalled();
+    });
+
     // Note: Cache update test is complex due to multiple simpleGit instances
     // The cache update functionality is implicitly tested through the other tests
     test.skip('should update cache on subsequent clones', async () => {
@@ -6,13 +6,20 @@ import {
 import type { Logger } from '../../src/utils/logger.js';
 
 // Mock all dependencies
-vi.mock('../../src/core/repository-scanner.js');
+vi.mock('../../src/core/repository-scanner.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../src/core/repository-scanner.js')>()),
+  scanRepositories: vi.fn(),
+}));
 vi.mock('../../src/state/open-states.js');
 vi.mock('../../src/core/editor.js');
+vi.mock('../../src/core/editor-registry.js');
+vi.mock('../../src/core/metadata-store.js');
 
 import { scanRepositories } from '../../src/core/repository-scanner.js';
 import { openSelectOrg, openSelectRepo, openSelectBranch } from '../../src/state/open-states.js';
-import { openInVSCode } from '../../src/core/editor.js';
+import { openInEditor } from '../../src/core/editor.js';
+import { resolveEditor } from '../../src/core/editor-registry.js';
+import type { EditorDefinition } from '../../src/types/index.js';
 
 describe('code-orchestrator', () => {
   const mockLogger: Logger = {
@@ -23,8 +30,16 @@ describe('code-orchestrator', () => {
     debug: vi.fn(),
   };
 
+  const vscode: EditorDefinition = {
+    id: 'vscode',
+    name: 'VSCode',
+    command: 'code',
+    args: ['{path}'],
+  };
+
   beforeEach(() => {
     vi.resetAllMocks();
+    vi.mocked(resolveEditor).mockResolvedValue(vscode);
   });
 
   describe('executeCodeCommand (direct mode)', () => {
@@ -39,14 +54,18 @@ describe('code-orchestrator', () => {
       ];
 
       vi.mocked(scanRepositories).mockResolvedValue(repositories);
-      vi.mocked(openInVSCode).mockResolvedValue(true);
+      vi.mocked(openInEditor).mockResolvedValue(true);
 
       const result = await executeCodeCommand('/root', 'org1/repo1/main', mockLogger);
 
       expect(result.success).toBe(true);
       expect(result.targetPath).toBe('/root/org1/repo1/main');
       expect(scanRepositories).toHaveBeenCalledWith('/root');
-      expect(openInVSCode).toHaveBeenCalledWith({ targetPath: '/root/org1/repo1/main' });
+      expect(resolveEditor).toHaveBeenCalledWith('/root', undefined);
+      expect(openInEditor).toHaveBeenCalledWith({
+        targetPath: '/root/org1/repo1/main',
+        editor: vscode,
+      });
     });
 
     test('should return error when path is incomplete', async () => {
@@ -85,6 +104,57 @@ describe('code-orchestrator', () => {
       expect(result.error).toContain('nonexistent');
     });
 
+    test('should open with the editor given by --editor', async () => {
+      const cursor: EditorDefinition = {
+        ...vscode,
+        id: 'cursor',
+        name: 'Cursor',
+        command: 'cursor',
+      };
+      vi.mocked(scanRepositories).mockResolvedValue([
+        {
+          owner: 'org1',
+          repo: 'repo1',
+          branches: ['main'],
+          fullPath: '/root/org1/repo1',
+        },
+      ]);
+      vi.mocked(resolveEditor).mockResolvedValue(cursor);
+      vi.mocked(openInEditor).mockResolvedValue(true);
+
+      const result = await executeCodeCommand('/root', 'org1/repo1/main', mockLogger, {
+        editor: 'cursor',
+      });
+
+      expect(result.success).toBe(true);
+      expect(resolveEditor).toHaveBeenCalledWith('/root', 'cursor');
+      expect(openInEditor).toHaveBeenCalledWith({
+        targetPath: '/root/org1/repo1/main',
+        editor: cursor,
+      });
+      expect(mockLogger.success).toHaveBeenCalledWith('Successfully opened in Cursor');
+    });
+
+    test('should return error for unknown editor', async () => {
+      vi.mocked(scanRepositories).mockResolvedValue([
+        {
+          owner: 'org1',
+          repo: 'repo1',
+          branches: ['main'],
+          fullPath: '/root/org1/repo1',
+        },
+      ]);
+      vi.mocked(resolveEditor).mockRejectedValue(new Error('Unknown editor "vim"'));
+
+      const result = await executeCodeCommand('/root', 'org1/repo1/main', mockLogger, {
+        editor: 'vim',
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Unknown editor "vim"');
+      expect(openInEditor).not.toHaveBeenCalled();
+    });
+
     test('should handle VSCode not available', async () => {
       const repositories = [
         {
@@ -96,12 +166,12 @@ describe('code-orchestrator', () => {
       ];
 
       vi.mocked(scanRepositories).mockResolvedValue(repositories);
-      vi.mocked(openInVSCode).mockResolvedValue(false);
+      vi.mocked(openInEditor).mockResolvedValue(false);
 
       const result = await executeCodeCommand('/root', 'org1/repo1/main', mockLogger);
 
       expect(result.success).toBe(true);
-      expect(result.vscodeOpened).toBe(false);
+      expect(result.editorOpened).toBe(false);
       expect(result.error).toBeUndefined();
       expect(result.targetPath).toBe('/root/org1/repo1/main');
     });
@@ -122,7 +192,7 @@ describe('code-orchestrator', () => {
       vi.mocked(openSelectOrg).mockResolvedValue({ value: { org: 'org1' } });
       vi.mocked(openSelectRepo).mockResolvedValue({ value: { repo: 'repo1' } });
       vi.mocked(openSelectBranch).mockResolvedValue({ value: { branch: 'main' } });
-      vi.mocked(openInVSCode).mockResolvedValue(true);
+      vi.mocked(openInEditor).mockResolvedValue(true);
 
       const result = await executeCodeCommandInteractive('/root', undefined, mockLogger);
 
@@ -156,7 +226,7 @@ describe('code-orchestrator', () => {
       vi.mocked(openSelectOrg).mockResolvedValue({ value: { org: 'org1' } });
       vi.mocked(openSelectRepo).mockResolvedValue({ value: { repo: 'repo1' } });
       vi.mocked(openSelectBranch).mockResolvedValue({ value: { branch: 'main' } });
-      vi.mocked(openInVSCode).mockResolvedValue(true);
+      vi.mocked(openInEditor).mockResolvedValue(true);
 
       const result = await executeCodeCommandInteractive('/root', 'org1', mockLogger);
 
@@ -181,7 +251,7 @@ describe('code-orchestrator', () => {
       vi.mocked(openSelectOrg).mockResolvedValue({ value: { org: 'org1' } });
       vi.mocked(openSelectRepo).mockResolvedValue({ value: { repo: 'repo1' } });
       vi.mocked(openSelectBranch).mockResolvedValue({ value: { branch: 'main' } });
-      vi.mocked(openInVSCode).mockResolvedValue(true);
+      vi.mocked(openInEditor).mockResolvedValue(true);
 
       const result = await executeCodeCommandInteractive('/root', 'org1/repo1', mockLogger);
 
@@ -221,7 +291,7 @@ describe('code-orchestrator', () => {
       vi.mocked(openSelectOrg).mockResolvedValue({ value: { org: 'org1' } });
       vi.mocked(openSelectRepo).mockResolvedValue({ value: { repo: 'repo1' } });
       vi.mocked(openSelectBranch).mockResolvedValue({ value: { branch: 'main' } });
-      vi.mocked(openInVSCode).mockResolvedValue(true);
+      vi.mocked(openInEditor).mockResolvedValue(true);
 
       const result = await executeCodeCommandInteractive('/root');
 
@@ -243,12 +313,12 @@ describe('code-orchestrator', () => {
       vi.mocked(openSelectOrg).mockResolvedValue({ value: { org: 'org1' } });
       vi.mocked(openSelectRepo).mockResolvedValue({ value: { repo: 'repo1' } });
       vi.mocked(openSelectBranch).mockResolvedValue({ value: { branch: 'main' } });
-      vi.mocked(openInVSCode).mockResolvedValue(false);
+      vi.mocked(openInEditor).mockResolvedValue(false);
 
       const result = await executeCodeCommandInteractive('/root', undefined, mockLogger);
 
       expect(result.success).toBe(true);
-      expect(result.vscodeOpened).toBe(false);
+      expect(result.editorOpened).toBe(false);
       expect(result.error).toBeUndefined();
       expect(result.targetPath).toBe('/root/org1/repo1/main');
     });
@@ -0,0 +1,149 @@
+import { describe, test, expect, vi, beforeEach, afterEach } from 'vitest';
+import { executeDoctorCommand } from '../../src/orchestrators/doctor-orchestrator.js';
+import type { Logger } from '../../src/utils/logger.js';
+
+// Mock filesystem scanning, alternates and caches, keep pure helpers
+vi.mock('../../src/core/repository-scanner.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../src/core/repository-scanner.js')>()),
+  scanRepositories: vi.fn(),
+}));
+vi.mock('../../src/core/alternates.js');
+vi.mock('../../src/core/cache-manager.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../src/core/cache-manager.js')>()),
+  ensureCache: vi.fn(),
+  protectCacheObjects: vi.fn(),
+}));
+vi.mock('../../src/core/remote-resolver.js');
+
+import { scanRepositories } from '../../src/core/repository-scanner.js';
+import { checkAlternates, getAlternates } from '../../src/core/alternates.js';
+import { ensureCache, protectCacheObjects } from '../../src/core/cache-manager.js';
+import { resolveRemoteUrl } from '../../src/core/remote-resolver.js';
+
+describe('doctor-orchestrator', () => {
+  const mockLogger: Logger = {
+    info: vi.fn(),
+    success: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    startSpinner: vi.fn(),
+    updateSpinner: vi.fn(),
+    stopSpinner: vi.fn(),
+  } as unknown as Logger;
+
+  const cacheObjects = '/root/.gcpb/.cache/org1/repo1/objects';
+
+  let consoleLogSpy: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+    vi.mocked(scanRepositories).mockResolvedValue([
+      {
+        owner: 'org1',
+        repo: 'repo1',
+        branches: ['main', 'feat-a', 'feat-b'],
+        fullPath: '/root/org1/repo1',
+      },
+    ]);
+    // main is independent, feat-a and feat-b borrow from the cache
+    vi.mocked(getAlternates).mockImplementation(async (clonePath: string) =>
+      clonePath.endsWith('main') ? [] : [cacheObjects]
+    );
+    consoleLogSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    consoleLogSpy.mockRestore();
+  });
+
+  test('should check shared clones only', async () => {
+    vi.mocked(checkAlternates).mockResolvedValue(null);
+
+    const result = await executeDoctorCommand('/root', undefined, {}, mockLogger);
+
+    expect(result.success).toBe(true);
+    expect(result.entries?.map((e) => [e.branch, e.outcome])).toEqual([
+      ['feat-a', 'ok'],
+      ['feat-b', 'ok'],
+    ]);
+    expect(checkAlternates).toHaveBeenCalledTimes(2);
+    expect(mockLogger.success).toHaveBeenCalledWith('2 shared clones healthy');
+  });
+
+  test('should report broken alternates without fixing them', async () => {
+    vi.mocked(checkAlternates).mockImplementation(async (clonePath: string) =>
+      clonePath.endsWith('feat-b')
+        ? `borrows objects from ${cacheObjects}, which no longer exists`
+        : null
+    );
+
+    const result = await executeDoctorCommand('/root', undefined, {}, mockLogger);
+
+    expect(result.success).toBe(false);
+    expect(result.entries?.[1]).toMatchObject({ branch: 'feat-b', outcome: 'broken' });
+    expect(ensureCache).not.toHaveBeenCalled();
+    expect(mockLogger.warn).toHaveBeenCalledWith(
+      '1 shared clone cannot read borrowed objects (run "gcpb doctor --fix" to refresh their caches)'
+    );
+  });
+
+  test('should refresh the cache with --fix', async () => {
+    vi.mocked(checkAlternates)
+      .mockResolvedValueOnce(`borrows objects from ${cacheObjects}, which no longer exists`)
+      .mockResolvedValueOnce(null);
+    vi.mocked(resolveRemoteUrl).mockResolvedValue({
+      found: true,
+      url: 'https://github.com/org1/repo1.git',
+    });
+
+    const result = await executeDoctorCommand(
+      '/root',
+      'org1/repo1/feat-a',
+      { fix: true },
+      mockLogger
+    );
+
+    expect(result.success).toBe(true);
+    expect(ensureCache).toHaveBeenCalledWith({
+      url: 'https://github.com/org1/repo1.git',
+      owner: 'org1',
+      repo: 'repo1',
+      rootDir: '/root',
+    });
+    expect(protectCacheObjects).toHaveBeenCalledWith('/root/.gcpb/.cache/org1/repo1');
+    expect(result.entries).toHaveLength(1);
+    expect(result.entries?.[0].outcome).toBe('fixed');
+  });
+
+  test('should not touch alternates outside the gcpb cache', async () => {
+    vi.mocked(getAlternates).mockResolvedValue(['/elsewhere/objects']);
+    vi.mocked(checkAlternates).mockResolvedValue(
+      'objects borrowed from /elsewhere/objects are missing'
+    );
+
+    const result = await executeDoctorCommand(
+      '/root',
+      'org1/repo1/feat-a',
+      { fix: true },
+      mockLogger
+    );
+
+    expect(result.success).toBe(false);
+    expect(ensureCache).not.toHaveBeenCalled();
+    expect(result.entries?.[0].message).toBe(
+      'borrows objects from outside the gcpb cache, re-clone the branch to repair it'
+    );
+  });
+
+  test('should say so when there are no shared clones', async () => {
+    vi.mocked(getAlternates).mockResolvedValue([]);
+
+    const result = await executeDoctorCommand('/root', undefined, {}, mockLogger);
+
+    expect(result.success).toBe(true);
+    expect(result.entries).toEqual([]);
+    expect(mockLogger.info).toHaveBeenCalledWith(
+      'No shared clones found, every clone has its own objects'
+    );
+  });
+});
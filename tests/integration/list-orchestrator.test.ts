@@ -0,0 +1,177 @@
+import { describe, test, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  executeListCommand,
+  formatTable,
+  formatTree,
+} from '../../src/orchestrators/list-orchestrator.js';
+import type { Logger } from '../../src/utils/logger.js';
+
+// Mock filesystem scanning, keep the pure filtering helper
+vi.mock('../../src/core/repository-scanner.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../src/core/repository-scanner.js')>()),
+  scanRepositories: vi.fn(),
+}));
+
+import { filterBranchClones, scanRepositories } from '../../src/core/repository-scanner.js';
+
+// eslint-disable-next-line no-control-regex
+const stripAnsi = (text: string) => text.replace(/\x1b\[[0-9;]*m/g, '');
+
+describe('list-orchestrator', () => {
+  const mockLogger: Logger = {
+    info: vi.fn(),
+    success: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  } as unknown as Logger;
+
+  const repositories = [
+    {
+      owner: 'org2',
+      repo: 'repo3',
+      branches: ['main'],
+      fullPath: '/root/org2/repo3',
+    },
+    {
+      owner: 'org1',
+      repo: 'repo1',
+      branches: ['main', 'dev'],
+      fullPath: '/root/org1/repo1',
+    },
+    {
+      owner: 'org1',
+      repo: 'repo2',
+      branches: ['feat-x'],
+      fullPath: '/root/org1/repo2',
+    },
+  ];
+
+  let consoleLogSpy: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+    vi.mocked(scanRepositories).mockResolvedValue(repositories);
+    consoleLogSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    consoleLogSpy.mockRestore();
+  });
+
+  describe('formatTree', () => {
+    test('should render owner/repo/branch hierarchy', () => {
+      const entries = filterBranchClones(repositories);
+
+      expect(stripAnsi(formatTree(entries))).toBe(
+        [
+          'org1',
+          '├── repo1',
+          '│   ├── dev',
+          '│   └── main',
+          '└── repo2',
+          '    └── feat-x',
+          'org2',
+          '└── repo3',
+          '    └── main',
+        ].join('\n')
+      );
+    });
+
+    test('should show the base of branches cut from another branch', () => {
+      const entries = filterBranchClones([
+        {
+          owner: 'org1',
+          repo: 'repo1',
+          branches: ['main', 'feat-x'],
+          fullPath: '/root/org1/repo1',
+          metadata: {
+            main: { branch: 'main', baseBranch: 'main' },
+            'feat-x': { branch: 'feat-x', baseBranch: 'develop' },
+          },
+        },
+      ]);
+
+      expect(stripAnsi(formatTree(entries))).toBe(
+        ['org1', '└── repo1', '    ├── feat-x (from develop)', '    └── main'].join('\n')
+      );
+    });
+  });
+
+  describe('formatTable', () => {
+    test('should render aligned columns with header', () => {
+      const entries = filterBranchClones(repositories, 'org1/repo1');
+
+      expect(stripAnsi(formatTable(entries))).toBe(
+        [
+          'OWNER  REPO   BRANCH  BASE  CREATED  PATH',
+          'org1   repo1  dev     -     -        /root/org1/repo1/dev',
+          'org1   repo1  main    -     -        /root/org1/repo1/main',
+        ].join('\n')
+      );
+    });
+
+    test('should show base branch and creation date from clone metadata', () => {
+      const entries = filterBranchClones([
+        {
+          owner: 'org1',
+          repo: 'repo1',
+          branches: ['feat/login'],
+          fullPath: '/root/org1/repo1',
+          branchDirs: { 'feat/login': 'feat-login' },
+          metadata: {
+            'feat/login': {
+              branch: 'feat/login',
+              baseBranch: 'main',
+              createdAt: '2024-05-01T10:00:00.000Z',
+            },
+          },
+        },
+      ]);
+
+      expect(stripAnsi(formatTable(entries))).toBe(
+        [
+          'OWNER  REPO   BRANCH      BASE  CREATED     PATH',
+          'org1   repo1  feat/login  main  2024-05-01  /root/org1/repo1/feat-login',
+        ].join('\n')
+      );
+    });
+  });
+
+  describe('executeListCommand', () => {
+    test('should print JSON when format is json', async () => {
+      const result = await executeListCommand('/root', 'org2', 'json', mockLogger);
+
+      expect(result.success).toBe(true);
+      const output = consoleLogSpy.mock.calls[0][0] as string;
+      expect(JSON.parse(output)).toEqual([
+        { owner: 'org2', repo: 'repo3', branch: 'main', path: '/root/org2/repo3/main' },
+      ]);
+    });
+
+    test('should print empty JSON array when nothing matches', async () => {
+      const result = await executeListCommand('/root', 'unknown', 'json', mockLogger);
+
+      expect(result.success).toBe(true);
+      expect(consoleLogSpy).toHaveBeenCalledWith('[]');
+      expect(mockLogger.info).not.toHaveBeenCalled();
+    });
+
+    test('should log info when nothing matches in tree format', async () => {
+      const result = await executeListCommand('/root', 'unknown', 'tree', mockLogger);
+
+      expect(result.success).toBe(true);
+      expect(result.entries).toEqual([]);
+      expect(mockLogger.info).toHaveBeenCalledWith('No cloned branches found matching "unknown"');
+    });
+
+    test('should return error when scanning fails', async () => {
+      vi.mocked(scanRepositories).mockRejectedValue(new Error('Failed to scan repositories'));
+
+      const result = await executeListCommand('/root', undefined, 'tree', mockLogger);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Failed to scan repositories');
+      expect(mockLogger.error).toHaveBeenCalledWith('Failed to list: Failed to scan repositories');
+    });
+  });
+});
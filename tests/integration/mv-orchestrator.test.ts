@@ -0,0 +1,143 @@
+import { describe, test, expect, vi, beforeEach } from 'vitest';
+import { executeMoveCommand } from '../../src/orchestrators/mv-orchestrator.js';
+import { GCPBError } from '../../src/types/index.js';
+import type { Logger } from '../../src/utils/logger.js';
+
+// Mock filesystem scanning and the move itself, keep pure helpers
+vi.mock('../../src/core/repository-scanner.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../src/core/repository-scanner.js')>()),
+  scanRepositories: vi.fn(),
+}));
+vi.mock('../../src/core/branch-mover.js');
+
+import { scanRepositories } from '../../src/core/repository-scanner.js';
+import { moveBranchClone } from '../../src/core/branch-mover.js';
+
+describe('mv-orchestrator', () => {
+  const mockLogger: Logger = {
+    info: vi.fn(),
+    success: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    startSpinner: vi.fn(),
+    updateSpinner: vi.fn(),
+    stopSpinner: vi.fn(),
+    box: vi.fn(),
+  } as unknown as Logger;
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+    vi.mocked(scanRepositories).mockResolvedValue([
+      {
+        owner: 'org1',
+        repo: 'repo1',
+        branches: ['main', 'feat/old'],
+        fullPath: '/root/org1/repo1',
+        branchDirs: { 'feat/old': 'feat-old' },
+      },
+      { owner: 'org1', repo: 'repo2', branches: ['main'], fullPath: '/root/org1/repo2' },
+    ]);
+    vi.mocked(moveBranchClone).mockResolvedValue({
+      targetPath: '/root/org1/repo1/feat-new',
+      upstream: 'origin/feat/old',
+      ownsUpstream: true,
+    });
+  });
+
+  test('should move a clone given full paths', async () => {
+    const result = await executeMoveCommand(
+      '/root',
+      'org1/repo1/feat/old',
+      'org1/repo1/feat/new',
+      {},
+      mockLogger
+    );
+
+    expect(result).toEqual({
+      success: true,
+      sourcePath: '/root/org1/repo1/feat-old',
+      targetPath: '/root/org1/repo1/feat-new',
+      branch: 'feat/new',
+    });
+    expect(moveBranchClone).toHaveBeenCalledWith({
+      rootDir: '/root',
+      clone: {
+        owner: 'org1',
+        repo: 'repo1',
+        branch: 'feat/old',
+        path: '/root/org1/repo1/feat-old',
+      },
+      newBranch: 'feat/new',
+      remote: undefined,
+    });
+    expect(mockLogger.info).toHaveBeenCalledWith(
+      'The branch still tracks origin/feat/old; use --remote to rename the remote branch too'
+    );
+  });
+
+  test('should accept the directory name and a bare new branch name', async () => {
+    const result = await executeMoveCommand(
+      '/root',
+      'org1/repo1/feat-old',
+      'feat/new',
+      { remote: true },
+      mockLogger
+    );
+
+    expect(result.success).toBe(true);
+    expect(moveBranchClone).toHaveBeenCalledWith(
+      expect.objectContaining({ newBranch: 'feat/new', remote: true })
+    );
+  });
+
+  test('should not suggest renaming the base branch a new branch tracks', async () => {
+    vi.mocked(moveBranchClone).mockResolvedValue({
+      targetPath: '/root/org1/repo1/feat-new',
+      upstream: 'origin/develop',
+      ownsUpstream: false,
+    });
+
+    await executeMoveCommand('/root', 'org1/repo1/feat/old', 'feat/new', {}, mockLogger);
+
+    expect(mockLogger.info).toHaveBeenCalledWith(
+      'The branch still tracks origin/develop, the branch it was created from; use --remote to push it as origin/feat/new'
+    );
+  });
+
+  test('should refuse moves to another repository', async () => {
+    const result = await executeMoveCommand(
+      '/root',
+      'org1/repo1/main',
+      'org1/repo2/main',
+      {},
+      mockLogger
+    );
+
+    expect(result).toEqual({
+      success: false,
+      error: 'Cannot move org1/repo1/main to another repository',
+    });
+    expect(moveBranchClone).not.toHaveBeenCalled();
+  });
+
+  test('should report missing clones and incomplete paths', async () => {
+    const missing = await executeMoveCommand('/root', 'org1/repo1/gone', 'new', {}, mockLogger);
+    const incomplete = await executeMoveCommand('/root', 'org1/repo1', 'new', {}, mockLogger);
+
+    expect(missing.error).toBe("Branch 'gone' not found in org1/repo1");
+    expect(incomplete.error).toContain('Expected format: org/repo/branch');
+    expect(moveBranchClone).not.toHaveBeenCalled();
+  });
+
+  test('should show the suggestion of failed moves', async () => {
+    vi.mocked(moveBranchClone).mockRejectedValue(
+      new GCPBError('Directory /root/org1/repo1/main already exists', 'Please use another name')
+    );
+
+    const result = await executeMoveCommand('/root', 'org1/repo1/feat/old', 'main', {}, mockLogger);
+
+    expect(result.success).toBe(false);
+    expect(mockLogger.stopSpinner).toHaveBeenCalledWith(false, 'Rename failed');
+    expect(mockLogger.info).toHaveBeenCalledWith('Suggestion: Please use another name');
+  });
+});
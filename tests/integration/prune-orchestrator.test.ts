@@ -0,0 +1,187 @@
+import { describe, test, expect, vi, beforeEach, afterEach } from 'vitest';
+import { executePruneCommand } from '../../src/orchestrators/prune-orchestrator.js';
+import type { Logger } from '../../src/utils/logger.js';
+
+// Mock filesystem, network and git, keep pure helpers
+vi.mock('../../src/core/repository-scanner.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../src/core/repository-scanner.js')>()),
+  scanRepositories: vi.fn(),
+}));
+vi.mock('../../src/core/git-status.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../src/core/git-status.js')>()),
+  getUnsavedWork: vi.fn(),
+}));
+vi.mock('../../src/core/remote-resolver.js');
+vi.mock('../../src/core/cache-manager.js');
+vi.mock('../../src/core/default-branch-detector.js');
+vi.mock('../../src/core/stale-detector.js');
+vi.mock('../../src/core/branch-remover.js');
+vi.mock('../../src/state/prune-states.js');
+
+import { scanRepositories } from '../../src/core/repository-scanner.js';
+import { getUnsavedWork } from '../../src/core/git-status.js';
+import { resolveRemoteUrl } from '../../src/core/remote-resolver.js';
+import { ensureCache } from '../../src/core/cache-manager.js';
+import { detectDefaultBranch } from '../../src/core/default-branch-detector.js';
+import { detectStaleBranch } from '../../src/core/stale-detector.js';
+import { removeBranchClones, runPreRemoveHooks } from '../../src/core/branch-remover.js';
+import { pruneSelectBranches } from '../../src/state/prune-states.js';
+
+describe('prune-orchestrator', () => {
+  const mockLogger: Logger = {
+    info: vi.fn(),
+    success: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    startSpinner: vi.fn(),
+    updateSpinner: vi.fn(),
+    stopSpinner: vi.fn(),
+    box: vi.fn(),
+  } as unknown as Logger;
+
+  const noWork = { changedFiles: 0, untrackedFiles: 0, stashCount: 0, unpushedCommits: 0 };
+
+  let consoleLogSpy: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+    vi.mocked(scanRepositories).mockResolvedValue([
+      {
+        owner: 'org1',
+        repo: 'repo1',
+        branches: ['main', 'feat-a', 'feat-b'],
+        fullPath: '/root/org1/repo1',
+      },
+    ]);
+    vi.mocked(resolveRemoteUrl).mockResolvedValue({
+      found: true,
+      url: 'https://github.com/org1/repo1.git',
+    } as any);
+    vi.mocked(ensureCache).mockResolvedValue('/root/.gcpb/.cache/org1/repo1');
+    vi.mocked(detectDefaultBranch).mockResolvedValue('main');
+    vi.mocked(detectStaleBranch).mockImplementation(async (_cache, clonePath) => {
+      if (clonePath === '/root/org1/repo1/feat-a') {
+        return { remoteBranch: 'feat/a', reason: 'merged' };
+      }
+      if (clonePath === '/root/org1/repo1/feat-b') {
+        return { remoteBranch: 'feat/b', reason: 'deleted' };
+      }
+      return null;
+    });
+    vi.mocked(getUnsavedWork).mockImplementation(async (clonePath: string) =>
+      clonePath === '/root/org1/repo1/feat-b' ? { ...noWork, changedFiles: 2 } : noWork
+    );
+    vi.mocked(removeBranchClones).mockImplementation(async (_root, targets) => targets.length);
+    consoleLogSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    consoleLogSpy.mockRestore();
+  });
+
+  test('should report stale branches without removing on dry run', async () => {
+    const result = await executePruneCommand('/root', undefined, { dryRun: true }, mockLogger);
+
+    expect(result.success).toBe(true);
+    expect(result.removedCount).toBe(0);
+    expect(result.candidates).toEqual([
+      {
+        owner: 'org1',
+        repo: 'repo1',
+        branch: 'feat-a',
+        path: '/root/org1/repo1/feat-a',
+        remoteBranch: 'feat/a',
+        reason: 'merged',
+        unsavedWork: [],
+      },
+      {
+        owner: 'org1',
+        repo: 'repo1',
+        branch: 'feat-b',
+        path: '/root/org1/repo1/feat-b',
+        remoteBranch: 'feat/b',
+        reason: 'deleted',
+        unsavedWork: ['2 uncommitted changes'],
+      },
+    ]);
+    expect(ensureCache).toHaveBeenCalledTimes(1);
+    expect(pruneSelectBranches).not.toHaveBeenCalled();
+    expect(removeBranchClones).not.toHaveBeenCalled();
+    const output = consoleLogSpy.mock.calls.map((c) => c[0]).join('\n');
+    expect(output).toContain('org1/repo1/feat-a');
+    expect(output).toContain('origin/feat/b deleted upstream');
+    expect(mockLogger.info).toHaveBeenCalledWith('Dry run: no branches were removed');
+  });
+
+  test('should remove selected branches and keep ones with unsaved work', async () => {
+    vi.mocked(pruneSelectBranches).mockImplementation(async (input) => ({
+      value: { selected: input.candidates.filter((c) => c.unsavedWork.length === 0) },
+    }));
+
+    const result = await executePruneCommand('/root', undefined, { yes: true }, mockLogger);
+
+    expect(result.success).toBe(true);
+    expect(result.removedCount).toBe(1);
+    expect(pruneSelectBranches).toHaveBeenCalledWith(
+      expect.objectContaining({ skipSelection: true, discardChanges: undefined })
+    );
+    expect(removeBranchClones).toHaveBeenCalledWith(
+      '/root',
+      [expect.objectContaining({ branch: 'feat-a' })],
+      expect.any(Function)
+    );
+    expect(runPreRemoveHooks).toHaveBeenCalledWith(
+      '/root',
+      [expect.objectContaining({ branch: 'feat-a' })],
+      mockLogger
+    );
+    expect(mockLogger.warn).toHaveBeenCalledWith(
+      '1 branch has unsaved work and will be kept (use --discard-changes to remove anyway)'
+    );
+  });
+
+  test('should report nothing to prune when no branch is stale', async () => {
+    vi.mocked(detectStaleBranch).mockResolvedValue(null);
+
+    const result = await executePruneCommand('/root', undefined, {}, mockLogger);
+
+    expect(result.success).toBe(true);
+    expect(result.candidates).toEqual([]);
+    expect(mockLogger.info).toHaveBeenCalledWith('Nothing to prune');
+    expect(pruneSelectBranches).not.toHaveBeenCalled();
+  });
+
+  test('should skip repositories without a detectable URL', async () => {
+    vi.mocked(resolveRemoteUrl).mockResolvedValue({ found: false } as any);
+
+    const result = await executePruneCommand('/root', undefined, {}, mockLogger);
+
+    expect(result.success).toBe(true);
+    expect(ensureCache).not.toHaveBeenCalled();
+    expect(mockLogger.warn).toHaveBeenCalledWith(
+      'Skipping org1/repo1: could not detect repository URL'
+    );
+  });
+
+  test('should skip repositories whose cache cannot be updated', async () => {
+    vi.mocked(ensureCache).mockRejectedValue(new Error('network unreachable'));
+
+    const result = await executePruneCommand('/root', undefined, {}, mockLogger);
+
+    expect(result.success).toBe(true);
+    expect(detectStaleBranch).not.toHaveBeenCalled();
+    expect(mockLogger.warn).toHaveBeenCalledWith(
+      'Skipping org1/repo1: failed to update cache (network unreachable)'
+    );
+  });
+
+  test('should return error when scanning fails', async () => {
+    vi.mocked(scanRepositories).mockRejectedValue(new Error('Failed to scan repositories'));
+
+    const result = await executePruneCommand('/root', undefined, {}, mockLogger);
+
+    expect(result.success).toBe(false);
+    expect(mockLogger.stopSpinner).toHaveBeenCalledWith(false, 'Prune failed');
+    expect(mockLogger.error).toHaveBeenCalledWith('Failed to prune: Failed to scan repositories');
+  });
+});
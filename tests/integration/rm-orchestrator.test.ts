@@ -1,24 +1,47 @@
 import { describe, test, expect, vi, beforeEach } from 'vitest';
 import {
+  executeBulkRemoveCommand,
   executeRemoveCommand,
   executeRemoveCommandInteractive,
+  isBulkRemoval,
 } from '../../src/orchestrators/rm-orchestrator.js';
 import type { Logger } from '../../src/utils/logger.js';
 
 // Mock all dependencies
 vi.mock('fs-extra');
-vi.mock('../../src/core/repository-scanner.js');
+vi.mock('../../src/core/repository-scanner.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../src/core/repository-scanner.js')>()),
+  scanRepositories: vi.fn(),
+}));
 vi.mock('../../src/core/config.js');
 vi.mock('../../src/state/rm-states.js');
+vi.mock('../../src/core/hooks.js');
+vi.mock('../../src/core/branch-remover.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../src/core/branch-remover.js')>()),
+  getDirectorySize: vi.fn(),
+}));
+vi.mock('../../src/core/cache-manager.js');
+vi.mock('../../src/core/trash.js');
 
 import fs from 'fs-extra';
 import { scanRepositories } from '../../src/core/repository-scanner.js';
 import { cleanupEmptyDirectories } from '../../src/core/config.js';
+import { runHooks } from '../../src/core/hooks.js';
+import { moveToTrash } from '../../src/core/trash.js';
+import { getDirectorySize } from '../../src/core/branch-remover.js';
+import {
+  getCachePath,
+  getCacheStats,
+  removeCache,
+  removeEmptyCacheParents,
+} from '../../src/core/cache-manager.js';
 import {
   rmSelectOrg,
   rmSelectRepo,
   rmSelectBranches,
+  rmInspectBranches,
   rmConfirmRemoval,
+  rmConfirmBulkRemoval,
 } from '../../src/state/rm-states.js';
 
 describe('rm-orchestrator', () => {
@@ -36,8 +59,19 @@ describe('rm-orchestrator', () => {
 
   beforeEach(() => {
     vi.resetAllMocks();
+    vi.mocked(rmInspectBranches).mockResolvedValue({ value: { unsavedWork: {} } });
+    vi.mocked(fs.readdir).mockResolvedValue(['other'] as any);
+    vi.mocked(moveToTrash).mockImplementation(async (_root, targets) => ({
+      id: '20261019T101500Z',
+      removedAt: '2026-10-19T10:15:00.000Z',
+      clones: targets.map((t) => ({ ...t, path: t.path.slice('/root/'.length) })),
+    }));
   });
 
+  // Clone directories moved to the trash, in order
+  const trashedPaths = () =>
+    vi.mocked(moveToTrash).mock.calls.flatMap(([, targets]) => targets.map((t) => t.path));
+
   describe('executeRemoveCommand (direct mode)', () => {
     test('should remove branch when complete path provided with force', async () => {
       const repositories = [
@@ -70,9 +104,19 @@ describe('rm-orchestrator', () => {
         repo: 'repo1',
         branches: ['main'],
         force: true,
+        unsavedWork: {},
       });
-      expect(fs.remove).toHaveBeenCalledWith('/root/org1/repo1/main');
+      expect(trashedPaths()).toEqual(['/root/org1/repo1/main']);
       expect(cleanupEmptyDirectories).toHaveBeenCalledWith('/root');
+      expect(runHooks).toHaveBeenCalledWith(
+        'preRemove',
+        '/root',
+        { owner: 'org1', repo: 'repo1', branch: 'main', path: '/root/org1/repo1/main' },
+        mockLogger
+      );
+      expect(vi.mocked(runHooks).mock.invocationCallOrder[0]).toBeLessThan(
+        vi.mocked(moveToTrash).mock.invocationCallOrder[0]
+      );
     });
 
     test('should prompt for confirmation when force not set', async () => {
@@ -100,6 +144,7 @@ describe('rm-orchestrator', () => {
         repo: 'repo1',
         branches: ['main'],
         force: false,
+        unsavedWork: {},
       });
     });
 
@@ -122,7 +167,7 @@ describe('rm-orchestrator', () => {
 
       expect(result.success).toBe(false);
       expect(result.error).toContain('cancelled');
-      expect(fs.remove).not.toHaveBeenCalled();
+      expect(moveToTrash).not.toHaveBeenCalled();
     });
 
     test('should return error when path is incomplete', async () => {
@@ -165,6 +210,70 @@ describe('rm-orchestrator', () => {
       expect(result.error).toContain('not found');
       expect(result.error).toContain('nonexistent');
     });
+
+    test('should refuse removal when branch has unsaved work', async () => {
+      const repositories = [
+        {
+          owner: 'org1',
+          repo: 'repo1',
+          branches: ['main'],
+          fullPath: '/root/org1/repo1',
+        },
+      ];
+
+      vi.mocked(scanRepositories).mockResolvedValue(repositories);
+      vi.mocked(rmInspectBranches).mockResolvedValue({
+        value: { unsavedWork: { main: ['2 uncommitted changes', '1 stash'] } },
+      });
+
+      const result = await executeRemoveCommand('/root', 'org1/repo1/main', true, mockLogger);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('Refusing to remove branches with unsaved work');
+      expect(result.error).toContain('org1/repo1/main: 2 uncommitted changes, 1 stash');
+      expect(result.error).toContain('--discard-changes');
+      expect(rmConfirmRemoval).not.toHaveBeenCalled();
+      expect(moveToTrash).not.toHaveBeenCalled();
+    });
+
+    test('should remove branch with unsaved work when discardChanges is set', async () => {
+      const repositories = [
+        {
+          owner: 'org1',
+          repo: 'repo1',
+          branches: ['main'],
+          fullPath: '/root/org1/repo1',
+        },
+      ];
+      const unsavedWork = { main: ['1 unpushed commit'] };
+
+      vi.mocked(scanRepositories).mockResolvedValue(repositories);
+      vi.mocked(rmInspectBranches).mockResolvedValue({ value: { unsavedWork } });
+      vi.mocked(rmConfirmRemoval).mockResolvedValue({
+        value: { confirmed: true },
+      });
+      vi.mocked(fs.remove).mockResolvedValue(undefined);
+      vi.mocked(cleanupEmptyDirectories).mockResolvedValue(undefined);
+
+      const result = await executeRemoveCommand(
+        '/root',
+        'org1/repo1/main',
+        false,
+        mockLogger,
+        true
+      );
+
+      expect(result.success).toBe(true);
+      expect(rmInspectBranches).toHaveBeenCalledWith({
+        rootDir: '/root',
+        org: 'org1',
+        repo: 'repo1',
+        branches: ['main'],
+      });
+      expect(rmConfirmRemoval).toHaveBeenCalledWith(expect.objectContaining({ unsavedWork }));
+      expect(mockLogger.warn).toHaveBeenCalledWith('Discarding unsaved work in org1/repo1/main');
+      expect(trashedPaths()).toEqual(['/root/org1/repo1/main']);
+    });
   });
 
   describe('executeRemoveCommandInteractive (REPL mode)', () => {
@@ -305,7 +414,7 @@ describe('rm-orchestrator', () => {
 
       expect(result.success).toBe(false);
       expect(result.error).toContain('cancelled');
-      expect(fs.remove).not.toHaveBeenCalled();
+      expect(moveToTrash).not.toHaveBeenCalled();
     });
 
     test('should return error when no repositories found', async () => {
@@ -376,7 +485,237 @@ describe('rm-orchestrator', () => {
         repo: 'repo1',
         branches: ['main'],
         force: true,
+        unsavedWork: {},
+      });
+    });
+
+    test('should refuse removal when any selected branch has unsaved work', async () => {
+      const repositories = [
+        {
+          owner: 'org1',
+          repo: 'repo1',
+          branches: ['main', 'dev'],
+          fullPath: '/root/org1/repo1',
+        },
+      ];
+
+      vi.mocked(scanRepositories).mockResolvedValue(repositories);
+      vi.mocked(rmSelectOrg).mockResolvedValue({ value: { org: 'org1' } });
+      vi.mocked(rmSelectRepo).mockResolvedValue({ value: { repo: 'repo1' } });
+      vi.mocked(rmSelectBranches).mockResolvedValue({
+        value: { selectedBranches: ['main', 'dev'] },
+      });
+      vi.mocked(rmInspectBranches).mockResolvedValue({
+        value: { unsavedWork: { dev: ['3 untracked files'] } },
+      });
+
+      const result = await executeRemoveCommandInteractive('/root', undefined, true, mockLogger);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('org1/repo1/dev: 3 untracked files');
+      expect(moveToTrash).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('executeBulkRemoveCommand', () => {
+    const repositories = [
+      {
+        owner: 'org1',
+        repo: 'repo1',
+        branches: ['main', 'feat/a', 'feat/b'],
+        fullPath: '/root/org1/repo1',
+        branchDirs: { 'feat/a': 'feat-a', 'feat/b': 'feat-b' },
+      },
+      {
+        owner: 'org1',
+        repo: 'repo2',
+        branches: ['main'],
+        fullPath: '/root/org1/repo2',
+      },
+      {
+        owner: 'org2',
+        repo: 'repo1',
+        branches: ['main'],
+        fullPath: '/root/org2/repo1',
+      },
+    ];
+
+    beforeEach(() => {
+      vi.mocked(scanRepositories).mockResolvedValue(repositories);
+      vi.mocked(getDirectorySize).mockResolvedValue(1024);
+      vi.mocked(rmConfirmBulkRemoval).mockResolvedValue({ value: { confirmed: true } });
+      vi.mocked(getCachePath).mockImplementation(
+        (rootDir, owner, repo) => `${rootDir}/.gcpb/.cache/${owner}/${repo}`
+      );
+    });
+
+    test('should detect bulk removals', () => {
+      expect(isBulkRemoval('org1/repo1', { all: true })).toBe(true);
+      expect(isBulkRemoval('org1/repo1/feat-*', {})).toBe(true);
+      expect(isBulkRemoval('org1/repo1/main', { removeCache: true })).toBe(true);
+      expect(isBulkRemoval('org1/repo1/main', { force: true })).toBe(false);
+      expect(isBulkRemoval(undefined, {})).toBe(false);
+    });
+
+    test('should remove every clone of a repository with all', async () => {
+      const result = await executeBulkRemoveCommand(
+        '/root',
+        'org1/repo1',
+        { all: true },
+        mockLogger
+      );
+
+      expect(result).toEqual({
+        success: true,
+        removedCount: 3,
+        clones: ['org1/repo1/feat/a', 'org1/repo1/feat/b', 'org1/repo1/main'],
+        removedCaches: [],
+      });
+      expect(rmConfirmBulkRemoval).toHaveBeenCalledWith({
+        clones: [
+          { name: 'org1/repo1/feat/a', path: '/root/org1/repo1/feat-a', sizeBytes: 1024 },
+          { name: 'org1/repo1/feat/b', path: '/root/org1/repo1/feat-b', sizeBytes: 1024 },
+          { name: 'org1/repo1/main', path: '/root/org1/repo1/main', sizeBytes: 1024 },
+        ],
+        caches: [],
+        force: undefined,
       });
+      expect(trashedPaths()).toEqual([
+        '/root/org1/repo1/feat-a',
+        '/root/org1/repo1/feat-b',
+        '/root/org1/repo1/main',
+      ]);
+      expect(removeCache).not.toHaveBeenCalled();
+      expect(mockLogger.box).toHaveBeenCalledWith(
+        'Moved 3 clones to the trash\n\nRepositories: org1/repo1',
+        'success'
+      );
+    });
+
+    test('should remove every clone of an organization with all', async () => {
+      const result = await executeBulkRemoveCommand('/root', 'org1', { all: true }, mockLogger);
+
+      expect(result.removedCount).toBe(4);
+      expect(result.clones).toContain('org1/repo2/main');
+      expect(result.clones).not.toContain('org2/repo1/main');
+    });
+
+    test('should match globs against branch names and clone directories', async () => {
+      const byBranch = await executeBulkRemoveCommand('/root', 'org1/repo1/feat/*', {}, mockLogger);
+      const byDirectory = await executeBulkRemoveCommand(
+        '/root',
+        'org1/repo1/feat-*',
+        {},
+        mockLogger
+      );
+      const byRepository = await executeBulkRemoveCommand(
+        '/root',
+        '*/repo1',
+        { all: true },
+        mockLogger
+      );
+
+      expect(byBranch.clones).toEqual(['org1/repo1/feat/a', 'org1/repo1/feat/b']);
+      expect(byDirectory.clones).toEqual(['org1/repo1/feat/a', 'org1/repo1/feat/b']);
+      expect(byRepository.clones).toEqual([
+        'org1/repo1/feat/a',
+        'org1/repo1/feat/b',
+        'org1/repo1/main',
+        'org2/repo1/main',
+      ]);
+    });
+
+    test('should require all for paths naming several clones', async () => {
+      const result = await executeBulkRemoveCommand('/root', 'org1/repo1', {}, mockLogger);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('--all');
+      expect(moveToTrash).not.toHaveBeenCalled();
+    });
+
+    test('should fail when nothing matches', async () => {
+      const result = await executeBulkRemoveCommand('/root', 'org3', { all: true }, mockLogger);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('No clones match "org3"');
+    });
+
+    test('should refuse removal when any clone has unsaved work', async () => {
+      vi.mocked(rmInspectBranches).mockImplementation(async ({ repo }) => ({
+        value: { unsavedWork: repo === 'repo2' ? { main: ['1 stash'] } : {} },
+      }));
+
+      const result = await executeBulkRemoveCommand('/root', 'org1', { all: true }, mockLogger);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('org1/repo2/main: 1 stash');
+      expect(rmConfirmBulkRemoval).not.toHaveBeenCalled();
+      expect(moveToTrash).not.toHaveBeenCalled();
+    });
+
+    test('should list unsaved work when discardChanges is set', async () => {
+      vi.mocked(rmInspectBranches).mockImplementation(async ({ repo }) => ({
+        value: { unsavedWork: repo === 'repo2' ? { main: ['1 stash'] } : {} },
+      }));
+
+      const result = await executeBulkRemoveCommand(
+        '/root',
+        'org1/repo2',
+        { all: true, discardChanges: true },
+        mockLogger
+      );
+
+      expect(result.success).toBe(true);
+      expect(mockLogger.warn).toHaveBeenCalledWith('Discarding unsaved work in org1/repo2/main');
+      expect(vi.mocked(rmConfirmBulkRemoval).mock.calls[0][0].clones[0].unsavedWork).toEqual([
+        '1 stash',
+      ]);
+    });
+
+    test('should remove caches of repositories left without clones', async () => {
+      vi.mocked(fs.pathExists).mockResolvedValue(true as never);
+      vi.mocked(getCacheStats).mockResolvedValue({ sizeBytes: 4096 } as any);
+
+      const result = await executeBulkRemoveCommand(
+        '/root',
+        'org1/*/main',
+        { removeCache: true, force: true },
+        mockLogger
+      );
+
+      // repo1 keeps its feature branch clones, so only the repo2 cache goes
+      expect(result.removedCaches).toEqual(['org1/repo2']);
+      expect(rmConfirmBulkRemoval).toHaveBeenCalledWith(
+        expect.objectContaining({
+          caches: [{ name: 'org1/repo2', path: '/root/.gcpb/.cache/org1/repo2', sizeBytes: 4096 }],
+          force: true,
+        })
+      );
+      expect(removeCache).toHaveBeenCalledWith('/root/.gcpb/.cache/org1/repo2');
+      expect(removeEmptyCacheParents).toHaveBeenCalledWith(
+        '/root',
+        '/root/.gcpb/.cache/org1/repo2'
+      );
+      // Only the cache is deleted for good, so only its size is freed
+      expect(mockLogger.box).toHaveBeenCalledWith(
+        expect.stringContaining('Caches removed: org1/repo2 (4.0 KB freed)'),
+        'success'
+      );
+    });
+
+    test('should cancel when user declines confirmation', async () => {
+      vi.mocked(rmConfirmBulkRemoval).mockResolvedValue({ value: { confirmed: false } });
+
+      const result = await executeBulkRemoveCommand(
+        '/root',
+        'org1/repo1',
+        { all: true },
+        mockLogger
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('cancelled');
+      expect(moveToTrash).not.toHaveBeenCalled();
     });
   });
 });
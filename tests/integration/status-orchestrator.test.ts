@@ -0,0 +1,161 @@
+import { describe, test, expect, vi, beforeEach, afterEach } from 'vitest';
+import { executeStatusCommand } from '../../src/orchestrators/status-orchestrator.js';
+import type { CloneStatus } from '../../src/types/index.js';
+import type { Logger } from '../../src/utils/logger.js';
+
+// Mock filesystem scanning and git, keep pure helpers
+vi.mock('../../src/core/repository-scanner.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../src/core/repository-scanner.js')>()),
+  scanRepositories: vi.fn(),
+}));
+vi.mock('../../src/core/git-status.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../src/core/git-status.js')>()),
+  getCloneStatus: vi.fn(),
+  fetchClone: vi.fn(),
+}));
+
+import { scanRepositories } from '../../src/core/repository-scanner.js';
+import { fetchClone, getCloneStatus } from '../../src/core/git-status.js';
+
+describe('status-orchestrator', () => {
+  const mockLogger: Logger = {
+    info: vi.fn(),
+    success: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    startSpinner: vi.fn(),
+    updateSpinner: vi.fn(),
+    stopSpinner: vi.fn(),
+  } as unknown as Logger;
+
+  const clean: CloneStatus = {
+    branch: 'main',
+    upstream: 'origin/main',
+    changedFiles: 0,
+    untrackedFiles: 0,
+    stashCount: 0,
+    ahead: 0,
+    behind: 0,
+  };
+
+  const statuses: Record<string, CloneStatus> = {
+    '/root/org1/repo1/main': { ...clean, behind: 3 },
+    '/root/org1/repo1/feat-a': { ...clean, branch: 'feat/a', changedFiles: 2, ahead: 1 },
+    '/root/org1/repo1/feat-b': { ...clean, branch: 'feat/b', upstream: null, stashCount: 1 },
+  };
+
+  let consoleLogSpy: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+    vi.mocked(scanRepositories).mockResolvedValue([
+      {
+        owner: 'org1',
+        repo: 'repo1',
+        branches: ['main', 'feat-a', 'feat-b'],
+        fullPath: '/root/org1/repo1',
+      },
+    ]);
+    vi.mocked(getCloneStatus).mockImplementation(async (clonePath: string) => statuses[clonePath]);
+    consoleLogSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    consoleLogSpy.mockRestore();
+  });
+
+  test('should report status for every clone', async () => {
+    const result = await executeStatusCommand('/root', undefined, {}, mockLogger);
+
+    expect(result.success).toBe(true);
+    expect(result.entries?.map((e) => e.branch)).toEqual(['feat-a', 'feat-b', 'main']);
+    expect(fetchClone).not.toHaveBeenCalled();
+    const output = consoleLogSpy.mock.calls[0][0] as string;
+    expect(output).toContain('org1/repo1/feat-a');
+    expect(output).toContain('2 changed');
+    expect(output).toContain('no upstream');
+    expect(output).toContain('↓3');
+  });
+
+  test('should filter dirty clones', async () => {
+    const result = await executeStatusCommand('/root', undefined, { dirty: true }, mockLogger);
+
+    expect(result.entries?.map((e) => e.branch)).toEqual(['feat-a']);
+  });
+
+  test('should filter clones behind upstream', async () => {
+    const result = await executeStatusCommand('/root', undefined, { behind: true }, mockLogger);
+
+    expect(result.entries?.map((e) => e.branch)).toEqual(['main']);
+  });
+
+  test('should combine filters', async () => {
+    const result = await executeStatusCommand(
+      '/root',
+      undefined,
+      { dirty: true, behind: true },
+      mockLogger
+    );
+
+    expect(result.entries).toEqual([]);
+    expect(mockLogger.info).toHaveBeenCalledWith('No clones match the given filters');
+  });
+
+  test('should fetch before reading status when requested', async () => {
+    await executeStatusCommand('/root', 'org1/repo1/main', { fetch: true }, mockLogger);
+
+    expect(fetchClone).toHaveBeenCalledTimes(1);
+    expect(fetchClone).toHaveBeenCalledWith('/root/org1/repo1/main');
+  });
+
+  test('should print JSON without spinner', async () => {
+    const result = await executeStatusCommand(
+      '/root',
+      'org1/repo1/main',
+      { json: true },
+      mockLogger
+    );
+
+    expect(result.success).toBe(true);
+    expect(mockLogger.startSpinner).not.toHaveBeenCalled();
+    const output = JSON.parse(consoleLogSpy.mock.calls[0][0] as string);
+    expect(output).toEqual([
+      {
+        owner: 'org1',
+        repo: 'repo1',
+        branch: 'main',
+        path: '/root/org1/repo1/main',
+        status: { ...clean, behind: 3 },
+      },
+    ]);
+  });
+
+  test('should record per-clone errors without failing', async () => {
+    vi.mocked(getCloneStatus).mockRejectedValue(new Error('not a git repository'));
+
+    const result = await executeStatusCommand('/root', 'org1/repo1/main', {}, mockLogger);
+
+    expect(result.success).toBe(true);
+    expect(result.entries?.[0].error).toBe('not a git repository');
+    expect(consoleLogSpy.mock.calls[0][0]).toContain('error: not a git repository');
+  });
+
+  test('should exclude errored clones when filtering', async () => {
+    vi.mocked(getCloneStatus).mockRejectedValue(new Error('not a git repository'));
+
+    const result = await executeStatusCommand('/root', undefined, { dirty: true }, mockLogger);
+
+    expect(result.entries).toEqual([]);
+  });
+
+  test('should return error when scanning fails', async () => {
+    vi.mocked(scanRepositories).mockRejectedValue(new Error('Failed to scan repositories'));
+
+    const result = await executeStatusCommand('/root', undefined, {}, mockLogger);
+
+    expect(result.success).toBe(false);
+    expect(mockLogger.error).toHaveBeenCalledWith(
+      'Failed to get status: Failed to scan repositories'
+    );
+  });
+});
@@ -0,0 +1,226 @@
+import { describe, test, expect, vi, beforeEach, afterEach } from 'vitest';
+import { executeSyncCommand } from '../../src/orchestrators/sync-orchestrator.js';
+import type { CloneStatus } from '../../src/types/index.js';
+import type { Logger } from '../../src/utils/logger.js';
+
+// Mock filesystem scanning, caches and git, keep pure helpers
+vi.mock('../../src/core/repository-scanner.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../src/core/repository-scanner.js')>()),
+  scanRepositories: vi.fn(),
+}));
+vi.mock('../../src/core/git-status.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../src/core/git-status.js')>()),
+  getCloneStatus: vi.fn(),
+  fetchClone: vi.fn(),
+  getUpstreamBranch: vi.fn(),
+  pullFastForward: vi.fn(),
+}));
+vi.mock('../../src/core/cache-manager.js');
+
+import { scanRepositories } from '../../src/core/repository-scanner.js';
+import {
+  fetchClone,
+  getCloneStatus,
+  getUpstreamBranch,
+  pullFastForward,
+} from '../../src/core/git-status.js';
+import { getCacheInfo, updateCache } from '../../src/core/cache-manager.js';
+
+describe('sync-orchestrator', () => {
+  const mockLogger: Logger = {
+    info: vi.fn(),
+    success: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    startSpinner: vi.fn(),
+    updateSpinner: vi.fn(),
+    stopSpinner: vi.fn(),
+  } as unknown as Logger;
+
+  const clean: CloneStatus = {
+    branch: 'main',
+    upstream: 'origin/main',
+    changedFiles: 0,
+    untrackedFiles: 0,
+    stashCount: 0,
+    ahead: 0,
+    behind: 0,
+  };
+
+  const statuses: Record<string, CloneStatus> = {
+    '/root/org1/repo1/main': { ...clean, behind: 3 },
+    '/root/org1/repo1/feat-a': { ...clean, branch: 'feat/a', changedFiles: 2 },
+    '/root/org1/repo1/feat-b': {
+      ...clean,
+      branch: 'feat/b',
+      upstream: 'origin/feat/b',
+      ahead: 1,
+      behind: 2,
+    },
+    '/root/org1/repo1/feat-c': { ...clean, branch: 'feat/c', upstream: null },
+  };
+
+  let consoleLogSpy: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+    vi.mocked(scanRepositories).mockResolvedValue([
+      {
+        owner: 'org1',
+        repo: 'repo1',
+        branches: ['main', 'feat-a', 'feat-b', 'feat-c'],
+        fullPath: '/root/org1/repo1',
+      },
+    ]);
+    vi.mocked(getCacheInfo).mockResolvedValue({
+      cachePath: '/root/.gcpb/.cache/org1/repo1',
+      exists: true,
+      isValid: true,
+    });
+    vi.mocked(getCloneStatus).mockImplementation(async (clonePath: string) => statuses[clonePath]);
+    consoleLogSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    consoleLogSpy.mockRestore();
+  });
+
+  const outcomes = (entries?: { branch: string; outcome: string; message: string }[]) =>
+    Object.fromEntries((entries ?? []).map((e) => [e.branch, `${e.outcome}: ${e.message}`]));
+
+  test('should refresh the cache and fetch clean clones only', async () => {
+    const result = await executeSyncCommand('/root', undefined, {}, mockLogger);
+
+    expect(result.success).toBe(true);
+    expect(updateCache).toHaveBeenCalledTimes(1);
+    expect(updateCache).toHaveBeenCalledWith('/root/.gcpb/.cache/org1/repo1');
+    expect(fetchClone).toHaveBeenCalledTimes(3);
+    expect(fetchClone).not.toHaveBeenCalledWith('/root/org1/repo1/feat-a');
+    expect(pullFastForward).not.toHaveBeenCalled();
+    expect(outcomes(result.entries)).toEqual({
+      'feat-a': 'skipped: dirty working tree',
+      'feat-b': 'fetched: 2 commits behind',
+      'feat-c': 'fetched: no upstream',
+      main: 'fetched: 3 commits behind',
+    });
+  });
+
+  test('should fast-forward clones behind upstream with --ff-only', async () => {
+    const result = await executeSyncCommand('/root', undefined, { ffOnly: true }, mockLogger);
+
+    expect(result.success).toBe(true);
+    expect(pullFastForward).toHaveBeenCalledTimes(1);
+    expect(pullFastForward).toHaveBeenCalledWith('/root/org1/repo1/main');
+    expect(outcomes(result.entries)).toMatchObject({
+      'feat-b': 'skipped: diverged from origin/feat/b (↑1 ↓2)',
+      main: 'updated: fast-forwarded 3 commits',
+    });
+    expect(mockLogger.success).toHaveBeenCalledWith('1 updated, 1 fetched, 2 skipped, 0 failed');
+  });
+
+  test('should report upstreams deleted on the remote instead of up to date', async () => {
+    vi.mocked(getCloneStatus).mockResolvedValue({
+      ...clean,
+      branch: 'feat/b',
+      upstream: 'origin/feat/b',
+    });
+    vi.mocked(getUpstreamBranch).mockResolvedValue({
+      remote: 'origin',
+      remoteBranch: 'feat/b',
+      name: 'origin/feat/b',
+      gone: true,
+    });
+
+    const result = await executeSyncCommand(
+      '/root',
+      'org1/repo1/feat-b',
+      { ffOnly: true },
+      mockLogger
+    );
+
+    expect(pullFastForward).not.toHaveBeenCalled();
+    expect(outcomes(result.entries)).toEqual({ 'feat-b': 'fetched: origin/feat/b was deleted' });
+  });
+
+  test('should refresh the caches of host layout repositories', async () => {
+    vi.mocked(scanRepositories).mockResolvedValue([
+      {
+        owner: 'github.com/org1',
+        repo: 'repo1',
+        branches: ['main', 'feat-a'],
+        fullPath: '/root/github.com/org1/repo1',
+      },
+    ]);
+    vi.mocked(getCloneStatus).mockResolvedValue(clean);
+
+    const result = await executeSyncCommand('/root', undefined, {}, mockLogger);
+
+    expect(result.success).toBe(true);
+    expect(getCacheInfo).toHaveBeenCalledTimes(1);
+    expect(getCacheInfo).toHaveBeenCalledWith('github.com/org1', 'repo1', '/root');
+    expect(updateCache).toHaveBeenCalledWith('/root/.gcpb/.cache/org1/repo1');
+    expect(fetchClone).toHaveBeenCalledWith('/root/github.com/org1/repo1/feat-a');
+  });
+
+  test('should skip cache refresh when no valid cache exists', async () => {
+    vi.mocked(getCacheInfo).mockResolvedValue({
+      cachePath: '/root/.gcpb/.cache/org1/repo1',
+      exists: false,
+      isValid: false,
+    });
+
+    await executeSyncCommand('/root', 'org1/repo1/main', {}, mockLogger);
+
+    expect(updateCache).not.toHaveBeenCalled();
+    expect(fetchClone).toHaveBeenCalledWith('/root/org1/repo1/main');
+  });
+
+  test('should warn when cache refresh fails and continue', async () => {
+    vi.mocked(updateCache).mockRejectedValue(new Error('network unreachable'));
+
+    const result = await executeSyncCommand('/root', 'org1/repo1/main', {}, mockLogger);
+
+    expect(result.success).toBe(true);
+    expect(fetchClone).toHaveBeenCalledTimes(1);
+    expect(mockLogger.warn).toHaveBeenCalledWith(
+      'Failed to update cache for org1/repo1: network unreachable'
+    );
+  });
+
+  test('should report per-clone failures without aborting the run', async () => {
+    vi.mocked(fetchClone).mockImplementation(async (clonePath: string) => {
+      if (clonePath === '/root/org1/repo1/main') {
+        throw new Error('Could not resolve host');
+      }
+    });
+
+    const result = await executeSyncCommand('/root', undefined, {}, mockLogger);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('1 clone failed to sync');
+    expect(result.entries).toHaveLength(4);
+    expect(outcomes(result.entries).main).toBe('failed: Could not resolve host');
+    expect(consoleLogSpy.mock.calls.map((c) => c[0]).join('\n')).toContain(
+      'Could not resolve host'
+    );
+  });
+
+  test('should report when there is nothing to sync', async () => {
+    vi.mocked(scanRepositories).mockResolvedValue([]);
+
+    const result = await executeSyncCommand('/root', undefined, {}, mockLogger);
+
+    expect(result.success).toBe(true);
+    expect(result.entries).toEqual([]);
+    expect(getCacheInfo).not.toHaveBeenCalled();
+  });
+
+  test('should return error when scanning fails', async () => {
+    vi.mocked(scanRepositories).mockRejectedValue(new Error('Failed to scan repositories'));
+
+    const result = await executeSyncCommand('/root', undefined, {}, mockLogger);
+
+    expect(result.success).toBe(false);
+    expect(mockLogger.error).toHaveBeenCalledWith('Failed to sync: Failed to scan repositories');
+  });
+});
@@ -0,0 +1,181 @@
+import { describe, test, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  executeRestoreCommand,
+  executeTrashEmptyCommand,
+  executeTrashListCommand,
+} from '../../src/orchestrators/trash-orchestrator.js';
+import { GCPBError } from '../../src/types/index.js';
+import type { Logger } from '../../src/utils/logger.js';
+
+// Mock the trash and prompts, keep path helpers
+vi.mock('../../src/core/trash.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../src/core/trash.js')>()),
+  getTrashRetentionDays: vi.fn(),
+  listTrash: vi.fn(),
+  restoreTrashEntry: vi.fn(),
+  deleteTrashEntries: vi.fn(),
+}));
+vi.mock('../../src/core/branch-remover.js');
+vi.mock('../../src/state/trash-states.js');
+
+import { getDirectorySize } from '../../src/core/branch-remover.js';
+import {
+  deleteTrashEntries,
+  getTrashRetentionDays,
+  listTrash,
+  restoreTrashEntry,
+} from '../../src/core/trash.js';
+import { trashConfirmEmpty } from '../../src/state/trash-states.js';
+
+describe('trash-orchestrator', () => {
+  const mockLogger: Logger = {
+    info: vi.fn(),
+    success: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    startSpinner: vi.fn(),
+    updateSpinner: vi.fn(),
+    stopSpinner: vi.fn(),
+    box: vi.fn(),
+  } as unknown as Logger;
+
+  const entries = [
+    {
+      id: '20261019T101500Z',
+      removedAt: '2026-10-19T10:15:00.000Z',
+      clones: [
+        { path: 'org1/repo1/feat-a', owner: 'org1', repo: 'repo1', branch: 'feat/a' },
+        { path: 'org1/repo1/main', owner: 'org1', repo: 'repo1', branch: 'main' },
+      ],
+    },
+    {
+      id: '20261018T090000Z',
+      removedAt: '2026-10-18T09:00:00.000Z',
+      clones: [{ path: 'org2/repo2/old', owner: 'org2', repo: 'repo2', branch: 'old' }],
+    },
+  ];
+
+  let consoleLogSpy: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+    vi.mocked(listTrash).mockResolvedValue(entries);
+    vi.mocked(getTrashRetentionDays).mockResolvedValue(7);
+    vi.mocked(getDirectorySize).mockResolvedValue(2048);
+    consoleLogSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    consoleLogSpy.mockRestore();
+  });
+
+  const output = () => consoleLogSpy.mock.calls.map((call) => String(call[0])).join('\n');
+
+  describe('executeTrashListCommand', () => {
+    test('should list removals with their size and purge date', async () => {
+      const result = await executeTrashListCommand('/root', {}, mockLogger);
+
+      expect(result.success).toBe(true);
+      expect(result.entries?.[0]).toMatchObject({
+        id: '20261019T101500Z',
+        sizeBytes: 2048,
+        expiresAt: '2026-10-26T10:15:00.000Z',
+      });
+      expect(getDirectorySize).toHaveBeenCalledWith('/root/.gcpb/.trash/20261019T101500Z');
+      expect(output()).toContain('2026-10-26 10:15');
+      expect(output()).toContain('org1/repo1/feat/a, org1/repo1/main');
+      expect(output()).toContain('2 removals, 4.0 KB in total');
+    });
+
+    test('should print JSON', async () => {
+      await executeTrashListCommand('/root', { json: true }, mockLogger);
+
+      const printed = JSON.parse(String(consoleLogSpy.mock.calls[0][0]));
+      expect(printed.map((e: { id: string }) => e.id)).toEqual([
+        '20261019T101500Z',
+        '20261018T090000Z',
+      ]);
+    });
+
+    test('should report an empty trash', async () => {
+      vi.mocked(listTrash).mockResolvedValue([]);
+
+      const result = await executeTrashListCommand('/root', {}, mockLogger);
+
+      expect(result).toEqual({ success: true, entries: [] });
+      expect(mockLogger.info).toHaveBeenCalledWith('The trash is empty');
+    });
+  });
+
+  describe('executeRestoreCommand', () => {
+    test('should restore the clones of a removal', async () => {
+      vi.mocked(restoreTrashEntry).mockResolvedValue(entries[0]);
+
+      const result = await executeRestoreCommand('/root', '20261019T101500Z', mockLogger);
+
+      expect(result).toEqual({ success: true, entries: [entries[0]] });
+      expect(restoreTrashEntry).toHaveBeenCalledWith('/root', '20261019T101500Z');
+      expect(mockLogger.box).toHaveBeenCalledWith(
+        'Restored 2 clones\n\norg1/repo1/feat/a\norg1/repo1/main',
+        'success'
+      );
+    });
+
+    test('should report collisions', async () => {
+      vi.mocked(restoreTrashEntry).mockRejectedValue(
+        new GCPBError(
+          'Cannot restore 20261019T101500Z: org1/repo1/main already exists',
+          'Move or remove the existing clones first'
+        )
+      );
+
+      const result = await executeRestoreCommand('/root', '20261019T101500Z', mockLogger);
+
+      expect(result.success).toBe(false);
+      expect(mockLogger.error).toHaveBeenCalledWith(
+        'Failed to restore: Cannot restore 20261019T101500Z: org1/repo1/main already exists'
+      );
+      expect(mockLogger.info).toHaveBeenCalledWith(
+        'Suggestion: Move or remove the existing clones first'
+      );
+    });
+  });
+
+  describe('executeTrashEmptyCommand', () => {
+    test('should delete every removal after confirmation', async () => {
+      vi.mocked(trashConfirmEmpty).mockResolvedValue({ value: { confirmed: true } });
+
+      const result = await executeTrashEmptyCommand('/root', {}, mockLogger);
+
+      expect(result.success).toBe(true);
+      expect(trashConfirmEmpty).toHaveBeenCalledWith({
+        entries: 2,
+        sizeBytes: 4096,
+        skipConfirmation: undefined,
+      });
+      expect(deleteTrashEntries).toHaveBeenCalledWith('/root', expect.any(Array));
+      expect(vi.mocked(deleteTrashEntries).mock.calls[0][1].map((e) => e.id)).toEqual([
+        '20261019T101500Z',
+        '20261018T090000Z',
+      ]);
+    });
+
+    test('should keep the trash when declined', async () => {
+      vi.mocked(trashConfirmEmpty).mockResolvedValue({ value: { confirmed: false } });
+
+      const result = await executeTrashEmptyCommand('/root', {}, mockLogger);
+
+      expect(result).toEqual({ success: true, entries: [] });
+      expect(deleteTrashEntries).not.toHaveBeenCalled();
+    });
+
+    test('should not prompt for an empty trash', async () => {
+      vi.mocked(listTrash).mockResolvedValue([]);
+
+      await executeTrashEmptyCommand('/root', { yes: true }, mockLogger);
+
+      expect(trashConfirmEmpty).not.toHaveBeenCalled();
+      expect(mockLogger.info).toHaveBeenCalledWith('The trash is empty');
+    });
+  });
+});
@@ -0,0 +1,179 @@
+import { describe, test, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  checkAlternates,
+  dissociateClone,
+  findSharedClones,
+  getAlternates,
+  isSharedRepository,
+  resolveShared,
+} from '../../../src/core/alternates.js';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import simpleGit from 'simple-git';
+
+vi.mock('simple-git');
+vi.mock('../../../src/core/config.js');
+
+import { loadConfig } from '../../../src/core/config.js';
+
+describe('alternates', () => {
+  const mockGit = {
+    raw: vi.fn(),
+  };
+  let rootDir: string;
+
+  /**
+   * Create a clone directory whose alternates file lists the given lines
+   */
+  async function createClone(name: string, alternates?: string[]): Promise<string> {
+    const clonePath = path.join(rootDir, 'org', 'repo', name);
+    await fs.ensureDir(path.join(clonePath, '.git', 'objects', 'info'));
+    if (alternates) {
+      await fs.writeFile(
+        path.join(clonePath, '.git', 'objects', 'info', 'alternates'),
+        alternates.join('\n') + '\n'
+      );
+    }
+    return clonePath;
+  }
+
+  beforeEach(async () => {
+    vi.resetAllMocks();
+    vi.mocked(simpleGit).mockReturnValue(mockGit as any);
+    rootDir = await fs.mkdtemp(path.join(os.tmpdir(), 'gcpb-alternates-'));
+  });
+
+  afterEach(async () => {
+    await fs.remove(rootDir);
+  });
+
+  describe('isSharedRepository', () => {
+    test('should match repositories against the shared globs', () => {
+      const config = { version: '1.0.0', shared: ['acme/monorepo', 'big/*'] };
+
+      expect(isSharedRepository(config, 'acme', 'monorepo')).toBe(true);
+      expect(isSharedRepository(config, 'big', 'anything')).toBe(true);
+      expect(isSharedRepository(config, 'acme', 'web')).toBe(false);
+      expect(isSharedRepository({ version: '1.0.0' }, 'acme', 'monorepo')).toBe(false);
+    });
+  });
+
+  describe('resolveShared', () => {
+    test('should treat unreadable settings as not shared', async () => {
+      vi.mocked(loadConfig).mockRejectedValue(new Error('missing'));
+
+      expect(await resolveShared('/root', 'acme', 'monorepo')).toBe(false);
+    });
+  });
+
+  describe('getAlternates', () => {
+    test('should return no alternates for independent clones', async () => {
+      const clonePath = await createClone('main');
+
+      expect(await getAlternates(clonePath)).toEqual([]);
+    });
+
+    test('should resolve alternates and skip comments', async () => {
+      const cacheObjects = path.join(rootDir, '.gcpb', '.cache', 'org', 'repo', 'objects');
+      const clonePath = await createClone('main', [cacheObjects, '# comment', '../../other']);
+
+      expect(await getAlternates(clonePath)).toEqual([cacheObjects, path.join(clonePath, 'other')]);
+    });
+  });
+
+  describe('findSharedClones', () => {
+    test('should find the clones borrowing from a cache', async () => {
+      const cachePath = path.join(rootDir, '.gcpb', '.cache', 'org', 'repo');
+      await createClone('main', [path.join(cachePath, 'objects')]);
+      await createClone('feat');
+
+      const clones = await findSharedClones(
+        [
+          {
+            owner: 'org',
+            repo: 'repo',
+            branches: ['main', 'feat'],
+            fullPath: path.join(rootDir, 'org', 'repo'),
+          },
+        ],
+        cachePath
+      );
+
+      expect(clones.map((c) => c.branch)).toEqual(['main']);
+    });
+  });
+
+  describe('dissociateClone', () => {
+    test('should repack borrowed objects and drop the alternates', async () => {
+      const clonePath = await createClone('main', [path.join(rootDir, 'cache', 'objects')]);
+      mockGit.raw.mockResolvedValue('');
+
+      await dissociateClone(clonePath);
+
+      expect(mockGit.raw).toHaveBeenCalledWith(['repack', '-a', '-d', '-q']);
+      expect(await getAlternates(clonePath)).toEqual([]);
+    });
+
+    test('should leave independent clones alone', async () => {
+      const clonePath = await createClone('main');
+
+      await dissociateClone(clonePath);
+
+      expect(mockGit.raw).not.toHaveBeenCalled();
+    });
+
+    test('should keep the alternates when repacking fails', async () => {
+      const cacheObjects = path.join(rootDir, 'cache', 'objects');
+      const clonePath = await createClone('main', [cacheObjects]);
+      mockGit.raw.mockRejectedValue(new Error('missing blob'));
+
+      await expect(dissociateClone(clonePath)).rejects.toThrow('missing blob');
+      expect(await getAlternates(clonePath)).toEqual([cacheObjects]);
+    });
+  });
+
+  describe('checkAlternates', () => {
+    test('should accept independent clones without running fsck', async () => {
+      const clonePath = await createClone('main');
+
+      expect(await checkAlternates(clonePath)).toBeNull();
+      expect(mockGit.raw).not.toHaveBeenCalled();
+    });
+
+    test('should report missing alternate directories', async () => {
+      const missing = path.join(rootDir, 'gone', 'objects');
+      const clonePath = await createClone('main', [missing]);
+
+      expect(await checkAlternates(clonePath)).toBe(
+        `borrows objects from ${missing}, which no longer exists`
+      );
+    });
+
+    test('should report missing objects found by fsck', async () => {
+      const cacheObjects = path.join(rootDir, 'cache', 'objects');
+      await fs.ensureDir(cacheObjects);
+      const clonePath = await createClone('main', [cacheObjects]);
+      mockGit.raw.mockRejectedValue(new Error('missing blob'));
+
+      expect(await checkAlternates(clonePath)).toBe(
+        `objects borrowed from ${cacheObjects} are missing`
+      );
+      expect(mockGit.raw).toHaveBeenCalledWith([
+        'fsck',
+        '--connectivity-only',
+        '--no-dangling',
+        '--no-progress',
+      ]);
+    });
+
+    test('should accept shared clones with complete objects', async () => {
+      const cacheObjects = path.join(rootDir, 'cache', 'objects');
+      await fs.ensureDir(cacheObjects);
+      const clonePath = await createClone('main', [cacheObjects]);
+      mockGit.raw.mockResolvedValue('');
+
+      expect(await checkAlternates(clonePath)).toBeNull();
+    });
+  });
+});
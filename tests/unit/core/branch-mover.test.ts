@@ -0,0 +1,138 @@
+import { describe, test, expect, vi, beforeEach, afterEach } from 'vitest';
+import { moveBranchClone } from '../../../src/core/branch-mover.js';
+import type { BranchClone } from '../../../src/types/index.js';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import simpleGit from 'simple-git';
+
+vi.mock('simple-git');
+vi.mock('../../../src/core/config.js');
+
+describe('branch-mover', () => {
+  const mockGit = {
+    branch: vi.fn(),
+    getConfig: vi.fn(),
+    raw: vi.fn(),
+  };
+  let branchConfig: Record<string, string>;
+  let rootDir: string;
+  let clone: BranchClone;
+
+  const statePath = () => path.join(rootDir, '.gcpb', 'state.json');
+
+  beforeEach(async () => {
+    vi.resetAllMocks();
+    vi.mocked(simpleGit).mockReturnValue(mockGit as any);
+    mockGit.branch.mockResolvedValue({ all: ['feat-old', 'remotes/origin/feat-old'] });
+    branchConfig = {
+      'branch.feat-old.remote': 'origin',
+      'branch.feat-old.merge': 'refs/heads/feat-old',
+    };
+    mockGit.getConfig.mockImplementation(async (key: string) => ({
+      value: branchConfig[key] ?? null,
+    }));
+    mockGit.raw.mockResolvedValue('');
+
+    rootDir = await fs.mkdtemp(path.join(os.tmpdir(), 'gcpb-mover-'));
+    clone = {
+      owner: 'acme',
+      repo: 'web',
+      branch: 'feat-old',
+      path: path.join(rootDir, 'acme', 'web', 'feat-old'),
+    };
+    await fs.ensureDir(path.join(clone.path, '.git'));
+    await fs.outputJson(statePath(), {
+      clones: {
+        'acme/web/feat-old': { branch: 'feat-old', url: 'https://github.com/acme/web.git' },
+      },
+    });
+  });
+
+  afterEach(async () => {
+    await fs.remove(rootDir);
+  });
+
+  test('should rename the branch, move the directory and its metadata', async () => {
+    const result = await moveBranchClone({ rootDir, clone, newBranch: 'feat/new' });
+
+    const targetPath = path.join(rootDir, 'acme', 'web', 'feat-new');
+    expect(result).toEqual({ targetPath, upstream: 'origin/feat-old', ownsUpstream: true });
+    expect(await fs.pathExists(path.join(targetPath, '.git'))).toBe(true);
+    expect(await fs.pathExists(clone.path)).toBe(false);
+    expect(mockGit.raw).toHaveBeenCalledWith(['branch', '-m', 'feat-old', 'feat/new']);
+    expect((await fs.readJson(statePath())).clones).toEqual({
+      'acme/web/feat-new': { branch: 'feat/new', url: 'https://github.com/acme/web.git' },
+    });
+  });
+
+  test('should rename the remote branch and track it with remote', async () => {
+    const result = await moveBranchClone({ rootDir, clone, newBranch: 'feat-new', remote: true });
+
+    expect(result.upstream).toBe('origin/feat-new');
+    expect(mockGit.raw).toHaveBeenCalledWith([
+      'push',
+      '--set-upstream',
+      'origin',
+      'feat-new:feat-new',
+    ]);
+    expect(mockGit.raw).toHaveBeenCalledWith(['push', 'origin', '--delete', 'feat-old']);
+  });
+
+  test('should keep the base branch a new branch still tracks', async () => {
+    branchConfig['branch.feat-old.merge'] = 'refs/heads/develop';
+
+    const result = await moveBranchClone({ rootDir, clone, newBranch: 'feat-new', remote: true });
+
+    expect(result).toMatchObject({ upstream: 'origin/feat-new', ownsUpstream: false });
+    expect(mockGit.raw).toHaveBeenCalledWith([
+      'push',
+      '--set-upstream',
+      'origin',
+      'feat-new:feat-new',
+    ]);
+    expect(mockGit.raw).not.toHaveBeenCalledWith(['push', 'origin', '--delete', 'develop']);
+    expect(mockGit.raw).not.toHaveBeenCalledWith(expect.arrayContaining(['--delete']));
+  });
+
+  test('should refuse names already taken on the remote', async () => {
+    mockGit.branch.mockResolvedValue({ all: ['feat-old', 'remotes/origin/feat-new'] });
+
+    await expect(moveBranchClone({ rootDir, clone, newBranch: 'feat-new' })).rejects.toThrow(
+      'Remote branch "feat-new" already exists'
+    );
+    expect(await fs.pathExists(clone.path)).toBe(true);
+  });
+
+  test('should refuse invalid names and directories that exist', async () => {
+    await expect(moveBranchClone({ rootDir, clone, newBranch: 'feat..x' })).rejects.toThrow(
+      'Invalid branch name "feat..x"'
+    );
+
+    await fs.ensureDir(path.join(rootDir, 'acme', 'web', 'taken'));
+    await expect(moveBranchClone({ rootDir, clone, newBranch: 'taken' })).rejects.toThrow(
+      `Directory ${path.join(rootDir, 'acme', 'web', 'taken')} already exists`
+    );
+    expect(mockGit.raw).not.toHaveBeenCalled();
+  });
+
+  test('should refuse remote renames of branches without an upstream', async () => {
+    branchConfig = {};
+
+    await expect(
+      moveBranchClone({ rootDir, clone, newBranch: 'feat-new', remote: true })
+    ).rejects.toThrow('Branch "feat-old" does not track a branch on origin');
+    expect(await fs.pathExists(clone.path)).toBe(true);
+  });
+
+  test('should move the directory back when git refuses the rename', async () => {
+    mockGit.raw.mockRejectedValue(new Error("fatal: no branch named 'feat-old'"));
+
+    await expect(moveBranchClone({ rootDir, clone, newBranch: 'feat-new' })).rejects.toThrow(
+      'Failed to rename branch "feat-old"'
+    );
+    expect(await fs.pathExists(path.join(clone.path, '.git'))).toBe(true);
+    expect(await fs.pathExists(path.join(rootDir, 'acme', 'web', 'feat-new'))).toBe(false);
+    expect((await fs.readJson(statePath())).clones).toHaveProperty(['acme/web/feat-old']);
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, test, expect, vi, beforeEach } from 'vitest';
+import {
+  fromBranchDirectory,
+  getBranchNaming,
+  resolveClonePath,
+  toBranchDirectory,
+} from '../../../src/core/branch-naming.js';
+import { GCPBError, type BranchNaming } from '../../../src/types/index.js';
+
+vi.mock('../../../src/core/config.js');
+
+import { loadConfig } from '../../../src/core/config.js';
+
+describe('branch-naming', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  describe('toBranchDirectory', () => {
+    test('should replace slashes with hyphens for dash naming', () => {
+      expect(toBranchDirectory('feat/login', 'dash')).toBe('feat-login');
+      expect(toBranchDirectory('feat-login', 'dash')).toBe('feat-login');
+    });
+
+    test('should keep slashes for nested naming', () => {
+      expect(toBranchDirectory('feat/login', 'nested')).toBe('feat/login');
+    });
+
+    test('should escape slashes and percent signs for escape naming', () => {
+      expect(toBranchDirectory('feat/login', 'escape')).toBe('feat%2Flogin');
+      expect(toBranchDirectory('fix/100%', 'escape')).toBe('fix%2F100%25');
+      expect(toBranchDirectory('feat-login', 'escape')).toBe('feat-login');
+    });
+
+    test('should add a stable hash suffix only when the name contains slashes', () => {
+      const directory = toBranchDirectory('feat/login', 'hash');
+
+      expect(directory).toMatch(/^feat-login-[0-9a-f]{7}$/);
+      expect(toBranchDirectory('feat/login', 'hash')).toBe(directory);
+      expect(toBranchDirectory('feat/other', 'hash')).not.toBe(directory);
+      expect(toBranchDirectory('feat-login', 'hash')).toBe('feat-login');
+    });
+
+    test('should throw GCPBError for unknown naming', () => {
+      expect(() => toBranchDirectory('main', 'camel' as BranchNaming)).toThrow(GCPBError);
+      expect(() => toBranchDirectory('main', 'camel' as BranchNaming)).toThrow(
+        'Unknown branchNaming "camel"'
+      );
+    });
+  });
+
+  describe('fromBranchDirectory', () => {
+    test('should decode escaped directories', () => {
+      expect(fromBranchDirectory('feat%2Flogin')).toBe('feat/login');
+      expect(fromBranchDirectory('fix%2F100%25')).toBe('fix/100%');
+    });
+
+    test('should keep other directory names as-is', () => {
+      expect(fromBranchDirectory('feat-login')).toBe('feat-login');
+      expect(fromBranchDirectory('feat/login')).toBe('feat/login');
+    });
+  });
+
+  describe('getBranchNaming', () => {
+    test('should read branchNaming from settings', async () => {
+      vi.mocked(loadConfig).mockResolvedValue({ version: '1.0.0', branchNaming: 'nested' });
+
+      expect(await getBranchNaming('/root')).toBe('nested');
+    });
+
+    test('should default to dash when unset or unreadable', async () => {
+      vi.mocked(loadConfig).mockResolvedValueOnce({ version: '1.0.0' });
+      expect(await getBranchNaming('/root')).toBe('dash');
+
+      vi.mocked(loadConfig).mockRejectedValueOnce(new Error('missing'));
+      expect(await getBranchNaming('/root')).toBe('dash');
+    });
+  });
+
+  describe('resolveClonePath', () => {
+    test('should build the clone path with the configured naming', async () => {
+      vi.mocked(loadConfig).mockResolvedValue({ version: '1.0.0', branchNaming: 'nested' });
+
+      expect(await resolveClonePath('/root', 'org', 'repo', 'feat/login')).toBe(
+        '/root/org/repo/feat/login'
+      );
+    });
+  });
+});
@@ -0,0 +1,136 @@
+import { describe, test, expect, vi, beforeEach } from 'vitest';
+import {
+  getDirectorySize,
+  removeBranchClones,
+  runPreRemoveHooks,
+} from '../../../src/core/branch-remover.js';
+import fs from 'fs-extra';
+
+vi.mock('fs-extra');
+vi.mock('../../../src/core/config.js');
+vi.mock('../../../src/core/hooks.js');
+vi.mock('../../../src/core/metadata-store.js');
+vi.mock('../../../src/core/trash.js');
+
+import { cleanupEmptyDirectories } from '../../../src/core/config.js';
+import { runHooks } from '../../../src/core/hooks.js';
+import { removeCloneMetadata } from '../../../src/core/metadata-store.js';
+import { moveToTrash } from '../../../src/core/trash.js';
+
+describe('branch-remover', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  describe('removeBranchClones', () => {
+    test('should move each branch directory to the trash and cleanup empty directories', async () => {
+      vi.mocked(moveToTrash).mockImplementation(async (_root, targets) => ({
+        id: '20261019T101500Z',
+        removedAt: '2026-10-19T10:15:00.000Z',
+        clones: targets.map((t) => ({ ...t, path: t.path.slice('/root/'.length) })),
+      }));
+      vi.mocked(fs.readdir).mockResolvedValue(['other'] as any);
+      const onProgress = vi.fn();
+
+      const removed = await removeBranchClones(
+        '/root',
+        [
+          { owner: 'org1', repo: 'repo1', branch: 'main' },
+          { owner: 'org1', repo: 'repo1', branch: 'feat-x' },
+        ],
+        onProgress
+      );
+
+      expect(removed).toBe(2);
+      expect(moveToTrash).toHaveBeenCalledWith(
+        '/root',
+        [
+          { owner: 'org1', repo: 'repo1', branch: 'main', path: '/root/org1/repo1/main' },
+          { owner: 'org1', repo: 'repo1', branch: 'feat-x', path: '/root/org1/repo1/feat-x' },
+        ],
+        onProgress
+      );
+      expect(fs.remove).not.toHaveBeenCalled();
+      expect(removeCloneMetadata).toHaveBeenCalledWith('/root', [
+        '/root/org1/repo1/main',
+        '/root/org1/repo1/feat-x',
+      ]);
+      expect(cleanupEmptyDirectories).toHaveBeenCalledWith('/root');
+    });
+
+    test('should remove nested clones and the directories they leave empty', async () => {
+      vi.mocked(moveToTrash).mockResolvedValue(null);
+      vi.mocked(fs.remove).mockResolvedValue(undefined);
+      vi.mocked(fs.readdir).mockImplementation((async (dir: string) =>
+        dir === '/root/org1/repo1/feat/ui' ? [] : ['other']) as any);
+
+      await removeBranchClones('/root', [
+        {
+          owner: 'org1',
+          repo: 'repo1',
+          branch: 'feat/ui/login',
+          path: '/root/org1/repo1/feat/ui/login',
+        },
+      ]);
+
+      expect(vi.mocked(moveToTrash).mock.calls[0][1][0].path).toBe(
+        '/root/org1/repo1/feat/ui/login'
+      );
+      expect(fs.remove).toHaveBeenCalledWith('/root/org1/repo1/feat/ui');
+      expect(fs.remove).not.toHaveBeenCalledWith('/root/org1/repo1/feat');
+      expect(removeCloneMetadata).toHaveBeenCalledWith('/root', ['/root/org1/repo1/feat/ui/login']);
+    });
+
+    test('should propagate removal errors', async () => {
+      vi.mocked(moveToTrash).mockRejectedValue(new Error('EACCES'));
+
+      await expect(
+        removeBranchClones('/root', [{ owner: 'org1', repo: 'repo1', branch: 'main' }])
+      ).rejects.toThrow('EACCES');
+    });
+  });
+
+  describe('runPreRemoveHooks', () => {
+    test('should run pre-remove hooks for each target in its clone directory', async () => {
+      vi.mocked(runHooks).mockResolvedValue({ success: true, ran: 1 });
+
+      await runPreRemoveHooks('/root', [
+        { owner: 'org1', repo: 'repo1', branch: 'main' },
+        { owner: 'org1', repo: 'repo1', branch: 'feat-x' },
+      ]);
+
+      expect(runHooks).toHaveBeenCalledTimes(2);
+      expect(runHooks).toHaveBeenCalledWith(
+        'preRemove',
+        '/root',
+        { owner: 'org1', repo: 'repo1', branch: 'feat-x', path: '/root/org1/repo1/feat-x' },
+        undefined
+      );
+    });
+  });
+
+  describe('getDirectorySize', () => {
+    test('should add up file sizes recursively without following symlinks', async () => {
+      const tree: Record<string, string[]> = {
+        '/clone': ['a.txt', 'src', 'link'],
+        '/clone/src': ['b.txt'],
+      };
+      const sizes: Record<string, number> = {
+        '/clone/a.txt': 100,
+        '/clone/src/b.txt': 50,
+        '/clone/link': 10,
+      };
+      vi.mocked(fs.readdir).mockImplementation((async (dir: string) => {
+        if (!tree[dir]) throw new Error('ENOENT');
+        return tree[dir];
+      }) as any);
+      vi.mocked(fs.lstat).mockImplementation((async (entry: string) => ({
+        isDirectory: () => entry in tree,
+        size: sizes[entry] ?? 4096,
+      })) as any);
+
+      expect(await getDirectorySize('/clone')).toBe(160);
+      expect(await getDirectorySize('/missing')).toBe(0);
+    });
+  });
+});
@@ -5,7 +5,15 @@ import {
   getCacheInfo,
   createCache,
   updateCache,
+  fetchCacheRef,
   removeCache,
+  removeEmptyCacheParents,
+  ensureCache,
+  verifyCache,
+  getCacheStats,
+  gcCache,
+  protectCacheObjects,
+  allowFilteredClones,
 } from '../../../src/core/cache-manager.js';
 import fs from 'fs-extra';
 import simpleGit from 'simple-git';
@@ -76,6 +84,61 @@ describe('cache-manager', () => {
     });
   });
 
+  describe('verifyCache', () => {
+    test('should check connectivity of a structurally valid cache', async () => {
+      vi.mocked(fs.pathExists).mockResolvedValue(true);
+      mockGit.revparse.mockResolvedValue('true\n');
+      mockGit.raw.mockResolvedValue('');
+
+      expect(await verifyCache('/cache/path')).toBe(true);
+      expect(mockGit.raw).toHaveBeenCalledWith(['fsck', '--connectivity-only', '--no-progress']);
+    });
+
+    test('should return false if fsck fails', async () => {
+      vi.mocked(fs.pathExists).mockResolvedValue(true);
+      mockGit.revparse.mockResolvedValue('true\n');
+      mockGit.raw
+        .mockResolvedValueOnce('HEAD refs/heads/main\n')
+        .mockRejectedValueOnce(new Error('missing blob'));
+
+      expect(await verifyCache('/cache/path')).toBe(false);
+    });
+
+    test('should not run fsck on a structurally invalid cache', async () => {
+      vi.mocked(fs.pathExists).mockResolvedValue(false);
+
+      expect(await verifyCache('/cache/path')).toBe(false);
+      expect(mockGit.raw).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getCacheStats', () => {
+    test('should sum object sizes and use the FETCH_HEAD time', async () => {
+      mockGit.raw.mockResolvedValue(
+        'count: 3\nsize: 12\nin-pack: 40\npacks: 1\nsize-pack: 1000\nprune-packable: 0\ngarbage: 0\nsize-garbage: 0\n'
+      );
+      vi.mocked(fs.stat).mockResolvedValue({ mtime: new Date('2024-05-01T10:00:00Z') } as any);
+
+      const stats = await getCacheStats('/cache/path');
+
+      expect(stats).toEqual({ sizeBytes: 1012 * 1024, lastFetchedAt: '2024-05-01T10:00:00.000Z' });
+      expect(mockGit.raw).toHaveBeenCalledWith(['count-objects', '-v']);
+      expect(fs.stat).toHaveBeenCalledWith('/cache/path/FETCH_HEAD');
+    });
+
+    test('should fall back to HEAD for mirrors that were never fetched', async () => {
+      mockGit.raw.mockResolvedValue('size: 0\nsize-pack: 0\n');
+      vi.mocked(fs.stat)
+        .mockRejectedValueOnce(Object.assign(new Error('ENOENT'), { code: 'ENOENT' }))
+        .mockResolvedValueOnce({ mtime: new Date('2024-04-01T00:00:00Z') } as any);
+
+      const stats = await getCacheStats('/cache/path');
+
+      expect(stats.lastFetchedAt).toBe('2024-04-01T00:00:00.000Z');
+      expect(fs.stat).toHaveBeenLastCalledWith('/cache/path/HEAD');
+    });
+  });
+
   describe('getCacheInfo', () => {
     test('should return non-existent cache info when cache does not exist', async () => {
       vi.mocked(fs.pathExists).mockResolvedValue(false);
@@ -148,6 +211,59 @@ describe('cache-manager', () => {
     });
   });
 
+  describe('gcCache', () => {
+    test('should gc and prune unreachable objects immediately', async () => {
+      mockGit.raw.mockResolvedValue('');
+
+      await gcCache('/cache/path');
+      await gcCache('/cache/path', { aggressive: true });
+
+      expect(mockGit.raw).toHaveBeenNthCalledWith(1, ['gc', '--prune=now']);
+      expect(mockGit.raw).toHaveBeenNthCalledWith(2, ['gc', '--prune=now', '--aggressive']);
+    });
+
+    test('should keep unreachable objects when asked to', async () => {
+      mockGit.raw.mockResolvedValue('');
+
+      await gcCache('/cache/path', { keepUnreachable: true });
+
+      expect(mockGit.raw).toHaveBeenCalledWith(['gc', '--prune=never']);
+    });
+  });
+
+  describe('protectCacheObjects', () => {
+    test('should disable pruning by automatic gc', async () => {
+      mockGit.raw.mockResolvedValue('');
+
+      await protectCacheObjects('/cache/path');
+
+      expect(mockGit.raw).toHaveBeenCalledWith(['config', 'gc.pruneExpire', 'never']);
+    });
+  });
+
+  describe('allowFilteredClones', () => {
+    test('should let upload-pack honour --filter', async () => {
+      mockGit.raw.mockResolvedValue('');
+
+      await allowFilteredClones('/cache/path');
+
+      expect(mockGit.raw).toHaveBeenCalledWith(['config', 'uploadpack.allowFilter', 'true']);
+    });
+  });
+
+  describe('fetchCacheRef', () => {
+    test('should force-fetch the ref into the same ref name', async () => {
+      mockGit.fetch.mockResolvedValue(undefined);
+
+      await fetchCacheRef('/cache/path', 'refs/pull/12/head');
+
+      expect(mockGit.fetch).toHaveBeenCalledWith([
+        'origin',
+        '+refs/pull/12/head:refs/pull/12/head',
+      ]);
+    });
+  });
+
   describe('removeCache', () => {
     test('should remove cache directory if it exists', async () => {
       vi.mocked(fs.pathExists).mockResolvedValue(true);
@@ -168,4 +284,75 @@ describe('cache-manager', () => {
       expect(fs.remove).not.toHaveBeenCalled();
     });
   });
+
+  describe('removeEmptyCacheParents', () => {
+    test('should remove owner directories left empty, but not the cache root', async () => {
+      vi.mocked(fs.readdir).mockResolvedValue([] as any);
+
+      await removeEmptyCacheParents('/root', '/root/.gcpb/.cache/gitlab.com/group/app');
+
+      expect(fs.remove).toHaveBeenCalledWith('/root/.gcpb/.cache/gitlab.com/group');
+      expect(fs.remove).toHaveBeenCalledWith('/root/.gcpb/.cache/gitlab.com');
+      expect(fs.remove).not.toHaveBeenCalledWith('/root/.gcpb/.cache');
+    });
+
+    test('should stop at directories holding other caches', async () => {
+      vi.mocked(fs.readdir).mockResolvedValue(['other'] as any);
+
+      await removeEmptyCacheParents('/root', '/root/.gcpb/.cache/acme/web');
+
+      expect(fs.remove).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('ensureCache', () => {
+    const options = {
+      url: 'https://github.com/owner/repo.git',
+      owner: 'owner',
+      repo: 'repo',
+      rootDir: '/workspace',
+    };
+
+    test('should create cache when it does not exist', async () => {
+      vi.mocked(fs.pathExists).mockResolvedValue(false);
+      vi.mocked(fs.ensureDir).mockResolvedValue(undefined);
+
+      const result = await ensureCache(options);
+
+      expect(result).toBe('/workspace/.gcpb/.cache/owner/repo');
+      expect(mockGit.clone).toHaveBeenCalledWith(
+        'https://github.com/owner/repo.git',
+        '/workspace/.gcpb/.cache/owner/repo',
+        ['--mirror']
+      );
+      expect(mockGit.fetch).not.toHaveBeenCalled();
+    });
+
+    test('should update cache when it is valid', async () => {
+      vi.mocked(fs.pathExists).mockResolvedValue(true);
+      mockGit.revparse.mockResolvedValue('true\n');
+      mockGit.raw.mockResolvedValue('abc123 HEAD\n');
+
+      await ensureCache(options);
+
+      expect(mockGit.fetch).toHaveBeenCalledWith(['origin', '--prune', '--prune-tags']);
+      expect(mockGit.clone).not.toHaveBeenCalled();
+    });
+
+    test('should recreate cache when it is corrupted', async () => {
+      vi.mocked(fs.pathExists).mockResolvedValue(true);
+      vi.mocked(fs.remove).mockResolvedValue(undefined);
+      vi.mocked(fs.ensureDir).mockResolvedValue(undefined);
+      mockGit.revparse.mockResolvedValue('false\n');
+
+      await ensureCache(options);
+
+      expect(fs.remove).toHaveBeenCalledWith('/workspace/.gcpb/.cache/owner/repo');
+      expect(mockGit.clone).toHaveBeenCalledWith(
+        'https://github.com/owner/repo.git',
+        '/workspace/.gcpb/.cache/owner/repo',
+        ['--mirror']
+      );
+    });
+  });
 });
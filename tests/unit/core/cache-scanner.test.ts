@@ -1,9 +1,11 @@
 import { describe, test, expect, vi, beforeEach } from 'vitest';
 import {
   scanCachedRepositories,
+  scanCacheDirectories,
   getCacheUrl,
   getCachedOwners,
   getCachedRepos,
+  getCachedBranches,
 } from '../../../src/core/cache-scanner.js';
 import fs from 'fs-extra';
 import simpleGit from 'simple-git';
@@ -16,6 +18,7 @@ vi.mock('../../../src/core/cache-manager.js');
 describe('cache-scanner', () => {
   const mockGit = {
     getRemotes: vi.fn(),
+    raw: vi.fn(),
   };
 
   beforeEach(() => {
@@ -59,6 +62,34 @@ describe('cache-scanner', () => {
     });
   });
 
+  describe('getCachedBranches', () => {
+    test('should list branches with the default branch first', async () => {
+      mockGit.raw.mockResolvedValue(
+        'refs/heads/feat/login\u00002026-10-18\u0000Bob\u0000Add login form\n' +
+          'refs/heads/main\u00002026-10-01\u0000Alice\u0000Release 2.0\n'
+      );
+
+      const branches = await getCachedBranches('/cache/path', 'main');
+
+      expect(branches).toEqual([
+        { name: 'main', date: '2026-10-01', author: 'Alice', subject: 'Release 2.0' },
+        { name: 'feat/login', date: '2026-10-18', author: 'Bob', subject: 'Add login form' },
+      ]);
+      expect(mockGit.raw).toHaveBeenCalledWith([
+        'for-each-ref',
+        '--sort=-committerdate',
+        '--format=%(refname)%00%(committerdate:short)%00%(authorname)%00%(subject)',
+        'refs/heads/',
+      ]);
+    });
+
+    test('should return empty list when the cache cannot be read', async () => {
+      mockGit.raw.mockRejectedValue(new Error('not a git repository'));
+
+      expect(await getCachedBranches('/cache/path', 'main')).toEqual([]);
+    });
+  });
+
   describe('getCachedOwners', () => {
     test('should return empty array if cache directory does not exist', async () => {
       vi.mocked(fs.pathExists).mockResolvedValue(false);
@@ -159,6 +190,36 @@ describe('cache-scanner', () => {
     });
   });
 
+  describe('scanCacheDirectories', () => {
+    test('should include invalid caches', async () => {
+      vi.mocked(fs.pathExists).mockResolvedValue(true);
+      vi.mocked(fs.readdir)
+        .mockResolvedValueOnce(['owner1'] as any)
+        .mockResolvedValueOnce(['repo1', 'broken'] as any);
+      vi.mocked(fs.stat).mockResolvedValue({ isDirectory: () => true } as any);
+      vi.mocked(validateCache).mockImplementation(
+        async (cachePath) => !cachePath.endsWith('broken')
+      );
+
+      const result = await scanCacheDirectories('/root');
+
+      expect(result).toEqual([
+        {
+          owner: 'owner1',
+          repo: 'repo1',
+          cachePath: '/root/.gcpb/.cache/owner1/repo1',
+          isValid: true,
+        },
+        {
+          owner: 'owner1',
+          repo: 'broken',
+          cachePath: '/root/.gcpb/.cache/owner1/broken',
+          isValid: false,
+        },
+      ]);
+    });
+  });
+
   describe('scanCachedRepositories', () => {
     test('should return empty array if cache root does not exist', async () => {
       vi.mocked(fs.pathExists).mockResolvedValue(false);
@@ -263,5 +324,33 @@ describe('cache-scanner', () => {
 
       expect(result).toEqual([]);
     });
+
+    test('should find caches below owners spanning several directories', async () => {
+      vi.mocked(fs.pathExists).mockImplementation(
+        (async (p: string) =>
+          !p.endsWith('HEAD') || p === '/root/.gcpb/.cache/gitlab.com/group/sub/app/HEAD') as any
+      );
+      vi.mocked(fs.readdir)
+        .mockResolvedValueOnce(['gitlab.com'] as any)
+        .mockResolvedValueOnce(['group'] as any)
+        .mockResolvedValueOnce(['sub'] as any)
+        .mockResolvedValueOnce(['app'] as any);
+      vi.mocked(fs.stat).mockResolvedValue({ isDirectory: () => true } as any);
+      vi.mocked(validateCache).mockResolvedValue(true);
+      mockGit.getRemotes.mockResolvedValue([
+        { name: 'origin', refs: { fetch: 'https://gitlab.com/group/sub/app.git' } },
+      ]);
+
+      const result = await scanCachedRepositories('/root');
+
+      expect(result).toEqual([
+        {
+          owner: 'gitlab.com/group/sub',
+          repo: 'app',
+          cachePath: '/root/.gcpb/.cache/gitlab.com/group/sub/app',
+          url: 'https://gitlab.com/group/sub/app.git',
+        },
+      ]);
+    });
   });
 });
@@ -0,0 +1,114 @@
+import { describe, test, expect, beforeEach, afterEach } from 'vitest';
+import {
+  copyCarryOverFiles,
+  findCarryOverFiles,
+  findSiblingClones,
+  getCarryOverPatterns,
+} from '../../../src/core/carry-over.js';
+import type { Config } from '../../../src/types/index.js';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+
+describe('carry-over', () => {
+  let rootDir: string;
+
+  beforeEach(async () => {
+    rootDir = await fs.mkdtemp(path.join(os.tmpdir(), 'gcpb-carry-over-'));
+  });
+
+  afterEach(async () => {
+    await fs.remove(rootDir);
+  });
+
+  /**
+   * Create a fake clone whose .git/index was last touched at the given time
+   */
+  async function createClone(branch: string, lastUsed: Date): Promise<string> {
+    const clonePath = path.join(rootDir, 'acme', 'web', branch);
+    await fs.ensureDir(path.join(clonePath, '.git'));
+    await fs.writeFile(path.join(clonePath, '.git', 'index'), '');
+    await fs.utimes(path.join(clonePath, '.git', 'index'), lastUsed, lastUsed);
+    return clonePath;
+  }
+
+  describe('getCarryOverPatterns', () => {
+    test('should collect globs from every matching repository pattern without duplicates', () => {
+      const config: Config = {
+        version: '1.0.0',
+        carryOver: {
+          '**': ['.vscode/settings.json'],
+          'acme/*': ['.env', '**/.env.local'],
+          'acme/web': ['.env', 'certs/*.pem'],
+          'other/*': ['.npmrc'],
+        },
+      };
+
+      expect(getCarryOverPatterns(config, 'acme', 'web')).toEqual([
+        '.vscode/settings.json',
+        '.env',
+        '**/.env.local',
+        'certs/*.pem',
+      ]);
+    });
+
+    test('should return empty array when nothing is configured', () => {
+      expect(getCarryOverPatterns({ version: '1.0.0' }, 'acme', 'web')).toEqual([]);
+    });
+  });
+
+  describe('findSiblingClones', () => {
+    test('should list clones most recently used first, excluding the new clone', async () => {
+      await createClone('main', new Date('2024-01-01'));
+      await createClone('feat-a', new Date('2024-03-01'));
+      const newClone = await createClone('feat-new', new Date('2024-04-01'));
+      await fs.ensureDir(path.join(rootDir, 'acme', 'web', 'not-a-clone'));
+      await fs.writeFile(path.join(rootDir, 'acme', 'web', 'notes.txt'), '');
+      await fs.outputJson(path.join(rootDir, '.gcpb', 'state.json'), {
+        clones: { 'acme/web/feat-a': { branch: 'feat/a' } },
+      });
+
+      const siblings = await findSiblingClones(rootDir, 'acme', 'web', newClone);
+
+      expect(siblings.map((s) => s.branch)).toEqual(['feat/a', 'main']);
+      expect(siblings[0].path).toBe(path.join(rootDir, 'acme', 'web', 'feat-a'));
+    });
+
+    test('should return empty array when the repository has no clones', async () => {
+      expect(await findSiblingClones(rootDir, 'acme', 'missing')).toEqual([]);
+    });
+  });
+
+  describe('findCarryOverFiles', () => {
+    test('should match globs at any depth and skip .git and node_modules', async () => {
+      const clonePath = await createClone('main', new Date());
+      await fs.outputFile(path.join(clonePath, '.env'), 'A=1');
+      await fs.outputFile(path.join(clonePath, 'apps/api/.env'), 'B=2');
+      await fs.outputFile(path.join(clonePath, 'node_modules/pkg/.env'), '');
+      await fs.outputFile(path.join(clonePath, '.git/.env'), '');
+      await fs.outputFile(path.join(clonePath, 'README.md'), '');
+
+      expect(await findCarryOverFiles(clonePath, ['**/.env'])).toEqual(['.env', 'apps/api/.env']);
+    });
+  });
+
+  describe('copyCarryOverFiles', () => {
+    test('should copy matching files without overwriting existing ones', async () => {
+      const source = await createClone('main', new Date());
+      const target = await createClone('feat-new', new Date());
+      await fs.outputFile(path.join(source, '.env'), 'SECRET=1');
+      await fs.outputFile(path.join(source, '.vscode/settings.json'), '{}');
+      await fs.outputFile(path.join(source, '.env.example'), 'from source');
+      await fs.outputFile(path.join(target, '.env.example'), 'tracked');
+
+      const result = await copyCarryOverFiles(source, target, ['.env*', '.vscode/settings.json']);
+
+      expect(result).toEqual({
+        copied: ['.env', '.vscode/settings.json'],
+        skipped: ['.env.example'],
+      });
+      expect(await fs.readFile(path.join(target, '.env'), 'utf-8')).toBe('SECRET=1');
+      expect(await fs.readFile(path.join(target, '.env.example'), 'utf-8')).toBe('tracked');
+    });
+  });
+});
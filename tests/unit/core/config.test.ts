@@ -3,6 +3,7 @@ import {
   findRoot,
   initializeConfig,
   loadConfig,
+  updateEditorPreferences,
   cleanupEmptyDirectories,
 } from '../../../src/core/config.js';
 import { GCPBError } from '../../../src/types/index.js';
@@ -202,6 +203,27 @@ describe('config', () => {
     });
   });
 
+  describe('updateEditorPreferences', () => {
+    test('should keep existing editor settings when updating autoOpen', async () => {
+      vi.mocked(fs.readJson).mockResolvedValue({
+        version: '1.0.0',
+        editor: { defaultEditor: 'zed', customEditors: { subl: 'subl {path}' } },
+      });
+      vi.mocked(fs.writeJson).mockResolvedValue(undefined);
+
+      await updateEditorPreferences('/home/user/project', { autoOpen: true });
+
+      expect(fs.writeJson).toHaveBeenCalledWith(
+        '/home/user/project/.gcpb/settings.json',
+        {
+          version: '1.0.0',
+          editor: { autoOpen: true, defaultEditor: 'zed', customEditors: { subl: 'subl {path}' } },
+        },
+        { spaces: 2 }
+      );
+    });
+  });
+
   describe('cleanupEmptyDirectories', () => {
     test('should remove empty repo and owner directories', async () => {
       vi.mocked(fs.readdir)
@@ -1,12 +1,20 @@
 import { describe, test, expect, vi, beforeEach } from 'vitest';
 import { detectContext } from '../../../src/core/context-detector.js';
-import fs from 'fs-extra';
 
-vi.mock('fs-extra');
+vi.mock('../../../src/core/repository-scanner.js');
+
+import { scanRepositories } from '../../../src/core/repository-scanner.js';
 
 describe('context-detector', () => {
+  const repositories = [
+    { owner: 'owner1', repo: 'repo1', branches: ['main'], fullPath: '/test/root/owner1/repo1' },
+    { owner: 'owner1', repo: 'repo2', branches: ['dev'], fullPath: '/test/root/owner1/repo2' },
+    { owner: 'owner2', repo: 'repo3', branches: ['main'], fullPath: '/test/root/owner2/repo3' },
+  ];
+
   beforeEach(() => {
     vi.resetAllMocks();
+    vi.mocked(scanRepositories).mockResolvedValue([]);
   });
 
   describe('detectContext', () => {
@@ -15,6 +23,7 @@ describe('context-detector', () => {
         const result = await detectContext('/home/user/gcpb', '/home/user');
 
         expect(result).toEqual({ location: 'outside' });
+        expect(scanRepositories).not.toHaveBeenCalled();
       });
 
       test('should return outside when current dir is absolute path outside', async () => {
@@ -24,7 +33,7 @@ describe('context-detector', () => {
       });
 
       test('should return outside on error', async () => {
-        vi.mocked(fs.readdir).mockRejectedValue(new Error('Fatal error'));
+        vi.mocked(scanRepositories).mockRejectedValue(new Error('Fatal error'));
 
         const result = await detectContext('/test/root', '/test/root');
 
@@ -33,13 +42,8 @@ describe('context-detector', () => {
     });
 
     describe('root location', () => {
-      test('should detect root location with available owners', async () => {
-        vi.mocked(fs.readdir)
-          .mockResolvedValueOnce(['owner1', 'owner2', '.gcpb'] as any)
-          .mockResolvedValueOnce(['repo1'] as any)
-          .mockResolvedValueOnce(['repo2'] as any);
-
-        vi.mocked(fs.stat).mockResolvedValue({ isDirectory: () => true } as any);
+      test('should detect root location with owners of cloned repositories', async () => {
+        vi.mocked(scanRepositories).mockResolvedValue(repositories);
 
         const result = await detectContext('/test/root', '/test/root');
 
@@ -49,73 +53,22 @@ describe('context-detector', () => {
         });
       });
 
-      test('should skip .gcpb directory when detecting root', async () => {
-        vi.mocked(fs.readdir)
-          .mockResolvedValueOnce(['.gcpb', 'owner1'] as any)
-          .mockResolvedValueOnce(['repo1'] as any);
-
-        vi.mocked(fs.stat).mockResolvedValue({ isDirectory: () => true } as any);
-
-        const result = await detectContext('/test/root', '/test/root');
-
-        expect(result.availableOwners).toEqual(['owner1']);
-      });
-
-      test('should skip owners with no repos', async () => {
-        vi.mocked(fs.readdir)
-          .mockResolvedValueOnce(['empty-owner', 'owner1'] as any)
-          .mockResolvedValueOnce([] as any) // empty-owner has no repos
-          .mockResolvedValueOnce(['repo1'] as any); // owner1 has repos
-
-        vi.mocked(fs.stat).mockResolvedValue({ isDirectory: () => true } as any);
-
-        const result = await detectContext('/test/root', '/test/root');
-
-        expect(result.availableOwners).toEqual(['owner1']);
-      });
-
-      test('should skip non-directory entries', async () => {
-        vi.mocked(fs.readdir).mockResolvedValueOnce(['file.txt', 'owner1'] as any);
-
-        vi.mocked(fs.stat).mockImplementation(async (path: any) => {
-          if (path.toString().includes('file.txt')) {
-            return { isDirectory: () => false } as any;
-          }
-          return { isDirectory: () => true } as any;
-        });
-
-        vi.mocked(fs.readdir).mockResolvedValueOnce(['repo1'] as any);
-
-        const result = await detectContext('/test/root', '/test/root');
-
-        expect(result.availableOwners).toEqual(['owner1']);
-      });
-
-      test('should skip owners with permission denied', async () => {
-        vi.mocked(fs.readdir)
-          .mockResolvedValueOnce(['denied', 'owner1'] as any)
-          .mockResolvedValueOnce(['repo1'] as any);
-
-        vi.mocked(fs.stat).mockImplementation(async (path: any) => {
-          if (path.toString().includes('denied')) {
-            const error = Object.assign(new Error('EACCES'), { code: 'EACCES' });
-            throw error;
-          }
-          return { isDirectory: () => true } as any;
-        });
+      test('should list owners spanning several directories', async () => {
+        vi.mocked(scanRepositories).mockResolvedValue([
+          {
+            owner: 'github.com/acme',
+            repo: 'web',
+            branches: ['main'],
+            fullPath: '/test/root/github.com/acme/web',
+          },
+        ]);
 
         const result = await detectContext('/test/root', '/test/root');
 
-        expect(result.availableOwners).toEqual(['owner1']);
+        expect(result.availableOwners).toEqual(['github.com/acme']);
       });
 
-      test('should return root with no available owners when all are empty', async () => {
-        vi.mocked(fs.readdir)
-          .mockResolvedValueOnce(['owner1'] as any)
-          .mockResolvedValueOnce([] as any); // owner1 has no repos
-
-        vi.mocked(fs.stat).mockResolvedValue({ isDirectory: () => true } as any);
-
+      test('should return root with no available owners when nothing is cloned', async () => {
         const result = await detectContext('/test/root', '/test/root');
 
         expect(result).toEqual({
@@ -126,12 +79,7 @@ describe('context-detector', () => {
 
     describe('owner location', () => {
       test('should detect owner location with available repos', async () => {
-        vi.mocked(fs.readdir)
-          .mockResolvedValueOnce(['repo1', 'repo2'] as any)
-          .mockResolvedValueOnce(['main'] as any)
-          .mockResolvedValueOnce(['develop'] as any);
-
-        vi.mocked(fs.stat).mockResolvedValue({ isDirectory: () => true } as any);
+        vi.mocked(scanRepositories).mockResolvedValue(repositories);
 
         const result = await detectContext('/test/root', '/test/root/owner1');
 
@@ -142,61 +90,28 @@ describe('context-detector', () => {
         });
       });
 
-      test('should skip repos with no branches', async () => {
-        vi.mocked(fs.readdir)
-          .mockResolvedValueOnce(['empty-repo', 'repo1'] as any)
-          .mockResolvedValueOnce([] as any) // empty-repo has no branches
-          .mockResolvedValueOnce(['main'] as any); // repo1 has branches
-
-        vi.mocked(fs.stat).mockResolvedValue({ isDirectory: () => true } as any);
-
-        const result = await detectContext('/test/root', '/test/root/owner1');
-
-        expect(result.availableRepos).toEqual(['repo1']);
-      });
-
-      test('should skip non-directory entries at repo level', async () => {
-        vi.mocked(fs.readdir).mockResolvedValueOnce(['file.txt', 'repo1'] as any);
+      test('should detect owners spanning several directories', async () => {
+        vi.mocked(scanRepositories).mockResolvedValue([
+          {
+            owner: 'group/subgroup',
+            repo: 'app',
+            branches: ['main'],
+            fullPath: '/test/root/group/subgroup/app',
+          },
+        ]);
 
-        vi.mocked(fs.stat).mockImplementation(async (path: any) => {
-          if (path.toString().includes('file.txt')) {
-            return { isDirectory: () => false } as any;
-          }
-          return { isDirectory: () => true } as any;
+        expect(await detectContext('/test/root', '/test/root/group/subgroup')).toEqual({
+          location: 'owner',
+          owner: 'group/subgroup',
+          availableRepos: ['app'],
         });
-
-        vi.mocked(fs.readdir).mockResolvedValueOnce(['main'] as any);
-
-        const result = await detectContext('/test/root', '/test/root/owner1');
-
-        expect(result.availableRepos).toEqual(['repo1']);
-      });
-
-      test('should skip repos with permission denied', async () => {
-        vi.mocked(fs.readdir).mockResolvedValueOnce(['denied', 'repo1'] as any);
-
-        vi.mocked(fs.stat).mockImplementation(async (path: any) => {
-          if (path.toString().includes('denied')) {
-            const error = Object.assign(new Error('EPERM'), { code: 'EPERM' });
-            throw error;
-          }
-          return { isDirectory: () => true } as any;
+        expect(await detectContext('/test/root', '/test/root/group')).toEqual({
+          location: 'owner',
+          owner: 'group',
         });
-
-        vi.mocked(fs.readdir).mockResolvedValueOnce(['main'] as any);
-
-        const result = await detectContext('/test/root', '/test/root/owner1');
-
-        expect(result.availableRepos).toEqual(['repo1']);
       });
 
-      test('should return owner with no available repos when all are empty', async () => {
-        vi.mocked(fs.readdir)
-          .mockResolvedValueOnce(['repo1'] as any)
-          .mockResolvedValueOnce([] as any);
-
-        vi.mocked(fs.stat).mockResolvedValue({ isDirectory: () => true } as any);
-
+      test('should return owner with no available repos when nothing is cloned', async () => {
         const result = await detectContext('/test/root', '/test/root/owner1');
 
         expect(result).toEqual({
@@ -228,6 +143,29 @@ describe('context-detector', () => {
       });
     });
 
+    describe('cloned repositories', () => {
+      test('should detect repo and branch locations below owners spanning several directories', async () => {
+        vi.mocked(scanRepositories).mockResolvedValue([
+          {
+            owner: 'gitlab.example.com/group/subgroup',
+            repo: 'app',
+            branches: ['main'],
+            fullPath: '/test/root/gitlab.example.com/group/subgroup/app',
+          },
+        ]);
+
+        expect(
+          await detectContext('/test/root', '/test/root/gitlab.example.com/group/subgroup/app')
+        ).toEqual({ location: 'repo', owner: 'gitlab.example.com/group/subgroup', repo: 'app' });
+        expect(
+          await detectContext(
+            '/test/root',
+            '/test/root/gitlab.example.com/group/subgroup/app/main/src'
+          )
+        ).toEqual({ location: 'branch', owner: 'gitlab.example.com/group/subgroup', repo: 'app' });
+      });
+    });
+
     describe('branch location', () => {
       test('should detect branch location', async () => {
         const result = await detectContext('/test/root', '/test/root/owner1/repo1/main');
@@ -255,9 +193,7 @@ describe('context-detector', () => {
 
     describe('edge cases', () => {
       test('should handle current dir same as root (empty relative path)', async () => {
-        vi.mocked(fs.readdir).mockResolvedValueOnce(['owner1'] as any);
-        vi.mocked(fs.stat).mockResolvedValue({ isDirectory: () => true } as any);
-        vi.mocked(fs.readdir).mockResolvedValueOnce(['repo1'] as any);
+        vi.mocked(scanRepositories).mockResolvedValue(repositories);
 
         const result = await detectContext('/test/root', '/test/root');
 
@@ -0,0 +1,83 @@
+import { describe, test, expect, vi, beforeEach } from 'vitest';
+import {
+  buildDevContainerUri,
+  findDevContainerConfig,
+  getContainerWorkspaceFolder,
+} from '../../../src/core/devcontainer.js';
+import fs from 'fs-extra';
+
+vi.mock('fs-extra');
+
+describe('devcontainer', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  describe('findDevContainerConfig', () => {
+    test('should prefer .devcontainer/devcontainer.json', async () => {
+      vi.mocked(fs.pathExists).mockResolvedValue(true as never);
+
+      const result = await findDevContainerConfig('/root/org/repo/main');
+
+      expect(result).toBe('/root/org/repo/main/.devcontainer/devcontainer.json');
+    });
+
+    test('should fall back to .devcontainer.json in the clone root', async () => {
+      vi.mocked(fs.pathExists).mockImplementation(
+        async (p: string) => p === '/root/org/repo/main/.devcontainer.json'
+      );
+
+      const result = await findDevContainerConfig('/root/org/repo/main');
+
+      expect(result).toBe('/root/org/repo/main/.devcontainer.json');
+    });
+
+    test('should return null when there is no dev container', async () => {
+      vi.mocked(fs.pathExists).mockResolvedValue(false as never);
+
+      expect(await findDevContainerConfig('/root/org/repo/main')).toBeNull();
+    });
+  });
+
+  describe('getContainerWorkspaceFolder', () => {
+    const configPath = '/root/org/repo/main/.devcontainer/devcontainer.json';
+
+    test('should default to /workspaces/<folder name>', async () => {
+      vi.mocked(fs.readFile).mockResolvedValue('{ "image": "node:20" }' as never);
+
+      const result = await getContainerWorkspaceFolder('/root/org/repo/main', configPath);
+
+      expect(result).toBe('/workspaces/main');
+    });
+
+    test('should read workspaceFolder from JSONC with comments and trailing commas', async () => {
+      vi.mocked(fs.readFile).mockResolvedValue(
+        `{
+          // Dev container for the API
+          "image": "mcr.microsoft.com/devcontainers/typescript-node", /* base */
+          "workspaceFolder": "/src/\${localWorkspaceFolderBasename}",
+        }` as never
+      );
+
+      const result = await getContainerWorkspaceFolder('/root/org/repo/feat-x', configPath);
+
+      expect(result).toBe('/src/feat-x');
+    });
+
+    test('should fall back to default when the file is not valid JSON', async () => {
+      vi.mocked(fs.readFile).mockResolvedValue('{ broken' as never);
+
+      const result = await getContainerWorkspaceFolder('/root/org/repo/main', configPath);
+
+      expect(result).toBe('/workspaces/main');
+    });
+  });
+
+  describe('buildDevContainerUri', () => {
+    test('should hex-encode the host path', () => {
+      expect(buildDevContainerUri('/work/org/repo/main', '/workspaces/main')).toBe(
+        'vscode-remote://dev-container+2f776f726b2f6f72672f7265706f2f6d61696e/workspaces/main'
+      );
+    });
+  });
+});
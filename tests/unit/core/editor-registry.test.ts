@@ -0,0 +1,165 @@
+import { describe, test, expect, vi, beforeEach } from 'vitest';
+import {
+  BUILTIN_EDITORS,
+  defineCustomEditor,
+  detectInstalledEditor,
+  expandEditorArgs,
+  getEditorDefinition,
+  isCommandAvailable,
+  parseCommandTemplate,
+  resolveEditor,
+} from '../../../src/core/editor-registry.js';
+import { GCPBError } from '../../../src/types/index.js';
+import fs from 'fs-extra';
+import path from 'path';
+
+vi.mock('fs-extra');
+vi.mock('../../../src/core/config.js');
+
+import { loadConfig } from '../../../src/core/config.js';
+
+describe('editor-registry', () => {
+  const originalPath = process.env.PATH;
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+    process.env.PATH = ['/usr/bin', '/opt/bin'].join(path.delimiter);
+    return () => {
+      process.env.PATH = originalPath;
+    };
+  });
+
+  describe('parseCommandTemplate', () => {
+    test('should split on whitespace', () => {
+      expect(parseCommandTemplate('subl -n {path}')).toEqual(['subl', '-n', '{path}']);
+    });
+
+    test('should keep quoted arguments together', () => {
+      expect(parseCommandTemplate('"/Applications/My Editor" --folder "{path}"')).toEqual([
+        '/Applications/My Editor',
+        '--folder',
+        '{path}',
+      ]);
+    });
+  });
+
+  describe('defineCustomEditor', () => {
+    test('should keep {path} placement from the template', () => {
+      expect(defineCustomEditor('subl', 'subl --folder={path} -n')).toEqual({
+        id: 'subl',
+        name: 'subl',
+        command: 'subl',
+        args: ['--folder={path}', '-n'],
+      });
+    });
+
+    test('should append the path when the template has no placeholder', () => {
+      expect(defineCustomEditor('nvim', 'nvim').args).toEqual(['{path}']);
+    });
+
+    test('should throw GCPBError for an empty template', () => {
+      expect(() => defineCustomEditor('broken', '  ')).toThrow(GCPBError);
+    });
+  });
+
+  describe('expandEditorArgs', () => {
+    test('should substitute every placeholder', () => {
+      const editor = defineCustomEditor('x', 'x --folder={path} {path}');
+
+      expect(expandEditorArgs(editor, '/root/org/repo/main')).toEqual([
+        '--folder=/root/org/repo/main',
+        '/root/org/repo/main',
+      ]);
+    });
+  });
+
+  describe('getEditorDefinition', () => {
+    test('should return built-in editors', () => {
+      expect(getEditorDefinition('cursor')).toBe(BUILTIN_EDITORS.cursor);
+    });
+
+    test('should prefer custom editors over built-ins', () => {
+      const editor = getEditorDefinition('zed', { customEditors: { zed: 'zed-preview {path}' } });
+
+      expect(editor.command).toBe('zed-preview');
+    });
+
+    test('should list available editors for unknown names', () => {
+      expect(() => getEditorDefinition('vim', { customEditors: { subl: 'subl' } })).toThrow(
+        'Unknown editor "vim"'
+      );
+      try {
+        getEditorDefinition('vim', { customEditors: { subl: 'subl' } });
+      } catch (error) {
+        expect((error as GCPBError).suggestion).toContain('vscode, cursor, zed');
+        expect((error as GCPBError).suggestion).toContain('subl');
+      }
+    });
+
+    test('should not resolve object prototype keys', () => {
+      expect(() => getEditorDefinition('toString')).toThrow('Unknown editor "toString"');
+    });
+  });
+
+  describe('isCommandAvailable', () => {
+    test('should find commands on PATH', async () => {
+      vi.mocked(fs.pathExists).mockImplementation(async (p: string) => p === '/opt/bin/zed');
+
+      expect(await isCommandAvailable('zed')).toBe(true);
+      expect(await isCommandAvailable('cursor')).toBe(false);
+    });
+  });
+
+  describe('detectInstalledEditor', () => {
+    test('should return first installed built-in editor', async () => {
+      vi.mocked(fs.pathExists).mockImplementation(
+        async (p: string) => p === '/usr/bin/zed' || p === '/usr/bin/idea'
+      );
+
+      expect(await detectInstalledEditor()).toBe(BUILTIN_EDITORS.zed);
+    });
+
+    test('should return null when nothing is installed', async () => {
+      vi.mocked(fs.pathExists).mockResolvedValue(false as never);
+
+      expect(await detectInstalledEditor()).toBeNull();
+    });
+  });
+
+  describe('resolveEditor', () => {
+    test('should prefer explicit override', async () => {
+      vi.mocked(loadConfig).mockResolvedValue({
+        version: '1.0.0',
+        editor: { defaultEditor: 'zed' },
+      });
+
+      expect(await resolveEditor('/root', 'cursor')).toBe(BUILTIN_EDITORS.cursor);
+    });
+
+    test('should honor defaultEditor from settings', async () => {
+      vi.mocked(loadConfig).mockResolvedValue({
+        version: '1.0.0',
+        editor: { defaultEditor: 'subl', customEditors: { subl: 'subl -n {path}' } },
+      });
+
+      const editor = await resolveEditor('/root');
+
+      expect(editor.command).toBe('subl');
+      expect(editor.args).toEqual(['-n', '{path}']);
+    });
+
+    test('should auto-detect when no editor is configured', async () => {
+      vi.mocked(loadConfig).mockResolvedValue({ version: '1.0.0' });
+      vi.mocked(fs.pathExists).mockImplementation(async (p: string) => p === '/usr/bin/cursor');
+
+      expect(await resolveEditor('/root')).toBe(BUILTIN_EDITORS.cursor);
+    });
+
+    test('should fall back to VSCode when nothing is detected', async () => {
+      vi.mocked(loadConfig).mockRejectedValue(new Error('Failed to load configuration'));
+      vi.mocked(fs.pathExists).mockResolvedValue(false as never);
+
+      expect(await resolveEditor('/root')).toBe(BUILTIN_EDITORS.vscode);
+    });
+  });
+});
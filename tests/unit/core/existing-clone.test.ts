@@ -0,0 +1,214 @@
+import { describe, test, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  findAlternativePath,
+  inspectExistingClone,
+  removeExistingClone,
+  updateExistingClone,
+} from '../../../src/core/existing-clone.js';
+import { getTrashEntryPath, listTrash } from '../../../src/core/trash.js';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import simpleGit from 'simple-git';
+
+vi.mock('simple-git');
+vi.mock('../../../src/core/hooks.js');
+
+import { runHooks } from '../../../src/core/hooks.js';
+
+describe('existing-clone', () => {
+  const mockGit = {
+    getConfig: vi.fn(),
+    status: vi.fn(),
+    stashList: vi.fn(),
+    raw: vi.fn(),
+    revparse: vi.fn(),
+    fetch: vi.fn(),
+    pull: vi.fn(),
+  };
+  const url = 'https://github.com/acme/web.git';
+  let rootDir: string;
+  let clonePath: string;
+
+  beforeEach(async () => {
+    vi.resetAllMocks();
+    vi.mocked(simpleGit).mockReturnValue(mockGit as any);
+    mockGit.getConfig.mockResolvedValue({ value: 'git@github.com:acme/web.git' });
+    mockGit.status.mockResolvedValue({
+      detached: false,
+      current: 'feat/login',
+      tracking: 'origin/feat/login',
+      files: [],
+      not_added: [],
+      ahead: 0,
+      behind: 0,
+    });
+    mockGit.stashList.mockResolvedValue({ total: 0 });
+    mockGit.raw.mockResolvedValue('0\n');
+
+    rootDir = await fs.mkdtemp(path.join(os.tmpdir(), 'gcpb-existing-'));
+    clonePath = path.join(rootDir, 'acme', 'web', 'feat-login');
+    await fs.ensureDir(path.join(clonePath, '.git'));
+  });
+
+  afterEach(async () => {
+    await fs.remove(rootDir);
+  });
+
+  describe('inspectExistingClone', () => {
+    test('should match a clone of the same repository and branch', async () => {
+      expect(await inspectExistingClone(clonePath, url, 'feat/login')).toEqual({
+        path: clonePath,
+        matches: true,
+        reason: undefined,
+        unsavedWork: [],
+      });
+    });
+
+    test('should explain mismatches and report unsaved work', async () => {
+      mockGit.raw.mockResolvedValue('2\n');
+
+      const otherBranch = await inspectExistingClone(clonePath, url, 'feat-login');
+      const otherRepo = await inspectExistingClone(
+        clonePath,
+        'https://github.com/acme/api.git',
+        'feat/login'
+      );
+
+      expect(otherBranch).toMatchObject({
+        matches: false,
+        reason: 'has branch "feat/login" checked out',
+        unsavedWork: ['2 unpushed commits'],
+      });
+      expect(otherRepo?.reason).toBe('is a clone of git@github.com:acme/web.git');
+    });
+
+    test('should not match directories that are not clones', async () => {
+      const plainPath = path.join(rootDir, 'acme', 'web', 'notes');
+      await fs.outputFile(path.join(plainPath, 'todo.txt'), 'x');
+
+      expect(await inspectExistingClone(plainPath, url, 'notes')).toEqual({
+        path: plainPath,
+        matches: false,
+        reason: 'is not a git repository',
+        unsavedWork: ['files not under version control'],
+      });
+      expect(await inspectExistingClone(path.join(rootDir, 'gone'), url, 'gone')).toBeNull();
+    });
+
+    test('should let empty directories be replaced', async () => {
+      const emptyPath = path.join(rootDir, 'acme', 'web', 'empty');
+      await fs.ensureDir(emptyPath);
+
+      expect(await inspectExistingClone(emptyPath, url, 'empty')).toEqual({
+        path: emptyPath,
+        matches: false,
+        reason: 'is an empty directory',
+        unsavedWork: [],
+      });
+    });
+  });
+
+  describe('updateExistingClone', () => {
+    const trackOrigin = (refs: string) => {
+      mockGit.revparse.mockResolvedValue('feat/login\n');
+      mockGit.getConfig.mockImplementation(async (key: string) => ({
+        value:
+          {
+            'branch.feat/login.remote': 'origin',
+            'branch.feat/login.merge': 'refs/heads/feat/login',
+          }[key] ?? null,
+      }));
+      mockGit.raw.mockResolvedValue(refs);
+    };
+
+    test('should fetch and fast-forward to the upstream', async () => {
+      trackOrigin('refs/remotes/origin/feat/login\n');
+
+      expect(await updateExistingClone(clonePath)).toBe('origin/feat/login');
+      expect(mockGit.fetch).toHaveBeenCalledWith(['origin', '--prune']);
+      expect(mockGit.pull).toHaveBeenCalledWith(['--ff-only']);
+    });
+
+    test('should only fetch branches without an upstream', async () => {
+      mockGit.revparse.mockResolvedValue('feat/login\n');
+      mockGit.getConfig.mockResolvedValue({ value: null });
+
+      expect(await updateExistingClone(clonePath)).toBeNull();
+      expect(mockGit.pull).not.toHaveBeenCalled();
+    });
+
+    test('should only fetch branches whose upstream was deleted', async () => {
+      trackOrigin('');
+
+      expect(await updateExistingClone(clonePath)).toBeNull();
+      expect(mockGit.pull).not.toHaveBeenCalled();
+    });
+
+    test('should explain diverged branches', async () => {
+      trackOrigin('refs/remotes/origin/feat/login\n');
+      mockGit.pull.mockRejectedValue(new Error('fatal: Not possible to fast-forward, aborting.'));
+
+      await expect(updateExistingClone(clonePath)).rejects.toThrow(`Failed to update ${clonePath}`);
+    });
+  });
+
+  describe('findAlternativePath', () => {
+    test('should pick the first free suffix', async () => {
+      await fs.ensureDir(`${clonePath}-2`);
+
+      expect(await findAlternativePath(clonePath)).toBe(`${clonePath}-3`);
+    });
+  });
+
+  describe('removeExistingClone', () => {
+    const existing = (unsavedWork: string[] = []) => ({
+      path: clonePath,
+      matches: false,
+      reason: 'has branch "main" checked out',
+      unsavedWork,
+    });
+    const target = { owner: 'acme', repo: 'web', branch: 'feat/login' };
+
+    test('should move the directory to the trash with its metadata', async () => {
+      const statePath = path.join(rootDir, '.gcpb', 'state.json');
+      await fs.outputJson(statePath, {
+        clones: { 'acme/web/feat-login': { branch: 'feat/login' } },
+      });
+
+      await removeExistingClone(rootDir, existing(), target);
+
+      expect(await fs.pathExists(clonePath)).toBe(false);
+      expect((await fs.readJson(statePath)).clones).toEqual({});
+      const [entry] = await listTrash(rootDir);
+      expect(entry.clones).toEqual([
+        { ...target, path: 'acme/web/feat-login', metadata: { branch: 'feat/login' } },
+      ]);
+    });
+
+    test('should run the pre-remove hooks first', async () => {
+      vi.mocked(runHooks).mockImplementation(async () => {
+        expect(await fs.pathExists(clonePath)).toBe(true);
+        return { success: true, ran: 1 };
+      });
+
+      await removeExistingClone(rootDir, existing(), target);
+
+      expect(runHooks).toHaveBeenCalledWith(
+        'preRemove',
+        rootDir,
+        { ...target, path: clonePath },
+        undefined
+      );
+    });
+
+    test('should refuse to replace unsaved work', async () => {
+      await expect(
+        removeExistingClone(rootDir, existing(['2 uncommitted changes']), target)
+      ).rejects.toThrow(
+        `Refusing to replace ${clonePath} with unsaved work: 2 uncommitted changes`
+      );
+      expect(await fs.pathExists(clonePath)).toBe(true);
+    });
+  });
+});
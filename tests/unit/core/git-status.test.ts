@@ -0,0 +1,258 @@
+import { describe, test, expect, vi, beforeEach } from 'vitest';
+import {
+  describeUnsavedWork,
+  fetchClone,
+  getBranchTracking,
+  getCloneStatus,
+  getUnsavedWork,
+  getUpstreamBranch,
+  isDirty,
+  pullFastForward,
+} from '../../../src/core/git-status.js';
+import simpleGit from 'simple-git';
+
+vi.mock('simple-git');
+
+describe('git-status', () => {
+  const mockGit = {
+    status: vi.fn(),
+    stashList: vi.fn(),
+    fetch: vi.fn(),
+    raw: vi.fn(),
+    pull: vi.fn(),
+    getConfig: vi.fn(),
+    revparse: vi.fn(),
+  };
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+    vi.mocked(simpleGit).mockReturnValue(mockGit as any);
+  });
+
+  describe('getCloneStatus', () => {
+    test('should report branch, changes, stashes and ahead/behind', async () => {
+      mockGit.status.mockResolvedValue({
+        current: 'feat/login',
+        tracking: 'origin/feat/login',
+        detached: false,
+        ahead: 2,
+        behind: 1,
+        not_added: ['new.txt'],
+        files: [
+          { path: 'a.ts', index: 'M', working_dir: ' ' },
+          { path: 'b.ts', index: ' ', working_dir: 'M' },
+          { path: 'new.txt', index: '?', working_dir: '?' },
+        ],
+      });
+      mockGit.stashList.mockResolvedValue({ total: 3, all: [], latest: null });
+
+      const result = await getCloneStatus('/root/org/repo/feat-login');
+
+      expect(simpleGit).toHaveBeenCalledWith('/root/org/repo/feat-login');
+      expect(result).toEqual({
+        branch: 'feat/login',
+        upstream: 'origin/feat/login',
+        changedFiles: 2,
+        untrackedFiles: 1,
+        stashCount: 3,
+        ahead: 2,
+        behind: 1,
+      });
+    });
+
+    test('should report null branch when HEAD is detached', async () => {
+      mockGit.status.mockResolvedValue({
+        current: 'HEAD',
+        tracking: null,
+        detached: true,
+        ahead: 0,
+        behind: 0,
+        not_added: [],
+        files: [],
+      });
+      mockGit.stashList.mockResolvedValue({ total: 0, all: [], latest: null });
+
+      const result = await getCloneStatus('/path');
+
+      expect(result.branch).toBeNull();
+      expect(result.upstream).toBeNull();
+    });
+
+    test('should propagate git errors', async () => {
+      mockGit.status.mockRejectedValue(new Error('not a git repository'));
+
+      await expect(getCloneStatus('/path')).rejects.toThrow('not a git repository');
+    });
+  });
+
+  describe('isDirty', () => {
+    const clean = {
+      branch: 'main',
+      upstream: 'origin/main',
+      changedFiles: 0,
+      untrackedFiles: 0,
+      stashCount: 0,
+      ahead: 0,
+      behind: 0,
+    };
+
+    test('should return false for clean working tree', () => {
+      expect(isDirty(clean)).toBe(false);
+    });
+
+    test('should return true for changed files', () => {
+      expect(isDirty({ ...clean, changedFiles: 1 })).toBe(true);
+    });
+
+    test('should return true for untracked files', () => {
+      expect(isDirty({ ...clean, untrackedFiles: 1 })).toBe(true);
+    });
+
+    test('should ignore stashes and unpushed commits', () => {
+      expect(isDirty({ ...clean, stashCount: 2, ahead: 1 })).toBe(false);
+    });
+  });
+
+  describe('fetchClone', () => {
+    test('should fetch origin with prune', async () => {
+      mockGit.fetch.mockResolvedValue(undefined);
+
+      await fetchClone('/path');
+
+      expect(simpleGit).toHaveBeenCalledWith('/path');
+      expect(mockGit.fetch).toHaveBeenCalledWith(['origin', '--prune']);
+    });
+  });
+
+  describe('pullFastForward', () => {
+    test('should pull with --ff-only', async () => {
+      mockGit.pull.mockResolvedValue(undefined);
+
+      await pullFastForward('/path');
+
+      expect(simpleGit).toHaveBeenCalledWith('/path');
+      expect(mockGit.pull).toHaveBeenCalledWith(['--ff-only']);
+    });
+  });
+
+  describe('getUnsavedWork', () => {
+    test('should combine status, stashes and unpushed commits', async () => {
+      mockGit.status.mockResolvedValue({
+        current: 'main',
+        tracking: 'origin/main',
+        detached: false,
+        ahead: 0,
+        behind: 0,
+        not_added: ['tmp.log'],
+        files: [
+          { path: 'a.ts', index: 'M', working_dir: ' ' },
+          { path: 'tmp.log', index: '?', working_dir: '?' },
+        ],
+      });
+      mockGit.stashList.mockResolvedValue({ total: 1, all: [], latest: null });
+      mockGit.raw.mockResolvedValue('4\n');
+
+      const result = await getUnsavedWork('/path');
+
+      expect(mockGit.raw).toHaveBeenCalledWith([
+        'rev-list',
+        '--count',
+        '--branches',
+        '--not',
+        '--remotes',
+      ]);
+      expect(result).toEqual({
+        changedFiles: 1,
+        untrackedFiles: 1,
+        stashCount: 1,
+        unpushedCommits: 4,
+      });
+    });
+  });
+
+  describe('describeUnsavedWork', () => {
+    test('should return empty array when nothing would be lost', () => {
+      expect(
+        describeUnsavedWork({
+          changedFiles: 0,
+          untrackedFiles: 0,
+          stashCount: 0,
+          unpushedCommits: 0,
+        })
+      ).toEqual([]);
+    });
+
+    test('should pluralize each kind of work', () => {
+      expect(
+        describeUnsavedWork({
+          changedFiles: 1,
+          untrackedFiles: 2,
+          stashCount: 1,
+          unpushedCommits: 3,
+        })
+      ).toEqual(['1 uncommitted change', '2 untracked files', '3 unpushed commits', '1 stash']);
+    });
+  });
+
+  describe('getBranchTracking', () => {
+    const trackingOf = (config: Record<string, string>) => {
+      mockGit.getConfig.mockImplementation(async (key: string) => ({
+        value: config[key] ?? null,
+      }));
+      return getBranchTracking('/root/org/repo/fx', 'fx');
+    };
+
+    test('should read the tracked remote branch from config', async () => {
+      expect(
+        await trackingOf({ 'branch.fx.remote': 'origin', 'branch.fx.merge': 'refs/heads/develop' })
+      ).toEqual({ remote: 'origin', remoteBranch: 'develop' });
+      expect(mockGit.getConfig).toHaveBeenCalledWith('branch.fx.merge');
+    });
+
+    test('should return null for untracked and locally tracking branches', async () => {
+      expect(await trackingOf({})).toBeNull();
+      expect(
+        await trackingOf({ 'branch.fx.remote': '.', 'branch.fx.merge': 'refs/heads/main' })
+      ).toBeNull();
+    });
+  });
+
+  describe('getUpstreamBranch', () => {
+    beforeEach(() => {
+      mockGit.revparse.mockResolvedValue('fx\n');
+      mockGit.getConfig.mockImplementation(async (key: string) => ({
+        value: { 'branch.fx.remote': 'origin', 'branch.fx.merge': 'refs/heads/fx' }[key] ?? null,
+      }));
+    });
+
+    test('should resolve the upstream of the checked-out branch', async () => {
+      mockGit.raw.mockResolvedValue('refs/remotes/origin/fx\n');
+
+      expect(await getUpstreamBranch('/root/org/repo/fx')).toEqual({
+        remote: 'origin',
+        remoteBranch: 'fx',
+        name: 'origin/fx',
+        gone: false,
+      });
+      expect(mockGit.raw).toHaveBeenCalledWith([
+        'for-each-ref',
+        '--format=%(refname)',
+        'refs/remotes/origin/fx',
+      ]);
+    });
+
+    test('should mark the upstream gone once its remote-tracking ref was pruned', async () => {
+      // Prefix matches such as refs/remotes/origin/fx/v2 must not count
+      mockGit.raw.mockResolvedValue('refs/remotes/origin/fx/v2\n');
+
+      expect(await getUpstreamBranch('/root/org/repo/fx')).toMatchObject({ gone: true });
+    });
+
+    test('should return null for detached HEADs', async () => {
+      mockGit.revparse.mockResolvedValue('HEAD\n');
+
+      expect(await getUpstreamBranch('/root/org/repo/fx')).toBeNull();
+      expect(mockGit.getConfig).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, test, expect, vi, beforeEach, afterEach } from 'vitest';
+import { getHookCommands, runHooks } from '../../../src/core/hooks.js';
+import type { BranchClone, Config } from '../../../src/types/index.js';
+import type { Logger } from '../../../src/utils/logger.js';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+
+vi.mock('../../../src/core/config.js');
+
+import { loadConfig } from '../../../src/core/config.js';
+
+describe('hooks', () => {
+  const mockLogger = {
+    info: vi.fn(),
+    warn: vi.fn(),
+    output: vi.fn(),
+  } as unknown as Logger;
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  describe('getHookCommands', () => {
+    const config: Config = {
+      version: '1.0.0',
+      hooks: {
+        '**': { postClone: ['git config core.autocrlf false'] },
+        'acme/*': { postClone: ['npm ci'], preRemove: ['docker compose down'] },
+        'acme/web': { postClone: ['cp ../main/.env .env'] },
+        'other/*': { postClone: ['make'] },
+      },
+    };
+
+    test('should collect commands from every matching pattern in order', () => {
+      expect(getHookCommands(config, 'postClone', 'acme', 'web')).toEqual([
+        'git config core.autocrlf false',
+        'npm ci',
+        'cp ../main/.env .env',
+      ]);
+    });
+
+    test('should only return commands for the requested event', () => {
+      expect(getHookCommands(config, 'preRemove', 'acme', 'api')).toEqual(['docker compose down']);
+    });
+
+    test('should return empty array when no hooks are configured', () => {
+      expect(getHookCommands({ version: '1.0.0' }, 'postClone', 'acme', 'web')).toEqual([]);
+    });
+  });
+
+  describe('runHooks', () => {
+    let clonePath: string;
+    let clone: BranchClone;
+
+    beforeEach(async () => {
+      clonePath = await fs.mkdtemp(path.join(os.tmpdir(), 'gcpb-hooks-'));
+      clone = { owner: 'acme', repo: 'web', branch: 'feat-x', path: clonePath };
+    });
+
+    afterEach(async () => {
+      await fs.remove(clonePath);
+    });
+
+    const withHooks = (commands: string[]) =>
+      vi.mocked(loadConfig).mockResolvedValue({
+        version: '1.0.0',
+        hooks: { 'acme/*': { postClone: commands } },
+      });
+
+    test('should run commands in the clone and stream output', async () => {
+      withHooks(['echo "$GCPB_OWNER/$GCPB_REPO/$GCPB_BRANCH"', 'pwd', 'echo oops >&2']);
+
+      const result = await runHooks('postClone', '/root', clone, mockLogger);
+
+      expect(result).toEqual({ success: true, ran: 3 });
+      expect(mockLogger.info).toHaveBeenCalledWith(
+        'Running post-clone hook: echo "$GCPB_OWNER/$GCPB_REPO/$GCPB_BRANCH"'
+      );
+      expect(mockLogger.output).toHaveBeenCalledWith('acme/web/feat-x');
+      expect(mockLogger.output).toHaveBeenCalledWith(await fs.realpath(clonePath));
+      expect(mockLogger.output).toHaveBeenCalledWith('oops');
+    });
+
+    test('should stop at the first failing command and report it', async () => {
+      withHooks(['touch first', 'exit 3', 'touch third']);
+
+      const result = await runHooks('postClone', '/root', clone, mockLogger);
+
+      expect(result).toEqual({
+        success: false,
+        ran: 1,
+        failedCommand: 'exit 3',
+        error: 'exited with code 3',
+      });
+      expect(await fs.pathExists(path.join(clonePath, 'first'))).toBe(true);
+      expect(await fs.pathExists(path.join(clonePath, 'third'))).toBe(false);
+      expect(mockLogger.warn).toHaveBeenCalledWith(
+        'post-clone hook failed (exited with code 3): exit 3'
+      );
+      expect(mockLogger.warn).toHaveBeenCalledWith('Skipped 1 remaining post-clone hook');
+    });
+
+    test('should do nothing when config cannot be loaded', async () => {
+      vi.mocked(loadConfig).mockRejectedValue(new Error('Failed to load configuration'));
+
+      const result = await runHooks('postClone', '/root', clone, mockLogger);
+
+      expect(result).toEqual({ success: true, ran: 0 });
+      expect(mockLogger.info).not.toHaveBeenCalled();
+    });
+  });
+});
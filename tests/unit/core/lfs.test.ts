@@ -0,0 +1,81 @@
+import { describe, test, expect, vi, beforeEach, afterEach } from 'vitest';
+import { isLfsRepository, pullLfsObjects, skipLfsSmudge, usesLfs } from '../../../src/core/lfs.js';
+import { GCPBError } from '../../../src/types/index.js';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import simpleGit from 'simple-git';
+
+vi.mock('simple-git');
+
+describe('lfs', () => {
+  const mockGit = {
+    raw: vi.fn(),
+    env: vi.fn(),
+  };
+  let clonePath: string;
+
+  beforeEach(async () => {
+    vi.resetAllMocks();
+    vi.mocked(simpleGit).mockReturnValue(mockGit as any);
+    clonePath = await fs.mkdtemp(path.join(os.tmpdir(), 'gcpb-lfs-'));
+  });
+
+  afterEach(async () => {
+    await fs.remove(clonePath);
+  });
+
+  describe('isLfsRepository', () => {
+    test('should match repositories against the lfs globs', () => {
+      const config = { version: '1.0.0', lfs: ['acme/assets'] };
+
+      expect(isLfsRepository(config, 'acme', 'assets')).toBe(true);
+      expect(isLfsRepository(config, 'acme', 'web')).toBe(false);
+    });
+  });
+
+  describe('skipLfsSmudge', () => {
+    test('should keep the environment and skip the smudge filter', () => {
+      mockGit.env.mockReturnValue(mockGit);
+
+      expect(skipLfsSmudge(mockGit as any)).toBe(mockGit);
+      expect(mockGit.env).toHaveBeenCalledWith({ ...process.env, GIT_LFS_SKIP_SMUDGE: '1' });
+    });
+  });
+
+  describe('usesLfs', () => {
+    test('should detect LFS filters in .gitattributes', async () => {
+      expect(await usesLfs(clonePath)).toBe(false);
+
+      await fs.writeFile(path.join(clonePath, '.gitattributes'), '*.txt text\n');
+      expect(await usesLfs(clonePath)).toBe(false);
+
+      await fs.writeFile(
+        path.join(clonePath, '.gitattributes'),
+        '*.psd filter=lfs diff=lfs merge=lfs -text\n'
+      );
+      expect(await usesLfs(clonePath)).toBe(true);
+    });
+  });
+
+  describe('pullLfsObjects', () => {
+    test('should install the filters and pull', async () => {
+      mockGit.raw.mockResolvedValue('');
+
+      await pullLfsObjects(clonePath);
+
+      expect(mockGit.raw).toHaveBeenCalledWith(['lfs', 'install', '--local']);
+      expect(mockGit.raw).toHaveBeenCalledWith(['lfs', 'pull']);
+    });
+
+    test('should explain when Git LFS is missing', async () => {
+      mockGit.raw.mockRejectedValue(new Error("git: 'lfs' is not a git command"));
+
+      const error = await pullLfsObjects(clonePath).catch((e) => e);
+
+      expect(error).toBeInstanceOf(GCPBError);
+      expect(error.message).toBe('Git LFS is not installed');
+      expect(mockGit.raw).toHaveBeenCalledTimes(1);
+    });
+  });
+});
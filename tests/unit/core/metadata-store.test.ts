@@ -0,0 +1,114 @@
+import { describe, test, expect, beforeEach, afterEach } from 'vitest';
+import {
+  getCloneKey,
+  getCloneMetadata,
+  loadCloneMetadata,
+  markCloneOpened,
+  moveCloneMetadata,
+  removeCloneMetadata,
+  saveCloneMetadata,
+} from '../../../src/core/metadata-store.js';
+import { GCPBError } from '../../../src/types/index.js';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+
+describe('metadata-store', () => {
+  let rootDir: string;
+
+  beforeEach(async () => {
+    rootDir = await fs.mkdtemp(path.join(os.tmpdir(), 'gcpb-metadata-'));
+    await fs.ensureDir(path.join(rootDir, '.gcpb'));
+  });
+
+  afterEach(async () => {
+    await fs.remove(rootDir);
+  });
+
+  test('should key clones by their path relative to the root', () => {
+    expect(getCloneKey(rootDir, path.join(rootDir, 'org', 'repo', 'feat', 'login'))).toBe(
+      'org/repo/feat/login'
+    );
+  });
+
+  test('should return no metadata before anything is recorded', async () => {
+    expect(await loadCloneMetadata(rootDir)).toEqual({});
+  });
+
+  test('should save, load and remove clone metadata', async () => {
+    const loginPath = path.join(rootDir, 'org', 'repo', 'feat-login');
+    const mainPath = path.join(rootDir, 'org', 'repo', 'main');
+
+    await saveCloneMetadata(rootDir, loginPath, { branch: 'feat/login' });
+    await saveCloneMetadata(rootDir, mainPath, { branch: 'main' });
+
+    expect(await loadCloneMetadata(rootDir)).toEqual({
+      'org/repo/feat-login': { branch: 'feat/login' },
+      'org/repo/main': { branch: 'main' },
+    });
+
+    await removeCloneMetadata(rootDir, [loginPath]);
+
+    expect(await loadCloneMetadata(rootDir)).toEqual({
+      'org/repo/main': { branch: 'main' },
+    });
+  });
+
+  test('should look up the metadata of a single clone', async () => {
+    const loginPath = path.join(rootDir, 'org', 'repo', 'feat-login');
+    const metadata = {
+      branch: 'feat/login',
+      url: 'https://github.com/org/repo.git',
+      baseBranch: 'main',
+      createdAt: '2024-05-01T10:00:00.000Z',
+      gcpbVersion: '1.2.3',
+    };
+
+    await saveCloneMetadata(rootDir, loginPath, metadata);
+
+    expect(await getCloneMetadata(rootDir, loginPath)).toEqual(metadata);
+    expect(await getCloneMetadata(rootDir, path.join(rootDir, 'org', 'repo', 'main'))).toBeNull();
+  });
+
+  test('should stamp lastOpenedAt and keep existing metadata', async () => {
+    const loginPath = path.join(rootDir, 'org', 'repo', 'feat-login');
+    const mainPath = path.join(rootDir, 'org', 'repo', 'main');
+
+    await saveCloneMetadata(rootDir, loginPath, { branch: 'feat/login', baseBranch: 'main' });
+    await markCloneOpened(rootDir, loginPath, 'feat/login');
+    await markCloneOpened(rootDir, mainPath, 'main');
+
+    const metadata = await loadCloneMetadata(rootDir);
+    expect(metadata['org/repo/feat-login']).toEqual({
+      branch: 'feat/login',
+      baseBranch: 'main',
+      lastOpenedAt: expect.any(String),
+    });
+    expect(metadata['org/repo/main']).toEqual({
+      branch: 'main',
+      lastOpenedAt: expect.any(String),
+    });
+  });
+
+  test('should move metadata to the new path and branch name', async () => {
+    const oldPath = path.join(rootDir, 'org', 'repo', 'feat-old');
+    const newPath = path.join(rootDir, 'org', 'repo', 'feat-new');
+    const untrackedPath = path.join(rootDir, 'org', 'repo', 'manual');
+    await saveCloneMetadata(rootDir, oldPath, { branch: 'feat/old', baseBranch: 'main' });
+
+    await moveCloneMetadata(rootDir, oldPath, newPath, 'feat/new');
+    await moveCloneMetadata(rootDir, untrackedPath, `${untrackedPath}-2`, 'manual-2');
+
+    expect(await loadCloneMetadata(rootDir)).toEqual({
+      'org/repo/feat-new': { branch: 'feat/new', baseBranch: 'main' },
+      'org/repo/manual-2': { branch: 'manual-2' },
+    });
+  });
+
+  test('should throw GCPBError when the state file is corrupt', async () => {
+    await fs.writeFile(path.join(rootDir, '.gcpb', 'state.json'), '{ not json');
+
+    await expect(loadCloneMetadata(rootDir)).rejects.toThrow(GCPBError);
+    await expect(loadCloneMetadata(rootDir)).rejects.toThrow('Failed to read clone metadata');
+  });
+});
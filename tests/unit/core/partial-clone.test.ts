@@ -0,0 +1,99 @@
+import { describe, test, expect, vi, beforeEach } from 'vitest';
+import {
+  getPartialCloneArgs,
+  getPartialCloneSettings,
+  resolvePartialClone,
+  validatePartialClone,
+} from '../../../src/core/partial-clone.js';
+import type { Config } from '../../../src/types/index.js';
+
+vi.mock('../../../src/core/config.js');
+
+import { loadConfig } from '../../../src/core/config.js';
+
+describe('partial-clone', () => {
+  const config: Config = {
+    version: '1.0.0',
+    partialClone: {
+      'acme/*': { filter: 'blob:none', depth: 50 },
+      'acme/monorepo': { depth: 1, sparse: ['apps/web'] },
+    },
+  };
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  describe('getPartialCloneSettings', () => {
+    test('should merge matching patterns with later keys winning', () => {
+      expect(getPartialCloneSettings(config, 'acme', 'monorepo')).toEqual({
+        filter: 'blob:none',
+        depth: 1,
+        sparse: ['apps/web'],
+      });
+      expect(getPartialCloneSettings(config, 'acme', 'web')).toEqual({
+        filter: 'blob:none',
+        depth: 50,
+      });
+      expect(getPartialCloneSettings(config, 'other', 'web')).toEqual({});
+    });
+  });
+
+  describe('resolvePartialClone', () => {
+    test('should let explicit options override settings', async () => {
+      vi.mocked(loadConfig).mockResolvedValue(config);
+
+      expect(
+        await resolvePartialClone('/root', 'acme', 'monorepo', { depth: 10, filter: undefined })
+      ).toEqual({ depth: 10, filter: 'blob:none', sparse: ['apps/web'] });
+    });
+
+    test('should use the options alone when settings are unreadable', async () => {
+      vi.mocked(loadConfig).mockRejectedValue(new Error('missing'));
+
+      expect(await resolvePartialClone('/root', 'acme', 'monorepo', { depth: 3 })).toEqual({
+        depth: 3,
+        filter: undefined,
+        sparse: undefined,
+      });
+    });
+  });
+
+  describe('validatePartialClone', () => {
+    test('should accept supported settings', () => {
+      expect(validatePartialClone({})).toEqual({ valid: true });
+      expect(
+        validatePartialClone({ depth: 1, filter: 'tree:0', sparse: ['apps/web', 'packages'] })
+      ).toEqual({ valid: true });
+      expect(validatePartialClone({ filter: 'blob:limit=1m' })).toEqual({ valid: true });
+    });
+
+    test('should reject invalid depths, filters and directories', () => {
+      expect(validatePartialClone({ depth: 0 }).valid).toBe(false);
+      expect(validatePartialClone({ depth: 1.5 }).valid).toBe(false);
+      expect(validatePartialClone({ filter: 'blobs' }).valid).toBe(false);
+      expect(validatePartialClone({ sparse: ['../outside'] })).toEqual({
+        valid: false,
+        error: 'Invalid sparse directory "../outside", expected a path inside the repository',
+      });
+      expect(validatePartialClone({ sparse: ['/abs'] }).valid).toBe(false);
+    });
+  });
+
+  describe('getPartialCloneArgs', () => {
+    test('should build no arguments for full clones', () => {
+      expect(getPartialCloneArgs({})).toEqual([]);
+      expect(getPartialCloneArgs({ sparse: [] })).toEqual([]);
+    });
+
+    test('should fetch every branch tip for shallow clones', () => {
+      expect(getPartialCloneArgs({ depth: 1, filter: 'tree:0', sparse: ['apps'] })).toEqual([
+        '--depth',
+        '1',
+        '--no-single-branch',
+        '--filter=tree:0',
+        '--sparse',
+      ]);
+    });
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, test, expect, vi, beforeEach } from 'vitest';
+import { remoteBranchExists } from '../../../src/core/remote-branches.js';
+import simpleGit from 'simple-git';
+
+vi.mock('simple-git');
+
+describe('remote-branches', () => {
+  const mockGit = {
+    raw: vi.fn(),
+    listRemote: vi.fn(),
+  };
+  const url = 'https://github.com/acme/web.git';
+  const cachePath = '/root/.gcpb/.cache/acme/web';
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+    vi.mocked(simpleGit).mockReturnValue(mockGit as any);
+  });
+
+  describe('remoteBranchExists', () => {
+    test('should find the branch in the cache without asking the remote', async () => {
+      mockGit.raw.mockResolvedValue('refs/heads/feat/login\n');
+
+      expect(await remoteBranchExists(url, cachePath, 'feat/login')).toBe(true);
+      expect(mockGit.raw).toHaveBeenCalledWith([
+        'for-each-ref',
+        '--format=%(refname)',
+        'refs/heads/feat/login',
+      ]);
+      expect(mockGit.listRemote).not.toHaveBeenCalled();
+    });
+
+    test('should ask the remote when the cache does not have the branch', async () => {
+      // for-each-ref matches prefixes: refs/heads/feat/login/v2 is not feat/login
+      mockGit.raw.mockResolvedValue('refs/heads/feat/login/v2\n');
+      mockGit.listRemote.mockResolvedValue('abc123\trefs/heads/feat/login\n');
+
+      expect(await remoteBranchExists(url, cachePath, 'feat/login')).toBe(true);
+      expect(mockGit.listRemote).toHaveBeenCalledWith(['--heads', url, 'refs/heads/feat/login']);
+    });
+
+    test('should return false when neither the cache nor the remote has it', async () => {
+      mockGit.raw.mockRejectedValue(new Error('not a git repository'));
+      mockGit.listRemote.mockResolvedValue('');
+
+      expect(await remoteBranchExists(url, cachePath, 'feat/login')).toBe(false);
+    });
+
+    test('should return false when the remote cannot be reached', async () => {
+      mockGit.raw.mockResolvedValue('');
+      mockGit.listRemote.mockRejectedValue(new Error('Could not resolve host'));
+
+      expect(await remoteBranchExists(url, cachePath, 'feat/login')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, test, expect, vi, beforeEach } from 'vitest';
+import {
+  getRepositoryLayout,
+  getRepositoryOwner,
+  resolveRepositoryOwner,
+} from '../../../src/core/repository-layout.js';
+import { parseGitUrl } from '../../../src/core/url-parser.js';
+import { GCPBError, type RepositoryLayout } from '../../../src/types/index.js';
+
+vi.mock('../../../src/core/config.js');
+
+import { loadConfig } from '../../../src/core/config.js';
+
+describe('repository-layout', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  describe('getRepositoryOwner', () => {
+    test('should use the owner for the owner layout', () => {
+      expect(getRepositoryOwner(parseGitUrl('https://github.com/acme/web.git'), 'owner')).toBe(
+        'acme'
+      );
+    });
+
+    test('should prefix the host for the host layout', () => {
+      expect(getRepositoryOwner(parseGitUrl('git@git.example.com:acme/web.git'), 'host')).toBe(
+        'git.example.com/acme'
+      );
+    });
+
+    test('should keep GitLab subgroups', () => {
+      const parsed = parseGitUrl('https://gitlab.com/group/sub/app.git');
+
+      expect(getRepositoryOwner(parsed, 'owner')).toBe('group/sub');
+      expect(getRepositoryOwner(parsed, 'host')).toBe('gitlab.com/group/sub');
+    });
+
+    test('should throw GCPBError for unknown layouts', () => {
+      const parsed = parseGitUrl('https://github.com/acme/web.git');
+
+      expect(() => getRepositoryOwner(parsed, 'flat' as RepositoryLayout)).toThrow(GCPBError);
+      expect(() => getRepositoryOwner(parsed, 'flat' as RepositoryLayout)).toThrow(
+        'Unknown layout "flat"'
+      );
+    });
+  });
+
+  describe('getRepositoryLayout', () => {
+    test('should read layout from settings', async () => {
+      vi.mocked(loadConfig).mockResolvedValue({ version: '1.0.0', layout: 'host' });
+
+      expect(await getRepositoryLayout('/root')).toBe('host');
+    });
+
+    test('should default to owner when unset or unreadable', async () => {
+      vi.mocked(loadConfig).mockResolvedValueOnce({ version: '1.0.0' });
+      expect(await getRepositoryLayout('/root')).toBe('owner');
+
+      vi.mocked(loadConfig).mockRejectedValueOnce(new Error('missing'));
+      expect(await getRepositoryLayout('/root')).toBe('owner');
+    });
+  });
+
+  describe('resolveRepositoryOwner', () => {
+    test('should build the owner path with the configured layout', async () => {
+      vi.mocked(loadConfig).mockResolvedValue({ version: '1.0.0', layout: 'host' });
+
+      expect(
+        await resolveRepositoryOwner('/root', parseGitUrl('https://github.com/acme/web.git'))
+      ).toBe('github.com/acme');
+    });
+  });
+});
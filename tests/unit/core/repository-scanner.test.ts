@@ -1,13 +1,23 @@
 import { describe, test, expect, vi, beforeEach } from 'vitest';
-import { isGitRepository, scanRepositories } from '../../../src/core/repository-scanner.js';
+import {
+  filterBranchClones,
+  getBranchClonePath,
+  isGitRepository,
+  resolveBranchName,
+  scanRepositories,
+} from '../../../src/core/repository-scanner.js';
 import { GCPBError } from '../../../src/types/index.js';
 import fs from 'fs-extra';
 
 vi.mock('fs-extra');
+vi.mock('../../../src/core/metadata-store.js');
+
+import { loadCloneMetadata } from '../../../src/core/metadata-store.js';
 
 describe('repository-scanner', () => {
   beforeEach(() => {
     vi.resetAllMocks();
+    vi.mocked(loadCloneMetadata).mockResolvedValue({});
   });
 
   describe('isGitRepository', () => {
@@ -246,6 +256,7 @@ describe('repository-scanner', () => {
         .mockResolvedValueOnce(['owner1'] as any)
         .mockResolvedValueOnce(['repo1', 'repo2'] as any)
         .mockResolvedValueOnce(['not-git'] as any)
+        .mockResolvedValueOnce([] as any)
         .mockResolvedValueOnce(['main'] as any);
 
       vi.mocked(fs.stat).mockImplementation(async (path: any) => {
@@ -281,6 +292,97 @@ describe('repository-scanner', () => {
       await expect(scanRepositories('/test/error')).rejects.toThrow('Failed to scan repositories');
     });
 
+    test('should use recorded branch names and find nested branch directories', async () => {
+      vi.mocked(loadCloneMetadata).mockResolvedValue({
+        'org1/repo1/feat-login': { branch: 'feat/login' },
+        'org1/repo1/fix/typo': { branch: 'fix/typo' },
+      });
+      vi.mocked(fs.readdir)
+        .mockResolvedValueOnce(['org1'] as any)
+        .mockResolvedValueOnce(['repo1'] as any)
+        .mockResolvedValueOnce(['feat-login', 'fix', 'feat%2Fescaped'] as any)
+        // org1/repo1/fix is not a clone but a recorded clone lives beneath it
+        .mockResolvedValueOnce(['typo'] as any);
+
+      vi.mocked(fs.stat).mockImplementation(async (path: any) => {
+        if (path.toString().endsWith('/fix/.git')) {
+          throw Object.assign(new Error('ENOENT'), { code: 'ENOENT' });
+        }
+        return { isDirectory: () => true, isFile: () => false } as any;
+      });
+
+      const result = await scanRepositories('/test/root');
+
+      expect(result).toEqual([
+        {
+          owner: 'org1',
+          repo: 'repo1',
+          branches: ['feat/login', 'fix/typo', 'feat/escaped'],
+          fullPath: '/test/root/org1/repo1',
+          branchDirs: { 'feat/login': 'feat-login', 'feat/escaped': 'feat%2Fescaped' },
+          metadata: {
+            'feat/login': { branch: 'feat/login' },
+            'fix/typo': { branch: 'fix/typo' },
+          },
+        },
+      ]);
+    });
+
+    test('should not search non-clone directories without recorded clones', async () => {
+      vi.mocked(fs.readdir)
+        .mockResolvedValueOnce(['org1'] as any)
+        .mockResolvedValueOnce(['repo1'] as any)
+        .mockResolvedValueOnce(['main', 'tmp'] as any);
+
+      vi.mocked(fs.stat).mockImplementation(async (path: any) => {
+        if (path.toString().endsWith('/tmp/.git')) {
+          throw Object.assign(new Error('ENOENT'), { code: 'ENOENT' });
+        }
+        return { isDirectory: () => true, isFile: () => false } as any;
+      });
+
+      const result = await scanRepositories('/test/root');
+
+      expect(result[0].branches).toEqual(['main']);
+      expect(fs.readdir).toHaveBeenCalledTimes(3);
+    });
+
+    test('should find repositories below owners spanning several directories', async () => {
+      const tree: Record<string, string[]> = {
+        '/test/root': ['gitlab.com'],
+        '/test/root/gitlab.com': ['group'],
+        '/test/root/gitlab.com/group': ['sub', 'tool'],
+        '/test/root/gitlab.com/group/sub': ['app'],
+        '/test/root/gitlab.com/group/sub/app': ['main'],
+        '/test/root/gitlab.com/group/tool': ['dev'],
+      };
+      vi.mocked(fs.readdir).mockImplementation((async (dir: string) => tree[dir] ?? []) as any);
+      vi.mocked(fs.stat).mockImplementation(async (path: any) => {
+        const pathStr = path.toString();
+        if (pathStr.endsWith('/.git') && !/\/(main|dev)\/\.git$/.test(pathStr)) {
+          throw Object.assign(new Error('ENOENT'), { code: 'ENOENT' });
+        }
+        return { isDirectory: () => true, isFile: () => false } as any;
+      });
+
+      const result = await scanRepositories('/test/root');
+
+      expect(result).toEqual([
+        {
+          owner: 'gitlab.com/group/sub',
+          repo: 'app',
+          branches: ['main'],
+          fullPath: '/test/root/gitlab.com/group/sub/app',
+        },
+        {
+          owner: 'gitlab.com/group',
+          repo: 'tool',
+          branches: ['dev'],
+          fullPath: '/test/root/gitlab.com/group/tool',
+        },
+      ]);
+    });
+
     test('should handle complex nested structure', async () => {
       vi.mocked(fs.readdir)
         .mockResolvedValueOnce(['org1', 'org2', 'file.txt'] as any)
@@ -328,4 +430,111 @@ describe('repository-scanner', () => {
       ]);
     });
   });
+
+  describe('filterBranchClones', () => {
+    const repositories = [
+      { owner: 'org2', repo: 'repo3', branches: ['main'], fullPath: '/root/org2/repo3' },
+      { owner: 'org1', repo: 'repo1', branches: ['main', 'dev'], fullPath: '/root/org1/repo1' },
+      { owner: 'org1', repo: 'repo2', branches: ['feat-x'], fullPath: '/root/org1/repo2' },
+    ];
+
+    test('should return all branches sorted by owner, repo and branch', () => {
+      const clones = filterBranchClones(repositories);
+
+      expect(clones.map((c) => `${c.owner}/${c.repo}/${c.branch}`)).toEqual([
+        'org1/repo1/dev',
+        'org1/repo1/main',
+        'org1/repo2/feat-x',
+        'org2/repo3/main',
+      ]);
+      expect(clones[0].path).toBe('/root/org1/repo1/dev');
+    });
+
+    test('should scope by org', () => {
+      expect(filterBranchClones(repositories, 'org2')).toEqual([
+        { owner: 'org2', repo: 'repo3', branch: 'main', path: '/root/org2/repo3/main' },
+      ]);
+    });
+
+    test('should scope by org/repo', () => {
+      const clones = filterBranchClones(repositories, 'org1/repo1');
+
+      expect(clones.map((c) => c.branch)).toEqual(['dev', 'main']);
+    });
+
+    test('should scope by org/repo/branch', () => {
+      const clones = filterBranchClones(repositories, 'org1/repo1/main');
+
+      expect(clones).toHaveLength(1);
+      expect(clones[0].branch).toBe('main');
+    });
+
+    test('should return empty array when nothing matches', () => {
+      expect(filterBranchClones(repositories, 'unknown')).toEqual([]);
+    });
+
+    test('should scope by owners spanning several directories', () => {
+      const nested = [
+        { owner: 'group/sub', repo: 'app', branches: ['main'], fullPath: '/root/group/sub/app' },
+        { owner: 'group', repo: 'tool', branches: ['dev'], fullPath: '/root/group/tool' },
+      ];
+
+      expect(filterBranchClones(nested, 'group/sub/app/main')).toEqual([
+        { owner: 'group/sub', repo: 'app', branch: 'main', path: '/root/group/sub/app/main' },
+      ]);
+      expect(filterBranchClones(nested, 'group/sub').map((c) => c.repo)).toEqual(['app']);
+      expect(filterBranchClones(nested, 'group').map((c) => c.repo)).toEqual(['tool', 'app']);
+    });
+  });
+
+  describe('branch directories', () => {
+    const repository = {
+      owner: 'org1',
+      repo: 'repo1',
+      branches: ['main', 'feat/login', 'fix/typo'],
+      fullPath: '/root/org1/repo1',
+      branchDirs: { 'feat/login': 'feat-login' },
+    };
+
+    test('should build clone paths from branch directories', () => {
+      expect(getBranchClonePath(repository, 'main')).toBe('/root/org1/repo1/main');
+      expect(getBranchClonePath(repository, 'feat/login')).toBe('/root/org1/repo1/feat-login');
+      expect(getBranchClonePath(repository, 'fix/typo')).toBe('/root/org1/repo1/fix/typo');
+    });
+
+    test('should resolve a branch by name or directory name', () => {
+      expect(resolveBranchName(repository, 'feat/login')).toBe('feat/login');
+      expect(resolveBranchName(repository, 'feat-login')).toBe('feat/login');
+      expect(resolveBranchName(repository, 'unknown')).toBeUndefined();
+    });
+
+    test('should scope filterBranchClones by directory name', () => {
+      expect(filterBranchClones([repository], 'org1/repo1/feat-login')).toEqual([
+        {
+          owner: 'org1',
+          repo: 'repo1',
+          branch: 'feat/login',
+          path: '/root/org1/repo1/feat-login',
+        },
+      ]);
+    });
+
+    test('should attach recorded metadata to branch clones', () => {
+      const metadata = { branch: 'feat/login', baseBranch: 'main' };
+
+      expect(
+        filterBranchClones([{ ...repository, metadata: { 'feat/login': metadata } }], 'org1/repo1')
+      ).toEqual([
+        {
+          owner: 'org1',
+          repo: 'repo1',
+          branch: 'feat/login',
+          path: '/root/org1/repo1/feat-login',
+          metadata,
+        },
+        { owner: 'org1', repo: 'repo1', branch: 'fix/typo', path: '/root/org1/repo1/fix/typo' },
+        { owner: 'org1', repo: 'repo1', branch: 'main', path: '/root/org1/repo1/main' },
+      ]);
+    });
+  });
 });
@@ -0,0 +1,105 @@
+import { describe, test, expect, vi, beforeEach } from 'vitest';
+import { detectStaleBranch } from '../../../src/core/stale-detector.js';
+import simpleGit from 'simple-git';
+
+vi.mock('simple-git');
+vi.mock('../../../src/core/git-status.js');
+
+import { getUpstreamBranch } from '../../../src/core/git-status.js';
+
+const upstreamOf = (remoteBranch: string, gone = false) => ({
+  remote: 'origin',
+  remoteBranch,
+  name: `origin/${remoteBranch}`,
+  gone,
+});
+
+describe('stale-detector', () => {
+  const mockGit = {
+    raw: vi.fn(),
+  };
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+    vi.mocked(simpleGit).mockReturnValue(mockGit as any);
+  });
+
+  describe('detectStaleBranch', () => {
+    test('should return null when clone has no upstream', async () => {
+      vi.mocked(getUpstreamBranch).mockResolvedValue(null);
+
+      const result = await detectStaleBranch('/cache', '/clone', 'main');
+
+      expect(result).toBeNull();
+      expect(mockGit.raw).not.toHaveBeenCalled();
+    });
+
+    test('should return null when clone tracks the default branch', async () => {
+      vi.mocked(getUpstreamBranch).mockResolvedValue(upstreamOf('main'));
+
+      const result = await detectStaleBranch('/cache', '/clone', 'main');
+
+      expect(result).toBeNull();
+      expect(mockGit.raw).not.toHaveBeenCalled();
+    });
+
+    test('should report deleted when remote branch is missing from cache', async () => {
+      vi.mocked(getUpstreamBranch).mockResolvedValue(upstreamOf('feat/login'));
+      // Prefix matches such as refs/heads/feat/login/v2 must not count
+      mockGit.raw.mockResolvedValue('refs/heads/feat/login/v2\n');
+
+      const result = await detectStaleBranch('/cache', '/clone', 'main');
+
+      expect(result).toEqual({ remoteBranch: 'feat/login', reason: 'deleted' });
+      expect(simpleGit).toHaveBeenCalledWith({ baseDir: '/cache' });
+      expect(mockGit.raw).toHaveBeenCalledWith([
+        'for-each-ref',
+        '--format=%(refname)',
+        'refs/heads/feat/login',
+      ]);
+    });
+
+    test('should report deleted when the clone already pruned its upstream', async () => {
+      vi.mocked(getUpstreamBranch).mockResolvedValue(upstreamOf('feat/login', true));
+
+      const result = await detectStaleBranch('/cache', '/clone', 'main');
+
+      expect(result).toEqual({ remoteBranch: 'feat/login', reason: 'deleted' });
+      expect(mockGit.raw).not.toHaveBeenCalled();
+    });
+
+    test('should ignore upstreams on other remotes', async () => {
+      vi.mocked(getUpstreamBranch).mockResolvedValue({
+        ...upstreamOf('feat/login'),
+        remote: 'fork',
+        name: 'fork/feat/login',
+      });
+
+      expect(await detectStaleBranch('/cache', '/clone', 'main')).toBeNull();
+    });
+
+    test('should report merged when remote branch is merged into default branch', async () => {
+      vi.mocked(getUpstreamBranch).mockResolvedValue(upstreamOf('feat/login'));
+      mockGit.raw.mockResolvedValue('refs/heads/feat/login\n');
+
+      const result = await detectStaleBranch('/cache', '/clone', 'main');
+
+      expect(result).toEqual({ remoteBranch: 'feat/login', reason: 'merged' });
+      expect(mockGit.raw).toHaveBeenLastCalledWith([
+        'for-each-ref',
+        '--format=%(refname)',
+        '--merged=refs/heads/main',
+        'refs/heads/feat/login',
+      ]);
+    });
+
+    test('should return null when remote branch exists and is not merged', async () => {
+      vi.mocked(getUpstreamBranch).mockResolvedValue(upstreamOf('feat/login'));
+      mockGit.raw.mockResolvedValueOnce('refs/heads/feat/login\n').mockResolvedValueOnce('');
+
+      const result = await detectStaleBranch('/cache', '/clone', 'main');
+
+      expect(result).toBeNull();
+    });
+  });
+});
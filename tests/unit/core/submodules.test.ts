@@ -0,0 +1,154 @@
+import { describe, test, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  initSubmodules,
+  isSubmoduleRepository,
+  updateSubmodules,
+} from '../../../src/core/submodules.js';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import simpleGit from 'simple-git';
+
+vi.mock('simple-git');
+vi.mock('../../../src/core/cache-manager.js');
+vi.mock('../../../src/core/repository-layout.js');
+
+import { ensureCache } from '../../../src/core/cache-manager.js';
+import { resolveRepositoryOwner } from '../../../src/core/repository-layout.js';
+
+describe('submodules', () => {
+  const mockGit = {
+    raw: vi.fn(),
+    env: vi.fn(),
+  };
+  let clonePath: string;
+
+  /**
+   * Answer git commands as a clone with lib (on GitHub) and tools (on an internal server)
+   */
+  function mockSubmoduleCommands(): void {
+    mockGit.raw.mockImplementation(async (args: string[]) => {
+      if (args.includes('--get-regexp')) {
+        return 'submodule.vendor/lib.path vendor/lib\nsubmodule.tools.path tools/shared\n';
+      }
+      if (args[1] === '--get') {
+        return args[2] === 'submodule.vendor/lib.url'
+          ? 'https://github.com/acme/lib.git\n'
+          : 'https://git.internal/infra/tools.git\n';
+      }
+      return '';
+    });
+  }
+
+  beforeEach(async () => {
+    vi.resetAllMocks();
+    vi.mocked(simpleGit).mockReturnValue(mockGit as any);
+    mockGit.env.mockReturnValue(mockGit);
+    vi.mocked(resolveRepositoryOwner).mockImplementation(async (_rootDir, parsed) => parsed.owner);
+    clonePath = await fs.mkdtemp(path.join(os.tmpdir(), 'gcpb-submodules-'));
+  });
+
+  afterEach(async () => {
+    await fs.remove(clonePath);
+  });
+
+  describe('isSubmoduleRepository', () => {
+    test('should match repositories against the submodules globs', () => {
+      const config = { version: '1.0.0', submodules: ['acme/*'] };
+
+      expect(isSubmoduleRepository(config, 'acme', 'web')).toBe(true);
+      expect(isSubmoduleRepository(config, 'other', 'web')).toBe(false);
+      expect(isSubmoduleRepository({ version: '1.0.0' }, 'acme', 'web')).toBe(false);
+    });
+  });
+
+  describe('initSubmodules', () => {
+    test('should return nothing without .gitmodules', async () => {
+      expect(await initSubmodules(clonePath)).toEqual([]);
+      expect(mockGit.raw).not.toHaveBeenCalled();
+    });
+
+    test('should list submodules with their resolved URLs', async () => {
+      await fs.writeFile(path.join(clonePath, '.gitmodules'), '');
+      mockSubmoduleCommands();
+
+      expect(await initSubmodules(clonePath)).toEqual([
+        { name: 'vendor/lib', path: 'vendor/lib', url: 'https://github.com/acme/lib.git' },
+        { name: 'tools', path: 'tools/shared', url: 'https://git.internal/infra/tools.git' },
+      ]);
+      expect(mockGit.raw).toHaveBeenCalledWith(['submodule', 'init']);
+    });
+  });
+
+  describe('updateSubmodules', () => {
+    test('should check out submodules through their caches when possible', async () => {
+      await fs.writeFile(path.join(clonePath, '.gitmodules'), '');
+      mockSubmoduleCommands();
+      vi.mocked(ensureCache).mockImplementation(async (options) => {
+        if (options.owner === 'infra') {
+          throw new Error('network down');
+        }
+        return `/root/.gcpb/.cache/${options.owner}/${options.repo}`;
+      });
+      const onProgress = vi.fn();
+
+      const count = await updateSubmodules('/root', clonePath, true, onProgress);
+
+      expect(count).toBe(2);
+      expect(mockGit.env).not.toHaveBeenCalled();
+      expect(ensureCache).toHaveBeenCalledWith({
+        url: 'https://github.com/acme/lib.git',
+        owner: 'acme',
+        repo: 'lib',
+        rootDir: '/root',
+      });
+      expect(mockGit.raw).toHaveBeenCalledWith([
+        'submodule',
+        'update',
+        '--init',
+        '--reference',
+        '/root/.gcpb/.cache/acme/lib',
+        '--dissociate',
+        '--',
+        'vendor/lib',
+      ]);
+      // Cache failures fall back to a direct clone
+      expect(mockGit.raw).toHaveBeenCalledWith([
+        'submodule',
+        'update',
+        '--init',
+        '--',
+        'tools/shared',
+      ]);
+      expect(onProgress).toHaveBeenCalledWith('Checking out submodule vendor/lib...');
+    });
+
+    test('should recurse into nested submodules', async () => {
+      await fs.writeFile(path.join(clonePath, '.gitmodules'), '');
+      await fs.ensureDir(path.join(clonePath, 'vendor', 'lib'));
+      await fs.writeFile(path.join(clonePath, 'vendor', 'lib', '.gitmodules'), '');
+      mockSubmoduleCommands();
+      vi.mocked(ensureCache).mockResolvedValue('/cache');
+      const onProgress = vi.fn();
+
+      // vendor/lib lists the same two submodules again, which are checked out inside it
+      const count = await updateSubmodules('/root', clonePath, true, onProgress);
+
+      expect(count).toBe(4);
+      expect(onProgress).toHaveBeenCalledWith('Checking out submodule vendor/lib/tools/shared...');
+      expect(simpleGit).toHaveBeenCalledWith(path.join(clonePath, 'vendor', 'lib'));
+    });
+
+    test('should skip the LFS smudge filter when LFS is off', async () => {
+      await fs.writeFile(path.join(clonePath, '.gitmodules'), '');
+      mockSubmoduleCommands();
+      vi.mocked(ensureCache).mockResolvedValue('/cache');
+
+      await updateSubmodules('/root', clonePath, false);
+
+      expect(mockGit.env).toHaveBeenCalledWith(
+        expect.objectContaining({ GIT_LFS_SKIP_SMUDGE: '1' })
+      );
+    });
+  });
+});
@@ -0,0 +1,187 @@
+import { describe, test, expect, beforeEach, afterEach } from 'vitest';
+import {
+  DEFAULT_TRASH_RETENTION_DAYS,
+  deleteTrashEntries,
+  getTrashEntryPath,
+  getTrashRetentionDays,
+  listTrash,
+  moveToTrash,
+  purgeExpiredTrash,
+  restoreTrashEntry,
+} from '../../../src/core/trash.js';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import simpleGit from 'simple-git';
+
+describe('trash', () => {
+  let rootDir: string;
+  let mainPath: string;
+  let featPath: string;
+  const statePath = () => path.join(rootDir, '.gcpb', 'state.json');
+
+  beforeEach(async () => {
+    rootDir = await fs.mkdtemp(path.join(os.tmpdir(), 'gcpb-trash-'));
+    mainPath = path.join(rootDir, 'acme', 'web', 'main');
+    featPath = path.join(rootDir, 'acme', 'web', 'feat-login');
+    await fs.outputFile(path.join(mainPath, 'README.md'), 'main');
+    await fs.outputFile(path.join(featPath, 'README.md'), 'feat');
+    await fs.outputJson(path.join(rootDir, '.gcpb', 'settings.json'), { version: '1.0.0' });
+    await fs.outputJson(statePath(), {
+      clones: { 'acme/web/feat-login': { branch: 'feat/login' } },
+    });
+  });
+
+  afterEach(async () => {
+    await fs.remove(rootDir);
+  });
+
+  const trashBoth = () =>
+    moveToTrash(rootDir, [
+      { owner: 'acme', repo: 'web', branch: 'main', path: mainPath },
+      { owner: 'acme', repo: 'web', branch: 'feat/login', path: featPath },
+    ]);
+
+  describe('moveToTrash', () => {
+    test('should move clones into a timestamped entry with a manifest', async () => {
+      const entry = await trashBoth();
+
+      expect(entry?.id).toMatch(/^\d{8}T\d{6}Z$/);
+      expect(entry?.clones).toEqual([
+        { path: 'acme/web/main', owner: 'acme', repo: 'web', branch: 'main' },
+        {
+          path: 'acme/web/feat-login',
+          owner: 'acme',
+          repo: 'web',
+          branch: 'feat/login',
+          metadata: { branch: 'feat/login' },
+        },
+      ]);
+      expect(await fs.pathExists(mainPath)).toBe(false);
+      const entryPath = getTrashEntryPath(rootDir, entry!.id);
+      expect(await fs.readFile(path.join(entryPath, 'acme/web/feat-login/README.md'), 'utf8')).toBe(
+        'feat'
+      );
+      expect(await listTrash(rootDir)).toEqual([entry]);
+    });
+
+    test('should give removals within the same second their own entry', async () => {
+      const first = await moveToTrash(rootDir, [
+        { owner: 'acme', repo: 'web', branch: 'main', path: mainPath },
+      ]);
+      const second = await moveToTrash(rootDir, [
+        { owner: 'acme', repo: 'web', branch: 'feat/login', path: featPath },
+      ]);
+
+      expect(second?.id).not.toBe(first?.id);
+      expect(await listTrash(rootDir)).toHaveLength(2);
+    });
+
+    test('should give shared clones their own objects, so the cache can go', async () => {
+      const cachePath = path.join(rootDir, '.gcpb', '.cache', 'acme', 'api');
+      const sharedPath = path.join(rootDir, 'acme', 'api', 'main');
+      const git = simpleGit({ config: ['user.name=gcpb', 'user.email=gcpb@example.com'] });
+      await fs.outputFile(path.join(cachePath, 'README.md'), 'api');
+      await git.cwd(cachePath).init().add('README.md').commit('Initial commit');
+      await git.clone(cachePath, sharedPath, ['--shared']);
+
+      const entry = await moveToTrash(rootDir, [
+        { owner: 'acme', repo: 'api', branch: 'main', path: sharedPath },
+      ]);
+      await fs.remove(cachePath);
+
+      const trashedPath = path.join(getTrashEntryPath(rootDir, entry!.id), 'acme/api/main');
+      expect(await fs.pathExists(path.join(trashedPath, '.git/objects/info/alternates'))).toBe(
+        false
+      );
+      await expect(simpleGit(trashedPath).raw(['fsck', '--no-progress'])).resolves.toBeDefined();
+    });
+
+    test('should record the clones moved before a failure', async () => {
+      await expect(
+        moveToTrash(rootDir, [
+          { owner: 'acme', repo: 'web', branch: 'main', path: mainPath },
+          { owner: 'acme', repo: 'web', branch: 'gone', path: path.join(rootDir, 'acme/web/gone') },
+        ])
+      ).rejects.toThrow();
+
+      const [entry] = await listTrash(rootDir);
+      expect(entry.clones.map((c) => c.branch)).toEqual(['main']);
+    });
+  });
+
+  describe('restoreTrashEntry', () => {
+    test('should move clones back and restore their metadata', async () => {
+      const entry = await trashBoth();
+      await fs.outputJson(statePath(), { clones: {} });
+
+      await restoreTrashEntry(rootDir, entry!.id);
+
+      expect(await fs.readFile(path.join(featPath, 'README.md'), 'utf8')).toBe('feat');
+      expect(await fs.pathExists(mainPath)).toBe(true);
+      expect((await fs.readJson(statePath())).clones).toEqual({
+        'acme/web/feat-login': { branch: 'feat/login' },
+      });
+      expect(await listTrash(rootDir)).toEqual([]);
+    });
+
+    test('should refuse to overwrite clones created since', async () => {
+      const entry = await trashBoth();
+      await fs.ensureDir(mainPath);
+
+      await expect(restoreTrashEntry(rootDir, entry!.id)).rejects.toThrow(
+        `Cannot restore ${entry!.id}: acme/web/main already exists`
+      );
+      expect(await fs.pathExists(featPath)).toBe(false);
+      expect(await listTrash(rootDir)).toHaveLength(1);
+    });
+
+    test('should fail for unknown entries', async () => {
+      await expect(restoreTrashEntry(rootDir, '20200101T000000Z')).rejects.toThrow(
+        'Trash entry "20200101T000000Z" not found'
+      );
+    });
+  });
+
+  describe('deleteTrashEntries', () => {
+    test('should delete entries permanently', async () => {
+      const entry = await trashBoth();
+
+      await deleteTrashEntries(rootDir, [entry!]);
+
+      expect(await fs.pathExists(getTrashEntryPath(rootDir, entry!.id))).toBe(false);
+    });
+  });
+
+  describe('purgeExpiredTrash', () => {
+    test('should delete entries older than the retention', async () => {
+      const entry = await trashBoth();
+      const removedAt = new Date(entry!.removedAt);
+      const day = 24 * 60 * 60 * 1000;
+
+      const early = await purgeExpiredTrash(
+        rootDir,
+        new Date(removedAt.getTime() + (DEFAULT_TRASH_RETENTION_DAYS - 1) * day)
+      );
+      const late = await purgeExpiredTrash(
+        rootDir,
+        new Date(removedAt.getTime() + DEFAULT_TRASH_RETENTION_DAYS * day)
+      );
+
+      expect(early).toEqual([]);
+      expect(late.map((e) => e.id)).toEqual([entry!.id]);
+      expect(await listTrash(rootDir)).toEqual([]);
+    });
+
+    test('should use the configured retention', async () => {
+      await fs.outputJson(path.join(rootDir, '.gcpb', 'settings.json'), {
+        version: '1.0.0',
+        trashRetentionDays: 0,
+      });
+      await trashBoth();
+
+      expect(await getTrashRetentionDays(rootDir)).toBe(0);
+      expect(await purgeExpiredTrash(rootDir)).toHaveLength(1);
+    });
+  });
+});
@@ -1,5 +1,9 @@
 import { describe, test, expect } from 'vitest';
-import { parseGitUrl } from '../../../src/core/url-parser.js';
+import {
+  getPullRequestRef,
+  getPullRequestTrackingRef,
+  parseGitUrl,
+} from '../../../src/core/url-parser.js';
 import { GCPBError } from '../../../src/types/index.js';
 import { TEST_URLS } from '../../helpers/fixtures.js';
 
@@ -14,6 +18,8 @@ describe('url-parser', () => {
           repo: 'repo',
           protocol: 'https',
           fullUrl: TEST_URLS.https,
+          host: 'github.com',
+          forge: 'github',
         });
       });
 
@@ -25,6 +31,8 @@ describe('url-parser', () => {
           repo: 'repo',
           protocol: 'https',
           fullUrl: TEST_URLS.httpsWithoutGit,
+          host: 'github.com',
+          forge: 'github',
         });
       });
 
@@ -45,6 +53,8 @@ describe('url-parser', () => {
           repo: 'repo',
           protocol: 'ssh',
           fullUrl: TEST_URLS.ssh,
+          host: 'github.com',
+          forge: 'github',
         });
       });
 
@@ -56,6 +66,8 @@ describe('url-parser', () => {
           repo: 'repo',
           protocol: 'ssh',
           fullUrl: TEST_URLS.sshWithoutGit,
+          host: 'github.com',
+          forge: 'github',
         });
       });
     });
@@ -148,5 +160,57 @@ describe('url-parser', () => {
         expect(result.repo).toBe('repo_name');
       });
     });
+
+    describe('Forge detection', () => {
+      test('should detect GitHub and GitLab hosts, including self-hosted ones', () => {
+        expect(parseGitUrl('https://github.com/user/repo.git').forge).toBe('github');
+        expect(parseGitUrl('git@gitlab.com:group/repo.git').forge).toBe('gitlab');
+        expect(parseGitUrl('https://gitlab.example.com/group/repo.git')).toMatchObject({
+          host: 'gitlab.example.com',
+          forge: 'gitlab',
+        });
+      });
+
+      test('should leave forge undefined for other hosts', () => {
+        expect(parseGitUrl('https://bitbucket.org/user/repo.git').forge).toBeUndefined();
+      });
+    });
+  });
+
+  describe('getPullRequestRef', () => {
+    test('should return the pull request head ref on GitHub', () => {
+      expect(getPullRequestRef(parseGitUrl('https://github.com/user/repo.git'), 12)).toBe(
+        'refs/pull/12/head'
+      );
+    });
+
+    test('should return the merge request head ref on GitLab', () => {
+      expect(getPullRequestRef(parseGitUrl('git@gitlab.com:group/repo.git'), 7)).toBe(
+        'refs/merge-requests/7/head'
+      );
+    });
+
+    test('should throw GCPBError for other forges', () => {
+      const parsed = parseGitUrl('https://bitbucket.org/user/repo.git');
+
+      expect(() => getPullRequestRef(parsed, 1)).toThrow(GCPBError);
+      expect(() => getPullRequestRef(parsed, 1)).toThrow(
+        'Cannot fetch pull requests from bitbucket.org'
+      );
+    });
+  });
+
+  describe('getPullRequestTrackingRef', () => {
+    test('should track pull requests under origin/pr on GitHub', () => {
+      expect(getPullRequestTrackingRef(parseGitUrl('https://github.com/user/repo.git'), 12)).toBe(
+        'refs/remotes/origin/pr/12'
+      );
+    });
+
+    test('should track merge requests under origin/mr on GitLab', () => {
+      expect(getPullRequestTrackingRef(parseGitUrl('git@gitlab.com:group/repo.git'), 7)).toBe(
+        'refs/remotes/origin/mr/7'
+      );
+    });
   });
 });
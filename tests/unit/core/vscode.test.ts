@@ -1,8 +1,28 @@
 import { describe, test, expect, vi, beforeEach } from 'vitest';
-import { openInVSCode } from '../../../src/core/editor.js';
+import { openInEditor, openInVSCode, resolveDevContainerUri } from '../../../src/core/editor.js';
+import { BUILTIN_EDITORS } from '../../../src/core/editor-registry.js';
 import { spawn } from 'cross-spawn';
 
 vi.mock('cross-spawn');
+vi.mock('../../../src/core/config.js');
+vi.mock('../../../src/core/devcontainer.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../../src/core/devcontainer.js')>()),
+  findDevContainerConfig: vi.fn(),
+  getContainerWorkspaceFolder: vi.fn(),
+}));
+vi.mock('../../../src/prompts/editor.js');
+vi.mock('../../../src/core/repository-scanner.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../../src/core/repository-scanner.js')>()),
+  scanRepositories: vi.fn(),
+}));
+
+import { loadConfig, updateEditorPreferences } from '../../../src/core/config.js';
+import {
+  findDevContainerConfig,
+  getContainerWorkspaceFolder,
+} from '../../../src/core/devcontainer.js';
+import { promptForDevContainerOpening } from '../../../src/prompts/editor.js';
+import { scanRepositories } from '../../../src/core/repository-scanner.js';
 
 describe('vscode', () => {
   beforeEach(() => {
@@ -115,4 +135,150 @@ describe('vscode', () => {
       });
     });
   });
+
+  describe('openInEditor', () => {
+    test('should spawn the editor command with the path substituted', async () => {
+      const mockChild = {
+        on: vi.fn((event, handler) => {
+          if (event === 'spawn') {
+            setImmediate(handler);
+          }
+          return mockChild;
+        }),
+        unref: vi.fn(),
+      };
+
+      vi.mocked(spawn).mockReturnValue(mockChild as any);
+
+      const result = await openInEditor({
+        targetPath: '/path/to/project',
+        editor: { id: 'subl', name: 'subl', command: 'subl', args: ['-n', '{path}'] },
+      });
+
+      expect(result).toBe(true);
+      expect(spawn).toHaveBeenCalledWith('subl', ['-n', '/path/to/project'], {
+        stdio: 'ignore',
+        detached: true,
+      });
+    });
+
+    test('should open a folder URI instead of the path when given', async () => {
+      const mockChild = {
+        on: vi.fn((event, handler) => {
+          if (event === 'spawn') {
+            setImmediate(handler);
+          }
+          return mockChild;
+        }),
+        unref: vi.fn(),
+      };
+
+      vi.mocked(spawn).mockReturnValue(mockChild as any);
+
+      await openInEditor({
+        targetPath: '/path/to/project',
+        editor: BUILTIN_EDITORS.vscode,
+        folderUri: 'vscode-remote://dev-container+2f/workspaces/project',
+      });
+
+      expect(spawn).toHaveBeenCalledWith(
+        'code',
+        ['--folder-uri', 'vscode-remote://dev-container+2f/workspaces/project'],
+        { stdio: 'ignore', detached: true }
+      );
+    });
+  });
+
+  describe('resolveDevContainerUri', () => {
+    const targetPath = '/root/org/repo/main';
+    const configPath = '/root/org/repo/main/.devcontainer/devcontainer.json';
+    const expectedUri =
+      'vscode-remote://dev-container+2f726f6f742f6f72672f7265706f2f6d61696e/workspaces/main';
+
+    beforeEach(() => {
+      vi.mocked(findDevContainerConfig).mockResolvedValue(configPath);
+      vi.mocked(getContainerWorkspaceFolder).mockResolvedValue('/workspaces/main');
+      vi.mocked(scanRepositories).mockResolvedValue([
+        { owner: 'org', repo: 'repo', branches: ['main'], fullPath: '/root/org/repo' },
+      ]);
+    });
+
+    test('should return null when the clone has no dev container', async () => {
+      vi.mocked(findDevContainerConfig).mockResolvedValue(null);
+
+      const result = await resolveDevContainerUri('/root', targetPath, BUILTIN_EDITORS.vscode);
+
+      expect(result).toBeNull();
+      expect(promptForDevContainerOpening).not.toHaveBeenCalled();
+    });
+
+    test('should return null for editors without dev container support', async () => {
+      const result = await resolveDevContainerUri('/root', targetPath, BUILTIN_EDITORS.zed, true);
+
+      expect(result).toBeNull();
+    });
+
+    test('should skip the prompt when explicitly requested', async () => {
+      const result = await resolveDevContainerUri(
+        '/root',
+        targetPath,
+        BUILTIN_EDITORS.vscode,
+        true
+      );
+
+      expect(result).toBe(expectedUri);
+      expect(loadConfig).not.toHaveBeenCalled();
+      expect(promptForDevContainerOpening).not.toHaveBeenCalled();
+    });
+
+    test('should use the per-repository preference from settings', async () => {
+      vi.mocked(loadConfig).mockResolvedValue({
+        version: '1.0.0',
+        editor: { devContainer: { 'org/repo': false } },
+      });
+
+      const result = await resolveDevContainerUri('/root', targetPath, BUILTIN_EDITORS.vscode);
+
+      expect(result).toBeNull();
+      expect(promptForDevContainerOpening).not.toHaveBeenCalled();
+    });
+
+    test('should prompt and remember the choice per repository', async () => {
+      vi.mocked(loadConfig).mockResolvedValue({
+        version: '1.0.0',
+        editor: { devContainer: { 'org/other': false } },
+      });
+      vi.mocked(promptForDevContainerOpening).mockResolvedValue({
+        openInContainer: true,
+        rememberChoice: true,
+      });
+
+      const result = await resolveDevContainerUri('/root', targetPath, BUILTIN_EDITORS.vscode);
+
+      expect(result).toBe(expectedUri);
+      expect(promptForDevContainerOpening).toHaveBeenCalledWith('org/repo');
+      expect(updateEditorPreferences).toHaveBeenCalledWith('/root', {
+        devContainer: { 'org/other': false, 'org/repo': true },
+      });
+    });
+
+    test('should key the preference by repository for nested branch directories', async () => {
+      vi.mocked(scanRepositories).mockResolvedValue([
+        { owner: 'org', repo: 'repo', branches: ['feature/x'], fullPath: '/root/org/repo' },
+      ]);
+      vi.mocked(loadConfig).mockResolvedValue({
+        version: '1.0.0',
+        editor: { devContainer: { 'org/repo': false } },
+      });
+
+      const result = await resolveDevContainerUri(
+        '/root',
+        '/root/org/repo/feature/x',
+        BUILTIN_EDITORS.vscode
+      );
+
+      expect(result).toBeNull();
+      expect(promptForDevContainerOpening).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -11,6 +11,9 @@ import {
   addEnterUrl,
   addConfigureBranches,
   addConfirmClone,
+  addSelectCarryOverSource,
+  addResolveExistingBranch,
+  addResolveExistingClone,
 } from '../../../src/state/add-states.js';
 import type {
   AddSelectModeInput,
@@ -24,6 +27,7 @@ import type {
   AddEnterUrlInput,
   AddConfigureBranchesInput,
   AddConfirmCloneInput,
+  AddSelectCarryOverSourceInput,
 } from '../../../src/state/types.js';
 
 // Mock dependencies
@@ -60,6 +64,7 @@ vi.mock('../../../src/core/cache-manager.js', () => ({
 
 vi.mock('../../../src/core/cache-scanner.js', () => ({
   getCacheUrl: vi.fn(),
+  getCachedBranches: vi.fn(),
 }));
 
 import {
@@ -73,7 +78,7 @@ import { validateGitUrl, validateBranchName } from '../../../src/utils/validator
 import { parseGitUrl } from '../../../src/core/url-parser.js';
 import { resolveRemoteUrl } from '../../../src/core/remote-resolver.js';
 import { detectDefaultBranch } from '../../../src/core/default-branch-detector.js';
-import { getCacheUrl } from '../../../src/core/cache-scanner.js';
+import { getCacheUrl, getCachedBranches } from '../../../src/core/cache-scanner.js';
 
 describe('add-states', () => {
   let consoleLogSpy: ReturnType<typeof vi.spyOn>;
@@ -381,6 +386,10 @@ describe('add-states', () => {
   });
 
   describe('addConfigureBranches', () => {
+    beforeEach(() => {
+      vi.mocked(getCachedBranches).mockResolvedValue([]);
+    });
+
     test('should prompt for branch configuration', async () => {
       const input: AddConfigureBranchesInput = {
         url: 'https://github.com/user/repo.git',
@@ -463,6 +472,162 @@ describe('add-states', () => {
         expect(targetBranchValidate('feature')).toBe(true);
       }
     });
+
+    describe('with a cache', () => {
+      const input: AddConfigureBranchesInput = {
+        url: 'https://github.com/user/repo.git',
+        rootDir: '/root',
+        owner: 'user',
+        repo: 'repo',
+      };
+
+      beforeEach(() => {
+        vi.mocked(detectDefaultBranch).mockResolvedValue('main');
+        vi.mocked(getCachedBranches).mockResolvedValue([
+          { name: 'main', date: '2026-10-01', author: 'Alice', subject: 'Release 2.0' },
+          { name: 'feat/login', date: '2026-10-18', author: 'Bob', subject: 'Add login form' },
+          { name: 'fix/logout', date: '2026-10-12', author: 'Carol', subject: 'Fix logout' },
+        ]);
+        vi.mocked(searchWithEsc).mockResolvedValueOnce('feat/login');
+        vi.mocked(inputWithEsc).mockResolvedValueOnce('my-login');
+      });
+
+      const getSource = () => vi.mocked(searchWithEsc).mock.calls[0][0].source;
+
+      test('should pick the remote branch from the cached branches', async () => {
+        const result = await addConfigureBranches(input);
+
+        expect(result.value).toEqual({
+          baseBranch: 'feat/login',
+          targetBranch: 'my-login',
+          defaultBranch: 'main',
+        });
+        expect(getCachedBranches).toHaveBeenCalledWith('/root/.gcpb/.cache/user/repo', 'main');
+        expect(inputWithEsc).toHaveBeenCalledTimes(1);
+        expect(await getSource()(undefined, { signal: new AbortController().signal })).toEqual([
+          { name: 'main (default)', value: 'main', description: 'Release 2.0 (Alice, 2026-10-01)' },
+          {
+            name: 'feat/login',
+            value: 'feat/login',
+            description: 'Add login form (Bob, 2026-10-18)',
+          },
+          {
+            name: 'fix/logout',
+            value: 'fix/logout',
+            description: 'Fix logout (Carol, 2026-10-12)',
+          },
+        ]);
+      });
+
+      test('should fuzzy match and still allow other branch names', async () => {
+        vi.mocked(validateBranchName).mockReturnValue({ valid: true });
+        await addConfigureBranches(input);
+
+        const choices = await getSource()('origin/flo', { signal: new AbortController().signal });
+
+        expect(choices.map((choice: any) => choice.value)).toEqual([
+          'fix/logout',
+          'feat/login',
+          'flo',
+        ]);
+        expect(choices[2]).toMatchObject({ name: 'Use "flo"', disabled: false });
+      });
+
+      test('should disable invalid free-text branch names', async () => {
+        vi.mocked(validateBranchName).mockReturnValue({
+          valid: false,
+          error: 'Invalid branch name "a..b"',
+        });
+        await addConfigureBranches(input);
+
+        const choices = await getSource()('a..b', { signal: new AbortController().signal });
+
+        expect(choices).toEqual([
+          expect.objectContaining({ value: 'a..b', disabled: 'Invalid branch name "a..b"' }),
+        ]);
+      });
+    });
+  });
+
+  describe('addResolveExistingBranch', () => {
+    test('should return the chosen action for the existing branch', async () => {
+      vi.mocked(selectWithEsc).mockResolvedValue('track');
+
+      const result = await addResolveExistingBranch({ branch: 'feat/x' });
+
+      expect(result.value).toEqual({ action: 'track', branch: 'feat/x' });
+      expect(inputWithEsc).not.toHaveBeenCalled();
+    });
+
+    test('should ask for another local branch name', async () => {
+      vi.mocked(selectWithEsc).mockResolvedValue('rename');
+      vi.mocked(inputWithEsc).mockResolvedValue('feat/x-2');
+      vi.mocked(validateBranchName).mockReturnValue({ valid: true });
+
+      const result = await addResolveExistingBranch({ branch: 'feat/x' });
+
+      expect(result.value).toEqual({ action: 'rename', branch: 'feat/x-2' });
+      const validate = vi.mocked(inputWithEsc).mock.calls[0][0].validate!;
+      expect(validate('feat/x')).toBe('Branch "feat/x" already exists on the remote');
+      expect(validate('feat/x-2')).toBe(true);
+    });
+  });
+
+  describe('addResolveExistingClone', () => {
+    const existing = {
+      path: '/root/user/repo/feat-x',
+      matches: false,
+      reason: 'has branch "feat-x" checked out',
+      unsavedWork: ['2 uncommitted changes'],
+    };
+
+    test('should offer to update or open a clone of the same branch', async () => {
+      vi.mocked(selectWithEsc).mockResolvedValue('update');
+
+      const result = await addResolveExistingClone({
+        existing: { ...existing, matches: true, reason: undefined },
+        alternativePath: '/root/user/repo/feat-x',
+      });
+
+      expect(result.value.action).toBe('update');
+      expect(vi.mocked(selectWithEsc).mock.calls[0][0].choices).toEqual([
+        { name: 'Fetch and fast-forward it', value: 'update' },
+        { name: 'Open it in the editor', value: 'open' },
+        { name: 'Cancel', value: 'cancel' },
+      ]);
+    });
+
+    test('should confirm moving the directory to the trash', async () => {
+      vi.mocked(selectWithEsc).mockResolvedValue('replace');
+      vi.mocked(confirmWithEsc).mockResolvedValue(false);
+
+      const result = await addResolveExistingClone({
+        existing: { ...existing, unsavedWork: [] },
+        alternativePath: '/root/user/repo/feat-x-2',
+      });
+
+      expect(result.value.action).toBe('cancel');
+      expect(confirmWithEsc).toHaveBeenCalledWith({
+        message: 'Move /root/user/repo/feat-x to the trash?',
+        default: false,
+      });
+      expect(vi.mocked(selectWithEsc).mock.calls[0][0].choices).toContainEqual({
+        name: 'Clone into /root/user/repo/feat-x-2 instead',
+        value: 'alternative',
+      });
+    });
+
+    test('should not offer to replace a directory with unsaved work', async () => {
+      vi.mocked(selectWithEsc).mockResolvedValue('alternative');
+
+      await addResolveExistingClone({ existing, alternativePath: '/root/user/repo/feat-x-2' });
+
+      expect(vi.mocked(selectWithEsc).mock.calls[0][0].choices).toContainEqual({
+        name: 'Replace it with a new clone',
+        value: 'replace',
+        disabled: 'unsaved work: 2 uncommitted changes',
+      });
+    });
   });
 
   describe('addConfirmClone', () => {
@@ -529,6 +694,41 @@ describe('add-states', () => {
     });
   });
 
+  describe('addSelectCarryOverSource', () => {
+    test('should return null without prompting when there are no siblings', async () => {
+      const result = await addSelectCarryOverSource({ siblings: [] });
+
+      expect(result.value.source).toBeNull();
+      expect(selectWithEsc).not.toHaveBeenCalled();
+    });
+
+    test('should use the only sibling without prompting', async () => {
+      const result = await addSelectCarryOverSource({ siblings: ['main'] });
+
+      expect(result.value.source).toBe('main');
+      expect(selectWithEsc).not.toHaveBeenCalled();
+    });
+
+    test('should prompt with the most recent sibling as default', async () => {
+      const input: AddSelectCarryOverSourceInput = { siblings: ['main', 'feat-old'] };
+
+      vi.mocked(selectWithEsc).mockResolvedValue('feat-old');
+
+      const result = await addSelectCarryOverSource(input);
+
+      expect(result.value.source).toBe('feat-old');
+      expect(selectWithEsc).toHaveBeenCalledWith({
+        message: 'Copy local files (e.g. .env) from which branch?',
+        choices: [
+          { name: 'main (most recent)', value: 'main' },
+          { name: 'feat-old', value: 'feat-old' },
+          { name: "Don't copy files", value: null },
+        ],
+        default: 'main',
+      });
+    });
+  });
+
   describe('addSelectCacheOwner', () => {
     test('should select owner from cache', async () => {
       const input: AddSelectCacheOwnerInput = {
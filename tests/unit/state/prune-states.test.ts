@@ -0,0 +1,87 @@
+import { describe, test, expect, vi, beforeEach } from 'vitest';
+import { pruneSelectBranches } from '../../../src/state/prune-states.js';
+import type { PruneCandidate } from '../../../src/state/types.js';
+
+// Mock the inquirer-helpers module
+vi.mock('../../../src/utils/inquirer-helpers.js', () => ({
+  checkboxWithEsc: vi.fn(),
+}));
+
+import { checkboxWithEsc } from '../../../src/utils/inquirer-helpers.js';
+
+describe('prune-states', () => {
+  const merged: PruneCandidate = {
+    owner: 'org1',
+    repo: 'repo1',
+    branch: 'feat-a',
+    remoteBranch: 'feat/a',
+    reason: 'merged',
+    unsavedWork: [],
+  };
+  const dirty: PruneCandidate = {
+    owner: 'org1',
+    repo: 'repo1',
+    branch: 'feat-b',
+    remoteBranch: 'feat/b',
+    reason: 'deleted',
+    unsavedWork: ['2 uncommitted changes'],
+  };
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  describe('pruneSelectBranches', () => {
+    test('should return removable candidates without prompting when skipping selection', async () => {
+      const result = await pruneSelectBranches({
+        candidates: [merged, dirty],
+        skipSelection: true,
+      });
+
+      expect(result.value.selected).toEqual([merged]);
+      expect(checkboxWithEsc).not.toHaveBeenCalled();
+    });
+
+    test('should include candidates with unsaved work when discarding changes', async () => {
+      const result = await pruneSelectBranches({
+        candidates: [merged, dirty],
+        discardChanges: true,
+        skipSelection: true,
+      });
+
+      expect(result.value.selected).toEqual([merged, dirty]);
+    });
+
+    test('should not prompt when nothing is removable', async () => {
+      const result = await pruneSelectBranches({ candidates: [dirty] });
+
+      expect(result.value.selected).toEqual([]);
+      expect(checkboxWithEsc).not.toHaveBeenCalled();
+    });
+
+    test('should preselect removable candidates and disable blocked ones', async () => {
+      vi.mocked(checkboxWithEsc).mockResolvedValue([merged]);
+
+      const result = await pruneSelectBranches({ candidates: [merged, dirty] });
+
+      expect(result.value.selected).toEqual([merged]);
+      expect(checkboxWithEsc).toHaveBeenCalledWith({
+        message: 'Select stale branches to remove:',
+        choices: [
+          {
+            name: 'org1/repo1/feat-a (merged into default branch)',
+            value: merged,
+            checked: true,
+            disabled: false,
+          },
+          {
+            name: 'org1/repo1/feat-b (deleted upstream)',
+            value: dirty,
+            checked: false,
+            disabled: 'unsaved work: 2 uncommitted changes',
+          },
+        ],
+      });
+    });
+  });
+});
@@ -3,13 +3,16 @@ import {
   rmSelectOrg,
   rmSelectRepo,
   rmSelectBranches,
+  rmInspectBranches,
   rmConfirmRemoval,
+  rmConfirmBulkRemoval,
 } from '../../../src/state/rm-states.js';
 import type {
   RmSelectOrgInput,
   RmSelectRepoInput,
   RmSelectBranchesInput,
   RmConfirmRemovalInput,
+  RmConfirmBulkRemovalInput,
 } from '../../../src/state/types.js';
 
 // Mock the inquirer-helpers module
@@ -19,11 +22,21 @@ vi.mock('../../../src/utils/inquirer-helpers.js', () => ({
   confirmWithEsc: vi.fn(),
 }));
 
+// Mock git inspection, keep the pure description helper
+vi.mock('../../../src/core/git-status.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../../src/core/git-status.js')>()),
+  getUnsavedWork: vi.fn(),
+}));
+
 import {
   selectWithEsc,
   checkboxWithEsc,
   confirmWithEsc,
 } from '../../../src/utils/inquirer-helpers.js';
+import { getUnsavedWork } from '../../../src/core/git-status.js';
+
+// eslint-disable-next-line no-control-regex
+const stripAnsi = (text: string) => text.replace(/\x1b\[[0-9;]*m/g, '');
 
 describe('rm-states', () => {
   beforeEach(() => {
@@ -194,6 +207,32 @@ describe('rm-states', () => {
       );
     });
 
+    test('should label branches with their base and creation date', async () => {
+      const input: RmSelectBranchesInput = {
+        branches: ['main', 'feat/login'],
+        metadata: {
+          main: { branch: 'main', baseBranch: 'main' },
+          'feat/login': {
+            branch: 'feat/login',
+            baseBranch: 'main',
+            createdAt: '2024-05-01T10:00:00.000Z',
+          },
+        },
+      };
+
+      vi.mocked(checkboxWithEsc).mockResolvedValue(['feat/login']);
+
+      await rmSelectBranches(input);
+
+      const { choices } = vi.mocked(checkboxWithEsc).mock.calls[0][0] as {
+        choices: { name: string; value: string }[];
+      };
+      expect(choices.map((c) => ({ name: stripAnsi(c.name), value: c.value }))).toEqual([
+        { name: 'main', value: 'main' },
+        { name: 'feat/login (from main, created 2024-05-01)', value: 'feat/login' },
+      ]);
+    });
+
     test('should skip prompt when preselected branch is valid', async () => {
       const input: RmSelectBranchesInput = {
         branches: ['main', 'dev', 'staging'],
@@ -253,6 +292,59 @@ describe('rm-states', () => {
     });
   });
 
+  describe('rmInspectBranches', () => {
+    const clean = { changedFiles: 0, untrackedFiles: 0, stashCount: 0, unpushedCommits: 0 };
+
+    test('should return empty record when branches are clean', async () => {
+      vi.mocked(getUnsavedWork).mockResolvedValue(clean);
+
+      const result = await rmInspectBranches({
+        rootDir: '/root',
+        org: 'org1',
+        repo: 'repo1',
+        branches: ['main', 'dev'],
+      });
+
+      expect(result.value.unsavedWork).toEqual({});
+      expect(getUnsavedWork).toHaveBeenCalledWith('/root/org1/repo1/main');
+      expect(getUnsavedWork).toHaveBeenCalledWith('/root/org1/repo1/dev');
+    });
+
+    test('should describe unsaved work per branch', async () => {
+      vi.mocked(getUnsavedWork).mockImplementation(async (branchPath: string) =>
+        branchPath.endsWith('dev')
+          ? { changedFiles: 2, untrackedFiles: 1, stashCount: 2, unpushedCommits: 1 }
+          : clean
+      );
+
+      const result = await rmInspectBranches({
+        rootDir: '/root',
+        org: 'org1',
+        repo: 'repo1',
+        branches: ['main', 'dev'],
+      });
+
+      expect(result.value.unsavedWork).toEqual({
+        dev: ['2 uncommitted changes', '1 untracked file', '1 unpushed commit', '2 stashes'],
+      });
+    });
+
+    test('should report branches that cannot be inspected', async () => {
+      vi.mocked(getUnsavedWork).mockRejectedValue(new Error('not a git repository'));
+
+      const result = await rmInspectBranches({
+        rootDir: '/root',
+        org: 'org1',
+        repo: 'repo1',
+        branches: ['main'],
+      });
+
+      expect(result.value.unsavedWork).toEqual({
+        main: ['could not inspect working tree (not a git repository)'],
+      });
+    });
+  });
+
   describe('rmConfirmRemoval', () => {
     // Mock console.log to prevent output during tests
     const originalConsoleLog = console.log;
@@ -330,5 +422,75 @@ describe('rm-states', () => {
       expect(console.log).toHaveBeenCalled();
       // Verify that paths are being logged (implementation detail)
     });
+
+    test('should display unsaved work for affected branches', async () => {
+      const input: RmConfirmRemovalInput = {
+        rootDir: '/root',
+        org: 'org1',
+        repo: 'repo1',
+        branches: ['main', 'dev'],
+        unsavedWork: { dev: ['2 uncommitted changes'] },
+      };
+
+      vi.mocked(confirmWithEsc).mockResolvedValue(true);
+
+      await rmConfirmRemoval(input);
+
+      const output = vi.mocked(console.log).mock.calls.map((call) => String(call[0]));
+      expect(output.some((line) => line.includes('⚠ 2 uncommitted changes'))).toBe(true);
+    });
+  });
+
+  describe('rmConfirmBulkRemoval', () => {
+    const originalConsoleLog = console.log;
+    beforeEach(() => {
+      console.log = vi.fn();
+    });
+
+    afterEach(() => {
+      console.log = originalConsoleLog;
+    });
+
+    const input: RmConfirmBulkRemovalInput = {
+      clones: [
+        { name: 'org1/repo1/main', path: '/root/org1/repo1/main', sizeBytes: 1024 },
+        {
+          name: 'org1/repo1/feat/a',
+          path: '/root/org1/repo1/feat-a',
+          sizeBytes: 2048,
+          unsavedWork: ['1 stash'],
+        },
+      ],
+      caches: [{ name: 'org1/repo1', path: '/root/.gcpb/.cache/org1/repo1' }],
+    };
+
+    test('should list clones and caches with sizes before confirming', async () => {
+      vi.mocked(confirmWithEsc).mockResolvedValue(true);
+
+      const result = await rmConfirmBulkRemoval(input);
+
+      const output = vi
+        .mocked(console.log)
+        .mock.calls.map((call) => stripAnsi(String(call[0] ?? '')));
+      expect(result.value.confirmed).toBe(true);
+      expect(output).toContain('The following 2 clones will be removed:');
+      expect(output).toContain('  - org1/repo1/main    1.0 KB');
+      expect(output).toContain('    ⚠ 1 stash');
+      expect(output).toContain('Along with their repository caches:');
+      expect(output).toContain('  - org1/repo1  -');
+      expect(output).toContain('3.0 KB in total');
+      expect(confirmWithEsc).toHaveBeenCalledWith({
+        message: 'Are you sure you want to remove these 2 clones?',
+        default: false,
+      });
+    });
+
+    test('should skip confirmation when force flag is true', async () => {
+      const result = await rmConfirmBulkRemoval({ ...input, force: true });
+
+      expect(result.value.confirmed).toBe(true);
+      expect(confirmWithEsc).not.toHaveBeenCalled();
+      expect(console.log).toHaveBeenCalled();
+    });
   });
 });
@@ -69,12 +69,47 @@ describe('arg-parser', () => {
     test('should handle branch names with slashes', () => {
       const result = parsePathArg('myorg/myrepo/feature/new-login');
 
-      // Note: This only captures first 3 components
-      // Branch names with slashes need special handling in orchestrator
       expect(result.org).toBe('myorg');
       expect(result.repo).toBe('myrepo');
-      expect(result.branch).toBe('feature');
+      expect(result.branch).toBe('feature/new-login');
       expect(result.isComplete).toBe(true);
     });
+
+    test('should split owners spanning several segments using known repositories', () => {
+      const keys = ['myorg/myrepo', 'group/subgroup/app', 'github.com/acme/web'];
+
+      expect(parsePathArg('group/subgroup/app/feat/login', keys)).toEqual({
+        org: 'group/subgroup',
+        repo: 'app',
+        branch: 'feat/login',
+        isComplete: true,
+      });
+      expect(parsePathArg('github.com/acme/web', keys)).toEqual({
+        org: 'github.com/acme',
+        repo: 'web',
+        branch: undefined,
+        isComplete: false,
+      });
+    });
+
+    test('should treat a prefix of a known owner path as the owner', () => {
+      const keys = ['group/subgroup/app'];
+
+      expect(parsePathArg('group/subgroup', keys)).toEqual({
+        org: 'group/subgroup',
+        repo: undefined,
+        branch: undefined,
+        isComplete: false,
+      });
+      expect(parsePathArg('group', keys).org).toBe('group');
+    });
+
+    test('should fall back to owner/repo/branch for unknown repositories', () => {
+      const result = parsePathArg('other/repo/main', ['group/subgroup/app']);
+
+      expect(result.org).toBe('other');
+      expect(result.repo).toBe('repo');
+      expect(result.branch).toBe('main');
+    });
   });
 });
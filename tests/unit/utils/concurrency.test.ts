@@ -0,0 +1,43 @@
+import { describe, test, expect } from 'vitest';
+import { mapWithConcurrency } from '../../../src/utils/concurrency.js';
+
+describe('concurrency', () => {
+  describe('mapWithConcurrency', () => {
+    test('should keep results in input order', async () => {
+      const delays = [30, 10, 20, 0];
+
+      const results = await mapWithConcurrency(delays, 2, async (delay, index) => {
+        await new Promise((resolve) => setTimeout(resolve, delay));
+        return index;
+      });
+
+      expect(results).toEqual([0, 1, 2, 3]);
+    });
+
+    test('should never run more tasks than the limit at once', async () => {
+      let running = 0;
+      let maxRunning = 0;
+
+      await mapWithConcurrency([1, 2, 3, 4, 5, 6, 7], 3, async () => {
+        running++;
+        maxRunning = Math.max(maxRunning, running);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        running--;
+      });
+
+      expect(maxRunning).toBe(3);
+    });
+
+    test('should return empty array for no items', async () => {
+      expect(await mapWithConcurrency([], 4, async () => 1)).toEqual([]);
+    });
+
+    test('should propagate task errors', async () => {
+      await expect(
+        mapWithConcurrency([1], 1, async () => {
+          throw new Error('boom');
+        })
+      ).rejects.toThrow('boom');
+    });
+  });
+});
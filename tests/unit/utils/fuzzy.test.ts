@@ -0,0 +1,31 @@
+import { describe, test, expect } from 'vitest';
+import { fuzzyFilter, fuzzyScore } from '../../../src/utils/fuzzy.js';
+
+describe('fuzzy', () => {
+  describe('fuzzyScore', () => {
+    test('should match characters in order, ignoring case', () => {
+      expect(fuzzyScore('fl', 'feat/login')).toBe(4);
+      expect(fuzzyScore('FEAT', 'feat/login')).toBe(0);
+      expect(fuzzyScore('lf', 'feat/login')).toBeNull();
+    });
+
+    test('should rank consecutive and earlier matches lower', () => {
+      expect(fuzzyScore('login', 'feat/login')).toBe(5);
+      expect(fuzzyScore('login', 'login-page')).toBe(0);
+      expect(fuzzyScore('login', 'l-o-g-i-n')).toBe(4);
+    });
+  });
+
+  describe('fuzzyFilter', () => {
+    const branches = ['main', 'feat/login', 'fix/logout', 'login'];
+
+    test('should keep matching items, best first', () => {
+      expect(fuzzyFilter(branches, 'login', (b) => b)).toEqual(['login', 'feat/login']);
+      expect(fuzzyFilter(branches, 'flo', (b) => b)).toEqual(['fix/logout', 'feat/login']);
+    });
+
+    test('should keep every item for an empty query', () => {
+      expect(fuzzyFilter(branches, '', (b) => b)).toBe(branches);
+    });
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, test, expect } from 'vitest';
+import { isGlobPattern, matchGlob } from '../../../src/utils/glob.js';
+
+describe('glob', () => {
+  describe('matchGlob', () => {
+    test('should match exact names', () => {
+      expect(matchGlob('facebook/react', 'facebook/react')).toBe(true);
+      expect(matchGlob('facebook/react', 'facebook/react-native')).toBe(false);
+    });
+
+    test('should match "*" within a single segment', () => {
+      expect(matchGlob('facebook/*', 'facebook/react')).toBe(true);
+      expect(matchGlob('*/react', 'facebook/react')).toBe(true);
+      expect(matchGlob('*', 'facebook/react')).toBe(false);
+    });
+
+    test('should match "**" across segments', () => {
+      expect(matchGlob('**', 'facebook/react')).toBe(true);
+      expect(matchGlob('facebook/**', 'facebook/react/feat-x')).toBe(true);
+    });
+
+    test('should let "**/" match zero or more directories', () => {
+      expect(matchGlob('**/.env', '.env')).toBe(true);
+      expect(matchGlob('**/.env', 'apps/web/.env')).toBe(true);
+      expect(matchGlob('**/.env', 'apps/web/.env.local')).toBe(false);
+    });
+
+    test('should match "?" as a single character', () => {
+      expect(matchGlob('feat-?', 'feat-a')).toBe(true);
+      expect(matchGlob('feat-?', 'feat-ab')).toBe(false);
+    });
+
+    test('should treat regex characters literally', () => {
+      expect(matchGlob('my.org/repo+x', 'my.org/repo+x')).toBe(true);
+      expect(matchGlob('my.org/repo', 'myxorg/repo')).toBe(false);
+    });
+  });
+
+  describe('isGlobPattern', () => {
+    test('should detect wildcard characters', () => {
+      expect(isGlobPattern('feat-*')).toBe(true);
+      expect(isGlobPattern('feat-?')).toBe(true);
+      expect(isGlobPattern('feat-x')).toBe(false);
+    });
+  });
+});
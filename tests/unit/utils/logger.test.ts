@@ -41,6 +41,15 @@ describe('logger', () => {
     });
   });
 
+  describe('output', () => {
+    test('should log indented command output', () => {
+      logger.output('added 120 packages');
+
+      expect(consoleLogSpy).toHaveBeenCalledOnce();
+      expect(consoleLogSpy.mock.calls[0][0]).toContain('│ added 120 packages');
+    });
+  });
+
   describe('success', () => {
     test('should log success message with green checkmark', () => {
       logger.success('Operation successful');
@@ -0,0 +1,56 @@
+import { describe, test, expect, vi } from 'vitest';
+import {
+  formatCloneTimings,
+  formatDuration,
+  formatGitProgress,
+  gitProgressOptions,
+} from '../../../src/utils/progress.js';
+
+describe('progress', () => {
+  const event = {
+    method: 'clone',
+    stage: 'receiving' as const,
+    progress: 45,
+    processed: 1234,
+    total: 2740,
+  };
+
+  describe('formatGitProgress', () => {
+    test('should show the phase, stage, percentage and object counts', () => {
+      expect(formatGitProgress('Cloning from cache', event)).toBe(
+        'Cloning from cache: receiving 45% (1234/2740)'
+      );
+    });
+  });
+
+  describe('gitProgressOptions', () => {
+    test('should not enable progress without a reporter', () => {
+      expect(gitProgressOptions('Cloning')).toEqual({});
+    });
+
+    test('should forward progress events to the reporter', () => {
+      const onProgress = vi.fn();
+
+      gitProgressOptions('Mirroring repository', onProgress).progress?.(event);
+
+      expect(onProgress).toHaveBeenCalledWith('Mirroring repository: receiving 45% (1234/2740)');
+    });
+  });
+
+  describe('formatDuration', () => {
+    test('should pick a unit that fits', () => {
+      expect(formatDuration(850)).toBe('850ms');
+      expect(formatDuration(12_345)).toBe('12.3s');
+      expect(formatDuration(125_000)).toBe('2m 05s');
+    });
+  });
+
+  describe('formatCloneTimings', () => {
+    test('should list the phases that ran', () => {
+      expect(
+        formatCloneTimings({ total: 12_300, cache: 8_100, clone: 3_000, checkout: 1_200 })
+      ).toBe('12.3s (cache 8.1s, clone 3.0s, checkout 1.2s)');
+      expect(formatCloneTimings({ total: 500 })).toBe('500ms');
+    });
+  });
+});